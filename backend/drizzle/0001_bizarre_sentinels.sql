@@ -0,0 +1 @@
+ALTER TABLE `arenas` ADD `seed` text;
\ No newline at end of file
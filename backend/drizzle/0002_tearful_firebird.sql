@@ -0,0 +1,15 @@
+CREATE TABLE `roll_events` (
+	`id` text PRIMARY KEY NOT NULL,
+	`arena_id` text NOT NULL,
+	`sequence` integer NOT NULL,
+	`round` integer DEFAULT 0 NOT NULL,
+	`tool_name` text NOT NULL,
+	`tool_call_id` text,
+	`input` text NOT NULL,
+	`output` text NOT NULL,
+	`is_error` integer DEFAULT false NOT NULL,
+	`created_at` integer NOT NULL,
+	FOREIGN KEY (`arena_id`) REFERENCES `arenas`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `roll_events_arena_sequence_unique` ON `roll_events` (`arena_id`,`sequence`);
\ No newline at end of file
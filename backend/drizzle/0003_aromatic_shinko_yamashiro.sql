@@ -0,0 +1 @@
+ALTER TABLE `arenas` ADD `seed_commitment` text;
\ No newline at end of file
@@ -0,0 +1,10 @@
+CREATE TABLE `monsters` (
+	`slug` text PRIMARY KEY NOT NULL,
+	`name` text NOT NULL,
+	`size` text NOT NULL,
+	`creature_type` text NOT NULL,
+	`challenge_rating` real NOT NULL,
+	`xp` integer NOT NULL,
+	`data` text NOT NULL,
+	`source` text DEFAULT 'SRD 5.1' NOT NULL
+);
@@ -0,0 +1 @@
+ALTER TABLE `arenas` ADD `battlefield` text;
\ No newline at end of file
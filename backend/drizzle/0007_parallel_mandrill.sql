@@ -0,0 +1,3 @@
+DROP INDEX `roll_events_arena_sequence_unique`;--> statement-breakpoint
+ALTER TABLE `roll_events` ADD `run` integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+CREATE UNIQUE INDEX `roll_events_arena_run_sequence_unique` ON `roll_events` (`arena_id`,`run`,`sequence`);
\ No newline at end of file
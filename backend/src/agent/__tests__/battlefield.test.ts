@@ -0,0 +1,388 @@
+import { describe, expect, it } from "vitest";
+import type { Creature } from "../../schemas/index.js";
+import {
+	aimArea,
+	attackPositioning,
+	creaturesInArea,
+	gridDistance,
+	moveAlong,
+	planMove,
+	setBattlefield,
+	spendReaction,
+} from "../battlefield.js";
+import {
+	addCombatant,
+	applyCondition,
+	type CombatState,
+	emptyCombatState,
+	nextTurn,
+	startCombat,
+} from "../combat.js";
+
+function creature(name: string, overrides: Partial<Creature> = {}): Creature {
+	return {
+		id: name.toLowerCase(),
+		name,
+		type: "monster",
+		armorClass: 12,
+		hitPoints: 10,
+		maxHitPoints: 10,
+		abilityScores: {
+			strength: 10,
+			dexterity: 10,
+			constitution: 10,
+			intelligence: 10,
+			wisdom: 10,
+			charisma: 10,
+		},
+		size: "Medium",
+		speed: { walk: 30 },
+		savingThrows: {},
+		skills: {},
+		damageVulnerabilities: [],
+		damageResistances: [],
+		damageImmunities: [],
+		conditionImmunities: [],
+		senses: { passivePerception: 10 },
+		traits: [],
+		attacks: [
+			{ name: "Scimitar", toHitBonus: 4, damageDice: "1d6+2", damageType: "slashing", reach: 5 },
+		],
+		conditions: [],
+		isAlive: true,
+		...overrides,
+	};
+}
+
+const NOW = new Date("2026-01-01T00:00:00Z");
+
+const archer = creature("Archer", {
+	attacks: [
+		{ name: "Dagger", toHitBonus: 4, damageDice: "1d4+2", damageType: "piercing", reach: 5 },
+		{
+			name: "Longbow",
+			toHitBonus: 4,
+			damageDice: "1d8+2",
+			damageType: "piercing",
+			range: "150/600",
+		},
+	],
+});
+
+/** Kargan (party) against the given monsters, Kargan's turn first, on a 10×10 grid. */
+function fight(
+	placements: Array<{ name: string; x: number; y: number }>,
+	...monsters: Creature[]
+): CombatState {
+	const roster = [creature("Kargan"), ...monsters].reduce(addCombatant, emptyCombatState());
+	const started = startCombat(roster, [
+		{ name: "Kargan", initiative: 20, side: "party" },
+		...monsters.map((m, i) => ({ name: m.name, initiative: 10 - i, side: "monsters" })),
+	]);
+	return setBattlefield(started, { width: 10, height: 10, difficultTerrain: [] }, placements, NOW);
+}
+
+describe("gridDistance", () => {
+	it("counts diagonal steps as 5 ft and measures from the nearest squares", () => {
+		const medium = (x: number, y: number) => ({ position: { x, y }, size: "Medium" as const });
+		expect(gridDistance(medium(0, 0), medium(1, 1))).toBe(5);
+		expect(gridDistance(medium(0, 0), medium(3, 6))).toBe(30);
+		expect(gridDistance({ position: { x: 0, y: 0 }, size: "Large" }, medium(3, 1))).toBe(10);
+	});
+});
+
+describe("setBattlefield", () => {
+	it("places combatants and logs the grid", () => {
+		const state = setBattlefield(
+			addCombatant(emptyCombatState(), creature("Kargan")),
+			{ width: 12, height: 8, difficultTerrain: [{ x: 3, y: 3 }] },
+			[{ name: "kargan", x: 2, y: 5 }],
+			NOW,
+		);
+		expect(state.combatants[0].position).toEqual({ x: 2, y: 5 });
+		expect(state.log.at(-1)?.message).toBe(
+			"Battlefield: 12×8 squares (60×40 ft), 1 of difficult terrain",
+		);
+	});
+
+	it("refuses combatants off the grid or on top of each other", () => {
+		const state = [creature("Kargan"), creature("Ogre", { size: "Large" })].reduce(
+			addCombatant,
+			emptyCombatState(),
+		);
+		const grid = { width: 5, height: 5, difficultTerrain: [] };
+		expect(() => setBattlefield(state, grid, [{ name: "Ogre", x: 4, y: 0 }], NOW)).toThrow(
+			"Ogre (Large) doesn't fit at (4, 0) on the 5×5 grid",
+		);
+		expect(() =>
+			setBattlefield(
+				state,
+				grid,
+				[
+					{ name: "Ogre", x: 0, y: 0 },
+					{ name: "Kargan", x: 1, y: 1 },
+				],
+				NOW,
+			),
+		).toThrow("Kargan and Ogre can't share a square");
+	});
+});
+
+describe("attackPositioning", () => {
+	it("is skipped until both combatants are on the battlefield", () => {
+		const state = fight([{ name: "Kargan", x: 0, y: 0 }], creature("Goblin"));
+		expect(attackPositioning(state, "Goblin", "Kargan")).toBeNull();
+	});
+
+	it("refuses a melee attack that doesn't reach", () => {
+		const state = fight(
+			[
+				{ name: "Kargan", x: 0, y: 0 },
+				{ name: "Goblin", x: 3, y: 0 },
+			],
+			creature("Goblin"),
+		);
+		expect(() => attackPositioning(state, "Goblin", "Kargan", "Scimitar")).toThrow(
+			"Kargan is 15 ft from Goblin — out of reach and range of Scimitar (reach 5 ft)",
+		);
+	});
+
+	it("gives ranged attacks disadvantage beyond normal range and next to an enemy", () => {
+		const far = fight(
+			[
+				{ name: "Kargan", x: 0, y: 0 },
+				{ name: "Archer", x: 0, y: 9 },
+			],
+			archer,
+		);
+		expect(attackPositioning(far, "Archer", "Kargan", "Longbow")).toEqual({
+			distance: 45,
+			disadvantage: [],
+		});
+
+		const close = fight(
+			[
+				{ name: "Kargan", x: 0, y: 0 },
+				{ name: "Archer", x: 1, y: 0 },
+			],
+			archer,
+		);
+		expect(attackPositioning(close, "Archer", "Kargan", "Longbow")?.disadvantage).toEqual([
+			"Kargan is within 5 ft of Archer (ranged attack)",
+		]);
+		expect(attackPositioning(close, "Archer", "Kargan", "Dagger")?.disadvantage).toEqual([]);
+		expect(() => attackPositioning(close, "Archer", "Kargan", "Sling")).toThrow(
+			"Archer has no attack named Sling (attacks: Dagger, Longbow)",
+		);
+	});
+
+	it("checks an unnamed attack against the creature's longest reach and range", () => {
+		const sniper = creature("Sniper", {
+			attacks: [
+				{
+					name: "Sling",
+					toHitBonus: 4,
+					damageDice: "1d4",
+					damageType: "bludgeoning",
+					range: "5/10",
+				},
+			],
+		});
+		const state = fight(
+			[
+				{ name: "Kargan", x: 0, y: 0 },
+				{ name: "Sniper", x: 2, y: 0 },
+			],
+			sniper,
+		);
+		expect(attackPositioning(state, "Sniper", "Kargan")?.disadvantage).toEqual([
+			"Kargan is beyond normal range (10 ft, 5 ft normal)",
+		]);
+	});
+});
+
+describe("planMove", () => {
+	it("walks diagonals at 5 ft a square and stops at the creature's speed", () => {
+		const state = fight([{ name: "Kargan", x: 0, y: 0 }], creature("Goblin"));
+		const plan = planMove(state, { name: "Kargan", to: { x: 6, y: 6 } });
+		expect(plan.path).toHaveLength(7);
+		expect(plan.feet.at(-1)).toBe(30);
+		expect(() => planMove(state, { name: "Kargan", to: { x: 7, y: 0 } })).toThrow(
+			"Kargan can't reach (7, 0) with 30 ft of movement left",
+		);
+		expect(planMove(state, { name: "Kargan", to: { x: 7, y: 0 }, dash: true }).speed).toBe(60);
+	});
+
+	it("charges double for difficult terrain and crawling", () => {
+		const state = fight([{ name: "Kargan", x: 0, y: 0 }], creature("Goblin"));
+		const rubble = {
+			...state,
+			battlefield: {
+				width: 10,
+				height: 10,
+				difficultTerrain: [0, 1, 2, 3, 4, 5, 6, 7, 8, 9].map((y) => ({ x: 1, y })),
+			},
+		};
+		expect(planMove(rubble, { name: "Kargan", to: { x: 2, y: 0 } }).feet.at(-1)).toBe(15);
+
+		const prone = applyCondition(
+			state,
+			"Kargan",
+			{ name: "prone", duration: { type: "until-removed" } },
+			NOW,
+		).state;
+		expect(planMove(prone, { name: "Kargan", to: { x: 3, y: 0 } }).feet.at(-1)).toBe(30);
+		const stood = planMove(prone, { name: "Kargan", to: { x: 3, y: 0 }, standUp: true });
+		expect(stood.feet).toEqual([15, 20, 25, 30]);
+		expect(moveAlong(prone, stood, 3, NOW).combatants[0].conditions).toEqual([]);
+	});
+
+	it("only moves the creature whose turn it is, and not while restrained", () => {
+		const state = fight(
+			[
+				{ name: "Kargan", x: 0, y: 0 },
+				{ name: "Goblin", x: 5, y: 5 },
+			],
+			creature("Goblin"),
+		);
+		expect(() => planMove(state, { name: "Goblin", to: { x: 5, y: 6 } })).toThrow(
+			"It's Kargan's turn — Goblin can only move on its own turn",
+		);
+		const restrained = applyCondition(
+			state,
+			"Kargan",
+			{
+				name: "restrained",
+				duration: { type: "until-removed" },
+			},
+			NOW,
+		).state;
+		expect(() => planMove(restrained, { name: "Kargan", to: { x: 1, y: 0 } })).toThrow(
+			"Kargan is restrained and can't move",
+		);
+		expect(() => planMove(state, { name: "Kargan", to: { x: 5, y: 5 } })).toThrow(
+			"Goblin is in the way at (5, 5)",
+		);
+	});
+
+	it("provokes an opportunity attack when leaving an enemy's reach, unless disengaging", () => {
+		const state = fight(
+			[
+				{ name: "Kargan", x: 1, y: 0 },
+				{ name: "Goblin", x: 0, y: 0 },
+			],
+			creature("Goblin"),
+		);
+		const plan = planMove(state, { name: "Kargan", to: { x: 4, y: 0 } });
+		expect(plan.opportunityAttacks).toEqual([
+			{ attacker: "Goblin", attack: state.combatants[1].attacks[0], step: 0, distance: 5 },
+		]);
+		expect(
+			planMove(state, { name: "Kargan", to: { x: 4, y: 0 }, disengage: true }).opportunityAttacks,
+		).toEqual([]);
+		expect(
+			planMove(spendReaction(state, "Goblin"), { name: "Kargan", to: { x: 4, y: 0 } })
+				.opportunityAttacks,
+		).toEqual([]);
+	});
+
+	it("routes around a threat's reach when it costs no extra movement", () => {
+		const state = fight(
+			[
+				{ name: "Kargan", x: 1, y: 1 },
+				{ name: "Goblin", x: 0, y: 1 },
+			],
+			creature("Goblin"),
+		);
+		// Staying beside the goblin on the way costs the same as stepping away at once
+		const plan = planMove(state, { name: "Kargan", to: { x: 1, y: 4 } });
+		expect(plan.feet.at(-1)).toBe(15);
+		expect(plan.opportunityAttacks).toHaveLength(1);
+		expect(plan.opportunityAttacks[0].step).toBe(1);
+	});
+});
+
+describe("moveAlong", () => {
+	it("spends movement for the turn, which next-turn gives back", () => {
+		const state = fight([{ name: "Kargan", x: 0, y: 0 }], creature("Goblin"));
+		const plan = planMove(state, { name: "Kargan", to: { x: 4, y: 0 } });
+		const moved = spendReaction(moveAlong(state, plan, 4, NOW), "Kargan");
+		expect(moved.combatants[0]).toMatchObject({
+			position: { x: 4, y: 0 },
+			movementUsed: 20,
+			reactionUsed: true,
+		});
+		expect(moved.log.at(-1)?.message).toBe("Kargan moves 20 ft to (4, 0)");
+		expect(() => planMove(moved, { name: "Kargan", to: { x: 7, y: 0 } })).toThrow(
+			"with 10 ft of movement left",
+		);
+
+		const nextRound = nextTurn(nextTurn(moved, NOW), NOW);
+		expect(nextRound.combatants[0]).toMatchObject({ movementUsed: 0, reactionUsed: false });
+	});
+});
+
+describe("area effects", () => {
+	/** Kargan at (0, 0) and goblins at the given squares, on a 10×10 grid. */
+	function goblins(...squares: Array<[number, number]>) {
+		const monsters = squares.map((_, i) => creature(`Goblin ${i + 1}`));
+		return fight(
+			[
+				{ name: "Kargan", x: 0, y: 0 },
+				...squares.map(([x, y], i) => ({ name: `Goblin ${i + 1}`, x, y })),
+			],
+			...monsters,
+		);
+	}
+	const caught = (state: CombatState, area: Parameters<typeof aimArea>[1], caster?: string) =>
+		creaturesInArea(state, aimArea(state, area, caster), caster).map((c) => c.name);
+
+	it("catches everyone within a sphere's radius of its center", () => {
+		const state = goblins([4, 4], [6, 6], [8, 4]);
+		expect(caught(state, { shape: "sphere", size: 10, origin: { x: 5, y: 5 } })).toEqual([
+			"Goblin 1",
+			"Goblin 2",
+		]);
+	});
+
+	it("widens a cone as it goes and leaves out the creature it comes from", () => {
+		const state = goblins([1, 0], [3, 1], [3, 3], [5, 0]);
+		const cone = { shape: "cone" as const, size: 15, toward: { x: 5, y: 0 } };
+		expect(caught(state, cone, "Kargan")).toEqual(["Goblin 1", "Goblin 2"]);
+	});
+
+	it("runs a line its full length from beyond its origin square, one square wide", () => {
+		const state = goblins([9, 0], [5, 1]);
+		expect(
+			caught(state, { shape: "line", size: 100, origin: { x: 0, y: 0 }, toward: { x: 1, y: 0 } }),
+		).toEqual(["Goblin 1"]);
+	});
+
+	it("fills a cube from its top-left square and counts any square of a large creature", () => {
+		const ogre = creature("Ogre", { size: "Large" });
+		const state = fight(
+			[
+				{ name: "Kargan", x: 0, y: 0 },
+				{ name: "Ogre", x: 4, y: 4 },
+			],
+			ogre,
+		);
+		expect(caught(state, { shape: "cube", size: 15, origin: { x: 2, y: 2 } })).toEqual(["Ogre"]);
+	});
+
+	it("needs a battlefield, an origin and a direction for cones and lines", () => {
+		const state = goblins([1, 1]);
+		expect(() => caught(state, { shape: "sphere", size: 20 })).toThrow(
+			"Give the sphere's origin square, or the caster it starts from",
+		);
+		expect(() => caught(state, { shape: "line", size: 30 }, "Kargan")).toThrow(
+			"A line needs a toward square, other than its origin, to point at",
+		);
+		expect(() =>
+			caught(
+				{ ...state, battlefield: undefined },
+				{ shape: "sphere", size: 20, origin: { x: 1, y: 1 } },
+			),
+		).toThrow("call set-battlefield first");
+	});
+});
@@ -0,0 +1,198 @@
+import { describe, expect, it } from "vitest";
+import {
+	chooseHitDice,
+	damageExpression,
+	formatChallengeRating,
+	generateStatBlock,
+	MONSTER_STATS_BY_CR,
+	normalizeChallengeRating,
+	statsForChallengeRating,
+} from "../challenge-rating.js";
+import { parseDiceExpression } from "../dice.js";
+import { diceStats } from "../probability.js";
+import { createSeededRandom } from "../rng.js";
+
+/** Expected damage of one round: every listed attack, times the multiattack count. */
+function damagePerRound(stat: ReturnType<typeof generateStatBlock>) {
+	const perHit = diceStats(stat.attacks[0].damageDice).mean;
+	const count = stat.multiattack?.includes("three") ? 3 : stat.multiattack?.includes("two") ? 2 : 1;
+	return perHit * count;
+}
+
+function modifier(score: number) {
+	return Math.floor((score - 10) / 2);
+}
+
+describe("MONSTER_STATS_BY_CR", () => {
+	it("covers CR 0, the fractional CRs and 1-30", () => {
+		expect(MONSTER_STATS_BY_CR.map((r) => r.challengeRating)).toEqual([
+			0,
+			0.125,
+			0.25,
+			0.5,
+			...Array.from({ length: 30 }, (_, i) => i + 1),
+		]);
+	});
+
+	it.each([
+		[0, { proficiencyBonus: 2, armorClass: 13, hitPoints: { min: 1, max: 6 }, attackBonus: 3 }],
+		[
+			0.25,
+			{ proficiencyBonus: 2, armorClass: 13, hitPoints: { min: 36, max: 49 }, attackBonus: 3 },
+		],
+		[3, { proficiencyBonus: 2, armorClass: 13, hitPoints: { min: 101, max: 115 }, attackBonus: 4 }],
+		[5, { proficiencyBonus: 3, armorClass: 15, hitPoints: { min: 131, max: 145 }, attackBonus: 6 }],
+		[
+			10,
+			{ proficiencyBonus: 4, armorClass: 17, hitPoints: { min: 206, max: 220 }, attackBonus: 7 },
+		],
+		[
+			17,
+			{ proficiencyBonus: 6, armorClass: 19, hitPoints: { min: 311, max: 325 }, attackBonus: 10 },
+		],
+		[
+			30,
+			{ proficiencyBonus: 9, armorClass: 19, hitPoints: { min: 806, max: 850 }, attackBonus: 14 },
+		],
+	])("matches the DMG row for CR %s", (cr, expected) => {
+		expect(statsForChallengeRating(cr)).toMatchObject(expected);
+	});
+
+	it("pins damage, save DC and XP", () => {
+		expect(statsForChallengeRating(0.5)).toMatchObject({
+			damagePerRound: { min: 6, max: 8 },
+			saveDC: 13,
+			xp: 100,
+		});
+		expect(statsForChallengeRating(20)).toMatchObject({
+			damagePerRound: { min: 123, max: 140 },
+			saveDC: 19,
+			xp: 25000,
+		});
+	});
+
+	it("has proficiency 2 for every CR up to 4, unlike floor((cr-1)/4)+2", () => {
+		for (const r of MONSTER_STATS_BY_CR.filter((r) => r.challengeRating <= 4)) {
+			expect(r.proficiencyBonus).toBe(2);
+		}
+	});
+});
+
+describe("normalizeChallengeRating / formatChallengeRating", () => {
+	it("accepts printed fractions", () => {
+		expect(normalizeChallengeRating("1/8")).toBe(0.125);
+		expect(normalizeChallengeRating("1/4")).toBe(0.25);
+		expect(normalizeChallengeRating("1/2")).toBe(0.5);
+	});
+
+	it("snaps to the nearest listed CR and clamps the ends", () => {
+		expect(normalizeChallengeRating(0.3)).toBe(0.25);
+		expect(normalizeChallengeRating(7.2)).toBe(7);
+		expect(normalizeChallengeRating(-1)).toBe(0);
+		expect(normalizeChallengeRating(45)).toBe(30);
+	});
+
+	it("rejects garbage", () => {
+		expect(() => normalizeChallengeRating("hard")).toThrow("Invalid challenge rating");
+	});
+
+	it("prints fractions", () => {
+		expect(formatChallengeRating(0.125)).toBe("1/8");
+		expect(formatChallengeRating(0.5)).toBe("1/2");
+		expect(formatChallengeRating(12)).toBe("12");
+	});
+});
+
+describe("chooseHitDice / damageExpression", () => {
+	it("lands hit points in range, as printed average of the hit dice", () => {
+		const hd = chooseHitDice({ min: 71, max: 85 }, 10, 2, 80);
+		expect(hd.notation).toBe(`${hd.count}d10+${hd.count * 2}`);
+		expect(hd.hitPoints).toBe(Math.floor((hd.count * 11) / 2) + hd.count * 2);
+		expect(hd.hitPoints).toBeGreaterThanOrEqual(71);
+		expect(hd.hitPoints).toBeLessThanOrEqual(85);
+	});
+
+	it("picks the dice whose average is closest", () => {
+		expect(damageExpression(4.5, 1)).toEqual({ notation: "1d6+1", average: 4.5 });
+		expect(damageExpression(1, 1)).toEqual({ notation: "1", average: 1 });
+		expect(() => parseDiceExpression(damageExpression(103.5, 5).notation)).not.toThrow();
+	});
+});
+
+describe("generateStatBlock", () => {
+	it.each(
+		MONSTER_STATS_BY_CR.map((r) => [r.challengeRating, r] as const),
+	)("balanced CR %s follows its table row", (cr, row) => {
+		const stat = generateStatBlock({
+			name: "Test",
+			type: "monster",
+			challengeRating: cr,
+			rng: createSeededRandom(`cr-${cr}`),
+		});
+		expect(stat.challengeRating).toBe(cr);
+		expect(stat.armorClass).toBe(row.armorClass);
+		expect(stat.hitPoints).toBeGreaterThanOrEqual(row.hitPoints.min);
+		expect(stat.hitPoints).toBeLessThanOrEqual(row.hitPoints.max);
+		expect(stat.attacks[0].toHitBonus).toBe(row.attackBonus);
+		expect(modifier(stat.abilityScores.strength) + row.proficiencyBonus).toBe(row.attackBonus);
+
+		const dpr = damagePerRound(stat);
+		expect(dpr).toBeGreaterThanOrEqual(row.damagePerRound.min);
+		expect(dpr).toBeLessThanOrEqual(row.damagePerRound.max);
+	});
+
+	it("derives HP from the hit dice and CON", () => {
+		const stat = generateStatBlock({
+			name: "Ogre",
+			type: "monster",
+			challengeRating: 2,
+			size: "Large",
+			rng: createSeededRandom("ogre"),
+		});
+		const [count, bonus] = stat.hitDice.split(/d10\+?/).map(Number);
+		expect(bonus).toBe(count * modifier(stat.abilityScores.constitution));
+		expect(stat.hitPoints).toBe(Math.floor((count * 11) / 2) + bonus);
+	});
+
+	it("defensive creatures trade offense for AC and HP", () => {
+		const options = { name: "Golem", type: "monster" as const, challengeRating: 5 };
+		const defensive = generateStatBlock({ ...options, archetype: "defensive" });
+		const offensive = generateStatBlock({ ...options, archetype: "offensive" });
+
+		expect(defensive.armorClass).toBe(statsForChallengeRating(6).armorClass);
+		expect(defensive.hitPoints).toBeGreaterThanOrEqual(statsForChallengeRating(6).hitPoints.min);
+		expect(defensive.attacks[0].toHitBonus).toBe(statsForChallengeRating(4).attackBonus);
+
+		expect(offensive.armorClass).toBe(statsForChallengeRating(4).armorClass);
+		expect(offensive.hitPoints).toBeLessThanOrEqual(statsForChallengeRating(4).hitPoints.max);
+		expect(offensive.attacks[0].toHitBonus).toBe(statsForChallengeRating(6).attackBonus);
+		expect(damagePerRound(offensive)).toBeGreaterThan(damagePerRound(defensive));
+	});
+
+	it("fills in size, saves, perception and senses", () => {
+		const low = generateStatBlock({ name: "Wolf", type: "monster", challengeRating: 1 });
+		expect(low.size).toBe("Medium");
+		expect(low.savingThrows).toEqual({});
+		expect(low.skills.perception).toBe(modifier(low.abilityScores.wisdom) + 2);
+		expect(low.senses.passivePerception).toBe(10 + low.skills.perception);
+
+		const high = generateStatBlock({ name: "Giant", type: "monster", challengeRating: 9 });
+		const saves = Object.entries(high.savingThrows);
+		expect(saves).toHaveLength(2);
+		for (const [ability, bonus] of saves) {
+			const score = high.abilityScores[ability as keyof typeof high.abilityScores];
+			expect(bonus).toBe(modifier(score) + 4);
+		}
+
+		const knight = generateStatBlock({ name: "Knight", type: "npc", challengeRating: 3 });
+		expect(knight.skills).toEqual({});
+	});
+
+	it("splits big damage across a multiattack", () => {
+		const stat = generateStatBlock({ name: "Dragon", type: "monster", challengeRating: 17 });
+		expect(stat.multiattack).toBe("Makes three Claw attacks.");
+		expect(
+			generateStatBlock({ name: "Rat", type: "monster", challengeRating: 0 }).multiattack,
+		).toBeUndefined();
+	});
+});
@@ -0,0 +1,266 @@
+import { describe, expect, it } from "vitest";
+import { CLASSES } from "../../compendium/classes.js";
+import {
+	type BuildCharacterRequest,
+	buildCharacterRequestSchema,
+	characterClassSchema,
+	creatureSchema,
+} from "../../schemas/index.js";
+import { parseAttackDamage } from "../attack.js";
+import { buildCharacter, proficiencyBonusForLevel } from "../characters.js";
+import { createSeededRandom } from "../rng.js";
+
+function build(request: Partial<BuildCharacterRequest> & Pick<BuildCharacterRequest, "className">) {
+	return buildCharacter(
+		buildCharacterRequestSchema.parse({ name: "Hero", race: "human", level: 1, ...request }),
+		createSeededRandom("characters"),
+	);
+}
+
+describe("proficiencyBonusForLevel", () => {
+	it.each([
+		[1, 2],
+		[4, 2],
+		[5, 3],
+		[9, 4],
+		[13, 5],
+		[17, 6],
+		[20, 6],
+	])("level %i has +%i", (level, bonus) => {
+		expect(proficiencyBonusForLevel(level)).toBe(bonus);
+	});
+});
+
+describe("buildCharacter", () => {
+	it("builds a level 1 human fighter from the standard array and starting kit", () => {
+		const { creature, character } = build({ className: "fighter" });
+
+		expect(creature.type).toBe("player");
+		expect(creature.abilityScores).toEqual({
+			strength: 16,
+			dexterity: 14,
+			constitution: 15,
+			intelligence: 9,
+			wisdom: 13,
+			charisma: 11,
+		});
+		expect(creature.hitPoints).toBe(12);
+		expect(creature.hitDice).toBe("1d10");
+		// Chain mail 16 + shield 2
+		expect(creature.armorClass).toBe(18);
+		expect(creature.attacks).toEqual([
+			// Dueling adds +2 damage to the one-handed longsword
+			{
+				name: "Longsword",
+				toHitBonus: 5,
+				damageDice: "1d8+5",
+				damageType: "slashing",
+				reach: 5,
+			},
+			{
+				name: "Light Crossbow",
+				toHitBonus: 4,
+				damageDice: "1d8+2",
+				damageType: "piercing",
+				range: "80/320",
+			},
+		]);
+		expect(creature.savingThrows).toEqual({ strength: 5, constitution: 4 });
+		expect(creature.multiattack).toBeUndefined();
+		expect(character.subclass).toBeUndefined();
+		expect(character.proficiencyBonus).toBe(2);
+	});
+
+	it.each([
+		[4, undefined],
+		[5, "two"],
+		[11, "three"],
+		[20, "four"],
+	])("gives a level %i fighter Extra Attack (%s)", (level, count) => {
+		const { creature } = build({ className: "fighter", level });
+		if (count) expect(creature.multiattack).toContain(`Makes ${count} weapon attacks`);
+		else expect(creature.multiattack).toBeUndefined();
+	});
+
+	it("scales Sneak Attack with rogue level", () => {
+		const sneakAttack = (level: number) =>
+			build({ className: "rogue", level }).creature.traits.find((t) => t.name === "Sneak Attack")
+				?.description;
+		expect(sneakAttack(1)).toContain("+1d6");
+		expect(sneakAttack(5)).toContain("+3d6");
+		expect(sneakAttack(20)).toContain("+10d6");
+	});
+
+	it("applies hill dwarf hit points and poison resistance", () => {
+		const { creature } = build({ className: "fighter", race: "dwarf", level: 3 });
+		// CON 14 + 2 = 16 (+3): 10 + 3 + 1 at 1st level, then 6 + 3 + 1 per level
+		expect(creature.hitPoints).toBe(34);
+		expect(creature.damageResistances).toEqual(["poison"]);
+		expect(creature.speed.walk).toBe(25);
+		expect(creature.senses.darkvision).toBe(60);
+	});
+
+	it("uses Unarmored Defense for barbarians and monks", () => {
+		expect(build({ className: "barbarian" }).creature.armorClass).toBe(14);
+
+		const monk = build({ className: "monk", level: 2 }).creature;
+		expect(monk.armorClass).toBe(15);
+		expect(monk.speed.walk).toBe(40);
+		expect(monk.attacks).toEqual([
+			{
+				name: "Shortsword",
+				toHitBonus: 5,
+				damageDice: "1d6+3",
+				damageType: "piercing",
+				reach: 5,
+			},
+			{
+				name: "Unarmed Strike",
+				toHitBonus: 5,
+				damageDice: "1d4+3",
+				damageType: "bludgeoning",
+				reach: 5,
+			},
+		]);
+	});
+
+	it("honors an equipment override", () => {
+		const { creature, character } = build({
+			className: "fighter",
+			equipment: { armor: "plate", shield: false, weapons: ["greatsword"] },
+		});
+		expect(creature.armorClass).toBe(18);
+		expect(character.shield).toBe(false);
+		// Dueling doesn't apply to a two-handed weapon
+		expect(creature.attacks).toEqual([
+			{
+				name: "Greatsword",
+				toHitBonus: 5,
+				damageDice: "2d6+3",
+				damageType: "slashing",
+				reach: 5,
+			},
+		]);
+	});
+
+	it("scales cantrips and adds class damage bonuses to spell attacks", () => {
+		// INT 15 + 1 (human) + 2 (4th-level ASI) = 18 (+4), proficiency +3
+		expect(build({ className: "wizard", level: 5 }).creature.attacks[0]).toEqual({
+			name: "Fire Bolt",
+			toHitBonus: 7,
+			damageDice: "2d10",
+			damageType: "fire",
+			range: "120",
+		});
+		// Empowered Evocation adds INT 20 (+5)
+		expect(build({ className: "wizard", level: 10 }).creature.attacks[0].damageDice).toBe("2d10+5");
+
+		const warlock = build({ className: "warlock", level: 5 }).creature;
+		expect(warlock.attacks[0].damageDice).toBe("1d10+4");
+		expect(warlock.multiattack).toContain("two beams");
+	});
+
+	it("adds Improved Divine Smite and Aura of Protection for paladins", () => {
+		const { creature } = build({ className: "paladin", level: 11 });
+		expect(creature.attacks[0].damageDice).toMatch(/ slashing \+ 1d8 radiant$/);
+		expect(creature.attacks[0].damageType).toBe("slashing");
+		expect(Object.keys(creature.savingThrows)).toHaveLength(6);
+	});
+
+	it("reports spellcasting for casters", () => {
+		const { character, creature } = build({ className: "cleric", level: 5 });
+		// WIS 15 + 1 (human) + 2 (4th-level ASI) = 18 (+4), proficiency +3
+		expect(character.spellcasting).toEqual({ ability: "wisdom", saveDC: 15, attackBonus: 7 });
+		expect(creature.traits.some((t) => t.name === "Spellcasting")).toBe(true);
+		expect(build({ className: "paladin" }).character.spellcasting).toBeUndefined();
+	});
+
+	it("tracks spell slots and the class's catalog spells on the stat block", () => {
+		const { creature } = build({ className: "cleric", level: 5 });
+		expect(creature.spellcasting).toMatchObject({ ability: "wisdom", saveDC: 15, casterLevel: 5 });
+		expect(creature.spellcasting?.slots.map((s) => [s.level, s.max, s.remaining])).toEqual([
+			[1, 4, 4],
+			[2, 3, 3],
+			[3, 2, 2],
+		]);
+		expect(creature.spellcasting?.spells).toEqual(
+			expect.arrayContaining(["sacred-flame", "cure-wounds", "spirit-guardians"]),
+		);
+		expect(creature.spellcasting?.spells).not.toContain("mass-cure-wounds");
+
+		expect(build({ className: "warlock", level: 5 }).creature.spellcasting?.slots).toEqual([
+			{ level: 3, max: 2, remaining: 2 },
+		]);
+		expect(build({ className: "paladin", level: 5 }).creature.spellcasting?.slots).toEqual([
+			{ level: 1, max: 4, remaining: 4 },
+			{ level: 2, max: 2, remaining: 2 },
+		]);
+		expect(build({ className: "fighter", level: 5 }).creature.spellcasting).toBeUndefined();
+	});
+
+	it("rolls 4d6 drop lowest reproducibly", () => {
+		const first = build({ className: "rogue", abilityMethod: "roll" }).character;
+		const second = build({ className: "rogue", abilityMethod: "roll" }).character;
+
+		expect(first.abilityRolls).toHaveLength(6);
+		expect(first).toEqual(second);
+		const totals = (first.abilityRolls ?? []).map((rolls) =>
+			[...rolls]
+				.sort((a, b) => b - a)
+				.slice(0, 3)
+				.reduce((sum, roll) => sum + roll, 0),
+		);
+		expect(Object.values(first.baseAbilityScores).sort()).toEqual(totals.sort());
+		// Highest roll goes to the rogue's first priority, DEX
+		expect(first.baseAbilityScores.dexterity).toBe(Math.max(...totals));
+	});
+
+	it("validates standard array and point-buy scores", () => {
+		const scores = {
+			strength: 15,
+			dexterity: 15,
+			constitution: 15,
+			intelligence: 15,
+			wisdom: 8,
+			charisma: 8,
+		};
+		expect(() => build({ className: "fighter", abilityScores: scores })).toThrow(/Standard array/);
+		expect(() =>
+			build({ className: "fighter", abilityMethod: "point-buy", abilityScores: scores }),
+		).toThrow(/cost 36 points/);
+
+		const { character } = build({
+			className: "fighter",
+			abilityMethod: "point-buy",
+			abilityScores: { ...scores, constitution: 13, intelligence: 8, wisdom: 12 },
+		});
+		expect(character.baseAbilityScores.wisdom).toBe(12);
+	});
+
+	it("resolves subclasses by short name once unlocked", () => {
+		expect(build({ className: "fighter", level: 3, subclass: "champion" }).character.subclass).toBe(
+			"Champion",
+		);
+		expect(
+			build({ className: "barbarian", level: 3, subclass: "Berserker" }).character.subclass,
+		).toBe("Path of the Berserker");
+		expect(() => build({ className: "fighter", level: 3, subclass: "Battle Master" })).toThrow(
+			/available: Champion/,
+		);
+		expect(() => build({ className: "fighter", level: 2, subclass: "Champion" })).toThrow(
+			/level 3/,
+		);
+	});
+
+	it.each(characterClassSchema.options)("builds a valid %s at every level", (className) => {
+		for (let level = 1; level <= 20; level++) {
+			const { creature, character } = build({ className, level });
+			expect(() => creatureSchema.parse(creature)).not.toThrow();
+			for (const attack of creature.attacks) {
+				expect(() => parseAttackDamage(attack)).not.toThrow();
+			}
+			expect(creature.hitDice).toBe(`${level}d${CLASSES[className].hitDie}`);
+			expect(character.features.every((f) => f.level <= level)).toBe(true);
+		}
+	});
+});
@@ -0,0 +1,610 @@
+import { describe, expect, it } from "vitest";
+import type { Creature } from "../../schemas/index.js";
+import {
+	addCombatant,
+	applyCondition,
+	applyDamage,
+	applyHealing,
+	type CombatState,
+	combatOutcome,
+	createCombatTracker,
+	emptyCombatState,
+	nextTurn,
+	removeCondition,
+	rollDeathSave,
+	rollInitiative,
+	startCombat,
+	summarizeCombat,
+} from "../combat.js";
+import type { RandomSource } from "../rng.js";
+
+function creature(name: string, dexterity = 10, overrides: Partial<Creature> = {}): Creature {
+	return {
+		id: name.toLowerCase(),
+		name,
+		type: "monster",
+		armorClass: 12,
+		hitPoints: 10,
+		maxHitPoints: 10,
+		abilityScores: {
+			strength: 10,
+			dexterity,
+			constitution: 10,
+			intelligence: 10,
+			wisdom: 10,
+			charisma: 10,
+		},
+		size: "Medium",
+		speed: { walk: 30 },
+		savingThrows: {},
+		skills: {},
+		damageVulnerabilities: [],
+		damageResistances: [],
+		damageImmunities: [],
+		conditionImmunities: [],
+		senses: { passivePerception: 10 },
+		traits: [],
+		attacks: [],
+		conditions: [],
+		isAlive: true,
+		...overrides,
+	};
+}
+
+function roster(...creatures: Creature[]): CombatState {
+	return creatures.reduce(addCombatant, emptyCombatState());
+}
+
+const NOW = new Date("2026-01-01T00:00:00Z");
+
+describe("addCombatant", () => {
+	it("builds the setup roster, replacing a same-named stat block", () => {
+		const state = roster(creature("Goblin 1"), creature("Kargan"), creature("goblin 1", 16));
+		expect(state.combatants.map((c) => c.name)).toEqual(["Kargan", "goblin 1"]);
+		expect(state.round).toBe(0);
+	});
+
+	it("leaves the roster alone once combat has started", () => {
+		const started = startCombat(
+			roster(creature("A"), creature("B")),
+			[
+				{ name: "A", initiative: 10, side: "party" },
+				{ name: "B", initiative: 5, side: "monsters" },
+			],
+			NOW,
+		);
+		expect(addCombatant(started, creature("C"))).toBe(started);
+	});
+});
+
+describe("startCombat", () => {
+	const setup = roster(
+		creature("Kargan", 12),
+		creature("Goblin 1", 14),
+		creature("Goblin 2", 14),
+		creature("Bystander"),
+	);
+
+	it("orders by initiative, breaking ties by DEX then by the order given", () => {
+		const state = startCombat(
+			setup,
+			[
+				{ name: "Goblin 2", initiative: 15, side: "monsters" },
+				{ name: "kargan", initiative: 15, side: "party" },
+				{ name: "Goblin 1", initiative: 15, side: "monsters" },
+			],
+			NOW,
+		);
+		expect(state.combatants.map((c) => c.name)).toEqual(["Goblin 2", "Goblin 1", "Kargan"]);
+		expect(state.combatants.map((c) => c.side)).toEqual(["monsters", "monsters", "party"]);
+		expect(state.round).toBe(1);
+		expect(state.turnIndex).toBe(0);
+		expect(state.log.map((e) => e.message)).toEqual([
+			"Initiative order: Goblin 2 (15), Goblin 1 (15), Kargan (15)",
+			"Round 1 begins",
+			"Goblin 2's turn",
+		]);
+		expect(state.log[0]).toEqual({
+			round: 1,
+			message: expect.any(String),
+			timestamp: NOW.toISOString(),
+		});
+	});
+
+	it("drops roster entries that aren't in the initiative list", () => {
+		const state = startCombat(setup, [
+			{ name: "Kargan", initiative: 12, side: "party" },
+			{ name: "Goblin 1", initiative: 8, side: "monsters" },
+		]);
+		expect(state.combatants.map((c) => c.name)).toEqual(["Kargan", "Goblin 1"]);
+	});
+
+	it("rejects unknown, duplicate and too few combatants", () => {
+		expect(() =>
+			startCombat(setup, [
+				{ name: "Kargan", initiative: 12, side: "party" },
+				{ name: "Orc", initiative: 8, side: "monsters" },
+			]),
+		).toThrow(
+			"No stat block for Orc — create one first (roster: Kargan, Goblin 1, Goblin 2, Bystander)",
+		);
+		expect(() =>
+			startCombat(setup, [
+				{ name: "Kargan", initiative: 12, side: "party" },
+				{ name: "KARGAN", initiative: 8, side: "party" },
+			]),
+		).toThrow("KARGAN is listed more than once");
+		expect(() => startCombat(setup, [{ name: "Kargan", initiative: 12, side: "party" }])).toThrow(
+			"at least two",
+		);
+	});
+
+	it("can only start once", () => {
+		const state = startCombat(setup, [
+			{ name: "Kargan", initiative: 12, side: "party" },
+			{ name: "Goblin 1", initiative: 8, side: "monsters" },
+		]);
+		expect(() =>
+			startCombat(state, [
+				{ name: "Kargan", initiative: 12, side: "party" },
+				{ name: "Goblin 1", initiative: 8, side: "monsters" },
+			]),
+		).toThrow("already started");
+	});
+});
+
+describe("rollInitiative", () => {
+	/** Random source that rolls the given d20 faces in order. */
+	function d20s(...faces: number[]): RandomSource {
+		let i = 0;
+		return () => (faces[i++] - 1) / 20;
+	}
+
+	const setup = roster(creature("Rogue", 18), creature("Ogre", 8), creature("Wolf", 15));
+
+	it("adds DEX modifiers and bonuses, keeps the higher die with advantage, and starts combat", () => {
+		const { state, order } = rollInitiative(
+			setup,
+			[
+				{ name: "ogre", side: "monsters" },
+				{ name: "Rogue", side: "party", bonus: 5 },
+				{ name: "Wolf", side: "monsters", advantage: true },
+			],
+			() => d20s(12, 3, 4, 9),
+			NOW,
+		);
+		expect(order).toEqual([
+			{ name: "Rogue", side: "party", dexterity: 18, modifier: 9, rolls: [3], initiative: 12 },
+			{ name: "Wolf", side: "monsters", dexterity: 15, modifier: 2, rolls: [4, 9], initiative: 11 },
+			{ name: "Ogre", side: "monsters", dexterity: 8, modifier: -1, rolls: [12], initiative: 11 },
+		]);
+		expect(state.round).toBe(1);
+		expect(state.combatants.map((c) => [c.name, c.initiative])).toEqual([
+			["Rogue", 12],
+			["Wolf", 11],
+			["Ogre", 11],
+		]);
+	});
+
+	it("checks the roster before rolling any dice", () => {
+		let drawn = false;
+		const rng = () => {
+			drawn = true;
+			return d20s(10, 10);
+		};
+		expect(() =>
+			rollInitiative(
+				setup,
+				[
+					{ name: "Rogue", side: "party" },
+					{ name: "Troll", side: "monsters" },
+				],
+				rng,
+			),
+		).toThrow("No stat block for Troll");
+		expect(drawn).toBe(false);
+	});
+});
+
+describe("nextTurn", () => {
+	function fight() {
+		return startCombat(
+			roster(creature("Kargan"), creature("Goblin 1"), creature("Goblin 2")),
+			[
+				{ name: "Kargan", initiative: 18, side: "party" },
+				{ name: "Goblin 1", initiative: 12, side: "monsters" },
+				{ name: "Goblin 2", initiative: 6, side: "monsters" },
+			],
+			NOW,
+		);
+	}
+
+	it("advances through the order and wraps into a new round", () => {
+		let state = fight();
+		state = nextTurn(state, NOW);
+		expect(summarizeCombat(state).currentTurn).toBe("Goblin 1");
+		state = nextTurn(nextTurn(state, NOW), NOW);
+		expect(state.round).toBe(2);
+		expect(state.turnIndex).toBe(0);
+		expect(state.log.slice(-2).map((e) => e.message)).toEqual(["Round 2 begins", "Kargan's turn"]);
+		expect(state.log.at(-1)?.round).toBe(2);
+	});
+
+	it("skips defeated combatants", () => {
+		const state = fight();
+		state.combatants[1] = { ...state.combatants[1], hitPoints: 0, isAlive: false };
+		expect(summarizeCombat(nextTurn(state, NOW)).currentTurn).toBe("Goblin 2");
+	});
+
+	it("refuses to advance before the start or after one side is down", () => {
+		expect(() => nextTurn(emptyCombatState())).toThrow("call start-combat first");
+
+		const state = fight();
+		state.combatants[1] = { ...state.combatants[1], isAlive: false };
+		state.combatants[2] = { ...state.combatants[2], isAlive: false };
+		expect(combatOutcome(state)).toEqual({ status: "ended", winner: "party" });
+		expect(() => nextTurn(state)).toThrow("Combat is over — party won");
+	});
+});
+
+describe("applyCondition", () => {
+	function duel() {
+		return startCombat(
+			roster(creature("Kargan"), creature("Ghoul", 10, { conditionImmunities: ["poisoned"] })),
+			[
+				{ name: "Kargan", initiative: 15, side: "party" },
+				{ name: "Ghoul", initiative: 10, side: "monsters" },
+			],
+			NOW,
+		);
+	}
+
+	it("adds the condition and logs it", () => {
+		const {
+			state,
+			creature: target,
+			applied,
+		} = applyCondition(
+			duel(),
+			"ghoul",
+			{ name: "prone", source: "Shove", duration: { type: "until-removed" } },
+			NOW,
+		);
+		expect(applied).toBe(true);
+		expect(target.conditions.map((c) => c.name)).toEqual(["prone"]);
+		expect(summarizeCombat(state).combatants[1].conditions).toEqual(["prone (Shove)"]);
+		expect(state.log.at(-1)?.message).toContain("Ghoul is prone");
+	});
+
+	it("leaves immune creatures unaffected", () => {
+		const before = duel();
+		const result = applyCondition(before, "Ghoul", {
+			name: "poisoned",
+			duration: { type: "until-removed" },
+		});
+		expect(result).toMatchObject({ state: before, applied: false });
+		expect(result.message).toBe("Ghoul is immune to being poisoned");
+	});
+
+	it("expires timed conditions as turns pass", () => {
+		let state = applyCondition(duel(), "Ghoul", {
+			name: "stunned",
+			duration: { type: "end-of-next-turn", creature: "kargan" },
+		}).state;
+		state = applyCondition(state, "Kargan", {
+			name: "poisoned",
+			duration: { type: "rounds", rounds: 1 },
+		}).state;
+
+		// Kargan's turn ends: its 1-round poison runs out; the stun waits for Kargan's next turn
+		state = nextTurn(state, NOW);
+		expect(state.combatants[0].conditions).toEqual([]);
+		expect(state.combatants[1].conditions.map((c) => c.name)).toEqual(["stunned"]);
+		expect(state.log.map((e) => e.message)).toContain("Kargan is no longer poisoned");
+
+		state = nextTurn(nextTurn(state, NOW), NOW);
+		expect(state.combatants[1].conditions).toEqual([]);
+	});
+
+	it("removes a condition on request", () => {
+		const { state } = applyCondition(duel(), "Kargan", {
+			name: "grappled",
+			duration: { type: "until-removed" },
+		});
+		const removed = removeCondition(state, "Kargan", "grappled", NOW);
+		expect(removed).toMatchObject({ applied: true, message: "Kargan is no longer grappled" });
+		expect(removed.creature.conditions).toEqual([]);
+		expect(removeCondition(removed.state, "Kargan", "grappled").applied).toBe(false);
+	});
+});
+
+describe("applyDamage", () => {
+	function duel() {
+		return startCombat(
+			roster(creature("Kargan"), creature("Ogre")),
+			[
+				{ name: "Kargan", initiative: 15, side: "party" },
+				{ name: "Ogre", initiative: 5, side: "monsters" },
+			],
+			NOW,
+		);
+	}
+
+	it("subtracts damage, stops at 0 and marks the target defeated", () => {
+		const hit = applyDamage(duel(), "ogre", 4, {}, NOW);
+		expect(hit.creature).toMatchObject({ name: "Ogre", hitPoints: 6, isAlive: true });
+		expect(hit.state.log.at(-1)?.message).toBe("Ogre takes 4 damage (10 → 6 HP)");
+
+		const kill = applyDamage(hit.state, "Ogre", 20, {}, NOW);
+		expect(kill.change).toEqual({
+			name: "Ogre",
+			kind: "damage",
+			amount: 20,
+			previousHitPoints: 6,
+			hitPoints: 0,
+			maxHitPoints: 10,
+			previousTemporaryHitPoints: 0,
+			temporaryHitPoints: 0,
+			isAlive: false,
+		});
+		expect(kill.state.log.at(-1)?.message).toBe("Ogre takes 20 damage (6 → 0 HP) and falls");
+		expect(combatOutcome(kill.state)).toEqual({ status: "ended", winner: "party" });
+	});
+
+	it("drains temporary hit points first", () => {
+		const shielded = applyHealing(duel(), "Kargan", 5, { temporary: true }, NOW).state;
+		const partial = applyDamage(shielded, "Kargan", 3, {}, NOW);
+		expect(partial.change).toMatchObject({ hitPoints: 10, temporaryHitPoints: 2 });
+
+		const through = applyDamage(partial.state, "Kargan", 6, {}, NOW);
+		expect(through.change).toMatchObject({ hitPoints: 6, temporaryHitPoints: 0 });
+		expect(through.state.log.at(-1)?.message).toBe(
+			"Kargan takes 6 damage (10 → 6 HP, 2 absorbed by temporary HP)",
+		);
+	});
+
+	it("doesn't touch the input state and rejects unknown targets", () => {
+		const state = duel();
+		applyDamage(state, "Ogre", 5, {}, NOW);
+		expect(state.combatants[1].hitPoints).toBe(10);
+		expect(() => applyDamage(state, "Troll", 5)).toThrow(
+			"No combatant named Troll (combatants: Kargan, Ogre)",
+		);
+	});
+});
+
+describe("applyHealing", () => {
+	const wounded = applyDamage(
+		roster(creature("Kargan"), creature("Ogre")),
+		"Kargan",
+		10,
+		{},
+		NOW,
+	).state;
+
+	it("heals up to the maximum and brings a downed combatant back", () => {
+		const healed = applyHealing(wounded, "Kargan", 4, {}, NOW);
+		expect(healed.creature).toMatchObject({ hitPoints: 4, isAlive: true });
+		expect(healed.state.log.at(-1)?.message).toBe(
+			"Kargan regains 4 HP (0 → 4 HP) and is back in the fight",
+		);
+
+		const topped = applyHealing(healed.state, "Kargan", 50, {}, NOW);
+		expect(topped.change).toMatchObject({ kind: "healing", amount: 50, hitPoints: 10 });
+		expect(topped.state.log.at(-1)?.message).toBe("Kargan regains 6 HP (4 → 10 HP)");
+	});
+
+	it("keeps the larger pool of temporary hit points instead of stacking", () => {
+		const first = applyHealing(wounded, "Ogre", 8, { temporary: true }, NOW);
+		const second = applyHealing(first.state, "Ogre", 5, { temporary: true }, NOW);
+		expect(second.change).toMatchObject({
+			kind: "temporary",
+			previousTemporaryHitPoints: 8,
+			temporaryHitPoints: 8,
+			hitPoints: 10,
+		});
+	});
+});
+
+describe("death saves", () => {
+	/** Random source that rolls the given d20 faces in order. */
+	function d20s(...faces: number[]): () => RandomSource {
+		let i = 0;
+		return () => () => (faces[i++] - 1) / 20;
+	}
+
+	function noDice(): RandomSource {
+		throw new Error("no dice expected");
+	}
+
+	const player = (name: string) =>
+		creature(name, 10, { type: "player", hitPoints: 12, maxHitPoints: 12 });
+	const party = startCombat(
+		roster(player("Kargan"), player("Mira"), creature("Ogre")),
+		[
+			{ name: "Kargan", initiative: 15, side: "party" },
+			{ name: "Mira", initiative: 10, side: "party" },
+			{ name: "Ogre", initiative: 5, side: "monsters" },
+		],
+		NOW,
+	);
+	const down = applyDamage(party, "Kargan", 15, {}, NOW).state;
+
+	it("knocks a player character unconscious at 0 HP instead of killing it", () => {
+		expect(down.combatants[0]).toMatchObject({
+			hitPoints: 0,
+			isAlive: true,
+			deathSaves: { successes: 0, failures: 0, stable: false },
+			conditions: [
+				{ name: "unconscious", source: "0 hit points", duration: { type: "until-removed" } },
+			],
+		});
+		expect(down.log.at(-1)?.message).toBe(
+			"Kargan takes 15 damage (12 → 0 HP) and falls unconscious",
+		);
+		expect(combatOutcome(down).status).toBe("active");
+
+		const wiped = applyDamage(down, "Mira", 12, {}, NOW).state;
+		expect(combatOutcome(wiped)).toEqual({ status: "ended", winner: "monsters" });
+	});
+
+	it("counts damage while down as failed death saves, two for a critical hit", () => {
+		const crit = applyDamage(down, "Kargan", 3, { critical: true }, NOW);
+		expect(crit.creature).toMatchObject({ isAlive: true, deathSaves: { failures: 2 } });
+		expect(crit.state.log.at(-1)?.message).toBe(
+			"Kargan takes 3 damage (0 → 0 HP) while down (2 death save failures)",
+		);
+
+		const killed = applyDamage(crit.state, "Kargan", 1, {}, NOW);
+		expect(killed.change.isAlive).toBe(false);
+		expect(killed.state.log.at(-1)?.message).toBe("Kargan takes 1 damage (0 → 0 HP) and dies");
+	});
+
+	it("kills outright when the damage left over reaches the hit point maximum", () => {
+		const { creature: dead, state } = applyDamage(party, "Kargan", 24, {}, NOW);
+		expect(dead).toMatchObject({ hitPoints: 0, isAlive: false, conditions: [] });
+		expect(state.log.at(-1)?.message).toBe(
+			"Kargan takes 24 damage (12 → 0 HP) and is killed outright by massive damage",
+		);
+	});
+
+	it("wakes a dying character up when healed, but can't heal the dead", () => {
+		const healed = applyHealing(down, "Kargan", 5, {}, NOW);
+		expect(healed.creature).toMatchObject({ hitPoints: 5, isAlive: true, conditions: [] });
+		expect(healed.creature.deathSaves).toBeUndefined();
+
+		const dead = applyDamage(party, "Kargan", 24, {}, NOW).state;
+		expect(() => applyHealing(dead, "Kargan", 5, {}, NOW)).toThrow(
+			"Kargan is dead — healing can't bring them back",
+		);
+	});
+
+	it("counts a natural 1 as two failures and brings the character back on a natural 20", () => {
+		const success = rollDeathSave(down, "Kargan", d20s(12), NOW);
+		expect(success.result).toMatchObject({
+			roll: 12,
+			deathSaves: { successes: 1, failures: 0, stable: false },
+			narrative: "💀 Kargan's death saving throw: 12 — success (1 success, 0 failures)",
+		});
+
+		const fumble = rollDeathSave(success.state, "Kargan", d20s(1), NOW);
+		expect(fumble.creature.deathSaves).toEqual({ successes: 1, failures: 2, stable: false });
+		expect(fumble.state.log.at(-1)?.message).toBe(
+			"Kargan's death saving throw: natural 1 — two failures (1 success, 2 failures)",
+		);
+
+		const revived = rollDeathSave(fumble.state, "Kargan", d20s(20), NOW);
+		expect(revived.result).toMatchObject({ revived: true, deathSaves: null });
+		expect(revived.creature).toMatchObject({ hitPoints: 1, isAlive: true, conditions: [] });
+		expect(revived.creature.deathSaves).toBeUndefined();
+
+		const dead = rollDeathSave(fumble.state, "Kargan", d20s(4), NOW);
+		expect(dead.creature.isAlive).toBe(false);
+		expect(dead.result.narrative).toBe(
+			"💀 Kargan's death saving throw: 4 — failure (1 success, 3 failures) — Kargan dies",
+		);
+	});
+
+	it("stabilizes on three successes and skips a stable character's turns", () => {
+		let state = down;
+		for (const face of [10, 15, 19]) {
+			state = rollDeathSave(state, "Kargan", d20s(face), NOW).state;
+		}
+		expect(state.combatants[0].deathSaves).toEqual({ successes: 0, failures: 0, stable: true });
+		expect(state.log.at(-1)?.message).toBe(
+			"Kargan's death saving throw: 19 — success (3 successes, 0 failures) — Kargan is stable",
+		);
+		expect(() => rollDeathSave(state, "Kargan", noDice, NOW)).toThrow(
+			"Kargan is stable and doesn't roll death saves",
+		);
+
+		state = nextTurn(nextTurn(nextTurn(state, NOW), NOW), NOW);
+		expect(state).toMatchObject({ round: 2, turnIndex: 1 });
+	});
+
+	it("only rolls for dying player characters", () => {
+		expect(() => rollDeathSave(down, "Ogre", noDice, NOW)).toThrow(
+			"Only player characters make death saving throws, not Ogre",
+		);
+		expect(() => rollDeathSave(down, "Mira", noDice, NOW)).toThrow("Mira isn't dying (12 HP)");
+	});
+});
+
+describe("summarizeCombat", () => {
+	it("reports the setup roster before combat starts", () => {
+		const summary = summarizeCombat(roster(creature("Kargan")));
+		expect(summary).toMatchObject({
+			status: "setup",
+			round: 0,
+			currentTurn: null,
+			winner: null,
+			battlefield: null,
+		});
+		expect(summary.combatants[0]).toEqual({
+			name: "Kargan",
+			side: null,
+			initiative: null,
+			hitPoints: 10,
+			maxHitPoints: 10,
+			temporaryHitPoints: 0,
+			armorClass: 12,
+			conditions: [],
+			concentration: null,
+			spellSlots: null,
+			deathSaves: null,
+			position: null,
+			legendaryActions: null,
+			legendaryResistance: null,
+			lairActionAvailable: null,
+			recharging: [],
+			reactionUsed: false,
+			shielded: false,
+			isAlive: true,
+		});
+	});
+
+	it("reports a mutual wipe as ended with no winner", () => {
+		const state = startCombat(roster(creature("A"), creature("B")), [
+			{ name: "A", initiative: 10, side: "party" },
+			{ name: "B", initiative: 5, side: "monsters" },
+		]);
+		state.combatants = state.combatants.map((c) => ({ ...c, isAlive: false }));
+		expect(summarizeCombat(state)).toMatchObject({
+			status: "ended",
+			winner: null,
+			currentTurn: null,
+		});
+	});
+});
+
+describe("createCombatTracker", () => {
+	it("persists each change in order, even when updates overlap", async () => {
+		const saved: string[][] = [];
+		const tracker = createCombatTracker(async (state) => {
+			await new Promise((resolve) => setTimeout(resolve, 1));
+			saved.push(state.combatants.map((c) => c.name));
+		});
+
+		await Promise.all(
+			["A", "B", "C"].map((name) => tracker.update((state) => addCombatant(state, creature(name)))),
+		);
+		expect(saved).toEqual([["A"], ["A", "B"], ["A", "B", "C"]]);
+		expect(tracker.state.combatants).toHaveLength(3);
+	});
+
+	it("keeps the previous state when a change throws", async () => {
+		const tracker = createCombatTracker(undefined, roster(creature("A")));
+		await expect(tracker.update((state) => nextTurn(state))).rejects.toThrow("start-combat");
+		const state = await tracker.update((current) => addCombatant(current, creature("B")));
+		expect(state.combatants.map((c) => c.name)).toEqual(["A", "B"]);
+	});
+
+	it("skips persisting when nothing changed", async () => {
+		let saves = 0;
+		const tracker = createCombatTracker(async () => {
+			saves++;
+		});
+		await tracker.update((state) => state);
+		expect(saves).toBe(0);
+	});
+});
@@ -0,0 +1,148 @@
+import { describe, expect, it } from "vitest";
+import type { Condition, Creature } from "../../schemas/index.js";
+import {
+	attackConditionEffects,
+	describeCondition,
+	endTurnConditions,
+	savesDue,
+	startTurnConditions,
+} from "../conditions.js";
+
+function creature(name: string, conditions: Condition[] = []): Creature {
+	return {
+		id: name.toLowerCase(),
+		name,
+		type: "monster",
+		armorClass: 12,
+		hitPoints: 10,
+		maxHitPoints: 10,
+		abilityScores: {
+			strength: 10,
+			dexterity: 10,
+			constitution: 10,
+			intelligence: 10,
+			wisdom: 10,
+			charisma: 10,
+		},
+		size: "Medium",
+		speed: { walk: 30 },
+		savingThrows: {},
+		skills: {},
+		damageVulnerabilities: [],
+		damageResistances: [],
+		damageImmunities: [],
+		conditionImmunities: [],
+		senses: { passivePerception: 10 },
+		traits: [],
+		attacks: [],
+		conditions,
+		isAlive: true,
+	};
+}
+
+function condition(name: Condition["name"], extra: Partial<Condition> = {}): Condition {
+	return { name, duration: { type: "until-removed" }, ...extra };
+}
+
+describe("describeCondition", () => {
+	it("names the condition with its source and how long it lasts", () => {
+		expect(describeCondition(condition("prone"))).toBe("prone");
+		expect(
+			describeCondition(
+				condition("frightened", {
+					source: "Ghoul",
+					duration: { type: "until-save", ability: "wisdom", dc: 13 },
+				}),
+			),
+		).toBe("frightened (Ghoul, DC 13 wisdom save ends)");
+		expect(
+			describeCondition(condition("poisoned", { duration: { type: "rounds", rounds: 2 } })),
+		).toBe("poisoned (2 rounds)");
+		expect(describeCondition(condition("exhaustion", { level: 3 }))).toBe("exhaustion 3");
+	});
+});
+
+describe("attackConditionEffects", () => {
+	it("gives advantage against a prone target in melee and disadvantage at range", () => {
+		const target = creature("Goblin", [condition("prone")]);
+		expect(attackConditionEffects(creature("Kargan"), target, 5).advantage).toEqual([
+			"Goblin is prone (within 5 ft)",
+		]);
+		expect(attackConditionEffects(creature("Kargan"), target, 30).disadvantage).toEqual([
+			"Goblin is prone (beyond 5 ft)",
+		]);
+	});
+
+	it("makes hits against a paralyzed target within 5 ft critical", () => {
+		const target = creature("Goblin", [condition("paralyzed")]);
+		expect(attackConditionEffects(undefined, target, 5)).toMatchObject({
+			advantage: ["Goblin is paralyzed"],
+			autoCritical: "Goblin is paralyzed (within 5 ft)",
+		});
+		expect(attackConditionEffects(undefined, target, 10).autoCritical).toBeNull();
+	});
+
+	it("collects the attacker's own disadvantages", () => {
+		const attacker = creature("Kargan", [
+			condition("poisoned"),
+			condition("exhaustion", { level: 3 }),
+		]);
+		expect(attackConditionEffects(attacker, undefined, 5).disadvantage).toEqual([
+			"Kargan is poisoned",
+			"Kargan has exhaustion 3",
+		]);
+	});
+
+	it("forbids attacks by incapacitated creatures and against a charmer", () => {
+		expect(() =>
+			attackConditionEffects(creature("Kargan", [condition("stunned")]), undefined, 5),
+		).toThrow("Kargan is stunned and can't attack");
+		const charmed = creature("Kargan", [condition("charmed", { source: "Vampire" })]);
+		expect(() => attackConditionEffects(charmed, creature("Vampire"), 5)).toThrow(
+			"charmed by Vampire",
+		);
+		expect(attackConditionEffects(charmed, creature("Goblin"), 5).disadvantage).toEqual([]);
+	});
+});
+
+describe("condition durations", () => {
+	it("counts rounds down at the end of the creature's own turn", () => {
+		const poisoned = creature("Kargan", [
+			condition("poisoned", { duration: { type: "rounds", rounds: 2 } }),
+		]);
+		expect(endTurnConditions(poisoned, "Goblin").conditions).toEqual(poisoned.conditions);
+
+		const ticked = endTurnConditions(poisoned, "Kargan");
+		expect(ticked.conditions[0].duration).toEqual({ type: "rounds", rounds: 1 });
+		const expired = endTurnConditions({ ...poisoned, conditions: ticked.conditions }, "Kargan");
+		expect(expired.conditions).toEqual([]);
+		expect(expired.expired.map((c) => c.name)).toEqual(["poisoned"]);
+	});
+
+	it("ends end-of-next-turn conditions only after that turn has started", () => {
+		const stunned = creature("Goblin", [
+			condition("stunned", {
+				duration: { type: "end-of-next-turn", creature: "Monk", started: false },
+			}),
+		]);
+		// Applied on the monk's turn: that turn ending doesn't count
+		expect(endTurnConditions(stunned, "Monk").expired).toEqual([]);
+
+		const armed = { ...stunned, conditions: startTurnConditions(stunned, "Monk") };
+		expect(endTurnConditions(armed, "Goblin").expired).toEqual([]);
+		expect(endTurnConditions(armed, "Monk").expired.map((c) => c.name)).toEqual(["stunned"]);
+	});
+
+	it("lists the saves that end a creature's conditions", () => {
+		const held = creature("Kargan", [
+			condition("paralyzed", {
+				source: "Hold Person",
+				duration: { type: "until-save", ability: "wisdom", dc: 15 },
+			}),
+			condition("prone"),
+		]);
+		expect(savesDue(held)).toEqual([
+			{ name: "Kargan", condition: "paralyzed", ability: "wisdom", dc: 15, source: "Hold Person" },
+		]);
+	});
+});
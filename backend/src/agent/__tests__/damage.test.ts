@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import { adjustDamage, type DamageDefenses, splitTypedDamage } from "../damage.js";
+
+const wight: DamageDefenses = {
+	resistances: [
+		"necrotic",
+		"bludgeoning, piercing, and slashing from nonmagical attacks that aren't silvered",
+	],
+	immunities: ["poison"],
+	vulnerabilities: [],
+};
+
+describe("adjustDamage", () => {
+	it("zeroes immune types, halves resisted ones (rounding down) and doubles vulnerable ones", () => {
+		const adjusted = adjustDamage(
+			"Wight",
+			[
+				{ damageType: "poison", total: 6 },
+				{ damageType: "necrotic", total: 9 },
+				{ damageType: "fire", total: 4 },
+			],
+			wight,
+			{ attack: true },
+		);
+		expect(adjusted.total).toBe(8);
+		expect(adjusted.notes).toEqual([
+			"Wight is immune to poison: 6 → 0",
+			"Wight is resistant to necrotic: 9 → 4",
+		]);
+
+		const skeleton = { ...wight, resistances: [], vulnerabilities: ["bludgeoning"] };
+		expect(
+			adjustDamage("Skeleton", [{ damageType: "Bludgeoning", total: 7 }], skeleton, {
+				attack: true,
+			}),
+		).toMatchObject({ total: 14, notes: ["Skeleton is vulnerable to bludgeoning: 7 → 14"] });
+	});
+
+	it("totals each type before halving it", () => {
+		const adjusted = adjustDamage(
+			"Wight",
+			[
+				{ damageType: "necrotic", total: 3 },
+				{ damageType: "necrotic", total: 3 },
+			],
+			wight,
+			{ attack: false },
+		);
+		expect(adjusted.byType).toEqual([{ damageType: "necrotic", rolled: 6, taken: 3 }]);
+	});
+
+	it("resists nonmagical weapon attacks only", () => {
+		const slash = [{ damageType: "slashing", total: 10 }];
+		expect(adjustDamage("Wight", slash, wight, { attack: true }).total).toBe(5);
+		expect(adjustDamage("Wight", slash, wight, { attack: true, magical: true }).total).toBe(10);
+		expect(adjustDamage("Wight", slash, wight, { attack: true, silvered: true }).total).toBe(10);
+		expect(adjustDamage("Wight", slash, wight, { attack: false }).total).toBe(10);
+	});
+});
+
+describe("splitTypedDamage", () => {
+	it("splits mixed damage into one expression per type", () => {
+		expect(splitTypedDamage("1d8 + 3 slashing + 2d6 fire", "slashing")).toEqual([
+			{ dice: "1d8+3", damageType: "slashing" },
+			{ dice: "2d6", damageType: "fire" },
+		]);
+		expect(splitTypedDamage("2d6+3", "piercing")).toEqual([
+			{ dice: "2d6+3", damageType: "piercing" },
+		]);
+	});
+
+	it("rejects unknown damage types", () => {
+		expect(() => splitTypedDamage("1d8 slashy", "slashing")).toThrow(
+			'Unknown damage type "slashy"',
+		);
+	});
+});
@@ -0,0 +1,155 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+	evaluateDiceExpression,
+	flattenDiceResult,
+	formatDiceBreakdown,
+	parseDiceExpression,
+} from "../dice.js";
+
+/** Make Math.random produce the given die faces (for dice of `sides` sides) in order. */
+function mockFaces(sides: number, faces: number[]) {
+	const spy = vi.spyOn(Math, "random");
+	for (const face of faces) {
+		spy.mockReturnValueOnce((face - 1) / sides);
+	}
+	return spy;
+}
+
+afterEach(() => {
+	vi.restoreAllMocks();
+});
+
+describe("parseDiceExpression", () => {
+	it("parses multiple dice terms and constants", () => {
+		const expr = parseDiceExpression("1d8+2d6+3");
+		expect(expr.terms.map((t) => [t.kind, t.sign, t.notation])).toEqual([
+			["dice", 1, "1d8"],
+			["dice", 1, "2d6"],
+			["constant", 1, "3"],
+		]);
+	});
+
+	it("tracks subtraction per term", () => {
+		const expr = parseDiceExpression("1d4+1d4-1");
+		expect(expr.terms.map((t) => t.sign)).toEqual([1, 1, -1]);
+	});
+
+	it("ignores whitespace and case", () => {
+		const expr = parseDiceExpression(" 2D20KH1 + 5 ");
+		expect(expr.terms[0]).toMatchObject({ count: 2, sides: 20, keepDrop: { type: "kh", n: 1 } });
+	});
+
+	it("parses implicit count and percentile dice", () => {
+		expect(parseDiceExpression("d20").terms[0]).toMatchObject({ count: 1, sides: 20 });
+		expect(parseDiceExpression("1d%").terms[0]).toMatchObject({ count: 1, sides: 100 });
+	});
+
+	it("parses exploding, reroll, min and max modifiers", () => {
+		expect(parseDiceExpression("3d6!").terms[0]).toMatchObject({ explode: true });
+		expect(parseDiceExpression("2d6r2").terms[0]).toMatchObject({ rerollBelow: 2 });
+		expect(parseDiceExpression("1d20min10").terms[0]).toMatchObject({ min: 10, max: null });
+		expect(parseDiceExpression("4d6dl1max5").terms[0]).toMatchObject({
+			keepDrop: { type: "dl", n: 1 },
+			max: 5,
+		});
+	});
+
+	it("parses grouped keep/drop", () => {
+		const term = parseDiceExpression("{1d20+5, 1d20+8}kh1").terms[0];
+		expect(term.kind).toBe("group");
+		if (term.kind !== "group") return;
+		expect(term.expressions).toHaveLength(2);
+		expect(term.keepDrop).toEqual({ type: "kh", n: 1 });
+	});
+
+	it.each([
+		"banana",
+		"",
+		"2d",
+		"1d6+",
+		"2d6kh3",
+		"1d1!",
+		"1d6r6",
+		"1d20min25",
+		"1d6kh1kh1",
+		"{1d6, 1d8",
+		"101d6",
+	])("rejects '%s'", (notation) => {
+		expect(() => parseDiceExpression(notation)).toThrow("Invalid dice notation");
+	});
+});
+
+describe("evaluateDiceExpression", () => {
+	it("sums every term with a breakdown", () => {
+		mockFaces(8, [5]);
+		mockFaces(6, [3, 4]);
+		const result = evaluateDiceExpression("1d8+2d6+3");
+		expect(result.total).toBe(15);
+		expect(result.terms.map((t) => t.total)).toEqual([5, 7, 3]);
+	});
+
+	it("subtracts negative terms", () => {
+		mockFaces(4, [4, 2]);
+		const result = evaluateDiceExpression("1d4-1d4-1");
+		expect(result.total).toBe(1);
+	});
+
+	it("explodes on the maximum face", () => {
+		mockFaces(6, [6, 6, 2, 3]);
+		const result = evaluateDiceExpression("2d6!");
+		expect(result.terms[0].rolls).toEqual([6, 6, 2, 3]);
+		expect(result.total).toBe(17);
+	});
+
+	it("rerolls low faces once", () => {
+		mockFaces(6, [1, 1, 5]);
+		const result = evaluateDiceExpression("2d6r2");
+		expect(result.terms[0].rerolled).toEqual([1]);
+		expect(result.terms[0].rolls).toEqual([1, 5]);
+	});
+
+	it("clamps faces to min and max", () => {
+		mockFaces(20, [3]);
+		expect(evaluateDiceExpression("1d20min10").total).toBe(10);
+		mockFaces(6, [6]);
+		expect(evaluateDiceExpression("1d6max4").total).toBe(4);
+	});
+
+	it("keeps the best group total", () => {
+		mockFaces(20, [15, 9]);
+		const result = evaluateDiceExpression("{1d20+5, 1d20+8}kh1");
+		expect(result.terms[0].rolls).toEqual([20, 17]);
+		expect(result.total).toBe(20);
+	});
+
+	it("doubles dice but not constants on a critical", () => {
+		mockFaces(8, [2, 7]);
+		const result = evaluateDiceExpression("1d8+3", { critical: true });
+		expect(result.terms[0].rolls).toEqual([2, 7]);
+		expect(result.total).toBe(12);
+	});
+});
+
+describe("flattenDiceResult / formatDiceBreakdown", () => {
+	it("flattens into rolls, kept and modifier", () => {
+		mockFaces(20, [4, 17]);
+		const result = evaluateDiceExpression("2d20kh1+5-1");
+		expect(flattenDiceResult(result)).toEqual({ rolls: [4, 17], kept: [17], modifier: 4 });
+	});
+
+	it("keeps only the kept group's dice and constants", () => {
+		mockFaces(20, [12, 6]);
+		const result = evaluateDiceExpression("{1d20+5, 1d20+8}kh1+2");
+		expect(result.total).toBe(19);
+		const flat = flattenDiceResult(result);
+		expect(flat).toEqual({ rolls: [12, 6], kept: [12], modifier: 7 });
+		expect(flat.kept.reduce((a, b) => a + b, flat.modifier)).toBe(result.total);
+	});
+
+	it("formats each term with its kept dice", () => {
+		mockFaces(8, [5]);
+		mockFaces(6, [3, 4]);
+		const result = evaluateDiceExpression("1d8+2d6-1");
+		expect(formatDiceBreakdown(result)).toBe("1d8 [5] + 2d6 [3, 4] - 1");
+	});
+});
@@ -0,0 +1,133 @@
+import { describe, expect, it } from "vitest";
+import {
+	assessEncounter,
+	assessEncounterRequest,
+	encounterMultiplier,
+	parseEncounterScenario,
+	partyThresholds,
+	XP_THRESHOLDS_BY_LEVEL,
+} from "../encounter.js";
+
+describe("XP_THRESHOLDS_BY_LEVEL", () => {
+	it("covers levels 1-20 with ascending thresholds", () => {
+		expect(XP_THRESHOLDS_BY_LEVEL).toHaveLength(20);
+		for (const row of XP_THRESHOLDS_BY_LEVEL) {
+			expect(row.easy).toBeLessThan(row.medium);
+			expect(row.medium).toBeLessThan(row.hard);
+			expect(row.hard).toBeLessThan(row.deadly);
+		}
+		expect(XP_THRESHOLDS_BY_LEVEL[0]).toEqual({ easy: 25, medium: 50, hard: 75, deadly: 100 });
+		expect(XP_THRESHOLDS_BY_LEVEL[19]).toEqual({
+			easy: 2800,
+			medium: 5700,
+			hard: 8500,
+			deadly: 12700,
+		});
+	});
+
+	it("sums thresholds over the party", () => {
+		expect(partyThresholds([{ level: 3, count: 4 }])).toEqual({
+			easy: 300,
+			medium: 600,
+			hard: 900,
+			deadly: 1600,
+		});
+	});
+});
+
+describe("encounterMultiplier", () => {
+	it.each([
+		[1, 1],
+		[2, 1.5],
+		[3, 2],
+		[6, 2],
+		[7, 2.5],
+		[11, 3],
+		[15, 4],
+	])("%i monsters against a party of four use ×%d", (monsters, multiplier) => {
+		expect(encounterMultiplier(monsters, 4)).toBe(multiplier);
+	});
+
+	it("shifts up for small parties and down for large ones", () => {
+		expect(encounterMultiplier(1, 2)).toBe(1.5);
+		expect(encounterMultiplier(15, 1)).toBe(5);
+		expect(encounterMultiplier(1, 6)).toBe(0.5);
+		expect(encounterMultiplier(4, 7)).toBe(1.5);
+	});
+});
+
+describe("assessEncounter", () => {
+	it("rates four goblins against a lone level 5 paladin as medium", () => {
+		const result = assessEncounter(
+			[{ level: 5, count: 1 }],
+			[{ name: "Goblin", challengeRating: 0.25, count: 4, xp: 50 }],
+		);
+		// 200 XP × 2.5 (four monsters, shifted up for a party of one)
+		expect(result).toMatchObject({
+			baseXp: 200,
+			multiplier: 2.5,
+			adjustedXp: 500,
+			difficulty: "medium",
+			partySize: 1,
+			monsterCount: 4,
+		});
+	});
+
+	it("calls an encounter below the easy threshold trivial and above deadly deadly", () => {
+		const party = [{ level: 10, count: 4 }];
+		const rate = (xp: number) =>
+			assessEncounter(party, [{ name: "X", challengeRating: 1, count: 1, xp }]).difficulty;
+		expect(rate(100)).toBe("trivial");
+		expect(rate(2400)).toBe("easy");
+		expect(rate(11200)).toBe("deadly");
+	});
+});
+
+describe("parseEncounterScenario", () => {
+	it("finds the party by its levels, on either side", () => {
+		expect(parseEncounterScenario("3 goblins vs a level 5 paladin")).toEqual({
+			party: [{ level: 5, count: 1 }],
+			monsters: [{ name: "goblins", challengeRating: undefined, count: 3 }],
+			unresolved: [],
+		});
+		expect(
+			parseEncounterScenario(
+				"a party of four 3rd-level adventurers against an ogre and two CR 1/2 orcs",
+			),
+		).toEqual({
+			party: [{ level: 3, count: 4 }],
+			monsters: [
+				{ name: "ogre", challengeRating: undefined, count: 1 },
+				{ name: "orcs", challengeRating: 0.5, count: 2 },
+			],
+			unresolved: [],
+		});
+	});
+
+	it("reports scenarios it can't split into a party and monsters", () => {
+		expect(
+			parseEncounterScenario("an ancient red dragon vs a party of 4 adventurers"),
+		).toMatchObject({
+			party: [],
+			monsters: [],
+			unresolved: ["an ancient red dragon", "a party of 4 adventurers"],
+		});
+		expect(parseEncounterScenario("a tavern brawl").unresolved).toEqual(["a tavern brawl"]);
+	});
+});
+
+describe("assessEncounterRequest", () => {
+	it("rates monsters given by challenge rating without a compendium lookup", async () => {
+		const result = await assessEncounterRequest({
+			scenario: "2 level 1 fighters vs 3 cr 1/4 wolves",
+		});
+		// 150 XP × 2.5 (three monsters, shifted up for a party of two) = 375 ≥ deadly 200
+		expect(result).toMatchObject({ adjustedXp: 375, difficulty: "deadly", unresolved: [] });
+	});
+
+	it("throws when there is no party to measure against", async () => {
+		await expect(
+			assessEncounterRequest({ scenario: "a cr 3 beast vs a party of adventurers" }),
+		).rejects.toThrow(/No party found/);
+	});
+});
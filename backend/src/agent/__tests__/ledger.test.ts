@@ -0,0 +1,67 @@
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { fileURLToPath } from "node:url";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+
+// A fresh, migrated database; db/index.ts reads DATABASE_URL on import
+const dir = mkdtempSync(join(tmpdir(), "ledger-"));
+process.env.DATABASE_URL = `file:${join(dir, "test.db")}`;
+const { db, schema } = await import("../../db/index.js");
+const { createRollLedger, getRollEvents, latestLedgerRun, nextLedgerRun } = await import(
+	"../ledger.js"
+);
+
+const NOW = new Date("2026-01-01T00:00:00Z");
+
+beforeAll(async () => {
+	const { migrate } = await import("drizzle-orm/libsql/migrator");
+	const migrationsFolder = fileURLToPath(new URL("../../../drizzle", import.meta.url));
+	await migrate(db, { migrationsFolder });
+	await db.insert(schema.users).values({
+		id: "dm",
+		name: "DM",
+		email: "dm@example.com",
+		createdAt: NOW,
+		updatedAt: NOW,
+	});
+	await db.insert(schema.arenas).values({
+		id: "arena",
+		name: "Goblin ambush",
+		createdBy: "dm",
+		createdAt: NOW,
+		updatedAt: NOW,
+	});
+});
+
+afterAll(() => {
+	db.$client.close();
+	rmSync(dir, { recursive: true, force: true });
+});
+
+describe("roll ledger", () => {
+	it("keeps a failed run's entries when the arena is run again", async () => {
+		expect(await latestLedgerRun("arena")).toBeNull();
+
+		const failed = createRollLedger("arena", await nextLedgerRun("arena"));
+		await failed.record({
+			toolName: "rollDice",
+			input: { notation: "1d20" },
+			output: { total: 4 },
+		});
+		await failed.record({ toolName: "resolveAttack", input: {}, output: "boom", isError: true });
+
+		expect(await latestLedgerRun("arena")).toBe(0);
+		const retry = createRollLedger("arena", await nextLedgerRun("arena"));
+		await retry.record({ toolName: "rollDice", input: { notation: "1d20" }, output: { total: 4 } });
+
+		const all = await getRollEvents("arena");
+		expect(all.map((e) => [e.run, e.sequence, e.toolName])).toEqual([
+			[0, 0, "rollDice"],
+			[0, 1, "resolveAttack"],
+			[1, 0, "rollDice"],
+		]);
+		expect(await latestLedgerRun("arena")).toBe(1);
+		expect((await getRollEvents("arena", 1)).map((e) => e.sequence)).toEqual([0]);
+	});
+});
@@ -0,0 +1,302 @@
+import { describe, expect, it } from "vitest";
+import type { Creature } from "../../schemas/index.js";
+import {
+	addCombatant,
+	applyCondition,
+	type CombatState,
+	emptyCombatState,
+	nextTurn,
+	startCombat,
+	summarizeCombat,
+} from "../combat.js";
+import {
+	rollRecharge,
+	rollRechargeDice,
+	spendLegendaryResistance,
+	useLairAction,
+	useLegendaryAction,
+	useRechargeAbility,
+} from "../legendary.js";
+import type { RandomSource } from "../rng.js";
+import { resolveSavingThrows, savingThrowTest } from "../saving-throws.js";
+
+function creature(name: string, overrides: Partial<Creature> = {}): Creature {
+	return {
+		id: name.toLowerCase(),
+		name,
+		type: "monster",
+		armorClass: 12,
+		hitPoints: 10,
+		maxHitPoints: 10,
+		abilityScores: {
+			strength: 10,
+			dexterity: 10,
+			constitution: 10,
+			intelligence: 10,
+			wisdom: 10,
+			charisma: 10,
+		},
+		size: "Medium",
+		speed: { walk: 30 },
+		savingThrows: {},
+		skills: {},
+		damageVulnerabilities: [],
+		damageResistances: [],
+		damageImmunities: [],
+		conditionImmunities: [],
+		senses: { passivePerception: 10 },
+		traits: [],
+		attacks: [],
+		conditions: [],
+		isAlive: true,
+		...overrides,
+	};
+}
+
+const dragon = creature("Dragon", {
+	hitPoints: 200,
+	maxHitPoints: 200,
+	legendaryActions: {
+		perRound: 3,
+		remaining: 3,
+		actions: [
+			{ name: "Detect", description: "Perception check.", cost: 1 },
+			{ name: "Wing Attack", description: "Beats its wings.", cost: 2 },
+		],
+	},
+	legendaryResistance: { perDay: 3, remaining: 3 },
+	lairActions: {
+		actions: [
+			{ name: "Magma Geyser", description: "Magma erupts." },
+			{ name: "Tremor", description: "The lair shakes." },
+		],
+		available: false,
+	},
+	recharges: [{ name: "Fire Breath", recharge: "5-6", available: true }],
+});
+
+const NOW = new Date("2026-01-01T00:00:00Z");
+
+/** d6 faces in order */
+function d6s(...faces: number[]): () => RandomSource {
+	let i = 0;
+	return () => () => (faces[i++] - 1) / 6;
+}
+
+function noDice(): RandomSource {
+	throw new Error("no dice expected");
+}
+
+function fight(initiatives: { Kargan: number; Dragon: number; Goblin?: number }): CombatState {
+	const roster = [creature("Kargan"), dragon, creature("Goblin")].reduce(
+		addCombatant,
+		emptyCombatState(),
+	);
+	return startCombat(
+		roster,
+		[
+			{ name: "Kargan", initiative: initiatives.Kargan, side: "party" },
+			{ name: "Dragon", initiative: initiatives.Dragon, side: "monsters" },
+			{ name: "Goblin", initiative: initiatives.Goblin ?? 5, side: "monsters" },
+		],
+		NOW,
+	);
+}
+
+function lairOpen(state: CombatState) {
+	return state.combatants.find((c) => c.name === "Dragon")?.lairActions?.available;
+}
+
+describe("lair actions in the turn loop", () => {
+	it("opens the window when the turn passes initiative count 20, losing ties", () => {
+		// Order: Kargan 22, Dragon 20, Goblin 5 — count 20 falls between the Dragon and the Goblin
+		let state = fight({ Kargan: 22, Dragon: 20 });
+		expect(lairOpen(state)).toBe(false);
+		state = nextTurn(state, NOW);
+		expect(lairOpen(state)).toBe(false);
+		state = nextTurn(state, NOW);
+		expect(state.combatants[state.turnIndex].name).toBe("Goblin");
+		expect(lairOpen(state)).toBe(true);
+		expect(state.log.map((e) => e.message)).toContain(
+			"Initiative count 20: Dragon can take a lair action",
+		);
+		state = nextTurn(state, NOW);
+		expect(lairOpen(state)).toBe(false);
+	});
+
+	it("opens at the top of the round when everyone is below 20", () => {
+		let state = fight({ Kargan: 15, Dragon: 12 });
+		expect(lairOpen(state)).toBe(true);
+		state = nextTurn(nextTurn(state, NOW), NOW);
+		expect(lairOpen(state)).toBe(false);
+		state = nextTurn(state, NOW);
+		expect(state.round).toBe(2);
+		expect(lairOpen(state)).toBe(true);
+	});
+
+	it("opens at the end of the round when everyone is at 20 or above", () => {
+		let state = fight({ Kargan: 25, Dragon: 21, Goblin: 20 });
+		state = nextTurn(nextTurn(state, NOW), NOW);
+		expect(lairOpen(state)).toBe(false);
+		state = nextTurn(state, NOW);
+		expect(state.round).toBe(2);
+		expect(lairOpen(state)).toBe(true);
+	});
+});
+
+describe("useLairAction", () => {
+	it("takes one lair action per window, and not the same one two rounds running", () => {
+		let state = fight({ Kargan: 15, Dragon: 12 });
+		const used = useLairAction(state, { name: "dragon", action: "magma geyser" }, NOW);
+		expect(used.result.message).toBe("Dragon takes a lair action: Magma Geyser");
+		state = used.state;
+		expect(() => useLairAction(state, { name: "Dragon", action: "Tremor" })).toThrow(
+			/initiative count 20/,
+		);
+
+		// Round 2's window
+		state = nextTurn(nextTurn(nextTurn(state, NOW), NOW), NOW);
+		expect(() => useLairAction(state, { name: "Dragon", action: "Magma Geyser" })).toThrow(
+			"Dragon can't use Magma Geyser two rounds in a row",
+		);
+		expect(useLairAction(state, { name: "Dragon", action: "Tremor" }).result.action.name).toBe(
+			"Tremor",
+		);
+	});
+
+	it("refuses creatures without a lair and unknown actions", () => {
+		const state = fight({ Kargan: 15, Dragon: 12 });
+		expect(() => useLairAction(state, { name: "Goblin", action: "Tremor" })).toThrow(
+			"Goblin has no lair actions — it isn't fighting in its lair",
+		);
+		expect(() => useLairAction(state, { name: "Dragon", action: "Meteor" })).toThrow(
+			"Dragon has no lair action called Meteor (options: Magma Geyser, Tremor)",
+		);
+	});
+});
+
+describe("useLegendaryAction", () => {
+	it("spends legendary actions at the end of other turns and regains them on its own", () => {
+		// Kargan's turn first
+		let state = fight({ Kargan: 15, Dragon: 12 });
+		const wing = useLegendaryAction(state, { name: "Dragon", action: "wing attack" }, NOW);
+		expect(wing.result).toMatchObject({ remaining: 1, action: { name: "Wing Attack", cost: 2 } });
+		state = wing.state;
+		expect(() => useLegendaryAction(state, { name: "Dragon", action: "Wing Attack" })).toThrow(
+			"Wing Attack costs 2 legendary actions and Dragon has 1 left this round",
+		);
+		expect(summarizeCombat(state).combatants[1].legendaryActions).toBe(1);
+
+		state = nextTurn(state, NOW);
+		expect(state.combatants[state.turnIndex].name).toBe("Dragon");
+		expect(state.combatants[1].legendaryActions?.remaining).toBe(3);
+		expect(() => useLegendaryAction(state, { name: "Dragon", action: "Detect" })).toThrow(
+			"Dragon takes legendary actions only at the end of another creature's turn",
+		);
+	});
+
+	it("refuses an incapacitated creature and one without legendary actions", () => {
+		const state = fight({ Kargan: 15, Dragon: 12 });
+		const stunned = applyCondition(
+			state,
+			"Dragon",
+			{ name: "stunned", duration: { type: "until-removed" } },
+			NOW,
+		).state;
+		expect(() => useLegendaryAction(stunned, { name: "Dragon", action: "Detect" })).toThrow(
+			"Dragon is stunned and can't act",
+		);
+		expect(() => useLegendaryAction(state, { name: "Goblin", action: "Detect" })).toThrow(
+			"Goblin has no legendary actions",
+		);
+	});
+});
+
+describe("recharge abilities", () => {
+	it("spends the ability and refuses it until it recharges", () => {
+		const state = fight({ Kargan: 15, Dragon: 12 });
+		const used = useRechargeAbility(state, { name: "Dragon", ability: "fire breath" }, NOW);
+		expect(used.result.message).toBe("Dragon uses Fire Breath (recharge 5-6)");
+		expect(summarizeCombat(used.state).combatants[1].recharging).toEqual(["Fire Breath"]);
+		expect(() =>
+			useRechargeAbility(used.state, { name: "Dragon", ability: "Fire Breath" }),
+		).toThrow(/hasn't recharged/);
+	});
+
+	it("rolls once for spent abilities at the start of the creature's turn", () => {
+		let state = useRechargeAbility(
+			fight({ Kargan: 15, Dragon: 12 }),
+			{ name: "Dragon", ability: "Fire Breath" },
+			NOW,
+		).state;
+		// Not due until the dragon's turn starts
+		expect(() => rollRecharge(state, "Dragon", noDice)).toThrow(/no recharge rolls due/);
+
+		state = nextTurn(state, NOW);
+		const missed = rollRecharge(state, "Dragon", d6s(4), NOW);
+		expect(missed.result.rolls).toEqual([
+			{ ability: "Fire Breath", recharge: "5-6", roll: 4, recharged: false },
+		]);
+		expect(() => rollRecharge(missed.state, "Dragon", noDice)).toThrow(/no recharge rolls due/);
+
+		state = nextTurn(nextTurn(nextTurn(missed.state, NOW), NOW), NOW);
+		const recharged = rollRecharge(state, "Dragon", d6s(5), NOW);
+		expect(recharged.result.narrative).toBe(
+			"🔋 Dragon — Fire Breath (recharge 5-6): rolls 5 — recharged",
+		);
+		expect(recharged.state.combatants[1].recharges?.[0]).toMatchObject({ available: true });
+	});
+
+	it("reads single-face recharges", () => {
+		const { rolls } = rollRechargeDice("Hydra", [{ name: "Bite", recharge: "6" }], () => 4 / 6);
+		expect(rolls[0]).toMatchObject({ roll: 5, recharged: false });
+	});
+});
+
+describe("Legendary Resistance", () => {
+	it("turns a failed save into a success and spends a use", () => {
+		const state = fight({ Kargan: 15, Dragon: 12 });
+		const tests = [state.combatants[1], state.combatants[2]].map((c) =>
+			savingThrowTest(c, "dexterity", { legendaryResistance: c.name === "Dragon" }),
+		);
+		// Both roll a 2 against DC 15
+		const saves = resolveSavingThrows(
+			tests,
+			{ ability: "dexterity", dc: 15, damageDice: "4d6" },
+			() => 1 / 20,
+		);
+		expect(saves.results.map((r) => [r.name, r.success, r.legendaryResistance])).toEqual([
+			["Dragon", true, true],
+			["Goblin", false, false],
+		]);
+		expect(saves.results[0].damage).toBe(Math.floor(saves.results[1].damage / 2));
+		expect(saves.narrative).toContain("fails, but uses Legendary Resistance to succeed");
+
+		const next = spendLegendaryResistance(state, saves.results, NOW);
+		expect(next.combatants[1].legendaryResistance?.remaining).toBe(2);
+		expect(summarizeCombat(next).combatants[1].legendaryResistance).toBe(2);
+	});
+
+	it("is only spent when the DM asks for it", () => {
+		const state = fight({ Kargan: 15, Dragon: 12 });
+		const saves = resolveSavingThrows(
+			[savingThrowTest(state.combatants[1], "dexterity")],
+			{ ability: "dexterity", dc: 15 },
+			() => 1 / 20,
+		);
+		expect(saves.results[0]).toMatchObject({ success: false, legendaryResistance: false });
+		const next = spendLegendaryResistance(state, saves.results, NOW);
+		expect(next.combatants[1].legendaryResistance?.remaining).toBe(3);
+	});
+
+	it("refuses a creature with no uses left, or none at all", () => {
+		const spent = { ...dragon, legendaryResistance: { perDay: 3, remaining: 0 } };
+		expect(savingThrowTest(spent, "wisdom").legendaryResistance).toBe(false);
+		expect(() => savingThrowTest(spent, "wisdom", { legendaryResistance: true })).toThrow(
+			"Dragon has no Legendary Resistance left",
+		);
+		expect(() =>
+			savingThrowTest(creature("Goblin"), "wisdom", { legendaryResistance: true }),
+		).toThrow("Goblin doesn't have Legendary Resistance");
+	});
+});
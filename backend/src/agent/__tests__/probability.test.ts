@@ -0,0 +1,144 @@
+import { describe, expect, it } from "vitest";
+import {
+	chanceAtLeast,
+	describeDiceOdds,
+	diceDistribution,
+	diceStats,
+	expectedAttackDamage,
+	hitChance,
+} from "../probability.js";
+
+function totalMass(notation: string) {
+	return [...diceDistribution(notation).values()].reduce((a, b) => a + b, 0);
+}
+
+describe("diceStats", () => {
+	it("computes 2d6 exactly", () => {
+		const stats = diceStats("2d6+3");
+		expect(stats.min).toBe(5);
+		expect(stats.max).toBe(15);
+		expect(stats.mean).toBeCloseTo(10);
+		expect(stats.stddev).toBeCloseTo(Math.sqrt(35 / 6));
+		expect(stats.pmf.find((e) => e.total === 10)?.probability).toBeCloseTo(6 / 36);
+	});
+
+	it("reports the chance to meet or beat a target", () => {
+		expect(diceStats("1d20", 11).chanceAtLeast).toBeCloseTo(0.5);
+		expect(diceStats("2d20kh1", 11).chanceAtLeast).toBeCloseTo(0.75);
+		expect(diceStats("2d20kl1", 11).chanceAtLeast).toBeCloseTo(0.25);
+	});
+
+	it("handles drop lowest (4d6dl1)", () => {
+		expect(diceStats("4d6dl1").mean).toBeCloseTo(15869 / 1296);
+	});
+
+	it("handles reroll-once (Great Weapon Fighting)", () => {
+		expect(diceStats("2d6r2").mean).toBeCloseTo(25 / 3);
+	});
+
+	it("handles min and max clamps", () => {
+		const stats = diceStats("1d20min10");
+		expect(stats.min).toBe(10);
+		expect(stats.pmf[0].probability).toBeCloseTo(10 / 20);
+		expect(diceStats("1d6max4").mean).toBeCloseTo((1 + 2 + 3 + 4 + 4 + 4) / 6);
+	});
+
+	it("handles exploding dice", () => {
+		expect(diceStats("1d6!").mean).toBeCloseTo(4.2, 5);
+	});
+
+	it("handles subtraction and multiple terms", () => {
+		const stats = diceStats("1d4+1d4-1");
+		expect(stats.min).toBe(1);
+		expect(stats.max).toBe(7);
+		expect(stats.mean).toBeCloseTo(4);
+	});
+
+	it("keeps the best of a group", () => {
+		const stats = diceStats("{1d4, 1d4}kh1");
+		expect(stats.mean).toBeCloseTo((1 * 1 + 2 * 3 + 3 * 5 + 4 * 7) / 16);
+	});
+
+	it("doubles dice for critical distributions", () => {
+		const dist = diceDistribution("1d8+3", { critical: true });
+		expect(Math.min(...dist.keys())).toBe(5);
+		expect(Math.max(...dist.keys())).toBe(19);
+	});
+
+	it.each([
+		"3d6",
+		"4d6dl1",
+		"10d10kh3",
+		"3d6!",
+		"2d6r1min2",
+		"{2d6, 1d12}kl1",
+	])("%s sums to probability 1", (notation) => {
+		expect(totalMass(notation)).toBeCloseTo(1, 10);
+	});
+
+	it("keeps the mass of keep/drop pools too large for factorials", () => {
+		// A critical doubles them past 170 dice
+		for (const notation of ["100d6kh1", "90d4kh2"]) {
+			const dist = diceDistribution(notation, { critical: true });
+			expect(
+				[...dist.values()].reduce((a, b) => a + b, 0),
+				notation,
+			).toBeCloseTo(1, 10);
+		}
+		expect(diceStats("100d6kh1").mean).toBeCloseTo(6 - (5 / 6) ** 100, 10);
+		// 50% normal hits and 5% crits, each all but certain to keep a 6
+		expect(describeDiceOdds({ notation: "100d6kh1", toHitBonus: 5, targetAC: 15 })).toMatchObject({
+			attack: { expectedDamage: expect.closeTo(3.3, 6) },
+		});
+	});
+
+	it("refuses exploding dice with keep/drop", () => {
+		expect(() => diceStats("4d6!kh3")).toThrow("not supported");
+	});
+
+	it("refuses a sum too large to compute before doing the work", () => {
+		const started = Date.now();
+		expect(() => diceStats("100d1000")).toThrow("too large to compute exactly (100 dice)");
+		expect(Date.now() - started).toBeLessThan(1000);
+		expect(diceStats("40d20").max).toBe(800);
+	});
+});
+
+describe("chanceAtLeast", () => {
+	it("is 1 at or below the minimum and 0 above the maximum", () => {
+		const dist = diceDistribution("2d6");
+		expect(chanceAtLeast(dist, 2)).toBeCloseTo(1);
+		expect(chanceAtLeast(dist, 13)).toBe(0);
+	});
+});
+
+describe("hitChance", () => {
+	it("counts the faces that hit", () => {
+		expect(hitChance(5, 15).hitChance).toBeCloseTo(0.55);
+	});
+
+	it("always hits on a natural 20 and always misses on a natural 1", () => {
+		expect(hitChance(-10, 30).hitChance).toBeCloseTo(0.05);
+		expect(hitChance(30, 5).hitChance).toBeCloseTo(0.95);
+	});
+
+	it("applies advantage and disadvantage", () => {
+		expect(hitChance(5, 15, "advantage").hitChance).toBeCloseTo(1 - 0.45 ** 2);
+		expect(hitChance(5, 15, "disadvantage").hitChance).toBeCloseTo(0.55 ** 2);
+		expect(hitChance(5, 15, "advantage").critChance).toBeCloseTo(1 - 0.95 ** 2);
+	});
+});
+
+describe("expectedAttackDamage / describeDiceOdds", () => {
+	it("weights normal hits and crits", () => {
+		// 50% normal hits at 7.5, 5% crits at 12
+		expect(expectedAttackDamage(hitChance(5, 15), "1d8+3")).toBeCloseTo(4.35);
+	});
+
+	it("adds attack odds only when bonus and AC are given", () => {
+		expect(describeDiceOdds({ notation: "1d8+3" })).not.toHaveProperty("attack");
+		expect(describeDiceOdds({ notation: "1d8+3", toHitBonus: 5, targetAC: 15 })).toMatchObject({
+			attack: { hitChance: expect.closeTo(0.55), critChance: expect.closeTo(0.05) },
+		});
+	});
+});
@@ -0,0 +1,328 @@
+import { describe, expect, it } from "vitest";
+import type { Creature, CreatureSpellcasting } from "../../schemas/index.js";
+import { resolveAttack } from "../attack.js";
+import { type CombatState, nextTurn, startCombat } from "../combat.js";
+import {
+	checkAttackReaction,
+	chooseAttackReaction,
+	isMeleeAttack,
+	planCounterspell,
+	reactionBlockedBy,
+	reactToAttack,
+	rollCounterspell,
+	spendAttackReaction,
+} from "../reactions.js";
+import type { RandomSource } from "../rng.js";
+import { castSpell } from "../spells.js";
+
+const NOW = new Date("2026-01-01T00:00:00Z");
+
+function creature(name: string, overrides: Partial<Creature> = {}): Creature {
+	return {
+		id: name.toLowerCase(),
+		name,
+		type: "monster",
+		armorClass: 12,
+		hitPoints: 40,
+		maxHitPoints: 40,
+		abilityScores: {
+			strength: 10,
+			dexterity: 10,
+			constitution: 10,
+			intelligence: 16,
+			wisdom: 10,
+			charisma: 10,
+		},
+		size: "Medium",
+		speed: { walk: 30 },
+		savingThrows: {},
+		skills: {},
+		damageVulnerabilities: [],
+		damageResistances: [],
+		damageImmunities: [],
+		conditionImmunities: [],
+		senses: { passivePerception: 10 },
+		traits: [],
+		attacks: [],
+		conditions: [],
+		isAlive: true,
+		...overrides,
+	};
+}
+
+function caster(name: string, spellcasting: Partial<CreatureSpellcasting> = {}) {
+	return creature(name, {
+		spellcasting: {
+			ability: "intelligence",
+			saveDC: 14,
+			attackBonus: 6,
+			casterLevel: 9,
+			spells: ["shield", "counterspell", "fireball", "ice-storm"],
+			slots: [
+				{ level: 1, max: 4, remaining: 4 },
+				{ level: 3, max: 3, remaining: 3 },
+				{ level: 4, max: 3, remaining: 3 },
+			],
+			...spellcasting,
+		},
+	});
+}
+
+const knight = creature("Knight", {
+	reactions: [
+		{
+			name: "Parry",
+			description: "Adds 2 to its AC against one melee attack that would hit it.",
+		},
+	],
+});
+const rogue = creature("Rogue", {
+	traits: [{ name: "Uncanny Dodge", description: "Halves the damage of an attack." }],
+});
+
+/** Returns each value in turn: (face - 1) / sides rolls that face */
+function sequence(...values: number[]): RandomSource {
+	let i = 0;
+	return () => values[i++];
+}
+
+function noDice(): RandomSource {
+	throw new Error("no dice expected");
+}
+
+/** An Orc's greataxe swing at `target`, rolling `d20` and a 4 on the d12 */
+function swing(target: Creature, d20: number) {
+	return resolveAttack(
+		{
+			attackerName: "Orc",
+			targetName: target.name,
+			toHitBonus: 5,
+			targetAC: target.armorClass,
+			damageDice: "1d12+3",
+			damageType: "slashing",
+		},
+		sequence((d20 - 1) / 20, 3 / 12),
+	);
+}
+
+function fight(...combatants: Creature[]): CombatState {
+	return startCombat(
+		{ round: 0, turnIndex: 0, combatants, log: [] },
+		combatants.map((c, i) => ({
+			name: c.name,
+			initiative: 20 - i,
+			side: i === 0 ? "party" : "monsters",
+		})),
+		NOW,
+	);
+}
+
+describe("attack reactions", () => {
+	it("casts Shield when +5 AC turns the hit into a miss", () => {
+		const mage = caster("Mage");
+		// 10 + 5 = 15 hits AC 12 but not 17
+		const result = swing(mage, 10);
+		const reaction = chooseAttackReaction(mage, result, true, "auto");
+		expect(reaction).toEqual({
+			name: "Mage",
+			reaction: "shield",
+			armorClassBonus: 5,
+			slotLevel: 1,
+		});
+		const reacted = reactToAttack(result, reaction as NonNullable<typeof reaction>);
+		expect(reacted).toMatchObject({ hit: false, targetAC: 17, totalDamage: 0 });
+		expect(reacted.narrative).toMatch(
+			/\n🛡️ Mage casts Shield \(1st-level slot\): AC 17 — the attack misses!$/,
+		);
+	});
+
+	it("holds Shield when it wouldn't help, unless it was asked for", () => {
+		const mage = caster("Mage");
+		const big = swing(mage, 15);
+		expect(chooseAttackReaction(mage, big, true, "auto")).toBeNull();
+		expect(chooseAttackReaction(mage, swing(mage, 20), true, "auto")).toBeNull();
+		expect(chooseAttackReaction(mage, swing(mage, 2), true, "auto")).toBeNull();
+
+		const asked = chooseAttackReaction(mage, big, true, "shield");
+		expect(asked?.reaction).toBe("shield");
+		const reacted = reactToAttack(big, asked as NonNullable<typeof asked>);
+		expect(reacted).toMatchObject({ hit: true, totalDamage: big.totalDamage });
+		expect(reacted.narrative).toMatch(/AC 17, but the attack still hits\.$/);
+	});
+
+	it("parries melee attacks only, with the bonus from the stat block", () => {
+		const hit = swing(knight, 8);
+		expect(chooseAttackReaction(knight, hit, true, "auto")).toMatchObject({
+			reaction: "parry",
+			armorClassBonus: 2,
+		});
+		expect(chooseAttackReaction(knight, hit, false, "auto")).toBeNull();
+		expect(() => checkAttackReaction(knight, "parry", false)).toThrow(
+			"Knight can only parry melee attacks",
+		);
+	});
+
+	it("halves the damage with Uncanny Dodge", () => {
+		const hit = swing(rogue, 18);
+		const reaction = chooseAttackReaction(rogue, hit, true, "auto");
+		expect(reaction?.reaction).toBe("uncanny-dodge");
+		const reacted = reactToAttack(hit, reaction as NonNullable<typeof reaction>);
+		// d12 4 + 3
+		expect(reacted).toMatchObject({ hit: true, totalDamage: 3 });
+		expect(reacted.narrative).toMatch(/🛡️ Rogue uses Uncanny Dodge and takes half: 3 damage\.$/);
+	});
+
+	it("refuses reactions a creature doesn't have", () => {
+		expect(() => checkAttackReaction(rogue, "shield", true)).toThrow("Rogue can't cast Shield");
+		expect(() => checkAttackReaction(knight, "uncanny-dodge", true)).toThrow(
+			"Knight doesn't have Uncanny Dodge",
+		);
+		const spent = caster("Mage", { slots: [{ level: 1, max: 4, remaining: 0 }] });
+		expect(() => checkAttackReaction(spent, "shield", true)).toThrow(
+			"Mage has no spell slots left for Shield",
+		);
+	});
+
+	it("spends the reaction and Shield's slot, and Shield lasts until the caster's next turn", () => {
+		const state = fight(caster("Mage"), creature("Orc"));
+		const reaction = chooseAttackReaction(
+			state.combatants[0],
+			swing(state.combatants[0], 10),
+			true,
+			"auto",
+		);
+		let next = spendAttackReaction(state, reaction as NonNullable<typeof reaction>, NOW);
+		const mage = next.combatants[0];
+		expect(mage).toMatchObject({ reactionUsed: true, shielded: true });
+		expect(mage.spellcasting?.slots[0].remaining).toBe(3);
+		expect(next.log.at(-1)?.message).toBe(
+			"Mage casts Shield (1st-level slot): +5 AC until its next turn",
+		);
+		expect(reactionBlockedBy(mage)).toBe("Mage has already used its reaction this round");
+		expect(() => checkAttackReaction(mage, "shield", true)).toThrow(
+			"Mage has already used its reaction this round and can't react",
+		);
+
+		next = nextTurn(next, NOW);
+		expect(next.combatants[0]).toMatchObject({ reactionUsed: true, shielded: true });
+		next = nextTurn(next, NOW);
+		expect(next.combatants[0]).toMatchObject({ reactionUsed: false, shielded: false });
+	});
+});
+
+describe("isMeleeAttack", () => {
+	it("reads the attack's reach, and counts an unnamed attack at 5 ft as melee", () => {
+		const archer = creature("Archer", {
+			attacks: [
+				{ name: "Spear", toHitBonus: 4, damageDice: "1d6+2", damageType: "piercing", reach: 5 },
+				{
+					name: "Longbow",
+					toHitBonus: 4,
+					damageDice: "1d8+2",
+					damageType: "piercing",
+					range: "150/600",
+				},
+			],
+		});
+		expect(isMeleeAttack(archer, "spear", 5)).toBe(true);
+		expect(isMeleeAttack(archer, "Longbow", 5)).toBe(false);
+		expect(isMeleeAttack(archer, undefined, 5)).toBe(true);
+		expect(isMeleeAttack(archer, undefined, 30)).toBe(false);
+	});
+});
+
+describe("Counterspell", () => {
+	it("stops a spell of its slot's level or lower outright", () => {
+		const state = fight(caster("Mage"), caster("Rival"));
+		expect(planCounterspell(state, "Mage", 3)).toEqual({
+			name: "Rival",
+			slotLevel: 3,
+			test: null,
+			dc: null,
+		});
+		// Its lowest slot that covers the spell
+		expect(planCounterspell(state, "Mage", 4)?.slotLevel).toBe(4);
+	});
+
+	it("needs a spellcasting ability check against a higher-level spell", () => {
+		const rival = caster("Rival", { slots: [{ level: 3, max: 3, remaining: 2 }] });
+		const state = fight(caster("Mage"), rival);
+		const plan = planCounterspell(state, "Mage", 5);
+		expect(plan).toMatchObject({ name: "Rival", slotLevel: 3, dc: 15, test: { modifier: 3 } });
+
+		// 12 + 3 = 15 meets the DC
+		const countered = rollCounterspell(
+			plan as NonNullable<typeof plan>,
+			"Cone of Cold",
+			() => 11 / 20,
+		);
+		expect(countered.countered).toBe(true);
+		expect(countered.narrative).toBe(
+			"🚫 Rival casts Counterspell (3rd-level slot): DC 15 check, rolls 15 — Cone of Cold fails",
+		);
+		const failed = rollCounterspell(
+			plan as NonNullable<typeof plan>,
+			"Cone of Cold",
+			() => 10 / 20,
+		);
+		expect(failed.narrative).toMatch(/rolls 14 — Cone of Cold goes off anyway$/);
+	});
+
+	it("lets cantrips, allies' spells and 'none' through by default", () => {
+		const state = fight(caster("Mage"), caster("Rival"));
+		expect(planCounterspell(state, "Mage", 0)).toBeNull();
+		expect(planCounterspell(state, "Mage", 3, "none")).toBeNull();
+		const allies = startCombat(
+			{ round: 0, turnIndex: 0, combatants: [caster("Mage"), caster("Rival")], log: [] },
+			[
+				{ name: "Mage", initiative: 15, side: "party" },
+				{ name: "Rival", initiative: 10, side: "party" },
+			],
+			NOW,
+		);
+		expect(planCounterspell(allies, "Mage", 3)).toBeNull();
+	});
+
+	it("refuses a named counterspeller that can't", () => {
+		const state = fight(caster("Mage"), creature("Orc"), caster("Rival", { slots: [] }));
+		expect(() => planCounterspell(state, "Mage", 3, "Orc")).toThrow("Orc can't cast Counterspell");
+		expect(() => planCounterspell(state, "Mage", 3, "Rival")).toThrow(
+			"Rival has no 3rd-level or higher slot left for Counterspell",
+		);
+		expect(() => planCounterspell(state, "Mage", 3, "Mage")).toThrow(
+			"Mage can't counter its own spell",
+		);
+	});
+
+	it("counters a cast before it rolls, spending both slots and the counterspeller's reaction", () => {
+		const state = fight(caster("Mage"), caster("Rival"));
+		const { state: next, result } = castSpell(
+			state,
+			{ caster: "Mage", spell: "Fireball", targets: ["Rival"] },
+			noDice,
+			NOW,
+		);
+		expect(result.counterspell).toMatchObject({ name: "Rival", countered: true, check: null });
+		expect(result.narrative).toBe(
+			"✨ Mage casts Fireball with a 3rd-level slot\n🚫 Rival casts Counterspell (3rd-level slot) — Fireball fails",
+		);
+		expect(result.hpChanges).toEqual([]);
+		expect(result.slots).toBe("1st 4/4, 3rd 2/3, 4th 3/3");
+		const rival = next.combatants[1];
+		expect(rival).toMatchObject({ hitPoints: 40, reactionUsed: true });
+		expect(rival.spellcasting?.slots[1].remaining).toBe(2);
+		expect(next.log.at(-1)?.message).toBe(
+			"Rival casts Counterspell (3rd-level slot): Fireball is countered",
+		);
+	});
+
+	it("leaves Shield and Counterspell to the reaction hooks", () => {
+		const state = fight(caster("Mage"), caster("Rival"));
+		expect(() => castSpell(state, { caster: "Mage", spell: "Shield" }, noDice)).toThrow(
+			"Shield is cast as a reaction",
+		);
+		expect(() =>
+			castSpell(state, { caster: "Mage", spell: "Counterspell", targets: ["Rival"] }, noDice),
+		).toThrow("Counterspell is cast as a reaction");
+	});
+});
@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import {
+	commitToSeed,
+	createSeededRandom,
+	createVerifiableRandom,
+	randomInt,
+	rollDie,
+} from "../rng.js";
+
+describe("createSeededRandom", () => {
+	it("produces the same sequence for the same seed", () => {
+		const a = createSeededRandom("goblin-ambush");
+		const b = createSeededRandom("goblin-ambush");
+		const seqA = Array.from({ length: 20 }, () => a());
+		const seqB = Array.from({ length: 20 }, () => b());
+		expect(seqA).toEqual(seqB);
+	});
+
+	it("produces different sequences for different seeds", () => {
+		const a = createSeededRandom("seed-a");
+		const b = createSeededRandom("seed-b");
+		expect(Array.from({ length: 5 }, () => a())).not.toEqual(Array.from({ length: 5 }, () => b()));
+	});
+
+	it("stays within [0, 1)", () => {
+		const rng = createSeededRandom("range");
+		for (let i = 0; i < 1000; i++) {
+			const n = rng();
+			expect(n).toBeGreaterThanOrEqual(0);
+			expect(n).toBeLessThan(1);
+		}
+	});
+});
+
+describe("rollDie / randomInt", () => {
+	it("covers every face of a d6", () => {
+		const rng = createSeededRandom("faces");
+		const seen = new Set(Array.from({ length: 200 }, () => rollDie(rng, 6)));
+		expect([...seen].sort()).toEqual([1, 2, 3, 4, 5, 6]);
+	});
+
+	it("maps the extremes of the source onto the range bounds", () => {
+		expect(randomInt(() => 0, -2, 1)).toBe(-2);
+		expect(randomInt(() => 0.9999, -2, 1)).toBe(1);
+	});
+});
+
+describe("createVerifiableRandom / commitToSeed", () => {
+	it("derives the same draws from the same seed and roll sequence", () => {
+		const a = createVerifiableRandom("seed", 3);
+		const b = createVerifiableRandom("seed", 3);
+		expect([a(), a(), a()]).toEqual([b(), b(), b()]);
+	});
+
+	it("derives independent draws per roll sequence", () => {
+		expect(createVerifiableRandom("seed", 0)()).not.toBe(createVerifiableRandom("seed", 1)());
+	});
+
+	it("commits with a SHA-256 hex digest", () => {
+		expect(commitToSeed("abc")).toBe(
+			"ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad",
+		);
+	});
+});
@@ -0,0 +1,203 @@
+import { describe, expect, it } from "vitest";
+import type { Condition, Creature } from "../../schemas/index.js";
+import type { RandomSource } from "../rng.js";
+import {
+	abilityCheckTest,
+	checkAbility,
+	resolveAbilityCheck,
+	resolveSavingThrows,
+	savingThrowTest,
+} from "../saving-throws.js";
+
+function creature(name: string, overrides: Partial<Creature> = {}): Creature {
+	return {
+		id: name.toLowerCase(),
+		name,
+		type: "monster",
+		armorClass: 12,
+		hitPoints: 10,
+		maxHitPoints: 10,
+		abilityScores: {
+			strength: 16,
+			dexterity: 14,
+			constitution: 10,
+			intelligence: 10,
+			wisdom: 8,
+			charisma: 10,
+		},
+		size: "Medium",
+		speed: { walk: 30 },
+		savingThrows: {},
+		skills: {},
+		damageVulnerabilities: [],
+		damageResistances: [],
+		damageImmunities: [],
+		conditionImmunities: [],
+		senses: { passivePerception: 10 },
+		traits: [],
+		attacks: [],
+		conditions: [],
+		isAlive: true,
+		...overrides,
+	};
+}
+
+function condition(name: Condition["name"], extra: Partial<Condition> = {}): Condition {
+	return { name, duration: { type: "until-removed" }, ...extra };
+}
+
+/** Random source that replays the given die faces, each given as [face, sides]. */
+function scriptedFaces(...faces: Array<[number, number]>): RandomSource {
+	let i = 0;
+	return () => {
+		const [face, sides] = faces[i++];
+		return (face - 1) / sides;
+	};
+}
+
+describe("savingThrowTest", () => {
+	it("uses the proficient save bonus, or else the ability modifier", () => {
+		const fighter = creature("Kargan", { savingThrows: { strength: 6 } });
+		expect(savingThrowTest(fighter, "strength").modifier).toBe(6);
+		expect(savingThrowTest(fighter, "wisdom").modifier).toBe(-1);
+		expect(savingThrowTest(fighter, "wisdom", { bonus: 3 }).modifier).toBe(2);
+	});
+
+	it("applies conditions: auto-fails while paralyzed, disadvantage on DEX while restrained", () => {
+		const held = creature("Kargan", { conditions: [condition("paralyzed")] });
+		expect(savingThrowTest(held, "dexterity").effects.autoFail).toBe("Kargan is paralyzed");
+		expect(savingThrowTest(held, "wisdom").effects.autoFail).toBeNull();
+
+		const restrained = creature("Kargan", { conditions: [condition("restrained")] });
+		expect(savingThrowTest(restrained, "dexterity", { advantage: "Danger Sense" }).effects).toEqual(
+			{
+				advantage: ["Danger Sense"],
+				disadvantage: ["Kargan is restrained"],
+				autoFail: null,
+			},
+		);
+	});
+});
+
+describe("resolveSavingThrows", () => {
+	it("rolls damage once: full on a failure, half on a success", () => {
+		const tests = [
+			savingThrowTest(creature("Goblin 1"), "dexterity"),
+			savingThrowTest(creature("Goblin 2"), "dexterity"),
+		];
+		// Goblin 1 rolls 14 (+2 = 16), Goblin 2 rolls 3 (+2 = 5), then 2d6 = 4 + 5
+		const result = resolveSavingThrows(
+			tests,
+			{
+				ability: "dexterity",
+				dc: 13,
+				source: "Burning Hands",
+				damageDice: "2d6",
+				damageType: "fire",
+			},
+			scriptedFaces([14, 20], [3, 20], [4, 6], [5, 6]),
+		);
+		expect(result.damage?.total).toBe(9);
+		expect(result.results.map((r) => [r.name, r.total, r.success, r.damage])).toEqual([
+			["Goblin 1", 16, true, 4],
+			["Goblin 2", 5, false, 9],
+		]);
+		expect(result.narrative).toBe(
+			[
+				"DC 13 Dexterity saving throw against Burning Hands — 9 fire damage (2d6 [4, 5])",
+				"Goblin 1 rolls 16 (14+2) — succeeds, taking 4 fire damage",
+				"Goblin 2 rolls 5 (3+2) — fails, taking 9 fire damage",
+			].join("\n"),
+		);
+	});
+
+	it("deals nothing on a success with onSuccess none, and auto-fails roll no d20", () => {
+		const tests = [
+			savingThrowTest(creature("Kargan", { conditions: [condition("stunned")] }), "dexterity"),
+			savingThrowTest(creature("Goblin"), "dexterity"),
+		];
+		const result = resolveSavingThrows(
+			tests,
+			{ ability: "dexterity", dc: 10, damageDice: "1d10", onSuccess: "none" },
+			scriptedFaces([20, 20], [7, 10]),
+		);
+		expect(result.results.map((r) => [r.d20Rolls, r.success, r.damage])).toEqual([
+			[[], false, 7],
+			[[20], true, 0],
+		]);
+		expect(result.narrative).toContain("Kargan automatically fails (Kargan is stunned), taking 7");
+	});
+
+	it("applies each target's damage immunities and resistances", () => {
+		const tests = [
+			savingThrowTest(creature("Fire Elemental", { damageImmunities: ["fire"] }), "dexterity"),
+			savingThrowTest(creature("Tiefling", { damageResistances: ["fire"] }), "dexterity"),
+		];
+		const result = resolveSavingThrows(
+			tests,
+			{ ability: "dexterity", dc: 20, damageDice: "2d6", damageType: "fire" },
+			scriptedFaces([5, 20], [5, 20], [4, 6], [5, 6]),
+		);
+		expect(result.results.map((r) => [r.damage, r.damageAdjustment])).toEqual([
+			[0, "Fire Elemental is immune to fire: 9 → 0"],
+			[4, "Tiefling is resistant to fire: 9 → 4"],
+		]);
+		expect(result.narrative).toContain(
+			"Tiefling rolls 7 (5+2) — fails, taking 4 fire damage (Tiefling is resistant to fire: 9 → 4)",
+		);
+	});
+
+	it("rejects bad damage dice before rolling", () => {
+		let drawn = false;
+		expect(() =>
+			resolveSavingThrows(
+				[savingThrowTest(creature("Goblin"), "dexterity")],
+				{ ability: "dexterity", dc: 10, damageDice: "lots" },
+				() => {
+					drawn = true;
+					return 0;
+				},
+			),
+		).toThrow();
+		expect(drawn).toBe(false);
+	});
+});
+
+describe("ability checks", () => {
+	it("uses skill proficiency and the skill's ability", () => {
+		const rogue = creature("Vex", { skills: { stealth: 7 } });
+		expect(checkAbility(undefined, "stealth")).toBe("dexterity");
+		expect(abilityCheckTest(rogue, "dexterity", "stealth").modifier).toBe(7);
+		expect(abilityCheckTest(rogue, "strength", "athletics").modifier).toBe(3);
+		expect(() => checkAbility(undefined, "juggling")).toThrow('Unknown skill "juggling"');
+		expect(() => checkAbility(undefined, undefined)).toThrow("Give the ability");
+	});
+
+	it("rolls with disadvantage while poisoned and reports success against a DC", () => {
+		const poisoned = creature("Kargan", {
+			skills: { athletics: 5 },
+			conditions: [condition("poisoned")],
+		});
+		const check = resolveAbilityCheck(
+			abilityCheckTest(poisoned, "strength", "athletics"),
+			{ ability: "strength", skill: "athletics", dc: 12 },
+			scriptedFaces([15, 20], [9, 20]),
+		);
+		expect(check).toMatchObject({
+			rollMode: "disadvantage",
+			naturalRoll: 9,
+			total: 14,
+			success: true,
+		});
+		expect(check.narrative).toBe(
+			"🎲 Kargan rolls 14 (9+5) with disadvantage [15, 9] on a Strength (Athletics) check vs DC 12 — success!",
+		);
+
+		const contested = resolveAbilityCheck(
+			abilityCheckTest(creature("Goblin"), "dexterity"),
+			{ ability: "dexterity" },
+			scriptedFaces([11, 20]),
+		);
+		expect(contested).toMatchObject({ total: 13, success: null });
+	});
+});
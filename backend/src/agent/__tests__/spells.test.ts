@@ -0,0 +1,397 @@
+import { describe, expect, it } from "vitest";
+import type { Creature, CreatureSpellcasting } from "../../schemas/index.js";
+import { setBattlefield } from "../battlefield.js";
+import { applyDamage, type CombatState, startCombat } from "../combat.js";
+import type { RandomSource } from "../rng.js";
+import { castSpell, checkConcentration, endConcentration, planSpell } from "../spells.js";
+
+const NOW = new Date("2025-01-01T00:00:00.000Z");
+
+function creature(name: string, overrides: Partial<Creature> = {}): Creature {
+	return {
+		id: name.toLowerCase(),
+		name,
+		type: "monster",
+		armorClass: 12,
+		hitPoints: 40,
+		maxHitPoints: 40,
+		abilityScores: {
+			strength: 10,
+			dexterity: 14,
+			constitution: 10,
+			intelligence: 16,
+			wisdom: 10,
+			charisma: 10,
+		},
+		size: "Medium",
+		speed: { walk: 30 },
+		savingThrows: {},
+		skills: {},
+		damageVulnerabilities: [],
+		damageResistances: [],
+		damageImmunities: [],
+		conditionImmunities: [],
+		senses: { passivePerception: 10 },
+		traits: [],
+		attacks: [],
+		conditions: [],
+		isAlive: true,
+		...overrides,
+	};
+}
+
+function mage(spellcasting: Partial<CreatureSpellcasting> = {}) {
+	return creature("Mage", {
+		spellcasting: {
+			ability: "intelligence",
+			saveDC: 14,
+			attackBonus: 6,
+			casterLevel: 9,
+			spells: [
+				"fire-bolt",
+				"magic-missile",
+				"scorching-ray",
+				"hold-person",
+				"fireball",
+				"bless",
+				"cure-wounds",
+			],
+			slots: [
+				{ level: 1, max: 4, remaining: 4 },
+				{ level: 2, max: 3, remaining: 3 },
+				{ level: 3, max: 3, remaining: 1 },
+				{ level: 4, max: 3, remaining: 3 },
+			],
+			...spellcasting,
+		},
+	});
+}
+
+function fight(...combatants: Creature[]): CombatState {
+	return startCombat(
+		{ round: 0, turnIndex: 0, combatants, log: [] },
+		combatants.map((c, i) => ({
+			name: c.name,
+			initiative: 20 - i,
+			side: i === 0 ? "mage" : "foes",
+		})),
+		NOW,
+	);
+}
+
+/** Random source that replays the given die faces, each given as [face, sides]. */
+function scriptedFaces(...faces: Array<[number, number]>): () => RandomSource {
+	let i = 0;
+	return () => () => {
+		const [face, sides] = faces[i++];
+		return (face - 1) / sides;
+	};
+}
+
+function noDice(): RandomSource {
+	throw new Error("no dice expected");
+}
+
+const faces = (count: number, face: number, sides: number) =>
+	Array.from({ length: count }, (): [number, number] => [face, sides]);
+
+describe("planSpell", () => {
+	const state = fight(mage(), creature("Goblin 1"), creature("Goblin 2"));
+
+	it("refuses casts the caster can't make", () => {
+		expect(() =>
+			planSpell(state, { caster: "Mage", spell: "Wish", targets: ["Goblin 1"] }),
+		).toThrow("Mage can't cast Wish (spells: Fire Bolt, Magic Missile");
+		expect(() =>
+			planSpell(state, { caster: "Mage", spell: "Fireball", targets: ["Goblin 1"], slotLevel: 2 }),
+		).toThrow("Fireball is a 3rd-level spell and can't be cast with a 2nd-level slot");
+		expect(() =>
+			planSpell(state, { caster: "Mage", spell: "Hold Person", targets: ["Goblin 1", "Goblin 2"] }),
+		).toThrow("Hold Person at 2nd level affects at most 1 target");
+		expect(() => planSpell(state, { caster: "Goblin 1", spell: "Fire Bolt" })).toThrow(
+			"Goblin 1 has no spellcasting",
+		);
+
+		const fallen = creature("Kargan", { type: "player", hitPoints: 0, isAlive: false });
+		expect(() =>
+			planSpell(fight(mage(), fallen), {
+				caster: "Mage",
+				spell: "Cure Wounds",
+				targets: ["Kargan"],
+			}),
+		).toThrow("Kargan is dead — healing can't bring them back");
+	});
+
+	it("takes a spell attack's distance from the battlefield", () => {
+		const placed = setBattlefield(
+			state,
+			{ width: 30, height: 5, difficultTerrain: [] },
+			[
+				{ name: "Mage", x: 0, y: 0 },
+				{ name: "Goblin 1", x: 25, y: 0 },
+				{ name: "Goblin 2", x: 1, y: 0 },
+			],
+			NOW,
+		);
+		expect(() =>
+			planSpell(placed, { caster: "Mage", spell: "Fire Bolt", targets: ["Goblin 1"] }),
+		).toThrow("Goblin 1 is 125 ft from Mage — out of reach and range of Fire Bolt (range 120 ft)");
+
+		const { plan } = planSpell(placed, {
+			caster: "Mage",
+			spell: "Fire Bolt",
+			targets: ["Goblin 2"],
+		});
+		expect(plan.kind === "attack" && plan.attacks[0].effects.disadvantage).toEqual([
+			"Goblin 2 is within 5 ft of Mage (ranged attack)",
+		]);
+	});
+
+	it("refuses casts once the slots run out", () => {
+		const spent = fight(
+			mage({ slots: [{ level: 1, max: 4, remaining: 0 }] }),
+			creature("Goblin 1"),
+		);
+		expect(() =>
+			castSpell(spent, { caster: "Mage", spell: "Magic Missile", targets: ["Goblin 1"] }, noDice),
+		).toThrow("Mage has no 1st-level or higher spell slots left (slots: 1st 0/4)");
+	});
+
+	it("scales cantrips with caster level and upcast spells with the slot", () => {
+		const bolt = planSpell(state, { caster: "Mage", spell: "fire bolt", targets: ["Goblin 1"] });
+		expect(bolt.slotLevel).toBeNull();
+		expect(bolt.plan).toMatchObject({
+			kind: "attack",
+			attacks: [{ request: { damageDice: "2d10" } }],
+		});
+
+		const ray = planSpell(state, {
+			caster: "Mage",
+			spell: "Scorching Ray",
+			targets: ["Goblin 1", "Goblin 2"],
+			slotLevel: 3,
+		});
+		const rays = ray.plan.kind === "attack" ? ray.plan.attacks : [];
+		expect(rays.map((a) => a.request.targetName)).toEqual([
+			"Goblin 1",
+			"Goblin 2",
+			"Goblin 1",
+			"Goblin 2",
+		]);
+
+		const fireball = planSpell(state, {
+			caster: "Mage",
+			spell: "Fireball",
+			targets: ["Goblin 1"],
+			slotLevel: 4,
+		});
+		expect(fireball.plan).toMatchObject({ kind: "save", request: { dc: 14, damageDice: "9d6" } });
+
+		const heal = planSpell(state, { caster: "Mage", spell: "Cure Wounds" });
+		expect(heal.plan).toMatchObject({ kind: "healing", dice: "1d8+3", targets: ["Mage"] });
+	});
+
+	it("targets everyone an area spell aimed on the battlefield catches", () => {
+		const placed = (name: string, x: number, y: number) => ({
+			...state.combatants.find((c) => c.name === name),
+			position: { x, y },
+		});
+		const field = {
+			...state,
+			battlefield: { width: 20, height: 20, difficultTerrain: [] },
+			combatants: [placed("Mage", 0, 0), placed("Goblin 1", 10, 10), placed("Goblin 2", 13, 10)],
+		} as CombatState;
+
+		const fireball = planSpell(field, {
+			caster: "Mage",
+			spell: "Fireball",
+			area: { origin: { x: 11, y: 10 } },
+		});
+		expect(fireball.plan.kind === "save" && fireball.plan.tests.map((t) => t.name)).toEqual([
+			"Goblin 1",
+			"Goblin 2",
+		]);
+		expect(() =>
+			planSpell(field, { caster: "Mage", spell: "Fireball", area: { origin: { x: 5, y: 5 } } }),
+		).toThrow("Fireball's 20-ft sphere centered on (5, 5) catches no combatants");
+		expect(() =>
+			planSpell(field, {
+				caster: "Mage",
+				spell: "Hold Person",
+				area: { origin: { x: 10, y: 10 } },
+			}),
+		).toThrow("Hold Person has no area of effect — name its targets");
+	});
+});
+
+describe("castSpell", () => {
+	it("spends the slot, rolls the saves and applies the damage", () => {
+		const state = fight(mage(), creature("Goblin 1"), creature("Goblin 2"));
+		// Goblin 1 saves on 15 (+2 = 17), Goblin 2 fails on 2; then 8d6 of 3s = 24
+		const { state: next, result } = castSpell(
+			state,
+			{ caster: "Mage", spell: "Fireball", targets: ["Goblin 1", "Goblin 2"] },
+			scriptedFaces([15, 20], [2, 20], ...faces(8, 3, 6)),
+			NOW,
+		);
+		expect(result.hpChanges.map((c) => [c.name, c.amount])).toEqual([
+			["Goblin 1", 12],
+			["Goblin 2", 24],
+		]);
+		expect(result.slots).toBe("1st 4/4, 2nd 3/3, 3rd 0/3, 4th 3/3");
+		expect(result.narrative.split("\n")[0]).toBe("✨ Mage casts Fireball with a 3rd-level slot");
+		expect(next.combatants.map((c) => c.hitPoints)).toEqual([40, 28, 16]);
+		expect(next.log.map((entry) => entry.message)).toContain(
+			"Mage casts Fireball (3rd-level slot)",
+		);
+	});
+
+	it("fires every dart of an upcast Magic Missile with one damage roll", () => {
+		const state = fight(mage(), creature("Goblin 1"), creature("Goblin 2"));
+		const { result } = castSpell(
+			state,
+			{ caster: "Mage", spell: "Magic Missile", targets: ["Goblin 1", "Goblin 2"], slotLevel: 2 },
+			scriptedFaces([3, 4]),
+			NOW,
+		);
+		expect(result.plan).toMatchObject({ darts: ["Goblin 1", "Goblin 2", "Goblin 1", "Goblin 2"] });
+		expect(result.hpChanges.map((c) => [c.name, c.amount])).toEqual([
+			["Goblin 1", 8],
+			["Goblin 2", 8],
+		]);
+	});
+
+	it("paralyzes on a failed save and ends the spell when concentration moves on", () => {
+		const state = fight(mage(), creature("Goblin 1"));
+		const held = castSpell(
+			state,
+			{ caster: "Mage", spell: "Hold Person", targets: ["Goblin 1"] },
+			scriptedFaces([5, 20]),
+			NOW,
+		);
+		expect(held.state.combatants[1].conditions).toEqual([
+			{
+				name: "paralyzed",
+				source: "Hold Person",
+				duration: { type: "until-save", ability: "wisdom", dc: 14 },
+			},
+		]);
+		expect(held.state.combatants[0].concentration).toEqual({
+			spell: "Hold Person",
+			targets: ["Goblin 1"],
+		});
+
+		const blessed = castSpell(held.state, { caster: "Mage", spell: "Bless" }, noDice, NOW);
+		expect(blessed.state.combatants[1].conditions).toEqual([]);
+		expect(blessed.state.combatants[0].concentration).toEqual({
+			spell: "Bless",
+			targets: ["Mage"],
+		});
+		expect(blessed.result.notes).toEqual([
+			"Mage stops concentrating on Hold Person; Goblin 1 is no longer paralyzed",
+			"Mage is concentrating on Bless",
+		]);
+	});
+
+	it("heals the caster by default, adding the spellcasting modifier", () => {
+		const state = fight(mage(), creature("Goblin 1"));
+		const hurt = {
+			...state,
+			combatants: [{ ...state.combatants[0], hitPoints: 20 }, state.combatants[1]],
+		};
+		const { state: next } = castSpell(
+			hurt,
+			{ caster: "Mage", spell: "Cure Wounds" },
+			scriptedFaces([5, 8]),
+			NOW,
+		);
+		expect(next.combatants[0].hitPoints).toBe(28);
+	});
+});
+
+describe("endConcentration", () => {
+	it("leaves a caster that isn't concentrating alone", () => {
+		const state = fight(mage(), creature("Goblin 1"));
+		expect(endConcentration(state, "Mage", NOW)).toEqual({ state, message: null });
+	});
+});
+
+describe("checkConcentration", () => {
+	// The mage holds Goblin 1 (it fails its save on a 5)
+	const held = castSpell(
+		fight(mage(), creature("Goblin 1"), creature("Goblin 2")),
+		{ caster: "Mage", spell: "Hold Person", targets: ["Goblin 1"] },
+		scriptedFaces([5, 20]),
+		NOW,
+	).state;
+
+	function hit(amount: number, rng: () => RandomSource) {
+		const applied = applyDamage(held, "Mage", amount, {}, NOW);
+		return checkConcentration(applied.state, [applied.change], rng, NOW);
+	}
+
+	it("keeps the spell on a Constitution save against DC 10 or half the damage", () => {
+		const kept = hit(6, scriptedFaces([10, 20]));
+		expect(kept.checks).toMatchObject([{ name: "Mage", spell: "Hold Person", maintained: true }]);
+		expect(kept.checks[0].save?.dc).toBe(10);
+		expect(kept.state.combatants[0].concentration?.spell).toBe("Hold Person");
+		expect(kept.checks[0].narrative.split("\n")).toEqual([
+			"DC 10 Constitution saving throw against concentration on Hold Person",
+			"Mage rolls 10 (10+0) — succeeds",
+			"Mage keeps concentrating on Hold Person",
+		]);
+
+		// 30 damage raises the DC to 15
+		const broken = hit(30, scriptedFaces([14, 20]));
+		expect(broken.checks[0]).toMatchObject({
+			maintained: false,
+			ended: [{ target: "Goblin 1", conditions: [] }],
+		});
+		expect(broken.checks[0].save?.dc).toBe(15);
+		expect(broken.state.combatants[0].concentration).toBeUndefined();
+		expect(broken.state.combatants[1].conditions).toEqual([]);
+	});
+
+	it("never spends Legendary Resistance on the save", () => {
+		const legendary = {
+			...held,
+			combatants: held.combatants.map((c, i) =>
+				i === 0 ? { ...c, legendaryResistance: { perDay: 3, remaining: 3 } } : c,
+			),
+		};
+		const applied = applyDamage(legendary, "Mage", 30, {}, NOW);
+		const broken = checkConcentration(applied.state, [applied.change], scriptedFaces([2, 20]), NOW);
+		expect(broken.checks[0]).toMatchObject({ maintained: false });
+		expect(broken.checks[0].save?.results[0].legendaryResistance).toBe(false);
+		expect(broken.state.combatants[0].legendaryResistance?.remaining).toBe(3);
+	});
+
+	it("ends the spell without a save at 0 HP, and skips creatures that aren't concentrating", () => {
+		const dropped = hit(40, noDice);
+		expect(dropped.checks[0]).toMatchObject({ save: null, maintained: false });
+		expect(dropped.checks[0].narrative).toBe(
+			"Mage drops to 0 HP\nMage stops concentrating on Hold Person; Goblin 1 is no longer paralyzed",
+		);
+
+		const applied = applyDamage(held, "Goblin 2", 5, {}, NOW);
+		expect(checkConcentration(applied.state, [applied.change], noDice, NOW).checks).toEqual([]);
+	});
+
+	it("rolls after a spell's own dice when the spell damages a concentrating target", () => {
+		// Goblin 2 casts at the mage: a 15 hits AC 12, 2d10 of 5s, then the mage saves on a 3
+		const caster = { ...mage(), name: "Goblin 2", id: "goblin-2" };
+		const state = {
+			...held,
+			combatants: [held.combatants[0], held.combatants[1], caster],
+		};
+		const { result } = castSpell(
+			state,
+			{ caster: "Goblin 2", spell: "Fire Bolt", targets: ["Mage"] },
+			scriptedFaces([15, 20], [5, 10], [5, 10], [3, 20]),
+			NOW,
+		);
+		expect(result.concentrationChecks).toMatchObject([
+			{ name: "Mage", damage: 10, maintained: false },
+		]);
+	});
+});
@@ -1,13 +1,56 @@
 import { describe, expect, it } from "vitest";
+import { SRD_MONSTERS } from "../../compendium/srd-monsters.js";
+import { monsterToStatBlock } from "../../compendium/stat-block.js";
+import { monsterSchema } from "../../schemas/index.js";
+import { createCombatTracker } from "../combat.js";
+import { createArenaContext } from "../context.js";
+import { createSeededRandom, type RandomSource } from "../rng.js";
 import {
+	abilityCheckTool,
+	applyConditionTool,
+	applyDamageTool,
+	applyHealingTool,
 	applyKeepDrop,
+	areaEffectTool,
+	buildCharacterTool,
 	calculateAbilityModifier,
+	castSpellTool,
+	deathSaveTool,
 	generateStatBlockTool,
+	getCombatStateTool,
+	loadCreatureTool,
+	moveCombatantTool,
+	nextTurnTool,
 	parseDiceNotation,
+	removeConditionTool,
 	resolveAttackTool,
+	resolveSavingThrowTool,
 	rollDiceTool,
+	rollRechargeTool,
+	setBattlefieldTool,
+	startCombatTool,
+	useLairActionTool,
+	useLegendaryActionTool,
+	useRechargeAbilityTool,
 } from "../tools.js";
 
+/** Context for the range-based tests below: no arena, so tools fall back to Math.random. */
+const unseeded = {};
+
+/** Tool execution context whose rolls come from the given random source. */
+function withRng(rng: RandomSource) {
+	return { requestContext: createArenaContext({ rng }) };
+}
+
+/** Random source that replays the given die faces, each given as [face, sides]. */
+function scriptedFaces(...faces: Array<[number, number]>): RandomSource {
+	let i = 0;
+	return () => {
+		const [face, sides] = faces[i++];
+		return (face - 1) / sides;
+	};
+}
+
 // ── Pure function tests ──
 
 describe("parseDiceNotation", () => {
@@ -134,7 +177,7 @@ describe("calculateAbilityModifier", () => {
 
 describe("rollDiceTool.execute", () => {
 	it("rolls dice and returns correct structure", async () => {
-		const result = await rollDiceTool.execute?.({ notation: "2d6+3", purpose: "damage" });
+		const result = await rollDiceTool.execute?.({ notation: "2d6+3", purpose: "damage" }, unseeded);
 
 		expect(result).toBeDefined();
 		if ("error" in (result as object)) return;
@@ -157,10 +200,13 @@ describe("rollDiceTool.execute", () => {
 	});
 
 	it("handles advantage notation (2d20kh1)", async () => {
-		const result = await rollDiceTool.execute?.({
-			notation: "2d20kh1+5",
-			purpose: "attack with advantage",
-		});
+		const result = await rollDiceTool.execute?.(
+			{
+				notation: "2d20kh1+5",
+				purpose: "attack with advantage",
+			},
+			unseeded,
+		);
 
 		expect(result).toBeDefined();
 		if ("error" in (result as object)) return;
@@ -175,15 +221,34 @@ describe("rollDiceTool.execute", () => {
 		expect(r.kept[0]).toBe(Math.max(...r.rolls));
 		expect(r.total).toBe(r.kept[0] + 5);
 	});
+
+	it("rolls multi-term expressions with a per-term breakdown", async () => {
+		const result = await rollDiceTool.execute?.({ notation: "1d8+2d6+3" }, unseeded);
+
+		if ("error" in (result as object)) return;
+		const r = result as {
+			rolls: number[];
+			modifier: number;
+			total: number;
+			breakdown: Array<{ notation: string; total: number }>;
+		};
+		expect(r.rolls).toHaveLength(3);
+		expect(r.modifier).toBe(3);
+		expect(r.breakdown.map((t) => t.notation)).toEqual(["1d8", "2d6", "3"]);
+		expect(r.total).toBe(r.breakdown.reduce((sum, t) => sum + t.total, 0));
+	});
 });
 
 describe("generateStatBlockTool.execute", () => {
 	it("generates a valid stat block", async () => {
-		const result = await generateStatBlockTool.execute?.({
-			name: "Goblin",
-			type: "monster" as const,
-			challengeRating: 1,
-		});
+		const result = await generateStatBlockTool.execute?.(
+			{
+				name: "Goblin",
+				type: "monster" as const,
+				challengeRating: 1,
+			},
+			unseeded,
+		);
 
 		if ("error" in (result as object)) return;
 		const r = result as {
@@ -199,18 +264,492 @@ describe("generateStatBlockTool.execute", () => {
 		expect(r.hitPoints).toBeGreaterThanOrEqual(1);
 		expect(r.isAlive).toBe(true);
 	});
+
+	it("accepts fractional CRs written as fractions", async () => {
+		const result = await generateStatBlockTool.execute?.(
+			{ name: "Kobold", type: "monster" as const, challengeRating: "1/4" as const, size: "Small" },
+			unseeded,
+		);
+		const r = result as { challengeRating: number; hitPoints: number; hitDice: string };
+		expect(r.challengeRating).toBe(0.25);
+		expect(r.hitDice).toMatch(/^\d+d6$/);
+		expect(r.hitPoints).toBeGreaterThanOrEqual(36);
+		expect(r.hitPoints).toBeLessThanOrEqual(49);
+	});
+});
+
+describe("loadCreatureTool.execute", () => {
+	it("finds nothing outside an arena run, where there is no library owner", async () => {
+		const result = await loadCreatureTool.execute?.({ creature: "Lord Malgrim" }, unseeded);
+		expect(result).toEqual({ found: false, suggestions: [] });
+	});
+});
+
+describe("combat state tools", () => {
+	it("need an arena run to track state", async () => {
+		await expect(getCombatStateTool.execute?.({}, unseeded)).rejects.toThrow("arena run");
+	});
+
+	it("start combat from the stat blocks created in the run and advance turns", async () => {
+		const combat = createCombatTracker();
+		const context = {
+			requestContext: createArenaContext({ rng: createSeededRandom("combat"), combat }),
+		};
+		for (const name of ["Kargan", "Ogre"]) {
+			await generateStatBlockTool.execute?.({ name, type: "monster", challengeRating: 2 }, context);
+		}
+		expect(combat.state.combatants.map((c) => c.name)).toEqual(["Kargan", "Ogre"]);
+
+		const started = await startCombatTool.execute?.(
+			{
+				combatants: [
+					{ name: "Ogre", initiative: 7, side: "monsters" },
+					{ name: "Kargan", initiative: 16, side: "party" },
+				],
+			},
+			context,
+		);
+		expect(started).toMatchObject({ status: "active", round: 1, currentTurn: "Kargan" });
+
+		await nextTurnTool.execute?.({}, context);
+		const state = await nextTurnTool.execute?.({}, context);
+		expect(state).toMatchObject({ round: 2, currentTurn: "Kargan" });
+		expect(state).toEqual({
+			...(await getCombatStateTool.execute?.({}, context)),
+			savesDue: [],
+			rechargesDue: [],
+		});
+	});
+
+	it("track damage and healing on the combatants", async () => {
+		const combat = createCombatTracker();
+		const context = {
+			requestContext: createArenaContext({ rng: createSeededRandom("hp"), combat }),
+		};
+		for (const name of ["Kargan", "Ogre"]) {
+			await generateStatBlockTool.execute?.({ name, type: "monster", challengeRating: 0 }, context);
+		}
+		await startCombatTool.execute?.(
+			{
+				combatants: [
+					{ name: "Kargan", initiative: 16, side: "party" },
+					{ name: "Ogre", initiative: 7, side: "monsters" },
+				],
+			},
+			context,
+		);
+		const maxHitPoints = combat.state.combatants[1].maxHitPoints;
+
+		const wounded = await applyDamageTool.execute?.({ target: "Ogre", amount: 1 }, context);
+		expect(wounded).toMatchObject({ hitPoints: maxHitPoints - 1, status: "active" });
+		await applyHealingTool.execute?.({ target: "Ogre", amount: 1 }, context);
+		expect(combat.state.combatants[1].hitPoints).toBe(maxHitPoints);
+
+		const killed = await applyDamageTool.execute?.({ target: "Ogre", amount: 100 }, context);
+		expect(killed).toMatchObject({
+			hitPoints: 0,
+			isAlive: false,
+			status: "ended",
+			winner: "party",
+		});
+		expect(killed && "creature" in killed && killed.creature.isAlive).toBe(false);
+	});
+
+	it("roll death saves for a player character dropped to 0 HP", async () => {
+		const combat = createCombatTracker();
+		const setup = {
+			requestContext: createArenaContext({ rng: createSeededRandom("down"), combat }),
+		};
+		await buildCharacterTool.execute?.(
+			{
+				name: "Kargan",
+				className: "fighter" as const,
+				race: "dwarf" as const,
+				level: 1,
+				abilityMethod: "standard-array" as const,
+			},
+			setup,
+		);
+		for (const name of ["Mira", "Ogre"]) {
+			await generateStatBlockTool.execute?.({ name, type: "npc", challengeRating: 0 }, setup);
+		}
+		await startCombatTool.execute?.(
+			{
+				combatants: [
+					{ name: "Kargan", initiative: 16, side: "party" },
+					{ name: "Mira", initiative: 12, side: "party" },
+					{ name: "Ogre", initiative: 7, side: "monsters" },
+				],
+			},
+			setup,
+		);
+		const { maxHitPoints } = combat.state.combatants[0];
+
+		const down = await applyDamageTool.execute?.({ target: "Kargan", amount: maxHitPoints }, setup);
+		expect(down).toMatchObject({ hitPoints: 0, isAlive: true, status: "active" });
+		expect(down && "creature" in down && down.creature.conditions.map((c) => c.name)).toEqual([
+			"unconscious",
+		]);
+
+		const context = {
+			requestContext: createArenaContext({ rng: scriptedFaces([20, 20]), combat }),
+		};
+		const save = await deathSaveTool.execute?.({ name: "Kargan" }, context);
+		expect(save).toMatchObject({ roll: 20, revived: true, hitPoints: 1, status: "active" });
+		await expect(deathSaveTool.execute?.({ name: "Kargan" }, context)).rejects.toThrow(
+			"Kargan isn't dying (1 HP)",
+		);
+	});
+
+	it("track conditions and apply them to attacks", async () => {
+		const combat = createCombatTracker();
+		const context = {
+			requestContext: createArenaContext({
+				// Disadvantage d20s, then the hit's damage die
+				rng: scriptedFaces([15, 20], [4, 20], [3, 6]),
+				combat,
+			}),
+		};
+		for (const name of ["Kargan", "Ogre"]) {
+			await generateStatBlockTool.execute?.(
+				{ name, type: "monster", challengeRating: 0 },
+				{ requestContext: createArenaContext({ rng: createSeededRandom(name), combat }) },
+			);
+		}
+		await startCombatTool.execute?.(
+			{
+				combatants: [
+					{ name: "Kargan", initiative: 16, side: "party" },
+					{ name: "Ogre", initiative: 7, side: "monsters" },
+				],
+			},
+			context,
+		);
+
+		const prone = await applyConditionTool.execute?.(
+			{ target: "Ogre", condition: "prone", source: "Shove" },
+			context,
+		);
+		expect(prone).toMatchObject({ applied: true, conditions: ["prone (Shove)"] });
+
+		const attack = await resolveAttackTool.execute?.(
+			{
+				attackerName: "Kargan",
+				targetName: "Ogre",
+				toHitBonus: 5,
+				targetAC: 12,
+				damageDice: "1d6",
+				damageType: "piercing",
+				distance: 60,
+			},
+			context,
+		);
+		expect(attack).toMatchObject({
+			rollMode: "disadvantage",
+			d20Rolls: [15, 4],
+			naturalRoll: 4,
+			hit: false,
+		});
+
+		await applyConditionTool.execute?.(
+			{
+				target: "Kargan",
+				condition: "frightened",
+				duration: { type: "until-save", ability: "wisdom", dc: 13 },
+			},
+			context,
+		);
+		const next = await nextTurnTool.execute?.({}, context);
+		expect(next && "savesDue" in next && next.savesDue).toEqual([
+			{ name: "Kargan", condition: "frightened", ability: "wisdom", dc: 13 },
+		]);
+
+		const removed = await removeConditionTool.execute?.(
+			{ target: "Kargan", condition: "frightened" },
+			context,
+		);
+		expect(removed).toMatchObject({ applied: true, conditions: [] });
+	});
+});
+
+describe("saving throw and ability check tools", () => {
+	async function duel(rng: RandomSource) {
+		const combat = createCombatTracker();
+		for (const name of ["Kargan", "Ogre"]) {
+			await generateStatBlockTool.execute?.(
+				{ name, type: "monster", challengeRating: 1 },
+				{ requestContext: createArenaContext({ rng: createSeededRandom(name), combat }) },
+			);
+		}
+		return { combat, context: { requestContext: createArenaContext({ rng, combat }) } };
+	}
+
+	it("roll each target's save and apply the damage", async () => {
+		const { combat, context } = await duel(scriptedFaces([20, 20], [1, 20], [4, 6], [4, 6]));
+		const [kargan, ogre] = combat.state.combatants;
+
+		const result = await resolveSavingThrowTool.execute?.(
+			{
+				targets: [{ name: "kargan" }, { name: "Ogre" }],
+				ability: "dexterity",
+				dc: 15,
+				source: "Fire Breath",
+				damageDice: "2d6",
+				damageType: "fire",
+			},
+			context,
+		);
+		expect(result).toMatchObject({ damage: { total: 8 }, status: "setup" });
+		const results = result && "results" in result ? result.results : [];
+		expect(results.map((r) => [r.name, r.success, r.damage])).toEqual([
+			["Kargan", true, 4],
+			["Ogre", false, 8],
+		]);
+		expect(combat.state.combatants.map((c) => c.hitPoints)).toEqual([
+			kargan.hitPoints - 4,
+			ogre.hitPoints - 8,
+		]);
+		expect(result && "hpChanges" in result && result.hpChanges.map((c) => c.amount)).toEqual([
+			4, 8,
+		]);
+	});
+
+	it("roll a concentration check for a concentrating target after the damage", async () => {
+		const { combat, context } = await duel(
+			scriptedFaces([20, 20], [1, 20], [4, 6], [4, 6], [2, 20]),
+		);
+		await combat.update((state) => ({
+			...state,
+			combatants: state.combatants.map((c) =>
+				c.name === "Kargan" ? { ...c, concentration: { spell: "Bless", targets: ["Kargan"] } } : c,
+			),
+		}));
+
+		const result = await resolveSavingThrowTool.execute?.(
+			{
+				targets: [{ name: "Kargan" }, { name: "Ogre" }],
+				ability: "dexterity",
+				dc: 15,
+				damageDice: "2d6",
+			},
+			context,
+		);
+		expect(result).toMatchObject({
+			concentrationChecks: [
+				{ name: "Kargan", spell: "Bless", damage: 4, maintained: false, save: { dc: 10 } },
+			],
+		});
+		expect(combat.state.combatants[0].concentration).toBeUndefined();
+	});
+
+	it("reject unknown targets before rolling", async () => {
+		const { combat, context } = await duel(() => {
+			throw new Error("no dice expected");
+		});
+		await expect(
+			resolveSavingThrowTool.execute?.(
+				{ targets: [{ name: "Troll" }], ability: "dexterity", dc: 15 },
+				context,
+			),
+		).rejects.toThrow("No combatant named Troll");
+		expect(combat.state.log).toEqual([]);
+	});
+
+	it("roll an ability check with the combatant's modifier", async () => {
+		const { combat, context } = await duel(scriptedFaces([10, 20]));
+		const strength = combat.state.combatants[0].abilityScores.strength;
+		const check = await abilityCheckTool.execute?.(
+			{ name: "Kargan", skill: "athletics", dc: 10 },
+			context,
+		);
+		expect(check).toMatchObject({
+			ability: "strength",
+			naturalRoll: 10,
+			total: 10 + Math.floor((strength - 10) / 2),
+		});
+	});
+});
+
+describe("cast-spell tool", () => {
+	async function wizardDuel(rng: RandomSource) {
+		const combat = createCombatTracker();
+		const setup = {
+			requestContext: createArenaContext({ rng: createSeededRandom("setup"), combat }),
+		};
+		await buildCharacterTool.execute?.(
+			{
+				name: "Thalor",
+				className: "wizard" as const,
+				race: "human" as const,
+				level: 1,
+				abilityMethod: "standard-array" as const,
+			},
+			setup,
+		);
+		await generateStatBlockTool.execute?.(
+			{ name: "Ogre", type: "monster", challengeRating: 2 },
+			setup,
+		);
+		return { combat, context: { requestContext: createArenaContext({ rng, combat }) } };
+	}
+
+	it("spend a slot per cast, apply the damage and refuse once the slots are gone", async () => {
+		const { combat, context } = await wizardDuel(scriptedFaces([2, 4], [4, 4]));
+		const ogre = combat.state.combatants[1];
+		const missile = { caster: "Thalor", spell: "Magic Missile", targets: ["Ogre"] };
+
+		const first = await castSpellTool.execute?.(missile, context);
+		expect(first).toMatchObject({ slots: "1st 1/2", hpChanges: [{ name: "Ogre", amount: 9 }] });
+		await castSpellTool.execute?.(missile, context);
+		expect(combat.state.combatants[1].hitPoints).toBe(ogre.hitPoints - 9 - 15);
+
+		await expect(castSpellTool.execute?.(missile, context)).rejects.toThrow(
+			"Thalor has no 1st-level or higher spell slots left (slots: 1st 0/2)",
+		);
+		expect(combat.state.combatants[0].spellcasting?.slots).toEqual([
+			{ level: 1, max: 2, remaining: 0 },
+		]);
+	});
+});
+
+describe("battlefield tools", () => {
+	async function skirmish(rng: RandomSource) {
+		const combat = createCombatTracker();
+		const context = { requestContext: createArenaContext({ rng, combat }) };
+		for (const name of ["Kargan", "Ogre"]) {
+			await generateStatBlockTool.execute?.(
+				{ name, type: "monster", challengeRating: 1 },
+				{ requestContext: createArenaContext({ rng: createSeededRandom(name), combat }) },
+			);
+		}
+		await startCombatTool.execute?.(
+			{
+				combatants: [
+					{ name: "Kargan", initiative: 16, side: "party" },
+					{ name: "Ogre", initiative: 7, side: "monsters" },
+				],
+			},
+			context,
+		);
+		const placed = await setBattlefieldTool.execute?.(
+			{
+				width: 8,
+				height: 8,
+				positions: [
+					{ name: "Kargan", x: 1, y: 0 },
+					{ name: "Ogre", x: 0, y: 0 },
+				],
+			},
+			context,
+		);
+		return { combat, context, placed };
+	}
+
+	it("place combatants and roll the opportunity attack a move provokes", async () => {
+		// The ogre's opportunity attack rolls a natural 1
+		const { combat, context, placed } = await skirmish(scriptedFaces([1, 20]));
+		expect(placed).toMatchObject({
+			battlefield: { width: 8, height: 8, difficultTerrain: [] },
+			combatants: [{ position: { x: 1, y: 0 } }, { position: { x: 0, y: 0 } }],
+		});
+
+		const moved = await moveCombatantTool.execute?.(
+			{ name: "Kargan", to: { x: 4, y: 0 } },
+			context,
+		);
+		expect(moved).toMatchObject({
+			from: { x: 1, y: 0 },
+			to: { x: 4, y: 0 },
+			feetMoved: 15,
+			movementLeft: 15,
+			stopped: false,
+			hpChanges: [],
+			opportunityAttacks: [{ attacker: "Ogre", result: { naturalRoll: 1, hit: false } }],
+		});
+		expect(combat.state.combatants[1].reactionUsed).toBe(true);
+		expect(combat.state.log.at(-1)?.message).toBe("Kargan moves 15 ft to (4, 0)");
+	});
+
+	it("let a mover leave an enemy it has charmed without an opportunity attack", async () => {
+		const { combat, context } = await skirmish(() => {
+			throw new Error("no dice should be rolled");
+		});
+		await applyConditionTool.execute?.(
+			{ target: "Ogre", condition: "charmed", source: "Kargan" },
+			context,
+		);
+		const moved = await moveCombatantTool.execute?.(
+			{ name: "Kargan", to: { x: 4, y: 0 } },
+			context,
+		);
+		expect(moved).toMatchObject({ to: { x: 4, y: 0 }, opportunityAttacks: [] });
+		expect(combat.state.combatants[1].reactionUsed).toBeFalsy();
+	});
+
+	it("refuse attacks the grid says can't reach, before rolling", async () => {
+		const { context } = await skirmish(() => {
+			throw new Error("no dice should be rolled");
+		});
+		await moveCombatantTool.execute?.(
+			{ name: "Kargan", to: { x: 4, y: 0 }, disengage: true },
+			context,
+		);
+		await expect(
+			resolveAttackTool.execute?.(
+				{
+					attackerName: "Ogre",
+					targetName: "Kargan",
+					toHitBonus: 4,
+					targetAC: 12,
+					damageDice: "1d8",
+					damageType: "slashing",
+				},
+				context,
+			),
+		).rejects.toThrow("Kargan is 20 ft from Ogre — out of reach and range of Ogre's attacks");
+	});
+	it("catch everyone in an area effect and apply the damage", async () => {
+		// The ogre's save, then the 2d6 damage
+		const { combat, context } = await skirmish(scriptedFaces([5, 20], [3, 6], [4, 6]));
+		const ogre = combat.state.combatants[1];
+		const breath = {
+			source: "Fire Breath",
+			caster: "Kargan",
+			shape: "cone" as const,
+			size: 15,
+			ability: "dexterity" as const,
+			dc: 30,
+			damageDice: "2d6",
+			damageType: "fire",
+		};
+
+		const result = await areaEffectTool.execute?.({ ...breath, toward: { x: 0, y: 0 } }, context);
+		expect(result).toMatchObject({
+			area: "15-ft cone from (1, 0) toward (0, 0)",
+			targets: ["Ogre"],
+			hpChanges: [{ name: "Ogre", amount: 7 }],
+		});
+		expect(combat.state.combatants[1].hitPoints).toBe(ogre.hitPoints - 7);
+
+		await expect(
+			areaEffectTool.execute?.({ ...breath, toward: { x: 5, y: 5 } }, context),
+		).rejects.toThrow("The 15-ft cone from (1, 0) toward (5, 5) catches no combatants");
+	});
 });
 
 describe("resolveAttackTool.execute", () => {
 	it("resolves an attack", async () => {
-		const result = await resolveAttackTool.execute?.({
-			attackerName: "Fighter",
-			targetName: "Goblin",
-			toHitBonus: 5,
-			targetAC: 12,
-			damageDice: "1d8+3",
-			damageType: "slashing",
-		});
+		const result = await resolveAttackTool.execute?.(
+			{
+				attackerName: "Fighter",
+				targetName: "Goblin",
+				toHitBonus: 5,
+				targetAC: 12,
+				damageDice: "1d8+3",
+				damageType: "slashing",
+			},
+			unseeded,
+		);
 
 		if ("error" in (result as object)) return;
 		const r = result as {
@@ -230,14 +769,17 @@ describe("resolveAttackTool.execute", () => {
 	it("critical hits always hit and fumbles always miss", async () => {
 		const results = await Promise.all(
 			Array.from({ length: 100 }, () =>
-				resolveAttackTool.execute?.({
-					attackerName: "A",
-					targetName: "B",
-					toHitBonus: -10,
-					targetAC: 30,
-					damageDice: "1d4+0",
-					damageType: "bludgeoning",
-				}),
+				resolveAttackTool.execute?.(
+					{
+						attackerName: "A",
+						targetName: "B",
+						toHitBonus: -10,
+						targetAC: 30,
+						damageDice: "1d4+0",
+						damageType: "bludgeoning",
+					},
+					unseeded,
+				),
 			),
 		);
 
@@ -261,4 +803,475 @@ describe("resolveAttackTool.execute", () => {
 			}
 		}
 	});
+
+	it("rejects malformed damage dice instead of dealing 0", async () => {
+		await expect(
+			resolveAttackTool.execute?.(
+				{
+					attackerName: "A",
+					targetName: "B",
+					toHitBonus: 5,
+					targetAC: 10,
+					damageDice: "2d6+banana",
+					damageType: "slashing",
+				},
+				unseeded,
+			),
+		).rejects.toThrow("Invalid dice notation");
+	});
+});
+
+// ── Seeded / scripted randomness ──
+
+describe("seeded tool execution", () => {
+	it("replays identical rolls from the same seed", async () => {
+		const roll = () =>
+			rollDiceTool.execute?.({ notation: "4d6dl1+1d8!" }, withRng(createSeededRandom("arena-1")));
+		expect(await roll()).toEqual(await roll());
+	});
+
+	it("generates identical stat blocks from the same seed", async () => {
+		const generate = async () => {
+			const result = await generateStatBlockTool.execute?.(
+				{ name: "Ogre", type: "monster" as const, challengeRating: 2 },
+				withRng(createSeededRandom("arena-1")),
+			);
+			const { id: _id, ...rest } = result as { id: string };
+			return rest;
+		};
+		expect(await generate()).toEqual(await generate());
+	});
+
+	it("rolls a character's ability scores from the arena's random source", async () => {
+		const build = async () => {
+			const result = await buildCharacterTool.execute?.(
+				{
+					name: "Vex",
+					className: "rogue" as const,
+					race: "halfling" as const,
+					level: 3,
+					abilityMethod: "roll" as const,
+				},
+				withRng(createSeededRandom("arena-1")),
+			);
+			return (result as { character: { baseAbilityScores: object } }).character.baseAbilityScores;
+		};
+		expect(await build()).toEqual(await build());
+	});
+
+	it("rolls a natural 20 into a critical with doubled dice", async () => {
+		const result = await resolveAttackTool.execute?.(
+			{
+				attackerName: "Fighter",
+				targetName: "Goblin",
+				toHitBonus: 5,
+				targetAC: 15,
+				damageDice: "1d8+3",
+				damageType: "slashing",
+			},
+			withRng(scriptedFaces([20, 20], [6, 8], [2, 8])),
+		);
+
+		expect(result).toMatchObject({
+			naturalRoll: 20,
+			attackRoll: 25,
+			isCritical: true,
+			hit: true,
+			damageRolls: [6, 2],
+			totalDamage: 11,
+		});
+	});
+
+	it("misses on a natural 1 without rolling damage", async () => {
+		const result = await resolveAttackTool.execute?.(
+			{
+				attackerName: "Fighter",
+				targetName: "Goblin",
+				toHitBonus: 20,
+				targetAC: 10,
+				damageDice: "1d8+3",
+				damageType: "slashing",
+			},
+			withRng(scriptedFaces([1, 20])),
+		);
+
+		expect(result).toMatchObject({ naturalRoll: 1, isFumble: true, hit: false, totalDamage: 0 });
+	});
+
+	it("hits when the attack roll meets the AC exactly", async () => {
+		const result = await resolveAttackTool.execute?.(
+			{
+				attackerName: "Rogue",
+				targetName: "Guard",
+				toHitBonus: 5,
+				targetAC: 16,
+				damageDice: "1d6+2d6+3",
+				damageType: "piercing",
+			},
+			withRng(scriptedFaces([11, 20], [4, 6], [1, 6], [5, 6])),
+		);
+
+		expect(result).toMatchObject({ attackRoll: 16, hit: true, totalDamage: 13 });
+	});
+
+	it("rolls two d20s with advantage and explains every situational modifier", async () => {
+		const result = await resolveAttackTool.execute?.(
+			{
+				attackerName: "Vex",
+				targetName: "Guard",
+				toHitBonus: 5,
+				targetAC: 14,
+				damageDice: "1d6+3",
+				damageType: "piercing",
+				situations: ["flanking", "invisible-attacker"],
+				cover: "half",
+				magicBonus: 1,
+			},
+			withRng(scriptedFaces([4, 20], [11, 20], [2, 6])),
+		);
+
+		expect(result).toMatchObject({
+			d20Rolls: [4, 11],
+			naturalRoll: 11,
+			attackRoll: 17,
+			rollMode: "advantage",
+			rollModeReasons: {
+				advantage: ["Vex is flanking Guard", "Guard can't see Vex"],
+				disadvantage: [],
+			},
+			targetAC: 16,
+			modifiers: ["+1 weapon: +1 to hit and damage", "half cover: +2 AC"],
+			hit: true,
+			totalDamage: 6,
+		});
+		expect(result && "narrative" in result && result.narrative).toBe(
+			"🎯 Vex rolls 17 (11+6) with advantage [4, 11] — Vex is flanking Guard; Guard can't see Vex vs AC 16 (half cover) — hit! 6 (1d6 [2] + 3 + 1) piercing damage to Guard.",
+		);
+	});
+
+	it("lets advantage and disadvantage cancel out", async () => {
+		const result = await resolveAttackTool.execute?.(
+			{
+				attackerName: "Archer",
+				targetName: "Goblin",
+				toHitBonus: 4,
+				targetAC: 13,
+				damageDice: "1d8+2",
+				damageType: "piercing",
+				distance: 150,
+				advantage: true,
+				situations: ["long-range"],
+			},
+			withRng(scriptedFaces([15, 20], [3, 8])),
+		);
+		expect(result).toMatchObject({ d20Rolls: [15], rollMode: "normal", hit: true });
+	});
+
+	it("crits inside an expanded crit range and doubles bonus dice of another type", async () => {
+		const result = await resolveAttackTool.execute?.(
+			{
+				attackerName: "Paladin",
+				targetName: "Wight",
+				toHitBonus: 6,
+				targetAC: 14,
+				damageDice: "1d8+3",
+				damageType: "slashing",
+				critRange: 19,
+				bonusDamage: [{ source: "Divine Smite", dice: "2d8", damageType: "radiant" }],
+			},
+			withRng(scriptedFaces([19, 20], [5, 8], [1, 8], [8, 8], [7, 8], [6, 8], [5, 8])),
+		);
+
+		expect(result).toMatchObject({
+			naturalRoll: 19,
+			isCritical: true,
+			modifiers: ["critical hit on 19–20", "Divine Smite: +2d8 radiant"],
+			damageRolls: [5, 1, 8, 7, 6, 5],
+			damageParts: [
+				{ source: null, damageType: "slashing", total: 9 },
+				{ source: "Divine Smite", damageType: "radiant", total: 26 },
+			],
+			totalDamage: 35,
+		});
+		expect(result && "narrative" in result && result.narrative).toContain(
+			"natural 19, inside the 19–20 critical range! They strike Wight for 35",
+		);
+		expect(result && "narrative" in result && result.narrative).toContain(
+			"damage (9 slashing + 26 radiant)!",
+		);
+	});
+
+	it("applies the tracked target's resistances and vulnerabilities to mixed damage", async () => {
+		const statBlock = (slug: string) => {
+			const monster = SRD_MONSTERS.find((m) => m.slug === slug);
+			if (!monster) throw new Error(`No SRD ${slug}`);
+			return monsterToStatBlock(monsterSchema.parse(monster));
+		};
+		const combat = createCombatTracker(undefined, {
+			round: 0,
+			turnIndex: 0,
+			combatants: [statBlock("skeleton"), statBlock("wight")],
+			log: [],
+		});
+		const context = (rng: RandomSource) => ({
+			requestContext: createArenaContext({ rng, combat }),
+		});
+
+		const smash = await resolveAttackTool.execute?.(
+			{
+				attackerName: "Cleric",
+				targetName: "Skeleton",
+				toHitBonus: 5,
+				targetAC: 13,
+				damageDice: "1d6+2 bludgeoning + 1d8 radiant",
+				damageType: "bludgeoning",
+			},
+			context(scriptedFaces([15, 20], [4, 6], [5, 8])),
+		);
+		expect(smash).toMatchObject({
+			rolledDamage: 11,
+			damageAdjustments: ["Skeleton is vulnerable to bludgeoning: 6 → 12"],
+			totalDamage: 17,
+		});
+		expect(smash && "narrative" in smash && smash.narrative).toContain(
+			"11 (1d6 [4] + 2 + 1d8 [5]) damage (6 bludgeoning + 5 radiant) (Skeleton is vulnerable to bludgeoning: 6 → 12, 17 taken) to Skeleton.",
+		);
+
+		const slash = {
+			attackerName: "Fighter",
+			targetName: "Wight",
+			toHitBonus: 5,
+			targetAC: 14,
+			damageDice: "1d8+3",
+			damageType: "slashing",
+		};
+		const plain = await resolveAttackTool.execute?.(
+			slash,
+			context(scriptedFaces([15, 20], [6, 8])),
+		);
+		expect(plain).toMatchObject({ rolledDamage: 9, totalDamage: 4 });
+		const magic = await resolveAttackTool.execute?.(
+			{ ...slash, magicBonus: 1 },
+			context(scriptedFaces([15, 20], [6, 8])),
+		);
+		expect(magic).toMatchObject({ rolledDamage: 10, totalDamage: 10, damageAdjustments: [] });
+	});
+});
+
+describe("legendary creature tools", () => {
+	async function dragonFight() {
+		const monster = SRD_MONSTERS.find((m) => m.slug === "adult-red-dragon");
+		const goblin = SRD_MONSTERS.find((m) => m.slug === "goblin");
+		if (!monster || !goblin) throw new Error("No SRD dragon or goblin");
+		const combat = createCombatTracker(undefined, {
+			round: 0,
+			turnIndex: 0,
+			combatants: [
+				monsterToStatBlock(monsterSchema.parse(monster), { name: "Dragon", inLair: true }),
+				monsterToStatBlock(monsterSchema.parse(goblin)),
+			],
+			log: [],
+		});
+		const context = (rng: RandomSource) => ({
+			requestContext: createArenaContext({ rng, combat }),
+		});
+		await startCombatTool.execute?.(
+			{
+				combatants: [
+					{ name: "Goblin", initiative: 14, side: "party" },
+					{ name: "Dragon", initiative: 10, side: "monsters" },
+				],
+			},
+			context(Math.random),
+		);
+		return { combat, context };
+	}
+
+	it("tracks legendary actions, lair actions and breath weapon recharges through the turn loop", async () => {
+		const { combat, context } = await dragonFight();
+		expect(combat.state.combatants[1]).toMatchObject({
+			legendaryActions: { perRound: 3, remaining: 3 },
+			legendaryResistance: { perDay: 3, remaining: 3 },
+			lairActions: { available: true },
+			recharges: [{ name: "Fire Breath", recharge: "5-6", available: true }],
+		});
+
+		const lair = await useLairActionTool.execute?.(
+			{ name: "Dragon", action: "Tremor" },
+			context(Math.random),
+		);
+		expect(lair).toMatchObject({ message: "Dragon takes a lair action: Tremor" });
+		const tail = await useLegendaryActionTool.execute?.(
+			{ name: "Dragon", action: "Tail Attack" },
+			context(Math.random),
+		);
+		expect(tail).toMatchObject({ remaining: 2 });
+
+		const dragonTurn = await nextTurnTool.execute?.({}, context(Math.random));
+		expect(dragonTurn).toMatchObject({ currentTurn: "Dragon", rechargesDue: [] });
+		expect(combat.state.combatants[1].legendaryActions?.remaining).toBe(3);
+		await useRechargeAbilityTool.execute?.(
+			{ name: "Dragon", ability: "Fire Breath" },
+			context(Math.random),
+		);
+		await expect(
+			useRechargeAbilityTool.execute?.(
+				{ name: "Dragon", ability: "Fire Breath" },
+				context(Math.random),
+			),
+		).rejects.toThrow(/hasn't recharged/);
+
+		await nextTurnTool.execute?.({}, context(Math.random));
+		const next = await nextTurnTool.execute?.({}, context(Math.random));
+		expect(next).toMatchObject({
+			currentTurn: "Dragon",
+			rechargesDue: [{ name: "Dragon", ability: "Fire Breath", recharge: "5-6" }],
+		});
+		const roll = await rollRechargeTool.execute?.(
+			{ name: "Dragon" },
+			context(scriptedFaces([6, 6])),
+		);
+		expect(roll).toMatchObject({ rolls: [{ ability: "Fire Breath", roll: 6, recharged: true }] });
+		expect(combat.state.combatants[1].recharges?.[0].available).toBe(true);
+	});
+
+	it("spends Legendary Resistance on a failed save only when asked", async () => {
+		const { combat, context } = await dragonFight();
+		// The dragon's +7 Wisdom save rolls a 3 against DC 21
+		const failed = await resolveSavingThrowTool.execute?.(
+			{ targets: [{ name: "Dragon" }], ability: "wisdom", dc: 21 },
+			context(scriptedFaces([3, 20])),
+		);
+		expect(failed).toMatchObject({
+			results: [{ name: "Dragon", total: 10, success: false, legendaryResistance: false }],
+		});
+		expect(combat.state.combatants[1].legendaryResistance?.remaining).toBe(3);
+
+		const saves = await resolveSavingThrowTool.execute?.(
+			{ targets: [{ name: "Dragon", legendaryResistance: true }], ability: "wisdom", dc: 21 },
+			context(scriptedFaces([3, 20])),
+		);
+		expect(saves).toMatchObject({
+			results: [{ name: "Dragon", total: 10, success: true, legendaryResistance: true }],
+		});
+		expect(combat.state.combatants[1].legendaryResistance?.remaining).toBe(2);
+	});
+});
+
+describe("reactions", () => {
+	async function mageFight() {
+		const parse = (slug: string) => {
+			const monster = SRD_MONSTERS.find((m) => m.slug === slug);
+			if (!monster) throw new Error(`No SRD ${slug}`);
+			return monsterSchema.parse(monster);
+		};
+		const combat = createCombatTracker(undefined, {
+			round: 0,
+			turnIndex: 0,
+			combatants: [
+				monsterToStatBlock(parse("knight")),
+				monsterToStatBlock(parse("mage")),
+				monsterToStatBlock(parse("mage"), { name: "Rival" }),
+			],
+			log: [],
+		});
+		const context = (rng: RandomSource) => ({
+			requestContext: createArenaContext({ rng, combat }),
+		});
+		await startCombatTool.execute?.(
+			{
+				combatants: [
+					{ name: "Knight", initiative: 15, side: "party" },
+					{ name: "Mage", initiative: 12, side: "monsters" },
+					{ name: "Rival", initiative: 8, side: "party" },
+				],
+			},
+			context(Math.random),
+		);
+		return { combat, context };
+	}
+
+	const greatsword = {
+		attackerName: "Knight",
+		targetName: "Mage",
+		toHitBonus: 5,
+		targetAC: 12,
+		damageDice: "2d6+3",
+		damageType: "slashing",
+		attackName: "Greatsword",
+	};
+
+	it("cast Shield against a hit it turns aside, and keep it up for the next attack", async () => {
+		const { combat, context } = await mageFight();
+		// 10 + 5 = 15 hits AC 12, then the 2d6
+		const first = await resolveAttackTool.execute?.(
+			greatsword,
+			context(scriptedFaces([10, 20], [3, 6], [4, 6])),
+		);
+		expect(first).toMatchObject({
+			hit: false,
+			targetAC: 17,
+			totalDamage: 0,
+			shielded: false,
+			reaction: { name: "Mage", reaction: "shield", slotLevel: 1 },
+		});
+		expect(combat.state.combatants[1]).toMatchObject({ reactionUsed: true, shielded: true });
+		expect(combat.state.combatants[1].spellcasting?.slots[0].remaining).toBe(3);
+
+		// 14 + 5 = 19 beats the shielded AC 17, and the reaction is spent
+		const second = await resolveAttackTool.execute?.(
+			greatsword,
+			context(scriptedFaces([14, 20], [3, 6], [4, 6])),
+		);
+		expect(second).toMatchObject({
+			hit: true,
+			targetAC: 17,
+			totalDamage: 10,
+			shielded: true,
+			reaction: null,
+		});
+	});
+
+	it("refuse a named reaction the target can't take, before rolling", async () => {
+		const { context } = await mageFight();
+		const noDice = () => {
+			throw new Error("no dice should be rolled");
+		};
+		await expect(
+			resolveAttackTool.execute?.({ ...greatsword, reaction: "parry" }, context(noDice)),
+		).rejects.toThrow("Mage can't parry");
+		// Held reactions leave the hit alone
+		const held = await resolveAttackTool.execute?.(
+			{ ...greatsword, reaction: "none" },
+			context(scriptedFaces([10, 20], [3, 6], [4, 6])),
+		);
+		expect(held).toMatchObject({ hit: true, totalDamage: 10, reaction: null });
+	});
+
+	it("let an enemy caster counter a spell, spending both slots", async () => {
+		const { combat, context } = await mageFight();
+		const knight = combat.state.combatants[0];
+		const cast = await castSpellTool.execute?.(
+			{ caster: "Mage", spell: "Fireball", targets: ["Knight"] },
+			context(() => {
+				throw new Error("a countered Fireball rolls nothing");
+			}),
+		);
+		expect(cast).toMatchObject({
+			counterspell: { name: "Rival", slotLevel: 3, countered: true, check: null },
+			hpChanges: [],
+			slots: "1st 4/4, 2nd 3/3, 3rd 2/3, 4th 3/3, 5th 1/1",
+		});
+		expect(combat.state.combatants[0].hitPoints).toBe(knight.hitPoints);
+		expect(combat.state.combatants[2]).toMatchObject({ reactionUsed: true });
+		expect(combat.state.combatants[2].spellcasting?.slots[2].remaining).toBe(2);
+
+		// Rival's reaction is spent until its next turn
+		await expect(
+			castSpellTool.execute?.(
+				{ caster: "Mage", spell: "Fireball", targets: ["Knight"], counterspell: "Rival" },
+				context(Math.random),
+			),
+		).rejects.toThrow("Rival has already used its reaction this round");
+	});
 });
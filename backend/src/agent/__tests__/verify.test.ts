@@ -0,0 +1,659 @@
+import { describe, expect, it } from "vitest";
+import { SRD_MONSTERS } from "../../compendium/srd-monsters.js";
+import { monsterToStatBlock } from "../../compendium/stat-block.js";
+import { monsterSchema } from "../../schemas/index.js";
+import { createCombatTracker } from "../combat.js";
+import { createArenaContext } from "../context.js";
+import { commitToSeed, createSeededRandom } from "../rng.js";
+import {
+	applyConditionTool,
+	applyDamageTool,
+	areaEffectTool,
+	buildCharacterTool,
+	castSpellTool,
+	deathSaveTool,
+	generateStatBlockTool,
+	moveCombatantTool,
+	nextTurnTool,
+	resolveAttackTool,
+	resolveSavingThrowTool,
+	rollDiceTool,
+	rollInitiativeTool,
+	rollRechargeTool,
+	setBattlefieldTool,
+	startCombatTool,
+	useRechargeAbilityTool,
+} from "../tools.js";
+import { type LoggedToolCall, verifyRolls } from "../verify.js";
+
+const SEED = "spectators-welcome";
+
+/** Run a few roll tools in verifiable mode and log them the way the arena route does. */
+async function runLoggedCalls(): Promise<LoggedToolCall[]> {
+	const requestContext = createArenaContext({
+		rng: createSeededRandom(SEED),
+		verifiableSeed: SEED,
+	});
+	const attack = {
+		attackerName: "Orc",
+		targetName: "Paladin",
+		toHitBonus: 5,
+		targetAC: 14,
+		damageDice: "1d12+3",
+		damageType: "slashing",
+	};
+	const initiative = { notation: "1d20+2", purpose: "initiative" };
+	const abilityScore = { notation: "4d6dl1" };
+	const calls: Array<[string, object, () => Promise<unknown> | undefined]> = [
+		["rollDice", initiative, () => rollDiceTool.execute?.(initiative, { requestContext })],
+		["resolveAttack", attack, () => resolveAttackTool.execute?.(attack, { requestContext })],
+		["rollDice", abilityScore, () => rollDiceTool.execute?.(abilityScore, { requestContext })],
+	];
+
+	const logged: LoggedToolCall[] = [];
+	for (const [toolName, input, execute] of calls) {
+		const output = await execute();
+		// Round-trip through JSON like the ledger does
+		logged.push({
+			sequence: logged.length,
+			toolName,
+			input,
+			output: JSON.parse(JSON.stringify(output)),
+			isError: false,
+		});
+	}
+	return logged;
+}
+
+describe("verifiable rolls", () => {
+	it("numbers each roll tool call", async () => {
+		const calls = await runLoggedCalls();
+		expect(calls.map((c) => (c.output as { rollSequence: number }).rollSequence)).toEqual([
+			0, 1, 2,
+		]);
+	});
+
+	it("verifies an untampered log", async () => {
+		const report = await verifyRolls(SEED, commitToSeed(SEED), await runLoggedCalls());
+		expect(report).toMatchObject({
+			commitmentValid: true,
+			missingSequences: [],
+			checked: 3,
+			mismatches: 0,
+			verified: true,
+		});
+	});
+
+	it("rejects a seed that does not match the commitment", async () => {
+		const report = await verifyRolls(SEED, commitToSeed("other-seed"), await runLoggedCalls());
+		expect(report.commitmentValid).toBe(false);
+		expect(report.verified).toBe(false);
+	});
+
+	it("flags a fabricated total", async () => {
+		const calls = await runLoggedCalls();
+		(calls[0].output as { total: number }).total = 99;
+		const report = await verifyRolls(SEED, commitToSeed(SEED), calls);
+		expect(report.rolls[0].status).toBe("mismatch");
+		expect(report.verified).toBe(false);
+	});
+
+	it("flags a roll that was made but never logged", async () => {
+		const calls = await runLoggedCalls();
+		const report = await verifyRolls(SEED, commitToSeed(SEED), [calls[0], calls[2]]);
+		expect(report.missingSequences).toEqual([1]);
+		expect(report.verified).toBe(false);
+	});
+
+	it("leaves no gap for an attack rejected over its damage dice", async () => {
+		const requestContext = createArenaContext({
+			rng: createSeededRandom(SEED),
+			verifiableSeed: SEED,
+		});
+		const attackInput = {
+			attackerName: "Orc",
+			targetName: "Paladin",
+			toHitBonus: 5,
+			targetAC: 14,
+			damageDice: "1d12+3",
+			damageType: "slashing",
+			bonusDamage: [{ source: "Smite", dice: "2d8 radiantly" }],
+		};
+		const failed = { sequence: 0, toolName: "resolveAttack", input: attackInput, isError: true };
+		await expect(resolveAttackTool.execute?.(attackInput, { requestContext })).rejects.toThrow(
+			"Invalid dice notation: 2d8 radiantly",
+		);
+		const rollInput = { notation: "1d20+2" };
+		const roll = await rollDiceTool.execute?.(rollInput, { requestContext });
+		expect(roll).toMatchObject({ rollSequence: 0 });
+
+		const report = await verifyRolls(SEED, commitToSeed(SEED), [
+			{ ...failed, output: { error: true } },
+			{ sequence: 1, toolName: "rollDice", input: rollInput, output: roll, isError: false },
+		]);
+		expect(report).toMatchObject({ missingSequences: [], verified: true });
+	});
+
+	it("leaves no gap for a saving throw rejected over its damage dice", async () => {
+		const requestContext = createArenaContext({
+			rng: createSeededRandom(SEED),
+			verifiableSeed: SEED,
+			combat: createCombatTracker(),
+		});
+		await generateStatBlockTool.execute?.({ name: "Orc", type: "monster" }, { requestContext });
+		const saveInput = {
+			targets: [{ name: "Orc" }],
+			ability: "dexterity" as const,
+			dc: 15,
+			damageDice: "8d6 fire",
+		};
+		await expect(resolveSavingThrowTool.execute?.(saveInput, { requestContext })).rejects.toThrow(
+			"Invalid dice notation: 8d6 fire",
+		);
+		const rollInput = { notation: "1d20+2" };
+		const roll = await rollDiceTool.execute?.(rollInput, { requestContext });
+		expect(roll).toMatchObject({ rollSequence: 0 });
+
+		const report = await verifyRolls(SEED, commitToSeed(SEED), [
+			{
+				sequence: 0,
+				toolName: "resolveSavingThrow",
+				input: saveInput,
+				output: null,
+				isError: true,
+			},
+			{ sequence: 1, toolName: "rollDice", input: rollInput, output: roll, isError: false },
+		]);
+		expect(report).toMatchObject({ missingSequences: [], verified: true });
+	});
+
+	it("ignores non-roll tools", async () => {
+		const calls = await runLoggedCalls();
+		calls.push({
+			sequence: 3,
+			toolName: "abilityModifier",
+			input: { score: 14 },
+			output: { score: 14, modifier: 2, modifierString: "+2" },
+			isError: false,
+		});
+		const report = await verifyRolls(SEED, commitToSeed(SEED), calls);
+		expect(report.rolls).toHaveLength(3);
+		expect(report.verified).toBe(true);
+	});
+
+	it("re-rolls roll-initiative's d20s from its logged modifiers", async () => {
+		const requestContext = createArenaContext({
+			rng: createSeededRandom(SEED),
+			verifiableSeed: SEED,
+			combat: createCombatTracker(),
+		});
+		for (const name of ["Orc", "Paladin"]) {
+			await generateStatBlockTool.execute?.({ name, type: "monster" }, { requestContext });
+		}
+		const input = {
+			combatants: [
+				{ name: "orc", side: "monsters", advantage: true },
+				{ name: "Paladin", side: "party", bonus: 5 },
+			],
+		};
+		const output = await rollInitiativeTool.execute?.(input, { requestContext });
+		const call: LoggedToolCall = {
+			sequence: 0,
+			toolName: "rollInitiative",
+			input,
+			output: JSON.parse(JSON.stringify(output)),
+			isError: false,
+		};
+
+		const report = await verifyRolls(SEED, commitToSeed(SEED), [call]);
+		expect(report.rolls).toEqual([
+			{ sequence: 0, toolName: "rollInitiative", rollSequence: 0, status: "verified" },
+		]);
+
+		const order = (call.output as { order: Array<{ rolls: number[]; initiative: number }> }).order;
+		order[0].rolls = order[0].rolls.map(() => 20);
+		order[0].initiative = 20 + 10;
+		const tampered = await verifyRolls(SEED, commitToSeed(SEED), [call]);
+		expect(tampered.rolls[0].status).toBe("mismatch");
+	});
+
+	it("replays resolve-attack with the condition effects it logged", async () => {
+		const requestContext = createArenaContext({
+			rng: createSeededRandom(SEED),
+			verifiableSeed: SEED,
+			combat: createCombatTracker(),
+		});
+		for (const name of ["Orc", "Paladin"]) {
+			await generateStatBlockTool.execute?.({ name, type: "monster" }, { requestContext });
+		}
+		await applyConditionTool.execute?.(
+			{ target: "Paladin", condition: "paralyzed" },
+			{ requestContext },
+		);
+		const input = {
+			attackerName: "Orc",
+			targetName: "Paladin",
+			toHitBonus: 5,
+			targetAC: 14,
+			damageDice: "1d12+3",
+			damageType: "slashing",
+		};
+		const output = await resolveAttackTool.execute?.(input, { requestContext });
+		expect(output).toMatchObject({ rollMode: "advantage" });
+		const call: LoggedToolCall = {
+			sequence: 0,
+			toolName: "resolveAttack",
+			input,
+			output: JSON.parse(JSON.stringify(output)),
+			isError: false,
+		};
+
+		const report = await verifyRolls(SEED, commitToSeed(SEED), [call]);
+		expect(report.verified).toBe(true);
+	});
+
+	it("re-rolls resolve-saving-throw from its logged modifiers", async () => {
+		const requestContext = createArenaContext({
+			rng: createSeededRandom(SEED),
+			verifiableSeed: SEED,
+			combat: createCombatTracker(),
+		});
+		for (const name of ["Orc", "Paladin"]) {
+			await generateStatBlockTool.execute?.({ name, type: "monster" }, { requestContext });
+		}
+		const input = {
+			targets: [{ name: "Orc" }, { name: "Paladin", advantage: "Aura of Warding" }],
+			ability: "dexterity" as const,
+			dc: 14,
+			damageDice: "6d6",
+			damageType: "fire",
+		};
+		const output = await resolveSavingThrowTool.execute?.(input, { requestContext });
+		const call: LoggedToolCall = {
+			sequence: 0,
+			toolName: "resolveSavingThrow",
+			input,
+			output: JSON.parse(JSON.stringify(output)),
+			isError: false,
+		};
+		expect((await verifyRolls(SEED, commitToSeed(SEED), [call])).verified).toBe(true);
+
+		(call.output as { damage: { total: number } }).damage.total = 36;
+		const tampered = await verifyRolls(SEED, commitToSeed(SEED), [call]);
+		expect(tampered.rolls[0].status).toBe("mismatch");
+	});
+
+	it("re-rolls cast-spell from the plan it logged", async () => {
+		const requestContext = createArenaContext({
+			rng: createSeededRandom(SEED),
+			verifiableSeed: SEED,
+			combat: createCombatTracker(),
+		});
+		await buildCharacterTool.execute?.(
+			{
+				name: "Thalor",
+				className: "wizard" as const,
+				race: "human" as const,
+				level: 5,
+				abilityMethod: "standard-array" as const,
+			},
+			{ requestContext },
+		);
+		for (const name of ["Orc 1", "Orc 2"]) {
+			await generateStatBlockTool.execute?.({ name, type: "monster" }, { requestContext });
+		}
+		const input = { caster: "Thalor", spell: "Scorching Ray", targets: ["Orc 1", "Orc 2"] };
+		const output = await castSpellTool.execute?.(input, { requestContext });
+		const call: LoggedToolCall = {
+			sequence: 0,
+			toolName: "castSpell",
+			input,
+			output: JSON.parse(JSON.stringify(output)),
+			isError: false,
+		};
+		expect((await verifyRolls(SEED, commitToSeed(SEED), [call])).verified).toBe(true);
+
+		(call.output as { attacks: Array<{ naturalRoll: number }> }).attacks[0].naturalRoll = 21;
+		const tampered = await verifyRolls(SEED, commitToSeed(SEED), [call]);
+		expect(tampered.rolls[0].status).toBe("mismatch");
+	});
+
+	it("re-rolls apply-damage's concentration checks and skips calls that rolled nothing", async () => {
+		const requestContext = createArenaContext({
+			rng: createSeededRandom(SEED),
+			verifiableSeed: SEED,
+			combat: createCombatTracker(),
+		});
+		await buildCharacterTool.execute?.(
+			{
+				name: "Sister Ilse",
+				className: "cleric" as const,
+				race: "human" as const,
+				level: 5,
+				abilityMethod: "standard-array" as const,
+			},
+			{ requestContext },
+		);
+		await generateStatBlockTool.execute?.({ name: "Orc", type: "monster" }, { requestContext });
+		const calls: Array<[string, Record<string, unknown>, unknown]> = [];
+		const bless = { caster: "Sister Ilse", spell: "Bless" };
+		calls.push(["castSpell", bless, await castSpellTool.execute?.(bless, { requestContext })]);
+		for (const target of ["Sister Ilse", "Orc"]) {
+			const input = { target, amount: 12 };
+			calls.push([
+				"applyDamage",
+				input,
+				await applyDamageTool.execute?.(input, { requestContext }),
+			]);
+		}
+		const logged: LoggedToolCall[] = calls.map(([toolName, input, output], sequence) => ({
+			sequence,
+			toolName,
+			input,
+			output: JSON.parse(JSON.stringify(output)),
+			isError: false,
+		}));
+		expect(logged[1].output).toMatchObject({
+			concentrationChecks: [{ name: "Sister Ilse", spell: "Bless", save: { dc: 10 } }],
+			rollSequence: 0,
+		});
+
+		const report = await verifyRolls(SEED, commitToSeed(SEED), logged);
+		expect(report.rolls.map((roll) => roll.status)).toEqual(["skipped", "verified", "skipped"]);
+		expect(report.verified).toBe(true);
+
+		const output = logged[1].output as {
+			concentrationChecks: Array<{ save: { results: Array<{ naturalRoll: number }> } }>;
+			rollSequence?: number;
+		};
+		output.concentrationChecks[0].save.results[0].naturalRoll = 21;
+		expect((await verifyRolls(SEED, commitToSeed(SEED), logged)).rolls[1].status).toBe("mismatch");
+		output.rollSequence = undefined;
+		expect((await verifyRolls(SEED, commitToSeed(SEED), logged)).rolls[1]).toMatchObject({
+			status: "mismatch",
+			reason: "no roll sequence recorded",
+		});
+	});
+
+	it("re-rolls death-save from the tally it logged", async () => {
+		const combat = createCombatTracker();
+		const requestContext = createArenaContext({
+			rng: createSeededRandom(SEED),
+			verifiableSeed: SEED,
+			combat,
+		});
+		await buildCharacterTool.execute?.(
+			{
+				name: "Kargan",
+				className: "fighter" as const,
+				race: "dwarf" as const,
+				level: 3,
+				abilityMethod: "standard-array" as const,
+			},
+			{ requestContext },
+		);
+		const amount = combat.state.combatants[0].maxHitPoints;
+		await applyDamageTool.execute?.({ target: "Kargan", amount }, { requestContext });
+
+		const input = { name: "Kargan" };
+		const output = await deathSaveTool.execute?.(input, { requestContext });
+		const call: LoggedToolCall = {
+			sequence: 0,
+			toolName: "deathSave",
+			input,
+			output: JSON.parse(JSON.stringify(output)),
+			isError: false,
+		};
+		expect((await verifyRolls(SEED, commitToSeed(SEED), [call])).verified).toBe(true);
+
+		(call.output as { roll: number }).roll = 21;
+		const tampered = await verifyRolls(SEED, commitToSeed(SEED), [call]);
+		expect(tampered.rolls[0].status).toBe("mismatch");
+	});
+
+	it("re-rolls the opportunity attacks move-combatant logged", async () => {
+		const combat = createCombatTracker();
+		const requestContext = createArenaContext({
+			rng: createSeededRandom(SEED),
+			verifiableSeed: SEED,
+			combat,
+		});
+		await buildCharacterTool.execute?.(
+			{
+				name: "Kargan",
+				className: "fighter" as const,
+				race: "dwarf" as const,
+				level: 3,
+				abilityMethod: "standard-array" as const,
+			},
+			{ requestContext },
+		);
+		for (const name of ["Goblin 1", "Goblin 2"]) {
+			await generateStatBlockTool.execute?.(
+				{ name, type: "monster", challengeRating: 0.25 },
+				{ requestContext },
+			);
+		}
+		await startCombatTool.execute?.(
+			{
+				combatants: [
+					{ name: "Kargan", initiative: 15, side: "party" },
+					{ name: "Goblin 1", initiative: 10, side: "monsters" },
+					{ name: "Goblin 2", initiative: 5, side: "monsters" },
+				],
+			},
+			{ requestContext },
+		);
+		await setBattlefieldTool.execute?.(
+			{
+				width: 6,
+				height: 6,
+				positions: [
+					{ name: "Kargan", x: 1, y: 1 },
+					{ name: "Goblin 1", x: 0, y: 1 },
+					{ name: "Goblin 2", x: 2, y: 1 },
+				],
+			},
+			{ requestContext },
+		);
+
+		const input = { name: "Kargan", to: { x: 1, y: 4 } };
+		const output = await moveCombatantTool.execute?.(input, { requestContext });
+		expect(output && "opportunityAttacks" in output && output.opportunityAttacks).toHaveLength(2);
+		const call: LoggedToolCall = {
+			sequence: 0,
+			toolName: "moveCombatant",
+			input,
+			output: JSON.parse(JSON.stringify(output)),
+			isError: false,
+		};
+		expect((await verifyRolls(SEED, commitToSeed(SEED), [call])).verified).toBe(true);
+
+		const logged = call.output as {
+			opportunityAttacks: Array<{ result: { naturalRoll: number } }>;
+		};
+		logged.opportunityAttacks[1].result.naturalRoll = 21;
+		const tampered = await verifyRolls(SEED, commitToSeed(SEED), [call]);
+		expect(tampered.rolls[0].status).toBe("mismatch");
+	});
+
+	it("re-rolls the saves of an area effect from the modifiers it logged", async () => {
+		const combat = createCombatTracker();
+		const requestContext = createArenaContext({
+			rng: createSeededRandom(SEED),
+			verifiableSeed: SEED,
+			combat,
+		});
+		for (const name of ["Goblin 1", "Goblin 2"]) {
+			await generateStatBlockTool.execute?.(
+				{ name, type: "monster", challengeRating: 0.25 },
+				{ requestContext },
+			);
+		}
+		await setBattlefieldTool.execute?.(
+			{
+				width: 6,
+				height: 6,
+				positions: [
+					{ name: "Goblin 1", x: 1, y: 1 },
+					{ name: "Goblin 2", x: 3, y: 2 },
+				],
+			},
+			{ requestContext },
+		);
+
+		const input = {
+			source: "Exploding Barrel",
+			shape: "sphere" as const,
+			size: 10,
+			origin: { x: 2, y: 2 },
+			ability: "dexterity" as const,
+			dc: 13,
+			damageDice: "3d6",
+			damageType: "fire",
+		};
+		const output = await areaEffectTool.execute?.(input, { requestContext });
+		expect(output && "targets" in output && output.targets).toEqual(["Goblin 1", "Goblin 2"]);
+		const call: LoggedToolCall = {
+			sequence: 0,
+			toolName: "areaEffect",
+			input,
+			output: JSON.parse(JSON.stringify(output)),
+			isError: false,
+		};
+		expect((await verifyRolls(SEED, commitToSeed(SEED), [call])).verified).toBe(true);
+	});
+
+	it("replays roll-recharge and a save that spent Legendary Resistance", async () => {
+		const entries = ["adult-red-dragon", "goblin"].map((slug) =>
+			monsterSchema.parse(SRD_MONSTERS.find((m) => m.slug === slug)),
+		);
+		const combat = createCombatTracker(undefined, {
+			round: 0,
+			turnIndex: 0,
+			combatants: entries.map((monster) => monsterToStatBlock(monster)),
+			log: [],
+		});
+		const requestContext = createArenaContext({
+			rng: createSeededRandom(SEED),
+			verifiableSeed: SEED,
+			combat,
+		});
+		await startCombatTool.execute?.(
+			{
+				combatants: [
+					{ name: "Adult Red Dragon", initiative: 15, side: "monsters" },
+					{ name: "Goblin", initiative: 10, side: "party" },
+				],
+			},
+			{ requestContext },
+		);
+		await useRechargeAbilityTool.execute?.(
+			{ name: "Adult Red Dragon", ability: "Fire Breath" },
+			{ requestContext },
+		);
+		await nextTurnTool.execute?.({}, { requestContext });
+		await nextTurnTool.execute?.({}, { requestContext });
+
+		// No roll makes DC 40, so Legendary Resistance is spent
+		const saveInput = {
+			targets: [{ name: "Adult Red Dragon", legendaryResistance: true }],
+			ability: "wisdom" as const,
+			dc: 40,
+		};
+		const save = await resolveSavingThrowTool.execute?.(saveInput, { requestContext });
+		const rechargeInput = { name: "Adult Red Dragon" };
+		const recharge = await rollRechargeTool.execute?.(rechargeInput, { requestContext });
+		const calls: LoggedToolCall[] = [
+			["resolveSavingThrow", saveInput, save],
+			["rollRecharge", rechargeInput, recharge],
+		].map(([toolName, input, output], sequence) => ({
+			sequence,
+			toolName: toolName as string,
+			input,
+			output: JSON.parse(JSON.stringify(output)),
+			isError: false,
+		}));
+		expect(calls[0].output).toMatchObject({
+			results: [{ success: true, legendaryResistance: true }],
+		});
+		expect((await verifyRolls(SEED, commitToSeed(SEED), calls)).verified).toBe(true);
+
+		const logged = calls[1].output as { rolls: Array<{ recharged: boolean }> };
+		logged.rolls[0].recharged = !logged.rolls[0].recharged;
+		const tampered = await verifyRolls(SEED, commitToSeed(SEED), calls);
+		expect(tampered.rolls[1].status).toBe("mismatch");
+	});
+	it("replays reactions: Shield on an attack and a Counterspell's check", async () => {
+		const [knight, mage] = ["knight", "mage"].map((slug) =>
+			monsterToStatBlock(monsterSchema.parse(SRD_MONSTERS.find((m) => m.slug === slug))),
+		);
+		// Only 3rd-level slots left, so countering Ice Storm takes a check
+		const rival = {
+			...mage,
+			name: "Rival",
+			spellcasting: mage.spellcasting && {
+				...mage.spellcasting,
+				slots: mage.spellcasting.slots.filter((slot) => slot.level <= 3),
+			},
+		};
+		const combat = createCombatTracker(undefined, {
+			round: 0,
+			turnIndex: 0,
+			combatants: [knight, mage, rival],
+			log: [],
+		});
+		const requestContext = createArenaContext({
+			rng: createSeededRandom(SEED),
+			verifiableSeed: SEED,
+			combat,
+		});
+		await startCombatTool.execute?.(
+			{
+				combatants: [
+					{ name: "Knight", initiative: 15, side: "party" },
+					{ name: "Mage", initiative: 12, side: "monsters" },
+					{ name: "Rival", initiative: 8, side: "party" },
+				],
+			},
+			{ requestContext },
+		);
+
+		const attackInput = {
+			attackerName: "Knight",
+			targetName: "Mage",
+			toHitBonus: 20,
+			targetAC: 12,
+			damageDice: "2d6+3",
+			damageType: "slashing",
+			// Advantage and +20 to hit land it, so the Mage casts Shield
+			advantage: true,
+			reaction: "shield" as const,
+		};
+		const shieldUp = await resolveAttackTool.execute?.(attackInput, { requestContext });
+		const { reaction: _, ...secondInput } = attackInput;
+		const shielded = await resolveAttackTool.execute?.(secondInput, { requestContext });
+		const spellInput = { caster: "Mage", spell: "Ice Storm", targets: ["Knight"] };
+		const cast = await castSpellTool.execute?.(spellInput, { requestContext });
+		const calls: LoggedToolCall[] = [
+			["resolveAttack", attackInput, shieldUp],
+			["resolveAttack", secondInput, shielded],
+			["castSpell", spellInput, cast],
+		].map(([toolName, input, output], sequence) => ({
+			sequence,
+			toolName: toolName as string,
+			input,
+			output: JSON.parse(JSON.stringify(output)),
+			isError: false,
+		}));
+		expect(calls[0].output).toMatchObject({ shielded: false, reaction: { reaction: "shield" } });
+		expect(calls[1].output).toMatchObject({ shielded: true, targetAC: 17, reaction: null });
+		expect(calls[2].output).toMatchObject({ counterspell: { name: "Rival", dc: 14 } });
+		expect((await verifyRolls(SEED, commitToSeed(SEED), calls)).verified).toBe(true);
+
+		const logged = calls[2].output as { counterspell: { check: { total: number } } };
+		logged.counterspell.check.total += 10;
+		const tampered = await verifyRolls(SEED, commitToSeed(SEED), calls);
+		expect(tampered.rolls.map((roll) => roll.status)).toEqual(["verified", "verified", "mismatch"]);
+	});
+});
@@ -0,0 +1,265 @@
+import { type AttackConditionEffects, NO_ATTACK_EFFECTS } from "./conditions.js";
+import {
+	adjustDamage,
+	type DamageDefenses,
+	NO_DAMAGE_DEFENSES,
+	splitTypedDamage,
+} from "./damage.js";
+import {
+	type DiceTermResult,
+	evaluateDiceExpression,
+	flattenDiceResult,
+	formatDiceBreakdown,
+	parseDiceExpression,
+} from "./dice.js";
+import { type RandomSource, rollDie } from "./rng.js";
+
+export interface AttackRequest {
+	attackerName: string;
+	targetName: string;
+	toHitBonus: number;
+	targetAC: number;
+	damageDice: string;
+	damageType: string;
+	/** Feet between attacker and target, for situations that depend on it (default 5) */
+	distance?: number;
+	/** Advantage or disadvantage the DM calls for beyond the listed situations */
+	advantage?: boolean;
+	disadvantage?: boolean;
+	situations?: AttackSituation[];
+	/** Cover between attacker and target; total cover can't be attacked at all */
+	cover?: "half" | "three-quarters";
+	/** Lowest natural roll that is a critical hit, e.g. 19 for a Champion (default 20) */
+	critRange?: number;
+	/** A +1, +2 or +3 weapon's bonus to attack and damage rolls; such a weapon is magical */
+	magicBonus?: number;
+	/** Magical or silvered damage gets past resistance to nonmagical attacks */
+	magical?: boolean;
+	silvered?: boolean;
+	/** Extra dice on a hit, e.g. Sneak Attack or Divine Smite — doubled on a critical hit */
+	bonusDamage?: Array<{ source: string; dice: string; damageType?: string }>;
+}
+
+/** Circumstances that grant advantage or disadvantage on an attack roll */
+export const ATTACK_SITUATIONS = [
+	"flanking",
+	"help",
+	"prone-target",
+	"invisible-attacker",
+	"invisible-target",
+	"long-range",
+] as const;
+
+export type AttackSituation = (typeof ATTACK_SITUATIONS)[number];
+
+const COVER_AC = { half: 2, "three-quarters": 5 };
+
+export type RollMode = "normal" | "advantage" | "disadvantage";
+
+/** Advantage and disadvantage cancel out however many sources each has. */
+export function rollModeFor(effects: { advantage: string[]; disadvantage: string[] }): RollMode {
+	const advantage = effects.advantage.length > 0;
+	const disadvantage = effects.disadvantage.length > 0;
+	if (advantage === disadvantage) return "normal";
+	return advantage ? "advantage" : "disadvantage";
+}
+
+/** Roll the d20 — two with advantage or disadvantage — and pick the die that counts. */
+export function rollD20(rng: RandomSource, rollMode: RollMode) {
+	const d20Rolls =
+		rollMode === "normal" ? [rollDie(rng, 20)] : [rollDie(rng, 20), rollDie(rng, 20)];
+	const naturalRoll = rollMode === "disadvantage" ? Math.min(...d20Rolls) : Math.max(...d20Rolls);
+	return { d20Rolls, naturalRoll };
+}
+
+function signed(n: number) {
+	return n >= 0 ? `+${n}` : `${n}`;
+}
+
+/** Advantage and disadvantage from the request itself, added to what conditions give. */
+function situationalEffects(request: AttackRequest, effects: AttackConditionEffects) {
+	const { attackerName, targetName } = request;
+	const withinFiveFeet = (request.distance ?? 5) <= 5;
+	const advantage = [...effects.advantage];
+	const disadvantage = [...effects.disadvantage];
+	if (request.advantage) advantage.push("advantage called for");
+	if (request.disadvantage) disadvantage.push("disadvantage called for");
+	for (const situation of request.situations ?? []) {
+		switch (situation) {
+			case "flanking":
+				advantage.push(`${attackerName} is flanking ${targetName}`);
+				break;
+			case "help":
+				advantage.push(`an ally helps ${attackerName}`);
+				break;
+			case "prone-target":
+				if (withinFiveFeet) advantage.push(`${targetName} is prone (within 5 ft)`);
+				else disadvantage.push(`${targetName} is prone (beyond 5 ft)`);
+				break;
+			case "invisible-attacker":
+				advantage.push(`${targetName} can't see ${attackerName}`);
+				break;
+			case "invisible-target":
+				disadvantage.push(`${attackerName} can't see ${targetName}`);
+				break;
+			case "long-range":
+				disadvantage.push("beyond the weapon's normal range");
+				break;
+		}
+	}
+	// The same reason from a tracked condition and a listed situation counts once
+	return { advantage: [...new Set(advantage)], disadvantage: [...new Set(disadvantage)] };
+}
+
+/**
+ * Parse an attack's damage — typed parts, the magic bonus and bonus dice — throwing on a
+ * malformed expression or damage type. Tools call it before claiming a roll sequence, so a
+ * rejected attack leaves no gap in the verifiable log.
+ */
+export function parseAttackDamage(
+	request: Pick<AttackRequest, "damageDice" | "damageType" | "magicBonus" | "bonusDamage">,
+) {
+	const { damageType } = request;
+	const magicBonus = request.magicBonus ?? 0;
+	return [
+		...splitTypedDamage(request.damageDice, damageType).map((part, i) => ({
+			source: null as string | null,
+			expression: parseDiceExpression(
+				magicBonus && i === 0 ? `${part.dice}${signed(magicBonus)}` : part.dice,
+			),
+			damageType: part.damageType,
+		})),
+		...(request.bonusDamage ?? []).map((bonus) => ({
+			source: bonus.source as string | null,
+			expression: parseDiceExpression(bonus.dice),
+			damageType: bonus.damageType ?? damageType,
+		})),
+	];
+}
+
+/**
+ * Roll one attack: the d20 (two with advantage or disadvantage) against the target's AC, then
+ * damage on a hit. Rolls in the crit range and automatic-critical conditions double the damage
+ * dice, bonus dice included.
+ */
+export function resolveAttack(
+	request: AttackRequest,
+	rng: RandomSource,
+	effects: AttackConditionEffects = NO_ATTACK_EFFECTS,
+	defenses: DamageDefenses = NO_DAMAGE_DEFENSES,
+) {
+	const { attackerName, targetName, damageType } = request;
+	const magicBonus = request.magicBonus ?? 0;
+	const critRange = request.critRange ?? 20;
+	const coverBonus = request.cover ? COVER_AC[request.cover] : 0;
+	const toHitBonus = request.toHitBonus + magicBonus;
+	const targetAC = request.targetAC + coverBonus;
+
+	// Parse up front so a malformed damage expression fails loudly instead of dealing 0
+	const parts = parseAttackDamage(request);
+
+	const modifiers = [
+		magicBonus ? `${signed(magicBonus)} weapon: ${signed(magicBonus)} to hit and damage` : null,
+		coverBonus ? `${request.cover} cover: +${coverBonus} AC` : null,
+		critRange < 20 ? `critical hit on ${critRange}–20` : null,
+		...(request.bonusDamage ?? []).map(
+			(bonus) => `${bonus.source}: +${bonus.dice}${bonus.damageType ? ` ${bonus.damageType}` : ""}`,
+		),
+	].filter((note): note is string => note !== null);
+
+	const rollModeReasons = situationalEffects(request, effects);
+	const rollMode = rollModeFor(rollModeReasons);
+	const { d20Rolls, naturalRoll } = rollD20(rng, rollMode);
+	const attackRoll = naturalRoll + toHitBonus;
+	const isFumble = naturalRoll === 1;
+	const inCritRange = naturalRoll >= critRange;
+	const hit = inCritRange || (!isFumble && attackRoll >= targetAC);
+	const isCritical = inCritRange || (hit && effects.autoCritical !== null);
+
+	let rolledDamage = 0;
+	let totalDamage = 0;
+	let damageAdjustments: string[] = [];
+	let damageDetail = "";
+	let damageRolls: number[] = [];
+	let damageBreakdown: DiceTermResult[] = [];
+	let damageParts: Array<{ source: string | null; damageType: string; total: number }> = [];
+
+	if (hit) {
+		const rolled = parts.map((part) => ({
+			...part,
+			result: evaluateDiceExpression(part.expression, { critical: isCritical, rng }),
+		}));
+		damageParts = rolled.map(({ source, damageType, result }) => ({
+			source,
+			damageType,
+			total: Math.max(0, result.total),
+		}));
+		damageRolls = rolled.flatMap(({ result }) => flattenDiceResult(result).rolls);
+		damageBreakdown = rolled.flatMap(({ result }) => result.terms);
+		rolledDamage = damageParts.reduce((sum, part) => sum + part.total, 0);
+		const adjusted = adjustDamage(targetName, damageParts, defenses, {
+			attack: true,
+			magical: request.magical || magicBonus > 0,
+			silvered: request.silvered,
+		});
+		totalDamage = adjusted.total;
+		damageAdjustments = adjusted.notes;
+		damageDetail = ` (${rolled.map(({ result }) => formatDiceBreakdown(result)).join(" + ")})`;
+	}
+
+	const types = [...new Set(damageParts.map((part) => part.damageType))];
+	const rolledText =
+		types.length > 1
+			? `${rolledDamage}${damageDetail} damage (${damageParts.map((part) => `${part.total} ${part.damageType}`).join(" + ")})`
+			: `${rolledDamage}${damageDetail} ${types[0] ?? damageType} damage`;
+	const damageText =
+		damageAdjustments.length > 0
+			? `${rolledText} (${damageAdjustments.join("; ")}, ${totalDamage} taken)`
+			: rolledText;
+	const modeNote =
+		rollMode === "normal"
+			? ""
+			: ` with ${rollMode} [${d20Rolls.join(", ")}] — ${rollModeReasons[rollMode].join("; ")}`;
+	const versus = `vs AC ${targetAC}${coverBonus ? ` (${request.cover} cover)` : ""}`;
+	const rolls = `${attackerName} rolls ${attackRoll} (${naturalRoll}${signed(toHitBonus)})${modeNote}`;
+
+	let narrative: string;
+	if (isCritical && !inCritRange) {
+		narrative = `⚔️ CRITICAL HIT! ${rolls} ${versus} — ${effects.autoCritical}, so the hit is critical! ${damageText} to ${targetName}!`;
+	} else if (isCritical && naturalRoll < 20) {
+		narrative = `⚔️ CRITICAL HIT! ${attackerName} rolls a natural ${naturalRoll}${modeNote}, inside the ${critRange}–20 critical range! They strike ${targetName} for ${damageText}!`;
+	} else if (isCritical) {
+		narrative = `⚔️ CRITICAL HIT! ${attackerName} rolls a natural 20${modeNote}! They strike ${targetName} for ${damageText}!`;
+	} else if (isFumble) {
+		narrative = `💨 Critical miss! ${attackerName} rolls a natural 1${modeNote} and whiffs completely!`;
+	} else if (hit) {
+		narrative = `🎯 ${rolls} ${versus} — hit! ${damageText} to ${targetName}.`;
+	} else {
+		narrative = `🛡️ ${rolls} ${versus} — miss!`;
+	}
+
+	return {
+		attackRoll,
+		naturalRoll,
+		d20Rolls,
+		rollMode,
+		rollModeReasons,
+		conditionEffects: effects,
+		targetAC,
+		critRange,
+		modifiers,
+		isCritical,
+		isFumble,
+		hit,
+		damageRolls,
+		damageBreakdown,
+		damageParts,
+		damageDefenses: defenses,
+		rolledDamage,
+		damageAdjustments,
+		totalDamage,
+		narrative,
+	};
+}
+
+export type AttackResult = ReturnType<typeof resolveAttack>;
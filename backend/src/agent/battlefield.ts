@@ -0,0 +1,611 @@
+import type {
+	AreaShape,
+	Battlefield,
+	ConditionName,
+	Creature,
+	CreatureSize,
+	GridPosition,
+} from "../schemas/index.js";
+import { type CombatState, findCombatant, logEntry } from "./combat.js";
+import { attackForbidden, incapacitatedBy } from "./conditions.js";
+
+/** Feet per grid square; every step, diagonal or not, is one square */
+export const SQUARE_FEET = 5;
+
+/** Squares on a side that a creature of each size takes up */
+const FOOTPRINT: Record<CreatureSize, number> = {
+	Tiny: 1,
+	Small: 1,
+	Medium: 1,
+	Large: 2,
+	Huge: 3,
+	Gargantuan: 4,
+};
+
+/** Conditions that leave a creature's speed at 0 */
+const IMMOBILE: ConditionName[] = [
+	"grappled",
+	"paralyzed",
+	"petrified",
+	"restrained",
+	"stunned",
+	"unconscious",
+];
+
+type Attack = Creature["attacks"][number];
+
+export function describePosition({ x, y }: GridPosition) {
+	return `(${x}, ${y})`;
+}
+
+function samePosition(a: GridPosition, b: GridPosition) {
+	return a.x === b.x && a.y === b.y;
+}
+
+/** Feet between two creatures' nearest squares. */
+export function gridDistance(
+	a: { position: GridPosition; size: CreatureSize },
+	b: { position: GridPosition; size: CreatureSize },
+) {
+	const gap = (from: number, fromSize: number, to: number, toSize: number) =>
+		Math.max(0, to - (from + fromSize - 1), from - (to + toSize - 1));
+	const dx = gap(a.position.x, FOOTPRINT[a.size], b.position.x, FOOTPRINT[b.size]);
+	const dy = gap(a.position.y, FOOTPRINT[a.size], b.position.y, FOOTPRINT[b.size]);
+	return Math.max(dx, dy) * SQUARE_FEET;
+}
+
+function placed(creature: Creature) {
+	return creature.position ? { position: creature.position, size: creature.size } : null;
+}
+
+/** Feet between two combatants, or null unless the battlefield places both. */
+export function distanceBetween(a: Creature, b: Creature) {
+	const from = placed(a);
+	const to = placed(b);
+	return from && to ? gridDistance(from, to) : null;
+}
+
+function covers(position: GridPosition, size: CreatureSize, square: GridPosition) {
+	const side = FOOTPRINT[size];
+	return (
+		square.x >= position.x &&
+		square.x < position.x + side &&
+		square.y >= position.y &&
+		square.y < position.y + side
+	);
+}
+
+function fits(battlefield: Battlefield, position: GridPosition, size: CreatureSize) {
+	const side = FOOTPRINT[size];
+	return position.x + side <= battlefield.width && position.y + side <= battlefield.height;
+}
+
+function overlaps(a: GridPosition, aSize: CreatureSize, b: GridPosition, bSize: CreatureSize) {
+	return gridDistance({ position: a, size: aSize }, { position: b, size: bSize }) === 0;
+}
+
+function hostile(a: Creature, b: Creature) {
+	return a.side === undefined || b.side === undefined || a.side !== b.side;
+}
+
+/** Still on its feet and able to act: alive, above 0 HP and not incapacitated. */
+function active(creature: Creature) {
+	return creature.isAlive && creature.hitPoints > 0 && !incapacitatedBy(creature);
+}
+
+/** "80/320" → normal 80, long 320; a single number is both. */
+export function parseRange(range: string) {
+	const [normal, long] = range.split("/").map((part) => Number.parseInt(part, 10));
+	return { normal, long: long ?? normal };
+}
+
+/** Whether the stat block says how far the attack reaches; older saved creatures may not. */
+function measured(attack: Attack) {
+	return attack.reach !== undefined || attack.range !== undefined;
+}
+
+/**
+ * The attack a creature makes opportunity attacks with: its longest-reaching melee attack. An
+ * attack with no reach or range listed counts as a 5-foot melee attack.
+ */
+function meleeAttack(creature: Creature) {
+	let best: { attack: Attack; reach: number } | null = null;
+	for (const attack of creature.attacks) {
+		const reach = measured(attack) ? attack.reach : SQUARE_FEET;
+		if (reach !== undefined && (!best || reach > best.reach)) best = { attack, reach };
+	}
+	return best;
+}
+
+function updateCombatant(
+	state: CombatState,
+	name: string,
+	change: (creature: Creature) => Creature,
+) {
+	const index = findCombatant(state, name);
+	const combatants = [...state.combatants];
+	combatants[index] = change(combatants[index]);
+	return { ...state, combatants };
+}
+
+export interface Placement {
+	name: string;
+	x: number;
+	y: number;
+}
+
+/**
+ * Lay out the battlefield and put combatants on it. Combatants not listed keep their squares;
+ * every placed combatant must fit on the grid without sharing a square.
+ */
+export function setBattlefield(
+	state: CombatState,
+	battlefield: Battlefield,
+	placements: Placement[],
+	now = new Date(),
+): CombatState {
+	for (const square of battlefield.difficultTerrain) {
+		if (!fits(battlefield, square, "Medium")) {
+			throw new Error(
+				`Difficult terrain at ${describePosition(square)} is off the ${battlefield.width}×${battlefield.height} grid`,
+			);
+		}
+	}
+
+	let next: CombatState = { ...state, battlefield };
+	for (const { name, x, y } of placements) {
+		next = updateCombatant(next, name, (creature) => ({ ...creature, position: { x, y } }));
+	}
+
+	const positioned = next.combatants.filter((c) => c.position && c.isAlive);
+	for (const [i, creature] of positioned.entries()) {
+		const position = creature.position as GridPosition;
+		if (!fits(battlefield, position, creature.size)) {
+			throw new Error(
+				`${creature.name} (${creature.size}) doesn't fit at ${describePosition(position)} on the ${battlefield.width}×${battlefield.height} grid`,
+			);
+		}
+		const other = positioned
+			.slice(i + 1)
+			.find((c) => overlaps(position, creature.size, c.position as GridPosition, c.size));
+		if (other) {
+			throw new Error(`${creature.name} and ${other.name} can't share a square`);
+		}
+	}
+
+	const terrain = battlefield.difficultTerrain.length;
+	const message = `Battlefield: ${battlefield.width}×${battlefield.height} squares (${battlefield.width * SQUARE_FEET}×${battlefield.height * SQUARE_FEET} ft)${terrain > 0 ? `, ${terrain} of difficult terrain` : ""}`;
+	return { ...next, log: [...next.log, logEntry(next.round, message, now)] };
+}
+
+export interface AttackPositioning {
+	/** Feet between attacker and target on the grid */
+	distance: number;
+	/** Disadvantage the positions give, e.g. a ranged attack with an enemy adjacent */
+	disadvantage: string[];
+}
+
+/** The attacker and target, when the battlefield places both of them. */
+function placedPair(state: CombatState, attackerName: string, targetName: string) {
+	if (!state.battlefield) return null;
+	const key = (name: string) => name.trim().toLowerCase();
+	const attacker = state.combatants.find((c) => key(c.name) === key(attackerName));
+	const target = state.combatants.find((c) => key(c.name) === key(targetName));
+	const from = attacker && placed(attacker);
+	const to = target && placed(target);
+	if (!attacker || !target || !from || !to) return null;
+	return { attacker, target, from, distance: gridDistance(from, to) };
+}
+
+/**
+ * Check an attack against the tracked positions: melee attacks must reach, ranged attacks
+ * can't go past long range and have disadvantage beyond normal range or with a hostile
+ * creature within 5 feet. Returns null when the battlefield doesn't place both combatants.
+ */
+export function attackPositioning(
+	state: CombatState,
+	attackerName: string,
+	targetName: string,
+	attackName?: string,
+): AttackPositioning | null {
+	const pair = placedPair(state, attackerName, targetName);
+	if (!pair) return null;
+	const { attacker, distance } = pair;
+	const key = (name: string) => name.trim().toLowerCase();
+	let attacks = attacker.attacks;
+	if (attackName) {
+		const named = attacks.find((attack) => key(attack.name) === key(attackName));
+		if (!named) {
+			const names = attacks.map((attack) => attack.name).join(", ") || "none";
+			throw new Error(`${attacker.name} has no attack named ${attackName} (attacks: ${names})`);
+		}
+		attacks = [named];
+	}
+	// Attacks whose stat block gives no reach or range can't be checked
+	if (attacks.length === 0 || attacks.some((attack) => !measured(attack))) {
+		return { distance, disadvantage: [] };
+	}
+	return checkReachAndRange(state, pair, attacks, attackName ? attacks[0].name : undefined);
+}
+
+/**
+ * Check a spell attack against the tracked positions, as attackPositioning does for weapons:
+ * a touch spell must reach the target, and a ranged spell attack can't go past the spell's
+ * range and has disadvantage with a hostile creature within 5 feet. Melee spell attacks made
+ * from somewhere else (Spiritual Weapon) can't be checked. Returns null when the battlefield
+ * doesn't place both combatants.
+ */
+export function spellAttackPositioning(
+	state: CombatState,
+	casterName: string,
+	targetName: string,
+	spell: { name: string; range: string; reach: "melee" | "ranged" },
+): AttackPositioning | null {
+	const pair = placedPair(state, casterName, targetName);
+	if (!pair) return null;
+	const feet = spell.range === "Touch" ? SQUARE_FEET : Number.parseInt(spell.range, 10);
+	if (Number.isNaN(feet) || (spell.reach === "melee" && spell.range !== "Touch")) {
+		return { distance: pair.distance, disadvantage: [] };
+	}
+	const attack = spell.reach === "melee" ? { reach: feet } : { range: String(feet) };
+	return checkReachAndRange(state, pair, [attack], spell.name);
+}
+
+function checkReachAndRange(
+	state: CombatState,
+	{ attacker, target, from, distance }: NonNullable<ReturnType<typeof placedPair>>,
+	attacks: Array<Pick<Attack, "reach" | "range">>,
+	attackName: string | undefined,
+): AttackPositioning {
+	const reach = Math.max(0, ...attacks.map((attack) => attack.reach ?? 0));
+	if (distance <= reach) return { distance, disadvantage: [] };
+
+	const ranges = attacks.filter((attack) => attack.range).map((a) => parseRange(a.range ?? ""));
+	const longest = Math.max(0, ...ranges.map((range) => range.long));
+	const what = attackName ?? `${attacker.name}'s attacks`;
+	if (distance > longest) {
+		throw new Error(
+			`${target.name} is ${distance} ft from ${attacker.name} — out of reach and range of ${what} (${
+				longest > 0 ? `range ${longest} ft` : `reach ${reach} ft`
+			})`,
+		);
+	}
+
+	const disadvantage: string[] = [];
+	const normal = Math.max(...ranges.map((range) => range.normal));
+	if (distance > normal) {
+		disadvantage.push(
+			`${target.name} is beyond normal range (${distance} ft, ${normal} ft normal)`,
+		);
+	}
+	const adjacent = state.combatants.find((c) => {
+		const at = placed(c);
+		return c !== attacker && at && hostile(attacker, c) && active(c) && gridDistance(from, at) <= 5;
+	});
+	if (adjacent) {
+		disadvantage.push(`${adjacent.name} is within 5 ft of ${attacker.name} (ranged attack)`);
+	}
+	return { distance, disadvantage };
+}
+
+export interface MoveRequest {
+	name: string;
+	to: GridPosition;
+	/** Took the Dash action: speed counts double this turn */
+	dash?: boolean;
+	/** Took the Disengage action: leaving reach provokes no opportunity attacks */
+	disengage?: boolean;
+	/** Stand up from prone first, which costs half the creature's speed */
+	standUp?: boolean;
+}
+
+export interface OpportunityAttack {
+	attacker: string;
+	attack: Attack;
+	/** Index into the path of the square the mover is leaving when the attack is made */
+	step: number;
+	distance: number;
+}
+
+export interface MovePlan {
+	name: string;
+	/** Squares walked, from the starting square to the destination */
+	path: GridPosition[];
+	/** Feet spent reaching each square of the path, counted from the start of the turn */
+	feet: number[];
+	/** Feet the creature can move this turn */
+	speed: number;
+	standUp: boolean;
+	opportunityAttacks: OpportunityAttack[];
+}
+
+function movementSpeed(creature: Creature, dash: boolean) {
+	const immobile = IMMOBILE.find((name) => creature.conditions.some((c) => c.name === name));
+	if (immobile) throw new Error(`${creature.name} is ${immobile} and can't move`);
+	const exhaustion = creature.conditions.find((c) => c.name === "exhaustion")?.level ?? 0;
+	if (exhaustion >= 5)
+		throw new Error(`${creature.name} has exhaustion ${exhaustion} and can't move`);
+	let speed = creature.speed.walk ?? 0;
+	if (exhaustion >= 2) speed = Math.floor(speed / 2 / SQUARE_FEET) * SQUARE_FEET;
+	return dash ? speed * 2 : speed;
+}
+
+/**
+ * Find the cheapest route for the creature whose turn it is, and the opportunity attacks it
+ * provokes on the way. Entering difficult terrain costs double, as does crawling while prone;
+ * hostile creatures block their squares, and the move can't end on anyone. Among routes of
+ * the same length the one that provokes fewer attacks wins. Throws before anything changes
+ * when the move isn't possible.
+ */
+export function planMove(state: CombatState, request: MoveRequest): MovePlan {
+	const { battlefield } = state;
+	if (state.round === 0) throw new Error("Combat hasn't started — call start-combat first");
+	if (!battlefield) throw new Error("There is no battlefield — call set-battlefield first");
+	const mover = state.combatants[findCombatant(state, request.name)];
+	const current = state.combatants[state.turnIndex];
+	if (current !== mover) {
+		throw new Error(`It's ${current.name}'s turn — ${mover.name} can only move on its own turn`);
+	}
+	if (!mover.position) throw new Error(`${mover.name} isn't on the battlefield`);
+	const start = mover.position;
+
+	const prone = mover.conditions.some((c) => c.name === "prone");
+	const standUp = prone && (request.standUp ?? false);
+	const speed = movementSpeed(mover, request.dash ?? false);
+	const used = (mover.movementUsed ?? 0) + (standUp ? Math.floor((mover.speed.walk ?? 0) / 2) : 0);
+	if (used > speed) throw new Error(`${mover.name} doesn't have the movement left to stand up`);
+	const crawling = prone && !standUp;
+
+	const destination = request.to;
+	const where = describePosition(destination);
+	if (!fits(battlefield, destination, mover.size)) {
+		throw new Error(`${where} is off the ${battlefield.width}×${battlefield.height} grid`);
+	}
+	const others = state.combatants.filter((c) => c !== mover && c.isAlive && c.position);
+	const occupant = others.find((c) =>
+		overlaps(destination, mover.size, c.position as GridPosition, c.size),
+	);
+	if (occupant) throw new Error(`${occupant.name} is in the way at ${where}`);
+
+	const blockers = others.filter((c) => hostile(mover, c));
+	const threats = request.disengage
+		? []
+		: others.flatMap((c) => {
+				const melee = meleeAttack(c);
+				const at = placed(c);
+				if (!melee || !at || !hostile(mover, c) || !active(c) || c.reactionUsed) return [];
+				// A creature charmed by the mover can't make the attack, so it doesn't threaten
+				if (attackForbidden(c, mover)) return [];
+				return [{ creature: c, at, ...melee }];
+			});
+	const distanceTo = (threat: (typeof threats)[number], position: GridPosition) =>
+		gridDistance(threat.at, { position, size: mover.size });
+	const within = (threat: (typeof threats)[number], position: GridPosition) =>
+		distanceTo(threat, position) <= threat.reach;
+
+	const difficult = (position: GridPosition) =>
+		battlefield.difficultTerrain.some((square) => covers(position, mover.size, square));
+	const open = (position: GridPosition) =>
+		position.x >= 0 &&
+		position.y >= 0 &&
+		fits(battlefield, position, mover.size) &&
+		!blockers.some((c) => overlaps(position, mover.size, c.position as GridPosition, c.size));
+
+	// Dijkstra over squares, costed in feet with provoked attacks as the tie-breaker
+	const id = ({ x, y }: GridPosition) => y * battlefield.width + x;
+	const best = new Map<number, { feet: number; provoked: number; from: GridPosition | null }>();
+	best.set(id(start), { feet: used, provoked: 0, from: null });
+	const frontier: GridPosition[] = [start];
+	const done = new Set<number>();
+	while (frontier.length > 0) {
+		let pick = 0;
+		for (let i = 1; i < frontier.length; i++) {
+			const a = best.get(id(frontier[i])) as { feet: number; provoked: number };
+			const b = best.get(id(frontier[pick])) as { feet: number; provoked: number };
+			if (a.feet < b.feet || (a.feet === b.feet && a.provoked < b.provoked)) pick = i;
+		}
+		const square = frontier.splice(pick, 1)[0];
+		if (done.has(id(square))) continue;
+		done.add(id(square));
+		if (samePosition(square, destination)) break;
+		const reached = best.get(id(square)) as { feet: number; provoked: number };
+
+		for (let dx = -1; dx <= 1; dx++) {
+			for (let dy = -1; dy <= 1; dy++) {
+				const next = { x: square.x + dx, y: square.y + dy };
+				if ((dx === 0 && dy === 0) || !open(next) || done.has(id(next))) continue;
+				const step = SQUARE_FEET * (difficult(next) ? 2 : 1) * (crawling ? 2 : 1);
+				const feet = reached.feet + step;
+				if (feet > speed) continue;
+				const provoked =
+					reached.provoked +
+					threats.filter((threat) => within(threat, square) && !within(threat, next)).length;
+				const known = best.get(id(next));
+				if (!known || feet < known.feet || (feet === known.feet && provoked < known.provoked)) {
+					best.set(id(next), { feet, provoked, from: square });
+					frontier.push(next);
+				}
+			}
+		}
+	}
+
+	const arrival = best.get(id(destination));
+	if (!arrival || !done.has(id(destination))) {
+		const left = speed - used;
+		throw new Error(
+			`${mover.name} can't reach ${where} with ${left} ft of movement left${crawling ? " (crawling while prone)" : ""}`,
+		);
+	}
+
+	const path: GridPosition[] = [];
+	for (let at: GridPosition | null = destination; at; at = best.get(id(at))?.from ?? null) {
+		path.unshift(at);
+	}
+	const feet = path.map((square) => (best.get(id(square)) as { feet: number }).feet);
+
+	// Each threatened creature gets one opportunity attack, the first time the mover leaves its reach
+	const opportunityAttacks: OpportunityAttack[] = [];
+	for (let step = 0; step < path.length - 1; step++) {
+		for (const threat of threats) {
+			if (opportunityAttacks.some((attack) => attack.attacker === threat.creature.name)) continue;
+			if (within(threat, path[step]) && !within(threat, path[step + 1])) {
+				opportunityAttacks.push({
+					attacker: threat.creature.name,
+					attack: threat.attack,
+					step,
+					distance: distanceTo(threat, path[step]),
+				});
+			}
+		}
+	}
+
+	return { name: mover.name, path, feet, speed, standUp, opportunityAttacks };
+}
+
+/**
+ * Put the mover on a square of its planned path, spending the movement to get there. Standing
+ * up ends prone the first time the mover's position changes.
+ */
+export function moveAlong(state: CombatState, plan: MovePlan, step: number, now = new Date()) {
+	const square = plan.path[step];
+	const next = updateCombatant(state, plan.name, (creature) => ({
+		...creature,
+		position: square,
+		movementUsed: plan.feet[step],
+		conditions: plan.standUp
+			? creature.conditions.filter((c) => c.name !== "prone")
+			: creature.conditions,
+	}));
+	if (step === 0) return next;
+	const moved = plan.feet[step] - plan.feet[0];
+	const message = `${plan.name} moves ${moved} ft to ${describePosition(square)}`;
+	return { ...next, log: [...next.log, logEntry(state.round, message, now)] };
+}
+
+/** Mark a combatant's reaction as spent until its next turn begins. */
+export function spendReaction(state: CombatState, name: string) {
+	return updateCombatant(state, name, (creature) => ({ ...creature, reactionUsed: true }));
+}
+
+export interface AreaOfEffect {
+	shape: AreaShape;
+	/** A sphere's radius, a cone or line's length, or a cube's side, in feet */
+	size: number;
+	/** A sphere's center square, a cube's top-left square, or the square a cone or line starts from */
+	origin: GridPosition;
+	/** The square a cone or line points at */
+	toward?: GridPosition;
+	/** A line's width in feet (default 5) */
+	width?: number;
+}
+
+export interface AreaAim {
+	shape: AreaShape;
+	size: number;
+	origin?: GridPosition;
+	toward?: GridPosition;
+	width?: number;
+}
+
+export function describeArea(area: AreaOfEffect) {
+	const from = describePosition(area.origin);
+	const toward = area.toward ? ` toward ${describePosition(area.toward)}` : "";
+	switch (area.shape) {
+		case "sphere":
+			return `${area.size}-ft sphere centered on ${from}`;
+		case "cube":
+			return `${area.size}-ft cube from ${from}`;
+		default:
+			return `${area.size}-ft ${area.shape} from ${from}${toward}`;
+	}
+}
+
+/** Feet from the battlefield's top-left corner to the middle of a square. */
+function center({ x, y }: GridPosition) {
+	return { x: (x + 0.5) * SQUARE_FEET, y: (y + 0.5) * SQUARE_FEET };
+}
+
+/**
+ * Whether a square lies in the area: its middle must fall inside the shape, measured in
+ * straight lines from the middle of the origin square. Cones and lines start beyond their
+ * origin square, and a cone is as wide as it is far from it; a cube covers whole squares from
+ * its top-left one.
+ */
+function inArea(area: AreaOfEffect, square: GridPosition) {
+	if (area.shape === "cube") {
+		const side = Math.max(1, Math.round(area.size / SQUARE_FEET));
+		return (
+			square.x >= area.origin.x &&
+			square.x < area.origin.x + side &&
+			square.y >= area.origin.y &&
+			square.y < area.origin.y + side
+		);
+	}
+	const from = center(area.origin);
+	const to = center(square);
+	const dx = to.x - from.x;
+	const dy = to.y - from.y;
+	if (area.shape === "sphere") return Math.hypot(dx, dy) <= area.size;
+
+	const aim = center(area.toward as GridPosition);
+	const length = Math.hypot(aim.x - from.x, aim.y - from.y);
+	const ux = (aim.x - from.x) / length;
+	const uy = (aim.y - from.y) / length;
+	const along = dx * ux + dy * uy;
+	const across = Math.abs(dx * uy - dy * ux);
+	if (along <= 0 || along > area.size + 1e-9) return false;
+	const halfWidth = area.shape === "cone" ? along / 2 : (area.width ?? SQUARE_FEET) / 2;
+	return across <= halfWidth + 1e-9;
+}
+
+/**
+ * Fix where an area goes on the battlefield. Without an origin, the area starts from the
+ * caster's square; cones and lines need a square to point at.
+ */
+export function aimArea(state: CombatState, aim: AreaAim, caster?: string): AreaOfEffect {
+	const { battlefield } = state;
+	if (!battlefield) throw new Error("There is no battlefield — call set-battlefield first");
+	let origin = aim.origin;
+	if (!origin && caster) {
+		const source = state.combatants[findCombatant(state, caster)];
+		if (!source.position) throw new Error(`${source.name} isn't on the battlefield`);
+		origin = source.position;
+	}
+	if (!origin)
+		throw new Error(`Give the ${aim.shape}'s origin square, or the caster it starts from`);
+	if (!fits(battlefield, origin, "Medium")) {
+		throw new Error(
+			`${describePosition(origin)} is off the ${battlefield.width}×${battlefield.height} grid`,
+		);
+	}
+	if (aim.shape === "cone" || aim.shape === "line") {
+		if (!aim.toward || samePosition(aim.toward, origin)) {
+			throw new Error(`A ${aim.shape} needs a toward square, other than its origin, to point at`);
+		}
+		return { shape: aim.shape, size: aim.size, origin, toward: aim.toward, width: aim.width };
+	}
+	return { shape: aim.shape, size: aim.size, origin };
+}
+
+/**
+ * The combatants still in the fight with any square inside the area, in initiative order.
+ * `exclude` leaves out the creature the area comes from, as with a breath weapon or a
+ * self-centered spell.
+ */
+export function creaturesInArea(state: CombatState, area: AreaOfEffect, exclude?: string) {
+	const { battlefield } = state;
+	if (!battlefield) throw new Error("There is no battlefield — call set-battlefield first");
+	const excluded = exclude?.trim().toLowerCase();
+	return state.combatants.filter((creature) => {
+		if (!creature.isAlive || !creature.position) return false;
+		if (creature.name.toLowerCase() === excluded) return false;
+		const side = FOOTPRINT[creature.size];
+		for (let dx = 0; dx < side; dx++) {
+			for (let dy = 0; dy < side; dy++) {
+				const square = { x: creature.position.x + dx, y: creature.position.y + dy };
+				if (inArea(area, square)) return true;
+			}
+		}
+		return false;
+	});
+}
@@ -0,0 +1,306 @@
+import type { AbilityName, AbilityScores, Condition, CreatureSize } from "../schemas/index.js";
+import { defaultRandomSource, type RandomSource, randomInt } from "./rng.js";
+
+/** One row of the DMG "Monster Statistics by Challenge Rating" table (plus the XP for that CR). */
+export interface ChallengeRatingStats {
+	challengeRating: number;
+	proficiencyBonus: number;
+	armorClass: number;
+	hitPoints: { min: number; max: number };
+	attackBonus: number;
+	damagePerRound: { min: number; max: number };
+	saveDC: number;
+	xp: number;
+}
+
+function row(
+	challengeRating: number,
+	proficiencyBonus: number,
+	armorClass: number,
+	[hpMin, hpMax]: [number, number],
+	attackBonus: number,
+	[damageMin, damageMax]: [number, number],
+	saveDC: number,
+	xp: number,
+): ChallengeRatingStats {
+	return {
+		challengeRating,
+		proficiencyBonus,
+		armorClass,
+		hitPoints: { min: hpMin, max: hpMax },
+		attackBonus,
+		damagePerRound: { min: damageMin, max: damageMax },
+		saveDC,
+		xp,
+	};
+}
+
+/** Dungeon Master's Guide, chapter 9 — in ascending CR order. */
+export const MONSTER_STATS_BY_CR: readonly ChallengeRatingStats[] = [
+	row(0, 2, 13, [1, 6], 3, [0, 1], 13, 10),
+	row(0.125, 2, 13, [7, 35], 3, [2, 3], 13, 25),
+	row(0.25, 2, 13, [36, 49], 3, [4, 5], 13, 50),
+	row(0.5, 2, 13, [50, 70], 3, [6, 8], 13, 100),
+	row(1, 2, 13, [71, 85], 3, [9, 14], 13, 200),
+	row(2, 2, 13, [86, 100], 3, [15, 20], 13, 450),
+	row(3, 2, 13, [101, 115], 4, [21, 26], 13, 700),
+	row(4, 2, 14, [116, 130], 5, [27, 32], 14, 1100),
+	row(5, 3, 15, [131, 145], 6, [33, 38], 15, 1800),
+	row(6, 3, 15, [146, 160], 6, [39, 44], 15, 2300),
+	row(7, 3, 15, [161, 175], 6, [45, 50], 15, 2900),
+	row(8, 3, 16, [176, 190], 7, [51, 56], 16, 3900),
+	row(9, 4, 16, [191, 205], 7, [57, 62], 16, 5000),
+	row(10, 4, 17, [206, 220], 7, [63, 68], 16, 5900),
+	row(11, 4, 17, [221, 235], 8, [69, 74], 17, 7200),
+	row(12, 4, 17, [236, 250], 8, [75, 80], 17, 8400),
+	row(13, 5, 18, [251, 265], 8, [81, 86], 18, 10000),
+	row(14, 5, 18, [266, 280], 8, [87, 92], 18, 11500),
+	row(15, 5, 18, [281, 295], 8, [93, 98], 18, 13000),
+	row(16, 5, 18, [296, 310], 9, [99, 104], 18, 15000),
+	row(17, 6, 19, [311, 325], 10, [105, 110], 19, 18000),
+	row(18, 6, 19, [326, 340], 10, [111, 116], 19, 20000),
+	row(19, 6, 19, [341, 355], 10, [117, 122], 19, 22000),
+	row(20, 6, 19, [356, 400], 10, [123, 140], 19, 25000),
+	row(21, 7, 19, [401, 445], 11, [141, 158], 20, 33000),
+	row(22, 7, 19, [446, 490], 11, [159, 176], 20, 41000),
+	row(23, 7, 19, [491, 535], 11, [177, 194], 20, 50000),
+	row(24, 7, 19, [536, 580], 12, [195, 212], 21, 62000),
+	row(25, 8, 19, [581, 625], 12, [213, 230], 21, 75000),
+	row(26, 8, 19, [626, 670], 12, [231, 248], 21, 90000),
+	row(27, 8, 19, [671, 715], 13, [249, 266], 22, 105000),
+	row(28, 8, 19, [716, 760], 13, [267, 284], 22, 120000),
+	row(29, 9, 19, [761, 805], 13, [285, 302], 22, 135000),
+	row(30, 9, 19, [806, 850], 14, [303, 320], 23, 155000),
+];
+
+export const HIT_DIE_BY_SIZE: Record<CreatureSize, number> = {
+	Tiny: 4,
+	Small: 6,
+	Medium: 8,
+	Large: 10,
+	Huge: 12,
+	Gargantuan: 20,
+};
+
+/**
+ * - balanced: every statistic from the creature's own CR row
+ * - defensive: AC and HP from one row up, attack and damage from one row down
+ * - offensive: the reverse
+ * Either way the DMG's averaged defensive/offensive CR still lands on the requested CR.
+ */
+export type StatBlockArchetype = "balanced" | "defensive" | "offensive";
+
+function crIndex(challengeRating: number) {
+	return MONSTER_STATS_BY_CR.findIndex((r) => r.challengeRating === challengeRating);
+}
+
+/**
+ * Snap a CR to the nearest value in the table. Accepts numbers (0.25) or the
+ * printed fractions ("1/4"); values are clamped to 0–30.
+ */
+export function normalizeChallengeRating(value: number | string): number {
+	const fraction = typeof value === "string" ? /^\s*(\d+)\s*\/\s*(\d+)\s*$/.exec(value) : null;
+	const cr = fraction ? Number(fraction[1]) / Number(fraction[2]) : Number(value);
+	if (!Number.isFinite(cr)) throw new Error(`Invalid challenge rating: ${value}`);
+
+	let best = MONSTER_STATS_BY_CR[0].challengeRating;
+	for (const { challengeRating } of MONSTER_STATS_BY_CR) {
+		if (Math.abs(challengeRating - cr) < Math.abs(best - cr)) best = challengeRating;
+	}
+	return best;
+}
+
+/** The table row for a CR (snapped to the nearest listed CR). */
+export function statsForChallengeRating(value: number | string): ChallengeRatingStats {
+	return MONSTER_STATS_BY_CR[crIndex(normalizeChallengeRating(value))];
+}
+
+/** 0.25 → "1/4", 3 → "3" */
+export function formatChallengeRating(challengeRating: number): string {
+	return challengeRating > 0 && challengeRating < 1
+		? `1/${Math.round(1 / challengeRating)}`
+		: String(challengeRating);
+}
+
+/** Average of `count` hit dice of size `die` plus CON, as printed in a stat block. */
+export function averageHitPoints(count: number, die: number, conModifier: number) {
+	return Math.floor((count * (die + 1)) / 2) + count * conModifier;
+}
+
+/**
+ * Choose a hit-dice count whose average HP lands inside the target range, closest to `target`.
+ * Falls back to the count closest to the range when the die is too coarse to land in it.
+ */
+export function chooseHitDice(
+	range: { min: number; max: number },
+	die: number,
+	conModifier: number,
+	target = (range.min + range.max) / 2,
+) {
+	let best = { count: 1, hitPoints: averageHitPoints(1, die, conModifier) };
+	let bestScore = Number.POSITIVE_INFINITY;
+
+	for (let count = 1; count <= 100; count++) {
+		const hitPoints = averageHitPoints(count, die, conModifier);
+		const outside = Math.max(0, range.min - hitPoints, hitPoints - range.max);
+		// Anything outside the range loses to anything inside it
+		const score = outside * 10_000 + Math.abs(hitPoints - target);
+		if (score < bestScore) {
+			best = { count, hitPoints };
+			bestScore = score;
+		}
+		if (hitPoints > range.max) break;
+	}
+
+	const bonus = best.count * conModifier;
+	const notation = `${best.count}d${die}${bonus > 0 ? `+${bonus}` : bonus < 0 ? bonus : ""}`;
+	return { ...best, notation };
+}
+
+/**
+ * Damage expression whose average is closest to `perHit`, built from one die size plus
+ * the ability modifier (or no bonus, when that fits better). Tiny amounts become flat damage.
+ */
+export function damageExpression(perHit: number, abilityModifier: number) {
+	let best = {
+		notation: String(Math.max(1, Math.round(perHit))),
+		average: Math.max(1, Math.round(perHit)),
+	};
+	let bestError = perHit < 2.5 ? Math.abs(best.average - perHit) : Number.POSITIVE_INFINITY;
+
+	for (const bonus of [abilityModifier, 0]) {
+		for (const die of [4, 6, 8, 10, 12]) {
+			const count = Math.max(1, Math.round((perHit - bonus) / ((die + 1) / 2)));
+			const average = (count * (die + 1)) / 2 + bonus;
+			const error = Math.abs(average - perHit);
+			if (error < bestError) {
+				const modifier = bonus > 0 ? `+${bonus}` : bonus < 0 ? String(bonus) : "";
+				best = { notation: `${count}d${die}${modifier}`, average };
+				bestError = error;
+			}
+		}
+	}
+	return best;
+}
+
+function abilityScore(modifier: number, rng: RandomSource) {
+	return Math.max(1, Math.min(30, 10 + modifier * 2 + randomInt(rng, 0, 1)));
+}
+
+function modifierOf(score: number) {
+	return Math.floor((score - 10) / 2);
+}
+
+/** Proficient saves in the creature's two best abilities, as total bonuses. */
+function proficientSaves(scores: AbilityScores, proficiencyBonus: number) {
+	const best = (Object.keys(scores) as AbilityName[])
+		.sort((a, b) => scores[b] - scores[a])
+		.slice(0, 2);
+	return Object.fromEntries(
+		best.map((ability) => [ability, modifierOf(scores[ability]) + proficiencyBonus]),
+	) as Partial<Record<AbilityName, number>>;
+}
+
+const ATTACK_COUNT_WORDS = ["", "one", "two", "three"];
+
+export interface GenerateStatBlockOptions {
+	name: string;
+	type: "player" | "monster" | "npc";
+	challengeRating: number | string;
+	archetype?: StatBlockArchetype;
+	size?: CreatureSize;
+	rng?: RandomSource;
+}
+
+/**
+ * Build a stat block from the DMG table: AC straight from the table, HP from hit dice
+ * and CON, the attack ability chosen so ability modifier + proficiency equals the table's
+ * attack bonus, and damage per round split over one to three attacks. Creatures of CR 5+
+ * (or defensive ones) are proficient in their two best saving throws; monsters are
+ * proficient in Perception.
+ */
+export function generateStatBlock(options: GenerateStatBlockOptions) {
+	const { name, type, archetype = "balanced", size = "Medium" } = options;
+	const rng = options.rng ?? defaultRandomSource;
+	const index = crIndex(normalizeChallengeRating(options.challengeRating));
+	const base = MONSTER_STATS_BY_CR[index];
+	const last = MONSTER_STATS_BY_CR.length - 1;
+	const shift = archetype === "defensive" ? 1 : archetype === "offensive" ? -1 : 0;
+	const defense = MONSTER_STATS_BY_CR[Math.max(0, Math.min(last, index + shift))];
+	const offense = MONSTER_STATS_BY_CR[Math.max(0, Math.min(last, index - shift))];
+
+	// Hardier creatures get more CON; fractional CRs stay at +0
+	const conModifier =
+		Math.min(9, Math.ceil(base.challengeRating >= 1 ? base.challengeRating / 3 : 0)) +
+		(archetype === "defensive" ? 1 : 0);
+	const attackModifier = offense.attackBonus - base.proficiencyBonus;
+
+	const { hitPoints: hpRange } = defense;
+	const hitDice = chooseHitDice(
+		hpRange,
+		HIT_DIE_BY_SIZE[size],
+		conModifier,
+		hpRange.min + rng() * (hpRange.max - hpRange.min),
+	);
+
+	const damagePerRound = (offense.damagePerRound.min + offense.damagePerRound.max) / 2;
+	const attackCount = damagePerRound < 9 ? 1 : damagePerRound < 40 ? 2 : 3;
+	const damage = damageExpression(damagePerRound / attackCount, attackModifier);
+	const attackName = type === "monster" ? "Claw" : "Longsword";
+
+	const abilityScores = {
+		strength: abilityScore(attackModifier, rng),
+		dexterity: abilityScore(randomInt(rng, 0, 2), rng),
+		constitution: abilityScore(conModifier, rng),
+		intelligence: Math.min(8 + randomInt(rng, 0, 5), 30),
+		wisdom: Math.min(8 + randomInt(rng, 0, 5), 30),
+		charisma: Math.min(8 + randomInt(rng, 0, 5), 30),
+	};
+	const savingThrows =
+		base.challengeRating >= 5 || archetype === "defensive"
+			? proficientSaves(abilityScores, base.proficiencyBonus)
+			: {};
+	const skills: Record<string, number> =
+		type === "monster"
+			? { perception: modifierOf(abilityScores.wisdom) + base.proficiencyBonus }
+			: {};
+
+	return {
+		id: `creature-${Date.now()}-${rng().toString(36).slice(2, 8)}`,
+		name,
+		type,
+		size,
+		challengeRating: base.challengeRating,
+		armorClass: defense.armorClass,
+		hitPoints: hitDice.hitPoints,
+		maxHitPoints: hitDice.hitPoints,
+		hitDice: hitDice.notation,
+		speed: { walk: 30 },
+		abilityScores,
+		savingThrows,
+		skills,
+		damageVulnerabilities: [] as string[],
+		damageResistances: [] as string[],
+		damageImmunities: [] as string[],
+		conditionImmunities: [] as string[],
+		senses: {
+			passivePerception: 10 + (skills.perception ?? modifierOf(abilityScores.wisdom)),
+		},
+		traits: [] as Array<{ name: string; description: string }>,
+		attacks: [
+			{
+				name: attackName,
+				toHitBonus: offense.attackBonus,
+				damageDice: damage.notation,
+				damageType: "slashing",
+				reach: 5,
+			},
+		],
+		multiattack:
+			attackCount > 1
+				? `Makes ${ATTACK_COUNT_WORDS[attackCount]} ${attackName} attacks.`
+				: undefined,
+		conditions: [] as Condition[],
+		isAlive: true,
+	};
+}
@@ -0,0 +1,470 @@
+import {
+	type CharacterClassDefinition,
+	CLASSES,
+	type ClassFeature,
+	type FightingStyle,
+	type Subclass,
+} from "../compendium/classes.js";
+import { ARMOR, SHIELD_AC_BONUS, WEAPONS, type Weapon } from "../compendium/equipment.js";
+import { RACES } from "../compendium/races.js";
+import { classSpellList, classSpellSlots } from "../compendium/spells.js";
+import type {
+	AbilityName,
+	AbilityScores,
+	BuildCharacterRequest,
+	CharacterSheet,
+	Condition,
+	CreatureSpellcasting,
+} from "../schemas/index.js";
+import { evaluateDiceExpression } from "./dice.js";
+import { defaultRandomSource, type RandomSource } from "./rng.js";
+
+export const STANDARD_ARRAY = [15, 14, 13, 12, 10, 8];
+
+/** Point-buy cost of each base score; every score starts at 8 */
+export const POINT_BUY_COSTS: Record<number, number> = {
+	8: 0,
+	9: 1,
+	10: 2,
+	11: 3,
+	12: 4,
+	13: 5,
+	14: 7,
+	15: 9,
+};
+
+export const POINT_BUY_BUDGET = 27;
+
+/** Point-buy spread used when no scores are given: two 15s, a 14, a 10 and two 8s */
+const DEFAULT_POINT_BUY = [15, 15, 14, 10, 8, 8];
+
+const ABILITY_NAMES: AbilityName[] = [
+	"strength",
+	"dexterity",
+	"constitution",
+	"intelligence",
+	"wisdom",
+	"charisma",
+];
+
+export const SKILL_ABILITIES: Record<string, AbilityName> = {
+	acrobatics: "dexterity",
+	"animal handling": "wisdom",
+	arcana: "intelligence",
+	athletics: "strength",
+	deception: "charisma",
+	history: "intelligence",
+	insight: "wisdom",
+	intimidation: "charisma",
+	investigation: "intelligence",
+	medicine: "wisdom",
+	nature: "intelligence",
+	perception: "wisdom",
+	performance: "charisma",
+	persuasion: "charisma",
+	religion: "intelligence",
+	"sleight of hand": "dexterity",
+	stealth: "dexterity",
+	survival: "wisdom",
+};
+
+/** Skills the Rogue's Expertise doubles proficiency for */
+const EXPERTISE_SKILLS = ["stealth", "sleight of hand"];
+
+const ATTACK_COUNT_WORDS = ["", "one", "two", "three", "four"];
+
+function modifierOf(score: number) {
+	return Math.floor((score - 10) / 2);
+}
+
+function capitalize(text: string) {
+	return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+export function proficiencyBonusForLevel(level: number) {
+	return Math.ceil(level / 4) + 1;
+}
+
+/** Hand out values (highest first) to abilities in the class's priority order. */
+function assignByPriority(values: number[], priority: AbilityName[]): AbilityScores {
+	const sorted = [...values].sort((a, b) => b - a);
+	return Object.fromEntries(priority.map((ability, i) => [ability, sorted[i]])) as AbilityScores;
+}
+
+function sameMultiset(a: number[], b: number[]) {
+	const sortedA = [...a].sort((x, y) => x - y);
+	const sortedB = [...b].sort((x, y) => x - y);
+	return sortedA.length === sortedB.length && sortedA.every((value, i) => value === sortedB[i]);
+}
+
+/** Base scores for the chosen method, before racial bonuses. */
+function baseAbilityScores(
+	request: BuildCharacterRequest,
+	cls: CharacterClassDefinition,
+	rng: RandomSource,
+): { scores: AbilityScores; rolls?: number[][] } {
+	const given = request.abilityScores;
+	const values = given ? ABILITY_NAMES.map((ability) => given[ability]) : null;
+
+	switch (request.abilityMethod) {
+		case "standard-array":
+			if (values && !sameMultiset(values, STANDARD_ARRAY)) {
+				throw new Error(`Standard array scores must be ${STANDARD_ARRAY.join(", ")}`);
+			}
+			return { scores: given ?? assignByPriority(STANDARD_ARRAY, cls.abilityPriority) };
+		case "point-buy": {
+			if (!values || !given) {
+				return { scores: assignByPriority(DEFAULT_POINT_BUY, cls.abilityPriority) };
+			}
+			if (values.some((score) => !(score in POINT_BUY_COSTS))) {
+				throw new Error("Point-buy scores must be whole numbers from 8 to 15");
+			}
+			const cost = values.reduce((sum, score) => sum + POINT_BUY_COSTS[score], 0);
+			if (cost > POINT_BUY_BUDGET) {
+				throw new Error(`Point-buy scores cost ${cost} points; the budget is ${POINT_BUY_BUDGET}`);
+			}
+			return { scores: given };
+		}
+		case "roll": {
+			if (given) throw new Error("Rolled characters can't supply ability scores");
+			const results = ABILITY_NAMES.map(() => evaluateDiceExpression("4d6dl1", { rng }));
+			return {
+				scores: assignByPriority(
+					results.map((result) => result.total),
+					cls.abilityPriority,
+				),
+				rolls: results.map((result) => result.terms[0].rolls),
+			};
+		}
+	}
+}
+
+/**
+ * Racial bonuses, then each Ability Score Improvement as +2 spread over the class's
+ * priority abilities (capped at 20). A level 20 barbarian's Primal Champion comes last.
+ */
+function finalAbilityScores(
+	base: AbilityScores,
+	request: BuildCharacterRequest,
+	cls: CharacterClassDefinition,
+): AbilityScores {
+	const race = RACES[request.race];
+	const scores = { ...base };
+	for (const ability of ABILITY_NAMES) {
+		scores[ability] += race.abilityBonuses[ability] ?? 0;
+	}
+	const flexible = cls.abilityPriority.filter((ability) => !(ability in race.abilityBonuses));
+	for (const ability of flexible.slice(0, race.flexibleBonuses ?? 0)) {
+		scores[ability] += 1;
+	}
+
+	const improvements = cls.abilityScoreImprovements.filter((level) => level <= request.level);
+	for (const _ of improvements) {
+		for (let point = 0; point < 2; point++) {
+			const ability = cls.abilityPriority.find((a) => scores[a] < 20);
+			if (ability) scores[ability] += 1;
+		}
+	}
+
+	if (request.className === "barbarian" && request.level >= 20) {
+		scores.strength = Math.min(24, scores.strength + 4);
+		scores.constitution = Math.min(24, scores.constitution + 4);
+	}
+	return scores;
+}
+
+/** The requested subclass (matched on its full or short name), once the class has unlocked it. */
+function resolveSubclass(request: BuildCharacterRequest, cls: CharacterClassDefinition) {
+	const { subclass } = cls;
+	if (request.subclass === undefined) {
+		return request.level >= cls.subclassLevel ? subclass : undefined;
+	}
+
+	const wanted = request.subclass.trim().toLowerCase();
+	const full = subclass.name.toLowerCase();
+	const matches =
+		wanted === full ||
+		(wanted.length >= 4 && (full.startsWith(`${wanted} `) || full.endsWith(` ${wanted}`)));
+	if (!matches) {
+		throw new Error(
+			`Unknown ${cls.name} subclass "${request.subclass}"; available: ${subclass.name}`,
+		);
+	}
+	if (request.level < cls.subclassLevel) {
+		throw new Error(`${cls.name}s choose a subclass at level ${cls.subclassLevel}`);
+	}
+	return subclass;
+}
+
+function describeFeature(feature: ClassFeature, level: number) {
+	return {
+		level: feature.level,
+		name: feature.name,
+		description:
+			typeof feature.description === "function" ? feature.description(level) : feature.description,
+	};
+}
+
+function attackAbility(
+	weapon: Weapon,
+	cls: CharacterClassDefinition,
+	scores: AbilityScores,
+	isMonk: boolean,
+): AbilityName {
+	if (weapon.kind === "spell") {
+		if (!cls.spellcasting) throw new Error(`${cls.name}s can't cast ${weapon.name}`);
+		return cls.spellcasting.ability;
+	}
+	if (weapon.kind === "ranged") return "dexterity";
+	// Finesse weapons, and a monk's unarmed strikes and one-handed weapons, use the better of STR and DEX
+	if (weapon.finesse || (isMonk && !weapon.twoHanded)) {
+		return scores.dexterity > scores.strength ? "dexterity" : "strength";
+	}
+	return "strength";
+}
+
+function withBonus(dice: string, bonus: number) {
+	if (/^\d+$/.test(dice)) return String(Math.max(1, Number(dice) + bonus));
+	return bonus > 0 ? `${dice}+${bonus}` : bonus < 0 ? `${dice}${bonus}` : dice;
+}
+
+function averageOf(dice: string) {
+	const match = dice.match(/^(\d+)d(\d+)$/);
+	return match ? (Number(match[1]) * (Number(match[2]) + 1)) / 2 : Number(dice);
+}
+
+/**
+ * Build a level 1–20 player character from the SRD: ability scores by standard array,
+ * point buy or 4d6-drop-lowest, racial traits, hit points from the class hit die (max at
+ * 1st level, fixed average after), AC from armor or Unarmored Defense, and one attack per
+ * weapon with class features such as fighting styles, Martial Arts, cantrip scaling and
+ * Improved Divine Smite already folded in. Throws on an invalid ability score spread or
+ * an unknown subclass.
+ */
+export function buildCharacter(
+	request: BuildCharacterRequest,
+	rng: RandomSource = defaultRandomSource,
+) {
+	const { level } = request;
+	const cls = CLASSES[request.className];
+	const race = RACES[request.race];
+	const subclass: Subclass | undefined = resolveSubclass(request, cls);
+
+	const base = baseAbilityScores(request, cls, rng);
+	const abilityScores = finalAbilityScores(base.scores, request, cls);
+	const mod = (ability: AbilityName) => modifierOf(abilityScores[ability]);
+	const proficiencyBonus = proficiencyBonusForLevel(level);
+
+	const activeFeatures = [...cls.features, ...(subclass?.features ?? [])]
+		.filter((feature) => feature.level <= level)
+		.sort((a, b) => a.level - b.level);
+	const has = (name: string) => activeFeatures.some((feature) => feature.name === name);
+	const styles = new Set<FightingStyle>(
+		activeFeatures.flatMap((feature) => (feature.fightingStyle ? [feature.fightingStyle] : [])),
+	);
+	const isMonk = request.className === "monk";
+
+	// ── Hit points ──
+	const hitPointsPerLevel = (race.hitPointsPerLevel ?? 0) + (has("Draconic Resilience") ? 1 : 0);
+	const laterLevel = Math.max(1, cls.hitDie / 2 + 1 + mod("constitution") + hitPointsPerLevel);
+	const hitPoints =
+		Math.max(1, cls.hitDie + mod("constitution") + hitPointsPerLevel) + (level - 1) * laterLevel;
+
+	// ── Armor class ──
+	const armorName = request.equipment?.armor ?? cls.armor;
+	const shield = request.equipment?.shield ?? cls.shield;
+	const armor = ARMOR[armorName];
+	const dex = mod("dexterity");
+	let armorClass =
+		armor.baseAC + (armor.maxDexBonus === null ? dex : Math.min(dex, armor.maxDexBonus));
+	if (armor.category === "none") {
+		if (has("Unarmored Defense") && !isMonk) {
+			armorClass = Math.max(armorClass, 10 + dex + mod("constitution"));
+		}
+		if (has("Unarmored Defense") && isMonk && !shield) {
+			armorClass = Math.max(armorClass, 10 + dex + mod("wisdom"));
+		}
+		if (has("Draconic Resilience")) armorClass = Math.max(armorClass, 13 + dex);
+	} else if (styles.has("defense")) {
+		armorClass += 1;
+	}
+	if (shield) armorClass += SHIELD_AC_BONUS;
+
+	// ── Attacks ──
+	const spellcasting =
+		cls.spellcasting && level >= cls.spellcasting.level
+			? {
+					ability: cls.spellcasting.ability,
+					saveDC: 8 + proficiencyBonus + mod(cls.spellcasting.ability),
+					attackBonus: proficiencyBonus + mod(cls.spellcasting.ability),
+				}
+			: undefined;
+	const cantripDice = 1 + [5, 11, 17].filter((threshold) => level >= threshold).length;
+	const martialArtsDie = level >= 17 ? "1d10" : level >= 11 ? "1d8" : level >= 5 ? "1d6" : "1d4";
+	let eldritchBeams = 0;
+
+	const weaponNames = request.equipment?.weapons ?? cls.weapons;
+	const attacks = weaponNames.map((weaponName) => {
+		const weapon = WEAPONS[weaponName];
+		const ability = attackAbility(weapon, cls, abilityScores, isMonk);
+		let toHitBonus = mod(ability) + proficiencyBonus;
+		let damageDice = weapon.damageDice;
+		let damageBonus = 0;
+
+		if (weapon.kind === "spell") {
+			if (weaponName === "eldritch-blast") {
+				eldritchBeams = cantripDice;
+				if (has("Eldritch Invocation: Agonizing Blast")) damageBonus += mod("charisma");
+			} else if (weapon.cantrip) {
+				damageDice = `${cantripDice}${damageDice.slice(damageDice.indexOf("d"))}`;
+			}
+			if (has("Elemental Affinity") && weapon.damageType === "fire") damageBonus += mod("charisma");
+			if (has("Empowered Evocation") && weapon.school === "evocation") {
+				damageBonus += mod("intelligence");
+			}
+		} else {
+			damageBonus += mod(ability);
+			if (isMonk && weapon.kind === "melee" && !weapon.twoHanded) {
+				if (averageOf(martialArtsDie) > averageOf(damageDice)) damageDice = martialArtsDie;
+			}
+			if (weapon.kind === "ranged" && styles.has("archery")) toHitBonus += 2;
+			if (
+				weapon.kind === "melee" &&
+				!weapon.twoHanded &&
+				weaponName !== "unarmed-strike" &&
+				styles.has("dueling")
+			) {
+				damageBonus += 2;
+			}
+			if (weapon.kind === "melee" && has("Improved Divine Smite")) {
+				// Typed per part, so a target resisting one type still takes the other in full
+				damageDice = `${withBonus(damageDice, damageBonus)} ${weapon.damageType} + 1d8 radiant`;
+				damageBonus = 0;
+			}
+		}
+
+		return {
+			name: weapon.name,
+			toHitBonus,
+			damageDice: withBonus(damageDice, damageBonus),
+			damageType: weapon.damageType,
+			...(weapon.kind === "melee" && { reach: 5 }),
+			...(weapon.range && { range: weapon.range }),
+		};
+	});
+
+	const attacksPerAction = cls.extraAttacks
+		? Math.max(1, ...cls.extraAttacks.filter(([from]) => level >= from).map(([, n]) => n))
+		: 1;
+	const multiattack = [
+		attacksPerAction > 1
+			? `Makes ${ATTACK_COUNT_WORDS[attacksPerAction]} weapon attacks when taking the Attack action.`
+			: "",
+		eldritchBeams > 1
+			? `Eldritch Blast fires ${ATTACK_COUNT_WORDS[eldritchBeams]} beams, each a separate attack.`
+			: "",
+	]
+		.filter(Boolean)
+		.join(" ");
+
+	// ── Saving throws and skills ──
+	const proficientSaves = has("Diamond Soul")
+		? ABILITY_NAMES
+		: [...cls.savingThrows, ...(has("Slippery Mind") ? (["wisdom"] as AbilityName[]) : [])];
+	const aura = has("Aura of Protection") ? Math.max(1, mod("charisma")) : 0;
+	const savingThrows = Object.fromEntries(
+		ABILITY_NAMES.filter((ability) => aura > 0 || proficientSaves.includes(ability)).map(
+			(ability) => [
+				ability,
+				mod(ability) + (proficientSaves.includes(ability) ? proficiencyBonus : 0) + aura,
+			],
+		),
+	) as Partial<Record<AbilityName, number>>;
+
+	const skills: Record<string, number> = {};
+	for (const skill of new Set([...cls.skills, ...(race.skills ?? [])])) {
+		const expertise = has("Expertise") && EXPERTISE_SKILLS.includes(skill) ? 2 : 1;
+		skills[skill] = mod(SKILL_ABILITIES[skill]) + proficiencyBonus * expertise;
+	}
+
+	// ── Speed, defenses and senses ──
+	let walk = race.speed;
+	if (has("Fast Movement") && armor.category !== "heavy") walk += 10;
+	if (has("Unarmored Movement") && armor.category === "none" && !shield) {
+		walk += [2, 6, 10, 14, 18].filter((threshold) => level >= threshold).length * 5 + 5;
+	}
+	const poisonImmune = has("Purity of Body") || has("Nature's Ward");
+	const damageImmunities = poisonImmune ? ["poison"] : [];
+	const conditionImmunities = poisonImmune ? ["poisoned"] : [];
+	const damageResistances = (race.damageResistances ?? []).filter(
+		(type) => !damageImmunities.includes(type),
+	);
+
+	const features = activeFeatures.map((feature) => describeFeature(feature, level));
+	const traits = [
+		...race.traits,
+		...features.map(({ name, description }) => ({ name, description })),
+		...(spellcasting
+			? [
+					{
+						name: "Spellcasting",
+						description: `${capitalize(spellcasting.ability)} is the spellcasting ability (spell save DC ${spellcasting.saveDC}, +${spellcasting.attackBonus} to hit with spell attacks).`,
+					},
+				]
+			: []),
+	];
+
+	const character: CharacterSheet = {
+		className: cls.name,
+		subclass: subclass?.name,
+		race: race.name,
+		level,
+		proficiencyBonus,
+		abilityMethod: request.abilityMethod,
+		baseAbilityScores: base.scores,
+		abilityRolls: base.rolls,
+		armor: armor.name,
+		shield,
+		features,
+		spellcasting,
+	};
+
+	const slots = classSpellSlots(request.className, level);
+	const creatureSpellcasting: CreatureSpellcasting | undefined = spellcasting && {
+		...spellcasting,
+		casterLevel: level,
+		spells: classSpellList(request.className, slots),
+		slots,
+	};
+
+	const creature = {
+		id: `creature-${Date.now()}-${rng().toString(36).slice(2, 8)}`,
+		name: request.name,
+		type: "player" as const,
+		size: race.size,
+		armorClass,
+		hitPoints,
+		maxHitPoints: hitPoints,
+		hitDice: `${level}d${cls.hitDie}`,
+		speed: { walk },
+		abilityScores,
+		savingThrows,
+		skills,
+		damageVulnerabilities: [] as string[],
+		damageResistances,
+		damageImmunities,
+		conditionImmunities,
+		senses: {
+			...(race.darkvision ? { darkvision: race.darkvision } : {}),
+			passivePerception: 10 + (skills.perception ?? mod("wisdom")),
+		},
+		traits,
+		multiattack: multiattack || undefined,
+		attacks,
+		conditions: [] as Condition[],
+		spellcasting: creatureSpellcasting,
+		isAlive: true,
+	};
+
+	return { creature, character };
+}
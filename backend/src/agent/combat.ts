@@ -0,0 +1,790 @@
+import { eq } from "drizzle-orm";
+import { describeSlots } from "../compendium/spells.js";
+import { db, schema } from "../db/index.js";
+import type {
+	Battlefield,
+	Condition,
+	ConditionName,
+	Creature,
+	DeathSaves,
+} from "../schemas/index.js";
+import { describeCondition, endTurnConditions, startTurnConditions } from "./conditions.js";
+import { type RandomSource, rollDie } from "./rng.js";
+
+export interface CombatLogEntry {
+	round: number;
+	message: string;
+	timestamp: string;
+}
+
+/**
+ * The encounter as persisted on the arena row. Round 0 is setup: `combatants` is the roster
+ * of stat blocks created so far. From round 1 on it is the initiative order, and
+ * `turnIndex` points at the combatant whose turn it is.
+ */
+export interface CombatState {
+	round: number;
+	turnIndex: number;
+	combatants: Creature[];
+	log: CombatLogEntry[];
+	/** The grid combatants stand on; without one, positions and reach aren't tracked */
+	battlefield?: Battlefield;
+}
+
+export interface InitiativeEntry {
+	/** Name of a combatant already in the roster */
+	name: string;
+	initiative: number;
+	/** Which side the combatant fights for, e.g. "party" or "monsters" */
+	side: string;
+}
+
+export function emptyCombatState(): CombatState {
+	return { round: 0, turnIndex: 0, combatants: [], log: [] };
+}
+
+/** A combat log line stamped with the round it happened in. */
+export function logEntry(round: number, message: string, now: Date): CombatLogEntry {
+	return { round, message, timestamp: now.toISOString() };
+}
+
+function sameName(a: string, b: string) {
+	return a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+/**
+ * Add a freshly created stat block to the setup roster, replacing any earlier one with the
+ * same name. Once combat has started the roster is fixed and the state is returned as is.
+ */
+export function addCombatant(state: CombatState, creature: Creature): CombatState {
+	if (state.round > 0) return state;
+	return {
+		...state,
+		combatants: [...state.combatants.filter((c) => !sameName(c.name, creature.name)), creature],
+	};
+}
+
+/** Look up the combatants about to start a fight, rejecting a fight that can't start. */
+function rosterEntries(state: CombatState, names: string[]) {
+	if (state.round > 0) {
+		throw new Error("Combat has already started");
+	}
+	if (names.length < 2) {
+		throw new Error("Combat needs at least two combatants");
+	}
+
+	const seen = new Set<string>();
+	return names.map((name) => {
+		const key = name.trim().toLowerCase();
+		if (seen.has(key)) throw new Error(`${name} is listed more than once`);
+		seen.add(key);
+
+		const creature = state.combatants.find((c) => sameName(c.name, name));
+		if (!creature) {
+			const roster = state.combatants.map((c) => c.name).join(", ") || "none";
+			throw new Error(`No stat block for ${name} — create one first (roster: ${roster})`);
+		}
+		return creature;
+	});
+}
+
+/** Lair actions come on initiative count 20, losing ties: just before the first turn below 20. */
+function lairTurnIndex(combatants: Creature[]) {
+	const index = combatants.findIndex((c) => (c.initiative ?? 0) < 20);
+	return index === -1 ? combatants.length : index;
+}
+
+/**
+ * Open (or close) the lair action window for every creature fighting in its lair, logging who
+ * can take one.
+ */
+function openLairs(combatants: Creature[], open: boolean, round: number, now: Date) {
+	const log: CombatLogEntry[] = [];
+	const updated = combatants.map((creature) => {
+		if (!creature.lairActions) return creature;
+		const available = open && creature.isAlive && creature.hitPoints > 0;
+		if (available) {
+			log.push(
+				logEntry(round, `Initiative count 20: ${creature.name} can take a lair action`, now),
+			);
+		}
+		return { ...creature, lairActions: { ...creature.lairActions, available } };
+	});
+	return { combatants: updated, log };
+}
+
+/**
+ * What the start of its own turn restores to a creature: its movement and reaction come back
+ * and Shield drops, legendary actions come back, and spent recharge abilities are due their roll.
+ */
+function startTurnResources(creature: Creature): Partial<Creature> {
+	return {
+		movementUsed: 0,
+		reactionUsed: false,
+		shielded: false,
+		...(creature.legendaryActions && {
+			legendaryActions: {
+				...creature.legendaryActions,
+				remaining: creature.legendaryActions.perRound,
+			},
+		}),
+		...(creature.recharges && {
+			recharges: creature.recharges.map((ability) => ({ ...ability, rollDue: !ability.available })),
+		}),
+	};
+}
+
+/**
+ * Begin round 1. Listed combatants are ordered by initiative (ties go to the higher DEX
+ * score, then to the order given); roster entries that aren't listed sit the fight out.
+ */
+export function startCombat(
+	state: CombatState,
+	entries: InitiativeEntry[],
+	now = new Date(),
+): CombatState {
+	const roster = rosterEntries(
+		state,
+		entries.map((entry) => entry.name),
+	);
+	const ordered = entries.map((entry, position) => ({
+		creature: { ...roster[position], initiative: entry.initiative, side: entry.side },
+		position,
+	}));
+
+	ordered.sort(
+		(a, b) =>
+			b.creature.initiative - a.creature.initiative ||
+			b.creature.abilityScores.dexterity - a.creature.abilityScores.dexterity ||
+			a.position - b.position,
+	);
+
+	const sorted = ordered.map(({ creature }) => creature);
+	const order = sorted.map((c) => `${c.name} (${c.initiative})`).join(", ");
+	// With everyone below initiative 20, the lair acts before the first turn
+	const lairs = openLairs(sorted, lairTurnIndex(sorted) === 0, 1, now);
+	const { combatants } = lairs;
+	const first = combatants.findIndex((c) => c.isAlive);
+	const started: CombatState = {
+		round: 1,
+		turnIndex: Math.max(first, 0),
+		combatants,
+		log: [
+			...state.log,
+			logEntry(1, `Initiative order: ${order}`, now),
+			logEntry(1, "Round 1 begins", now),
+			...lairs.log,
+		],
+	};
+	const current = started.combatants[started.turnIndex];
+	started.log.push(logEntry(1, `${current.name}'s turn`, now));
+	return started;
+}
+
+export interface InitiativeRequest {
+	name: string;
+	side: string;
+	/** Added on top of the DEX modifier, e.g. +5 for the Alert feat */
+	bonus?: number;
+	advantage?: boolean;
+}
+
+export interface InitiativeRoll {
+	name: string;
+	side: string;
+	dexterity: number;
+	modifier: number;
+	/** The d20s rolled — two with advantage, the higher one counts */
+	rolls: number[];
+	initiative: number;
+}
+
+function modifierOf(score: number) {
+	return Math.floor((score - 10) / 2);
+}
+
+/** Roll 1d20 (2d20 keep highest with advantage) + modifier for each entry, in order. */
+export function rollInitiativeDice(
+	entries: Array<{ modifier: number; advantage?: boolean }>,
+	rng: RandomSource,
+) {
+	return entries.map(({ modifier, advantage }) => {
+		const rolls = advantage ? [rollDie(rng, 20), rollDie(rng, 20)] : [rollDie(rng, 20)];
+		return { rolls, initiative: Math.max(...rolls) + modifier };
+	});
+}
+
+/**
+ * Roll initiative for roster combatants and start combat in that order. The roster is checked
+ * before any die is rolled, so a rejected call never draws from `rng`.
+ */
+export function rollInitiative(
+	state: CombatState,
+	requests: InitiativeRequest[],
+	rng: () => RandomSource,
+	now = new Date(),
+) {
+	const roster = rosterEntries(
+		state,
+		requests.map((request) => request.name),
+	);
+	const combatants = requests.map((request, i) => {
+		const creature = roster[i];
+		const dexterity = creature.abilityScores.dexterity;
+		return { request, creature, dexterity, modifier: modifierOf(dexterity) + (request.bonus ?? 0) };
+	});
+
+	const dice = rollInitiativeDice(
+		combatants.map(({ request, modifier }) => ({ modifier, advantage: request.advantage })),
+		rng(),
+	);
+	const rolls: InitiativeRoll[] = combatants.map(
+		({ request, creature, dexterity, modifier }, i) => ({
+			name: creature.name,
+			side: request.side,
+			dexterity,
+			modifier,
+			...dice[i],
+		}),
+	);
+
+	const started = startCombat(
+		state,
+		rolls.map(({ name, side, initiative }) => ({ name, side, initiative })),
+		now,
+	);
+	const order = started.combatants.map(
+		(c) => rolls.find((r) => r.name === c.name) as InitiativeRoll,
+	);
+	return { state: started, order };
+}
+
+/**
+ * Whether the fight is still going. Combat ends once at most one side has anyone standing —
+ * player characters dying or stable at 0 HP don't count; `winner` is that side, or null when
+ * nobody is left.
+ */
+export function combatOutcome(state: CombatState) {
+	if (state.round === 0) {
+		return { status: "setup" as const, winner: null };
+	}
+	const standing = new Set(
+		state.combatants.filter((c) => c.isAlive && c.hitPoints > 0).map((c) => c.side),
+	);
+	if (standing.size > 1) {
+		return { status: "active" as const, winner: null };
+	}
+	const [winner] = standing;
+	return { status: "ended" as const, winner: winner ?? null };
+}
+
+/** The dead and the stable skip their turns; the dying still take theirs to roll death saves. */
+function takesTurns(creature: Creature) {
+	return creature.isAlive && !creature.deathSaves?.stable;
+}
+
+/** Pass the turn to the next combatant still in the fight, starting a new round on wrap-around. */
+export function nextTurn(state: CombatState, now = new Date()): CombatState {
+	const outcome = combatOutcome(state);
+	if (outcome.status === "setup") {
+		throw new Error("Combat hasn't started — call start-combat first");
+	}
+	if (outcome.status === "ended") {
+		throw new Error(
+			outcome.winner ? `Combat is over — ${outcome.winner} won` : "Combat is over — no one is left",
+		);
+	}
+
+	let { round, turnIndex } = state;
+	const log = [...state.log];
+
+	// End of the current turn: conditions timed by it count down or run out
+	const ending = state.combatants[turnIndex].name;
+	let combatants = state.combatants.map((creature) => {
+		const { conditions, expired } = endTurnConditions(creature, ending);
+		for (const condition of expired) {
+			log.push(logEntry(round, `${creature.name} is no longer ${condition.name}`, now));
+		}
+		return { ...creature, conditions };
+	});
+
+	// Passing initiative count 20 on the way opens the lair action window
+	const lairTurn = lairTurnIndex(combatants);
+	let lairPassed = false;
+	do {
+		turnIndex++;
+		if (turnIndex === lairTurn) lairPassed = true;
+		if (turnIndex >= combatants.length) {
+			turnIndex = 0;
+			round++;
+			log.push(logEntry(round, `Round ${round} begins`, now));
+			if (lairTurn === 0) lairPassed = true;
+		}
+	} while (!takesTurns(combatants[turnIndex]));
+
+	const lairs = openLairs(combatants, lairPassed, round, now);
+	log.push(...lairs.log);
+	const starting = combatants[turnIndex].name;
+	combatants = lairs.combatants.map((creature) => ({
+		...creature,
+		conditions: startTurnConditions(creature, starting),
+		// A new turn brings fresh movement, the reaction and legendary actions back
+		...(creature.name === starting && startTurnResources(creature)),
+	}));
+	log.push(logEntry(round, `${starting}'s turn`, now));
+	return { ...state, round, turnIndex, combatants, log };
+}
+
+/** Index of the named combatant (any case); throws with the roster when there is none. */
+export function findCombatant(state: CombatState, name: string) {
+	const index = state.combatants.findIndex((c) => sameName(c.name, name));
+	if (index === -1) {
+		const names = state.combatants.map((c) => c.name).join(", ") || "none";
+		throw new Error(`No combatant named ${name} (combatants: ${names})`);
+	}
+	return index;
+}
+
+/** What one apply-damage / apply-healing call did to a combatant's hit points. */
+export interface HitPointChange {
+	name: string;
+	kind: "damage" | "healing" | "temporary";
+	amount: number;
+	previousHitPoints: number;
+	hitPoints: number;
+	maxHitPoints: number;
+	previousTemporaryHitPoints: number;
+	temporaryHitPoints: number;
+	isAlive: boolean;
+}
+
+/** Source of the unconscious condition a player character gets from dropping to 0 HP */
+const DYING = "0 hit points";
+
+function fallUnconscious(conditions: Condition[]): Condition[] {
+	return [
+		...conditions.filter((c) => c.name !== "unconscious"),
+		{ name: "unconscious", source: DYING, duration: { type: "until-removed" } },
+	];
+}
+
+function wakeUp(conditions: Condition[]) {
+	return conditions.filter((c) => !(c.name === "unconscious" && c.source === DYING));
+}
+
+function plural(count: number, noun: string, nouns = `${noun}s`) {
+	return `${count} ${count === 1 ? noun : nouns}`;
+}
+
+function changeHitPoints(
+	state: CombatState,
+	name: string,
+	kind: HitPointChange["kind"],
+	amount: number,
+	critical: boolean,
+	now: Date,
+) {
+	const index = findCombatant(state, name);
+	const creature = state.combatants[index];
+	const previousHitPoints = creature.hitPoints;
+	const previousTemporaryHitPoints = creature.temporaryHitPoints ?? 0;
+	const player = creature.type === "player";
+	let hitPoints = previousHitPoints;
+	let temporaryHitPoints = previousTemporaryHitPoints;
+	let { conditions, deathSaves, isAlive } = creature;
+	let message: string;
+
+	if (kind === "damage") {
+		const absorbed = Math.min(temporaryHitPoints, amount);
+		const dealt = amount - absorbed;
+		temporaryHitPoints -= absorbed;
+		hitPoints = Math.max(0, hitPoints - dealt);
+		message = `${creature.name} takes ${amount} damage (${previousHitPoints} → ${hitPoints} HP${absorbed > 0 ? `, ${absorbed} absorbed by temporary HP` : ""})`;
+		// Player characters drop to 0 HP dying rather than dead, unless the damage left over
+		// reaches their hit point maximum
+		const massive = dealt - previousHitPoints >= creature.maxHitPoints;
+		if (!player) {
+			if (hitPoints === 0 && previousHitPoints > 0) message += " and falls";
+		} else if (isAlive && hitPoints === 0 && previousHitPoints > 0) {
+			if (massive) {
+				isAlive = false;
+				message += " and is killed outright by massive damage";
+			} else {
+				conditions = fallUnconscious(conditions);
+				deathSaves = { successes: 0, failures: 0, stable: false };
+				message += " and falls unconscious";
+			}
+		} else if (isAlive && hitPoints === 0 && dealt > 0) {
+			// Damage while down is a failed death save, two on a critical hit
+			const failures = Math.min(3, (deathSaves?.failures ?? 0) + (critical ? 2 : 1));
+			deathSaves = { successes: deathSaves?.successes ?? 0, failures, stable: false };
+			if (massive || failures === 3) {
+				isAlive = false;
+				message += massive ? " and is killed by massive damage" : " and dies";
+			} else {
+				message += ` while down (${plural(failures, "death save failure")})`;
+			}
+		}
+	} else if (kind === "healing") {
+		if (player && !isAlive) {
+			throw new Error(`${creature.name} is dead — healing can't bring them back`);
+		}
+		hitPoints = Math.min(creature.maxHitPoints, hitPoints + amount);
+		message = `${creature.name} regains ${hitPoints - previousHitPoints} HP (${previousHitPoints} → ${hitPoints} HP)`;
+		if (previousHitPoints === 0 && hitPoints > 0) {
+			message += " and is back in the fight";
+			conditions = wakeUp(conditions);
+			deathSaves = undefined;
+		}
+	} else {
+		// Temporary hit points don't stack: keep whichever is higher
+		temporaryHitPoints = Math.max(temporaryHitPoints, amount);
+		message = `${creature.name} has ${temporaryHitPoints} temporary HP`;
+	}
+
+	const updated: Creature = {
+		...creature,
+		hitPoints,
+		temporaryHitPoints,
+		conditions,
+		deathSaves,
+		isAlive: player ? isAlive : hitPoints > 0,
+	};
+	const combatants = [...state.combatants];
+	combatants[index] = updated;
+	const change: HitPointChange = {
+		name: updated.name,
+		kind,
+		amount,
+		previousHitPoints,
+		hitPoints,
+		maxHitPoints: updated.maxHitPoints,
+		previousTemporaryHitPoints,
+		temporaryHitPoints,
+		isAlive: updated.isAlive,
+	};
+	return {
+		state: { ...state, combatants, log: [...state.log, logEntry(state.round, message, now)] },
+		change,
+		creature: updated,
+	};
+}
+
+/**
+ * Deal damage to a combatant. Temporary hit points soak it up first; hit points stop at 0,
+ * which marks a monster or NPC defeated. A player character at 0 HP is unconscious and dying
+ * instead: more damage counts as failed death saves (two for a `critical` hit), and damage
+ * that leaves as much over as its hit point maximum kills it outright.
+ */
+export function applyDamage(
+	state: CombatState,
+	name: string,
+	amount: number,
+	options: { critical?: boolean } = {},
+	now = new Date(),
+) {
+	return changeHitPoints(state, name, "damage", amount, options.critical ?? false, now);
+}
+
+/**
+ * Heal a combatant up to its hit point maximum, bringing it back into the fight from 0 — a dying
+ * player character wakes up and its death saves reset; a dead one can't be healed. With
+ * `temporary`, grant temporary hit points instead — they replace a smaller pool, never add to it.
+ */
+export function applyHealing(
+	state: CombatState,
+	name: string,
+	amount: number,
+	options: { temporary?: boolean } = {},
+	now = new Date(),
+) {
+	const kind = options.temporary ? "temporary" : "healing";
+	return changeHitPoints(state, name, kind, amount, false, now);
+}
+
+export interface DeathSaveRoll {
+	name: string;
+	/** The d20: 10 or higher succeeds, a natural 1 counts as two failures */
+	roll: number;
+	previous: DeathSaves;
+	/** The tally afterwards; null once a natural 20 brings the character back up */
+	deathSaves: DeathSaves | null;
+	/** Natural 20: the character regains 1 HP */
+	revived: boolean;
+	stable: boolean;
+	dead: boolean;
+	narrative: string;
+}
+
+/**
+ * Roll one death saving throw against a dying character's tally. Three successes make it
+ * stable (and reset the tally), three failures kill it, and a natural 20 brings it back up.
+ */
+export function rollDeathSaveDie(
+	name: string,
+	previous: DeathSaves,
+	rng: RandomSource,
+): DeathSaveRoll {
+	const roll = rollDie(rng, 20);
+	let { successes, failures } = previous;
+	let verdict: string;
+	if (roll === 20) {
+		verdict = `natural 20! ${name} regains 1 HP and wakes up`;
+	} else if (roll === 1) {
+		failures = Math.min(3, failures + 2);
+		verdict = "natural 1 — two failures";
+	} else if (roll >= 10) {
+		successes++;
+		verdict = `${roll} — success`;
+	} else {
+		failures++;
+		verdict = `${roll} — failure`;
+	}
+
+	const revived = roll === 20;
+	const dead = !revived && failures === 3;
+	const stable = !revived && !dead && successes === 3;
+	let deathSaves: DeathSaves | null = { successes, failures, stable: false };
+	let outcome = ` (${plural(successes, "success", "successes")}, ${plural(failures, "failure")})`;
+	if (revived) {
+		deathSaves = null;
+		outcome = "";
+	} else if (dead) {
+		outcome += ` — ${name} dies`;
+	} else if (stable) {
+		deathSaves = { successes: 0, failures: 0, stable: true };
+		outcome += ` — ${name} is stable`;
+	}
+	return {
+		name,
+		roll,
+		previous,
+		deathSaves,
+		revived,
+		stable,
+		dead,
+		narrative: `💀 ${name}'s death saving throw: ${verdict}${outcome}`,
+	};
+}
+
+/**
+ * Roll a dying player character's death saving throw and record it. Only a player character
+ * at 0 HP that is neither dead nor stable rolls; anyone else is refused before a die is drawn.
+ */
+export function rollDeathSave(
+	state: CombatState,
+	name: string,
+	rng: () => RandomSource,
+	now = new Date(),
+) {
+	const index = findCombatant(state, name);
+	const creature = state.combatants[index];
+	if (!creature.isAlive) {
+		throw new Error(`${creature.name} is dead`);
+	}
+	if (creature.type !== "player") {
+		throw new Error(`Only player characters make death saving throws, not ${creature.name}`);
+	}
+	if (!creature.deathSaves) {
+		throw new Error(`${creature.name} isn't dying (${creature.hitPoints} HP)`);
+	}
+	if (creature.deathSaves.stable) {
+		throw new Error(`${creature.name} is stable and doesn't roll death saves`);
+	}
+
+	const result = rollDeathSaveDie(creature.name, creature.deathSaves, rng());
+	const updated: Creature = result.revived
+		? {
+				...creature,
+				hitPoints: 1,
+				conditions: wakeUp(creature.conditions),
+				deathSaves: undefined,
+			}
+		: { ...creature, deathSaves: result.deathSaves ?? undefined, isAlive: !result.dead };
+	const combatants = [...state.combatants];
+	combatants[index] = updated;
+	const message = result.narrative.replace(/^💀 /, "");
+	return {
+		state: { ...state, combatants, log: [...state.log, logEntry(state.round, message, now)] },
+		result,
+		creature: updated,
+	};
+}
+
+/**
+ * Put a condition on a combatant, replacing one of the same name. A creature immune to the
+ * condition is left unchanged, with `applied` false.
+ */
+export function applyCondition(
+	state: CombatState,
+	name: string,
+	condition: Condition,
+	now = new Date(),
+) {
+	const index = findCombatant(state, name);
+	const creature = state.combatants[index];
+	if (creature.conditionImmunities.includes(condition.name)) {
+		return {
+			state,
+			creature,
+			applied: false,
+			message: `${creature.name} is immune to being ${condition.name}`,
+		};
+	}
+
+	let added = condition;
+	if (condition.duration.type === "end-of-next-turn") {
+		// Store the turn's owner under its combatant name so the turn loop can match it
+		const owner = condition.duration.creature;
+		added = {
+			...condition,
+			duration: {
+				type: "end-of-next-turn",
+				creature: owner ? state.combatants[findCombatant(state, owner)].name : undefined,
+				started: false,
+			},
+		};
+	}
+
+	const updated: Creature = {
+		...creature,
+		conditions: [...creature.conditions.filter((c) => c.name !== condition.name), added],
+	};
+	const combatants = [...state.combatants];
+	combatants[index] = updated;
+	const message = `${creature.name} is ${describeCondition(added)}`;
+	return {
+		state: { ...state, combatants, log: [...state.log, logEntry(state.round, message, now)] },
+		creature: updated,
+		applied: true,
+		message,
+	};
+}
+
+/** End a condition early — a successful save, standing up, escaping a grapple. */
+export function removeCondition(
+	state: CombatState,
+	name: string,
+	condition: ConditionName,
+	now = new Date(),
+) {
+	const index = findCombatant(state, name);
+	const creature = state.combatants[index];
+	if (!creature.conditions.some((c) => c.name === condition)) {
+		return { state, creature, applied: false, message: `${creature.name} isn't ${condition}` };
+	}
+
+	const updated: Creature = {
+		...creature,
+		conditions: creature.conditions.filter((c) => c.name !== condition),
+	};
+	const combatants = [...state.combatants];
+	combatants[index] = updated;
+	const message = `${creature.name} is no longer ${condition}`;
+	return {
+		state: { ...state, combatants, log: [...state.log, logEntry(state.round, message, now)] },
+		creature: updated,
+		applied: true,
+		message,
+	};
+}
+
+/** The compact view of the fight the combat tools return to the agent. */
+export function summarizeCombat(state: CombatState) {
+	const { status, winner } = combatOutcome(state);
+	return {
+		status,
+		winner,
+		round: state.round,
+		turnIndex: state.turnIndex,
+		currentTurn: status === "active" ? state.combatants[state.turnIndex].name : null,
+		combatants: state.combatants.map((c) => ({
+			name: c.name,
+			side: c.side ?? null,
+			initiative: c.initiative ?? null,
+			hitPoints: c.hitPoints,
+			maxHitPoints: c.maxHitPoints,
+			temporaryHitPoints: c.temporaryHitPoints ?? 0,
+			armorClass: c.armorClass,
+			conditions: c.conditions.map(describeCondition),
+			concentration: c.concentration?.spell ?? null,
+			spellSlots: c.spellcasting ? describeSlots(c.spellcasting.slots) : null,
+			deathSaves: c.deathSaves ?? null,
+			position: c.position ?? null,
+			legendaryActions: c.legendaryActions?.remaining ?? null,
+			legendaryResistance: c.legendaryResistance?.remaining ?? null,
+			lairActionAvailable: c.lairActions?.available ?? null,
+			recharging: c.recharges?.filter((a) => !a.available).map((a) => a.name) ?? [],
+			reactionUsed: c.reactionUsed ?? false,
+			shielded: c.shielded ?? false,
+			isAlive: c.isAlive,
+		})),
+		battlefield: state.battlefield ?? null,
+	};
+}
+
+export type CombatSummary = ReturnType<typeof summarizeCombat>;
+
+/** Read an arena row's combat columns back into a state. */
+export function combatStateFromRow(row: {
+	round: number;
+	turnIndex: number;
+	combatants: string;
+	log: string;
+	battlefield?: string | null;
+}): CombatState {
+	return {
+		round: row.round,
+		turnIndex: row.turnIndex,
+		combatants: JSON.parse(row.combatants) as Creature[],
+		log: JSON.parse(row.log) as CombatLogEntry[],
+		...(row.battlefield && { battlefield: JSON.parse(row.battlefield) as Battlefield }),
+	};
+}
+
+export async function saveCombatState(arenaId: string, state: CombatState) {
+	await db
+		.update(schema.arenas)
+		.set({
+			round: state.round,
+			turnIndex: state.turnIndex,
+			combatants: JSON.stringify(state.combatants),
+			log: JSON.stringify(state.log),
+			battlefield: state.battlefield ? JSON.stringify(state.battlefield) : null,
+			updatedAt: new Date(),
+		})
+		.where(eq(schema.arenas.id, arenaId));
+}
+
+/**
+ * Holds one run's combat state. Changes are applied one at a time — tool calls in the same
+ * step can run in parallel — and each is persisted before the next starts.
+ */
+export function createCombatTracker(
+	persist?: (state: CombatState) => Promise<void>,
+	initial: CombatState = emptyCombatState(),
+) {
+	let state = initial;
+	let pending: Promise<unknown> = Promise.resolve();
+
+	return {
+		get state() {
+			return state;
+		},
+
+		update(change: (current: CombatState) => CombatState): Promise<CombatState> {
+			const applied = pending.then(async () => {
+				const next = change(state);
+				if (next !== state) {
+					await persist?.(next);
+					state = next;
+				}
+				return state;
+			});
+			pending = applied.catch(() => undefined);
+			return applied;
+		},
+	};
+}
+
+export type CombatTracker = ReturnType<typeof createCombatTracker>;
@@ -0,0 +1,232 @@
+import type { AbilityName, Condition, ConditionName, Creature } from "../schemas/index.js";
+
+/** Conditions that leave a creature incapacitated — it can't take actions, so it can't attack */
+const INCAPACITATING: ConditionName[] = [
+	"incapacitated",
+	"paralyzed",
+	"petrified",
+	"stunned",
+	"unconscious",
+];
+
+/** Conditions on the attacker that give its attack rolls disadvantage */
+const ATTACKER_DISADVANTAGE: ConditionName[] = [
+	"blinded",
+	"frightened",
+	"poisoned",
+	"prone",
+	"restrained",
+];
+
+/** Conditions on the target that give attack rolls against it advantage (prone depends on range) */
+const TARGET_ADVANTAGE: ConditionName[] = [
+	"blinded",
+	"paralyzed",
+	"petrified",
+	"restrained",
+	"stunned",
+	"unconscious",
+];
+
+/** Hits from within 5 feet against these targets are critical hits */
+const AUTO_CRITICAL: ConditionName[] = ["paralyzed", "unconscious"];
+
+function find(creature: Creature | undefined, name: ConditionName) {
+	return creature?.conditions.find((condition) => condition.name === name);
+}
+
+/** The condition that stops a creature taking actions, if any. */
+export function incapacitatedBy(creature: Creature) {
+	return INCAPACITATING.find((name) => find(creature, name));
+}
+
+/** "frightened (Ghoul, DC 13 wisdom save ends)", "poisoned (2 rounds)", "exhaustion 3" */
+export function describeCondition(condition: Condition): string {
+	const name = condition.level ? `${condition.name} ${condition.level}` : condition.name;
+	const { duration } = condition;
+	const details = [
+		condition.source,
+		duration.type === "rounds"
+			? `${duration.rounds} round${duration.rounds === 1 ? "" : "s"}`
+			: duration.type === "until-save"
+				? `DC ${duration.dc} ${duration.ability} save ends`
+				: duration.type === "end-of-next-turn"
+					? `until the end of ${duration.creature ? `${duration.creature}'s` : "its"} next turn`
+					: undefined,
+	].filter(Boolean);
+	return details.length > 0 ? `${name} (${details.join(", ")})` : name;
+}
+
+export interface AttackConditionEffects {
+	/** Why the roll has advantage, e.g. "Goblin 1 is prone (within 5 ft)" */
+	advantage: string[];
+	disadvantage: string[];
+	/** Why a hit is automatically critical, if it is */
+	autoCritical: string | null;
+}
+
+export const NO_ATTACK_EFFECTS: AttackConditionEffects = {
+	advantage: [],
+	disadvantage: [],
+	autoCritical: null,
+};
+
+/** Why a condition stops the attacker attacking the target at all, or null if none does. */
+export function attackForbidden(attacker: Creature, target: Creature | undefined) {
+	const incapacitated = incapacitatedBy(attacker);
+	if (incapacitated) return `${attacker.name} is ${incapacitated} and can't attack`;
+	const charmed = find(attacker, "charmed");
+	if (charmed && target && charmed.source === target.name) {
+		return `${attacker.name} is charmed by ${target.name} and can't attack it`;
+	}
+	return null;
+}
+
+/**
+ * How the attacker's and target's conditions change an attack roll, per the SRD's
+ * conditions appendix. Throws when the attacker can't make the attack at all.
+ */
+export function attackConditionEffects(
+	attacker: Creature | undefined,
+	target: Creature | undefined,
+	distance: number,
+): AttackConditionEffects {
+	const effects: AttackConditionEffects = { advantage: [], disadvantage: [], autoCritical: null };
+	const withinFiveFeet = distance <= 5;
+
+	if (attacker) {
+		const forbidden = attackForbidden(attacker, target);
+		if (forbidden) throw new Error(forbidden);
+		for (const name of ATTACKER_DISADVANTAGE) {
+			if (find(attacker, name)) effects.disadvantage.push(`${attacker.name} is ${name}`);
+		}
+		const exhaustion = find(attacker, "exhaustion");
+		if (exhaustion && (exhaustion.level ?? 1) >= 3) {
+			effects.disadvantage.push(`${attacker.name} has exhaustion ${exhaustion.level}`);
+		}
+		if (find(attacker, "invisible")) effects.advantage.push(`${attacker.name} is invisible`);
+	}
+
+	if (target) {
+		for (const name of TARGET_ADVANTAGE) {
+			if (find(target, name)) effects.advantage.push(`${target.name} is ${name}`);
+		}
+		if (find(target, "prone")) {
+			if (withinFiveFeet) effects.advantage.push(`${target.name} is prone (within 5 ft)`);
+			else effects.disadvantage.push(`${target.name} is prone (beyond 5 ft)`);
+		}
+		if (find(target, "invisible")) effects.disadvantage.push(`${target.name} is invisible`);
+
+		const critical = AUTO_CRITICAL.find((name) => find(target, name));
+		if (critical && withinFiveFeet) {
+			effects.autoCritical = `${target.name} is ${critical} (within 5 ft)`;
+		}
+	}
+
+	return effects;
+}
+
+/** Conditions under which a creature automatically fails Strength and Dexterity saves */
+const SAVE_AUTO_FAIL: ConditionName[] = ["paralyzed", "petrified", "stunned", "unconscious"];
+
+export interface D20TestEffects {
+	advantage: string[];
+	disadvantage: string[];
+	/** Why the creature fails without rolling, if it does */
+	autoFail: string | null;
+}
+
+/** How a creature's conditions change one of its saving throws. */
+export function saveConditionEffects(creature: Creature, ability: AbilityName): D20TestEffects {
+	const effects: D20TestEffects = { advantage: [], disadvantage: [], autoFail: null };
+	if (ability === "strength" || ability === "dexterity") {
+		const helpless = SAVE_AUTO_FAIL.find((name) => find(creature, name));
+		if (helpless) effects.autoFail = `${creature.name} is ${helpless}`;
+	}
+	if (ability === "dexterity" && find(creature, "restrained")) {
+		effects.disadvantage.push(`${creature.name} is restrained`);
+	}
+	const exhaustion = find(creature, "exhaustion");
+	if (exhaustion && (exhaustion.level ?? 1) >= 3) {
+		effects.disadvantage.push(`${creature.name} has exhaustion ${exhaustion.level}`);
+	}
+	return effects;
+}
+
+/** How a creature's conditions change its ability checks. */
+export function checkConditionEffects(creature: Creature): D20TestEffects {
+	const effects: D20TestEffects = { advantage: [], disadvantage: [], autoFail: null };
+	for (const name of ["frightened", "poisoned"] as const) {
+		if (find(creature, name)) effects.disadvantage.push(`${creature.name} is ${name}`);
+	}
+	const exhaustion = find(creature, "exhaustion");
+	if (exhaustion)
+		effects.disadvantage.push(`${creature.name} has exhaustion ${exhaustion.level ?? 1}`);
+	return effects;
+}
+
+// ── Durations ──
+
+/**
+ * Tick a creature's conditions as `endingTurn`'s turn ends: round counts on its own
+ * conditions go down, and end-of-next-turn conditions tied to that turn run out.
+ */
+export function endTurnConditions(creature: Creature, endingTurn: string) {
+	const expired: Condition[] = [];
+	const conditions: Condition[] = [];
+
+	for (const condition of creature.conditions) {
+		const { duration } = condition;
+		if (duration.type === "rounds" && creature.name === endingTurn) {
+			if (duration.rounds <= 1) expired.push(condition);
+			else
+				conditions.push({ ...condition, duration: { ...duration, rounds: duration.rounds - 1 } });
+		} else if (
+			duration.type === "end-of-next-turn" &&
+			(duration.creature ?? creature.name) === endingTurn &&
+			duration.started
+		) {
+			expired.push(condition);
+		} else {
+			conditions.push(condition);
+		}
+	}
+	return { conditions, expired };
+}
+
+/** Mark end-of-next-turn conditions tied to `startingTurn` as running from now. */
+export function startTurnConditions(creature: Creature, startingTurn: string): Condition[] {
+	return creature.conditions.map((condition) => {
+		const { duration } = condition;
+		return duration.type === "end-of-next-turn" &&
+			(duration.creature ?? creature.name) === startingTurn &&
+			!duration.started
+			? { ...condition, duration: { ...duration, started: true } }
+			: condition;
+	});
+}
+
+export interface SaveDue {
+	name: string;
+	condition: ConditionName;
+	ability: AbilityName;
+	dc: number;
+	source?: string;
+}
+
+/** The saves a creature repeats at the end of its turn to shake off its conditions. */
+export function savesDue(creature: Creature): SaveDue[] {
+	return creature.conditions.flatMap((condition) =>
+		condition.duration.type === "until-save"
+			? [
+					{
+						name: creature.name,
+						condition: condition.name,
+						ability: condition.duration.ability,
+						dc: condition.duration.dc,
+						source: condition.source,
+					},
+				]
+			: [],
+	);
+}
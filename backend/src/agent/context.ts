@@ -0,0 +1,83 @@
+import { RequestContext } from "@mastra/core/request-context";
+import type { Creature } from "../schemas/index.js";
+import { addCombatant, type CombatTracker } from "./combat.js";
+import { createVerifiableRandom, defaultRandomSource, type RandomSource } from "./rng.js";
+
+/**
+ * Per-run values the arena route hands to every tool through Mastra's request context.
+ */
+export interface ArenaContextValues {
+	rng: RandomSource;
+	/** Verifiable mode: the committed seed that every roll tool call derives its dice from */
+	verifiableSeed?: string;
+	/** User whose saved creature library load-creature reads from (the arena's creator) */
+	libraryOwnerId?: string;
+	/** The arena's combat state; stat-block tools add to its roster, combat tools advance it */
+	combat?: CombatTracker;
+}
+
+export interface RollScope {
+	rng: RandomSource;
+	/** Set in verifiable mode — identifies the draws so `/verify` can replay this call alone */
+	rollSequence?: number;
+}
+
+export function createArenaContext(values: ArenaContextValues): RequestContext {
+	const requestContext = new RequestContext();
+	for (const [key, value] of Object.entries(values)) {
+		requestContext.set(key, value);
+	}
+	requestContext.set("rollSequence", { next: 0 });
+	return requestContext;
+}
+
+/**
+ * Resolve the random source for a tool call. Falls back to `Math.random`
+ * when a tool is executed outside an arena run (e.g. the Mastra playground).
+ */
+export function getRandomSource(context?: {
+	requestContext?: RequestContext<unknown>;
+}): RandomSource {
+	const rng = context?.requestContext?.get("rng");
+	return typeof rng === "function" ? (rng as RandomSource) : defaultRandomSource;
+}
+
+/** The user whose creature library this run may read, if any. */
+export function getLibraryOwner(context?: {
+	requestContext?: RequestContext<unknown>;
+}): string | undefined {
+	const ownerId = context?.requestContext?.get("libraryOwnerId");
+	return typeof ownerId === "string" ? ownerId : undefined;
+}
+
+/** The run's combat tracker, absent outside an arena run. */
+export function getCombatTracker(context?: {
+	requestContext?: RequestContext<unknown>;
+}): CombatTracker | undefined {
+	return context?.requestContext?.get("combat") as CombatTracker | undefined;
+}
+
+/**
+ * Add a newly created stat block to the arena's roster so start-combat can put it in the
+ * initiative order. Does nothing outside an arena run.
+ */
+export async function registerCombatant(
+	context: { requestContext?: RequestContext<unknown> } | undefined,
+	creature: Creature,
+) {
+	await getCombatTracker(context)?.update((state) => addCombatant(state, creature));
+}
+
+/**
+ * Start the rolls for one tool call. In verifiable mode each call claims the next
+ * roll sequence number and rolls from HMAC(seed, sequence); otherwise it shares the run's `rng`.
+ */
+export function beginRolls(context?: { requestContext?: RequestContext<unknown> }): RollScope {
+	const seed = context?.requestContext?.get("verifiableSeed");
+	const counter = context?.requestContext?.get("rollSequence") as { next: number } | undefined;
+	if (typeof seed === "string" && counter) {
+		const rollSequence = counter.next++;
+		return { rng: createVerifiableRandom(seed, rollSequence), rollSequence };
+	}
+	return { rng: getRandomSource(context) };
+}
@@ -0,0 +1,144 @@
+import type { Creature } from "../schemas/index.js";
+
+export const DAMAGE_TYPES = [
+	"acid",
+	"bludgeoning",
+	"cold",
+	"fire",
+	"force",
+	"lightning",
+	"necrotic",
+	"piercing",
+	"poison",
+	"psychic",
+	"radiant",
+	"slashing",
+	"thunder",
+] as const;
+
+/**
+ * A creature's resistances, immunities and vulnerabilities as its stat block words them:
+ * a type ("fire") or a clause ("bludgeoning, piercing, and slashing from nonmagical attacks").
+ */
+export interface DamageDefenses {
+	resistances: string[];
+	immunities: string[];
+	vulnerabilities: string[];
+}
+
+export const NO_DAMAGE_DEFENSES: DamageDefenses = {
+	resistances: [],
+	immunities: [],
+	vulnerabilities: [],
+};
+
+/** What the damage comes from, for defenses that only stop nonmagical attacks */
+export interface DamageSource {
+	attack: boolean;
+	magical?: boolean;
+	silvered?: boolean;
+	adamantine?: boolean;
+}
+
+export function damageDefenses(creature: Creature): DamageDefenses {
+	return {
+		resistances: creature.damageResistances,
+		immunities: creature.damageImmunities,
+		vulnerabilities: creature.damageVulnerabilities,
+	};
+}
+
+/** Whether one stat block entry covers damage of this type from this source. */
+function covers(entry: string, damageType: string, source: DamageSource) {
+	const text = entry.toLowerCase();
+	const clause = text.indexOf(" from ");
+	const types = clause === -1 ? text : text.slice(0, clause);
+	if (!types.split(/,\s*(?:and\s+)?|\s+and\s+/).some((type) => type.trim() === damageType)) {
+		return false;
+	}
+	if (clause === -1) return true;
+	// "…from nonmagical attacks[ that aren't silvered / adamantine]"
+	if (!source.attack || source.magical) return false;
+	if (text.includes("silvered") && source.silvered) return false;
+	if (text.includes("adamantine") && source.adamantine) return false;
+	return true;
+}
+
+export interface DamageByType {
+	damageType: string;
+	/** Damage rolled before defenses */
+	rolled: number;
+	/** Damage the creature actually takes */
+	taken: number;
+}
+
+/**
+ * Apply a creature's defenses to damage rolled by type: immunity zeroes a type, resistance
+ * halves it (rounded down) and vulnerability doubles it, resistance first. Each type is
+ * totalled before its defense applies. Notes read "Skeleton is vulnerable to bludgeoning: 7 → 14".
+ */
+export function adjustDamage(
+	name: string,
+	parts: Array<{ damageType: string; total: number }>,
+	defenses: DamageDefenses,
+	source: DamageSource,
+) {
+	const rolledByType = new Map<string, number>();
+	for (const part of parts) {
+		const damageType = part.damageType.trim().toLowerCase();
+		rolledByType.set(damageType, (rolledByType.get(damageType) ?? 0) + part.total);
+	}
+
+	const byType: DamageByType[] = [];
+	const notes: string[] = [];
+	for (const [damageType, rolled] of rolledByType) {
+		const has = (entries: string[]) => entries.some((entry) => covers(entry, damageType, source));
+		let taken = rolled;
+		let defense: string | null = null;
+		if (has(defenses.immunities)) {
+			taken = 0;
+			defense = "immune to";
+		} else {
+			const resistant = has(defenses.resistances);
+			const vulnerable = has(defenses.vulnerabilities);
+			if (resistant) taken = Math.floor(taken / 2);
+			if (vulnerable) taken *= 2;
+			if (resistant && vulnerable) defense = "resistant and vulnerable to";
+			else if (resistant) defense = "resistant to";
+			else if (vulnerable) defense = "vulnerable to";
+		}
+		byType.push({ damageType, rolled, taken });
+		if (defense && rolled > 0) {
+			notes.push(`${name} is ${defense} ${damageType}: ${rolled} → ${taken}`);
+		}
+	}
+
+	return { total: byType.reduce((sum, type) => sum + type.taken, 0), byType, notes };
+}
+
+/**
+ * Split damage dice written with types, e.g. "1d8+3 slashing + 2d6 fire", into one dice
+ * expression per type. Each type word claims the terms before it; trailing untyped terms (or
+ * all of them, when no type is written) take `defaultType`.
+ */
+export function splitTypedDamage(notation: string, defaultType: string) {
+	const parts: Array<{ dice: string; damageType: string }> = [];
+	let pending: string[] = [];
+	for (const term of notation.split(/\s*\+\s*/)) {
+		const typed = /^(.*?)\s+([a-z]+)$/i.exec(term.trim());
+		if (!typed) {
+			pending.push(term.trim());
+			continue;
+		}
+		const damageType = typed[2].toLowerCase();
+		if (!(DAMAGE_TYPES as readonly string[]).includes(damageType)) {
+			throw new Error(
+				`Unknown damage type "${typed[2]}" in "${notation}" (types: ${DAMAGE_TYPES.join(", ")})`,
+			);
+		}
+		parts.push({ dice: [...pending, typed[1]].join("+"), damageType });
+		pending = [];
+	}
+	if (pending.length > 0) parts.push({ dice: pending.join("+"), damageType: defaultType });
+	return parts;
+}
@@ -0,0 +1,469 @@
+import { defaultRandomSource, type RandomSource, rollDie } from "./rng.js";
+
+/**
+ * Dice expression engine shared by every tool that rolls dice.
+ *
+ * Grammar (case-insensitive, whitespace ignored):
+ *   expression := ["+" | "-"] term (("+" | "-") term)*
+ *   term       := dice | constant | group
+ *   dice       := [count] "d" (sides | "%") modifier*
+ *   group      := "{" expression ("," expression)* "}" [keepDrop]
+ *   modifier   := keepDrop | "!" | "r" n | "min" n | "max" n
+ *   keepDrop   := ("kh" | "kl" | "dh" | "dl" | "k") n
+ *
+ * Examples: "1d8+2d6+3", "1d4+1d4-1", "2d6r2", "3d6!", "1d20min10", "{1d20+5, 1d20+8}kh1"
+ */
+
+const MAX_DICE_PER_TERM = 100;
+const MAX_SIDES = 1000;
+export const MAX_EXPLOSIONS_PER_DIE = 20;
+
+export interface DiceTermNode {
+	kind: "dice";
+	sign: 1 | -1;
+	notation: string;
+	count: number;
+	sides: number;
+	keepDrop: KeepDrop | null;
+	/** Roll an extra die whenever a die shows its maximum face */
+	explode: boolean;
+	/** Reroll (once) any die showing this value or lower */
+	rerollBelow: number | null;
+	/** Treat any die below this value as this value */
+	min: number | null;
+	/** Treat any die above this value as this value */
+	max: number | null;
+}
+
+export interface ConstantTermNode {
+	kind: "constant";
+	sign: 1 | -1;
+	notation: string;
+	value: number;
+}
+
+export interface GroupTermNode {
+	kind: "group";
+	sign: 1 | -1;
+	notation: string;
+	/** Each sub-expression is totalled; keep/drop applies across those totals */
+	expressions: DiceExpression[];
+	keepDrop: KeepDrop | null;
+}
+
+export type DiceTermNodeUnion = DiceTermNode | ConstantTermNode | GroupTermNode;
+
+export interface DiceExpression {
+	notation: string;
+	terms: DiceTermNodeUnion[];
+}
+
+export interface DiceTermResult {
+	kind: DiceTermNodeUnion["kind"];
+	notation: string;
+	sign: 1 | -1;
+	/** Every die (or group subtotal) that was rolled, explosions included */
+	rolls: number[];
+	/** The rolls that counted toward the subtotal after keep/drop */
+	kept: number[];
+	/** Original faces that were discarded by a reroll */
+	rerolled: number[];
+	/** Sum of the kept rolls, before the sign is applied */
+	subtotal: number;
+	/** Signed contribution of this term to the expression total */
+	total: number;
+	/** Per-expression results for a group term */
+	groups?: DiceExpressionResult[];
+}
+
+export interface DiceExpressionResult {
+	notation: string;
+	terms: DiceTermResult[];
+	total: number;
+}
+
+export interface EvaluateOptions {
+	/** Double the number of dice in every dice term (critical hit damage) */
+	critical?: boolean;
+	/** Random source to roll with; defaults to `Math.random` */
+	rng?: RandomSource;
+}
+
+// ── Single-term notation ──
+
+export interface KeepDrop {
+	type: "kh" | "kl" | "dh" | "dl";
+	n: number;
+}
+
+export interface ParsedDice {
+	count: number;
+	sides: number;
+	keepDrop: KeepDrop | null;
+	modifier: number;
+}
+
+/**
+ * Parse dice notation including keep/drop modifiers.
+ * Supports: "2d6+3", "2d20kh1+5", "4d6dl1", "2d20kl1-2"
+ */
+export function parseDiceNotation(notation: string): ParsedDice {
+	const match = notation.match(/^(\d+)d(\d+)(?:(kh|kl|dh|dl)(\d+))?([+-]\d+)?$/i);
+	if (!match) throw new Error(`Invalid dice notation: ${notation}`);
+	return {
+		count: Number.parseInt(match[1], 10),
+		sides: Number.parseInt(match[2], 10),
+		keepDrop: match[3]
+			? { type: match[3].toLowerCase() as KeepDrop["type"], n: Number.parseInt(match[4], 10) }
+			: null,
+		modifier: match[5] ? Number.parseInt(match[5], 10) : 0,
+	};
+}
+
+/**
+ * Apply keep/drop logic to a set of rolls.
+ * - kh(n): keep highest n
+ * - kl(n): keep lowest n
+ * - dh(n): drop highest n
+ * - dl(n): drop lowest n
+ */
+export function applyKeepDrop(rolls: number[], keepDrop: KeepDrop | null): number[] {
+	if (!keepDrop) return [...rolls];
+
+	const sorted = [...rolls].sort((a, b) => a - b);
+	const { type, n } = keepDrop;
+
+	switch (type) {
+		case "kh":
+			return sorted.slice(-n);
+		case "kl":
+			return sorted.slice(0, n);
+		case "dh":
+			return sorted.slice(0, Math.max(0, sorted.length - n));
+		case "dl":
+			return sorted.slice(n);
+	}
+}
+
+// ── Expression parsing ──
+
+/**
+ * Parse a full dice expression into its terms.
+ * Throws `Invalid dice notation: ...` with the reason on malformed input.
+ */
+export function parseDiceExpression(notation: string): DiceExpression {
+	const src = notation.replace(/\s+/g, "").toLowerCase();
+	let pos = 0;
+
+	const fail = (reason: string): never => {
+		throw new Error(`Invalid dice notation: ${notation} (${reason})`);
+	};
+	const peek = (offset = 0) => src[pos + offset] ?? "";
+	const startsWith = (token: string) => src.startsWith(token, pos);
+
+	const readInt = (what: string): number => {
+		const match = /^\d+/.exec(src.slice(pos));
+		if (!match) return fail(`expected ${what}`);
+		pos += match[0].length;
+		return Number.parseInt(match[0], 10);
+	};
+
+	const parseKeepDrop = (): KeepDrop => {
+		let type: KeepDrop["type"];
+		if (startsWith("kh") || startsWith("kl") || startsWith("dh") || startsWith("dl")) {
+			type = src.slice(pos, pos + 2) as KeepDrop["type"];
+			pos += 2;
+		} else if (peek() === "k") {
+			type = "kh";
+			pos++;
+		} else {
+			return fail("expected kh, kl, dh or dl");
+		}
+		const n = readInt("keep/drop count");
+		if (n < 1) fail("keep/drop count must be at least 1");
+		return { type, n };
+	};
+
+	const parseDice = (sign: 1 | -1, start: number, count: number): DiceTermNode => {
+		let sides: number;
+		if (peek() === "%") {
+			pos++;
+			sides = 100;
+		} else {
+			sides = readInt("number of sides");
+		}
+
+		if (count < 1 || count > MAX_DICE_PER_TERM) {
+			fail(`dice count must be between 1 and ${MAX_DICE_PER_TERM}`);
+		}
+		if (sides < 1 || sides > MAX_SIDES) fail(`sides must be between 1 and ${MAX_SIDES}`);
+
+		const node: DiceTermNode = {
+			kind: "dice",
+			sign,
+			notation: "",
+			count,
+			sides,
+			keepDrop: null,
+			explode: false,
+			rerollBelow: null,
+			min: null,
+			max: null,
+		};
+
+		while (pos < src.length) {
+			if (startsWith("min") || startsWith("max")) {
+				const key = src.slice(pos, pos + 3) as "min" | "max";
+				if (node[key] !== null) fail(`duplicate ${key}`);
+				pos += 3;
+				const value = readInt(key);
+				if (value < 1 || value > sides) fail(`${key} must be between 1 and ${sides}`);
+				node[key] = value;
+			} else if (peek() === "!") {
+				if (node.explode) fail("duplicate '!'");
+				if (sides < 2) fail("cannot explode a one-sided die");
+				pos++;
+				node.explode = true;
+			} else if (peek() === "r") {
+				if (node.rerollBelow !== null) fail("duplicate reroll");
+				pos++;
+				const value = readInt("reroll threshold");
+				if (value < 1 || value >= sides) fail(`reroll threshold must be below ${sides}`);
+				node.rerollBelow = value;
+			} else if (peek() === "k" || (peek() === "d" && /[hl]/.test(peek(1)))) {
+				if (node.keepDrop) fail("duplicate keep/drop");
+				node.keepDrop = parseKeepDrop();
+			} else {
+				break;
+			}
+		}
+
+		if (node.min !== null && node.max !== null && node.min > node.max) {
+			fail("min cannot exceed max");
+		}
+		if (node.keepDrop && node.keepDrop.n > count) {
+			fail(`cannot keep or drop ${node.keepDrop.n} of ${count} dice`);
+		}
+
+		node.notation = src.slice(start, pos);
+		return node;
+	};
+
+	const parseGroup = (sign: 1 | -1): GroupTermNode => {
+		const start = pos;
+		pos++; // "{"
+		const expressions: DiceExpression[] = [parseExpression()];
+		while (peek() === ",") {
+			pos++;
+			expressions.push(parseExpression());
+		}
+		if (peek() !== "}") fail("expected '}'");
+		pos++;
+
+		let keepDrop: KeepDrop | null = null;
+		if (peek() === "k" || peek() === "d") {
+			keepDrop = parseKeepDrop();
+			if (keepDrop.n > expressions.length) {
+				fail(`cannot keep or drop ${keepDrop.n} of ${expressions.length} groups`);
+			}
+		}
+
+		return { kind: "group", sign, notation: src.slice(start, pos), expressions, keepDrop };
+	};
+
+	const parseTerm = (sign: 1 | -1): DiceTermNodeUnion => {
+		const start = pos;
+		const ch = peek();
+
+		if (ch === "{") return parseGroup(sign);
+
+		if (ch === "d" || /\d/.test(ch)) {
+			const count = ch === "d" ? 1 : readInt("number");
+			if (peek() !== "d") {
+				return { kind: "constant", sign, notation: src.slice(start, pos), value: count };
+			}
+			pos++;
+			return parseDice(sign, start, count);
+		}
+
+		return fail(ch ? `unexpected '${ch}'` : "unexpected end of expression");
+	};
+
+	function parseExpression(): DiceExpression {
+		const start = pos;
+		const terms: DiceTermNodeUnion[] = [];
+		let sign: 1 | -1 = 1;
+
+		if (peek() === "+" || peek() === "-") {
+			sign = peek() === "-" ? -1 : 1;
+			pos++;
+		}
+
+		while (true) {
+			terms.push(parseTerm(sign));
+			const op = peek();
+			if (op !== "+" && op !== "-") break;
+			sign = op === "-" ? -1 : 1;
+			pos++;
+		}
+
+		return { notation: src.slice(start, pos), terms };
+	}
+
+	if (src.length === 0) fail("empty expression");
+	const expression = parseExpression();
+	if (pos < src.length) fail(`unexpected '${src[pos]}'`);
+	return expression;
+}
+
+// ── Evaluation ──
+
+function rollDiceTerm(node: DiceTermNode, options: EvaluateOptions): DiceTermResult {
+	const rng = options.rng ?? defaultRandomSource;
+	const count = options.critical ? node.count * 2 : node.count;
+	const rolls: number[] = [];
+	const rerolled: number[] = [];
+
+	const rollOne = (): number => {
+		let value = rollDie(rng, node.sides);
+		if (node.rerollBelow !== null && value <= node.rerollBelow) {
+			rerolled.push(value);
+			value = rollDie(rng, node.sides);
+		}
+		if (node.min !== null) value = Math.max(value, node.min);
+		if (node.max !== null) value = Math.min(value, node.max);
+		return value;
+	};
+
+	for (let i = 0; i < count; i++) {
+		let value = rollOne();
+		rolls.push(value);
+		for (let n = 0; node.explode && value === node.sides && n < MAX_EXPLOSIONS_PER_DIE; n++) {
+			value = rollOne();
+			rolls.push(value);
+		}
+	}
+
+	const kept = applyKeepDrop(rolls, node.keepDrop);
+	const subtotal = kept.reduce((a, b) => a + b, 0);
+	return {
+		kind: "dice",
+		notation: node.notation,
+		sign: node.sign,
+		rolls,
+		kept,
+		rerolled,
+		subtotal,
+		total: node.sign * subtotal,
+	};
+}
+
+function evaluateTerm(node: DiceTermNodeUnion, options: EvaluateOptions): DiceTermResult {
+	switch (node.kind) {
+		case "constant":
+			return {
+				kind: "constant",
+				notation: node.notation,
+				sign: node.sign,
+				rolls: [],
+				kept: [],
+				rerolled: [],
+				subtotal: node.value,
+				total: node.sign * node.value,
+			};
+		case "dice":
+			return rollDiceTerm(node, options);
+		case "group": {
+			const groups = node.expressions.map((e) => evaluateExpression(e, options));
+			const rolls = groups.map((g) => g.total);
+			const kept = applyKeepDrop(rolls, node.keepDrop);
+			const subtotal = kept.reduce((a, b) => a + b, 0);
+			return {
+				kind: "group",
+				notation: node.notation,
+				sign: node.sign,
+				rolls,
+				kept,
+				rerolled: [],
+				subtotal,
+				total: node.sign * subtotal,
+				groups,
+			};
+		}
+	}
+}
+
+function evaluateExpression(
+	expression: DiceExpression,
+	options: EvaluateOptions,
+): DiceExpressionResult {
+	const terms = expression.terms.map((t) => evaluateTerm(t, options));
+	return {
+		notation: expression.notation,
+		terms,
+		total: terms.reduce((sum, t) => sum + t.total, 0),
+	};
+}
+
+/**
+ * Roll a dice expression (string or pre-parsed) and return the total with a per-term breakdown.
+ */
+export function evaluateDiceExpression(
+	expression: string | DiceExpression,
+	options: EvaluateOptions = {},
+): DiceExpressionResult {
+	const parsed = typeof expression === "string" ? parseDiceExpression(expression) : expression;
+	return evaluateExpression(parsed, options);
+}
+
+/**
+ * Flatten a result into the legacy roll-dice shape: every individual die rolled,
+ * every die kept, and the sum of constant terms as the modifier. A group dropped
+ * by keep/drop counts like a dropped die: its dice are rolled but not kept, and
+ * its constants are left out of the modifier.
+ */
+export function flattenDiceResult(result: DiceExpressionResult): {
+	rolls: number[];
+	kept: number[];
+	modifier: number;
+} {
+	const rolls: number[] = [];
+	const kept: number[] = [];
+	let modifier = 0;
+
+	for (const term of result.terms) {
+		if (term.kind === "constant") {
+			modifier += term.total;
+		} else if (term.kind === "dice") {
+			rolls.push(...term.rolls);
+			kept.push(...term.kept);
+		} else {
+			// term.kept holds the kept groups' totals; match each group against them once
+			const keptTotals = [...term.kept];
+			for (const group of term.groups ?? []) {
+				const inner = flattenDiceResult(group);
+				rolls.push(...inner.rolls);
+				const at = keptTotals.indexOf(group.total);
+				if (at === -1) continue;
+				keptTotals.splice(at, 1);
+				kept.push(...inner.kept);
+				modifier += term.sign * inner.modifier;
+			}
+		}
+	}
+
+	return { rolls, kept, modifier };
+}
+
+/**
+ * Human-readable breakdown of how a total was reached, e.g. "1d8 [5] + 2d6 [3, 4] + 3".
+ */
+export function formatDiceBreakdown(result: DiceExpressionResult): string {
+	return result.terms
+		.map((term, i) => {
+			const op = term.sign < 0 ? (i === 0 ? "-" : " - ") : i === 0 ? "" : " + ";
+			const detail = term.kind === "constant" ? "" : ` [${term.kept.join(", ")}]`;
+			return `${op}${term.notation}${detail}`;
+		})
+		.join("");
+}
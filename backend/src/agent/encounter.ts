@@ -0,0 +1,290 @@
+import { findMonster } from "../compendium/monsters.js";
+import type {
+	AssessEncounterRequest,
+	EncounterMonster,
+	EncounterPartyMember,
+} from "../schemas/index.js";
+import {
+	formatChallengeRating,
+	normalizeChallengeRating,
+	statsForChallengeRating,
+} from "./challenge-rating.js";
+
+export type EncounterDifficulty = "trivial" | "easy" | "medium" | "hard" | "deadly";
+
+export interface XpThresholds {
+	easy: number;
+	medium: number;
+	hard: number;
+	deadly: number;
+}
+
+/** Dungeon Master's Guide, chapter 3 — XP thresholds per character, indexed by level − 1. */
+export const XP_THRESHOLDS_BY_LEVEL: readonly XpThresholds[] = [
+	[25, 50, 75, 100],
+	[50, 100, 150, 200],
+	[75, 150, 225, 400],
+	[125, 250, 375, 500],
+	[250, 500, 750, 1100],
+	[300, 600, 900, 1400],
+	[350, 750, 1100, 1700],
+	[450, 900, 1400, 2100],
+	[550, 1100, 1600, 2400],
+	[600, 1200, 1900, 2800],
+	[800, 1600, 2400, 3600],
+	[1000, 2000, 3000, 4500],
+	[1100, 2200, 3400, 5100],
+	[1250, 2500, 3800, 5700],
+	[1400, 2800, 4300, 6400],
+	[1600, 3200, 4800, 7200],
+	[2000, 3900, 5900, 8800],
+	[2100, 4200, 6300, 9500],
+	[2400, 4900, 7300, 10900],
+	[2800, 5700, 8500, 12700],
+].map(([easy, medium, hard, deadly]) => ({ easy, medium, hard, deadly }));
+
+/**
+ * Encounter multipliers by monster count (1, 2, 3–6, 7–10, 11–14, 15+), with one extra
+ * step at each end for the party-size adjustment.
+ */
+const MULTIPLIERS = [0.5, 1, 1.5, 2, 2.5, 3, 4, 5];
+
+function multiplierStep(monsterCount: number) {
+	if (monsterCount <= 1) return 1;
+	if (monsterCount === 2) return 2;
+	if (monsterCount <= 6) return 3;
+	if (monsterCount <= 10) return 4;
+	if (monsterCount <= 14) return 5;
+	return 6;
+}
+
+/**
+ * The DMG multiplier for a group of monsters. Parties of fewer than three use the next
+ * higher multiplier; parties of six or more use the next lower one.
+ */
+export function encounterMultiplier(monsterCount: number, partySize: number) {
+	if (monsterCount === 0) return 1;
+	const shift = partySize < 3 ? 1 : partySize >= 6 ? -1 : 0;
+	return MULTIPLIERS[multiplierStep(monsterCount) + shift];
+}
+
+export function partyThresholds(party: EncounterPartyMember[]): XpThresholds {
+	const total: XpThresholds = { easy: 0, medium: 0, hard: 0, deadly: 0 };
+	for (const { level, count } of party) {
+		const row = XP_THRESHOLDS_BY_LEVEL[level - 1];
+		total.easy += row.easy * count;
+		total.medium += row.medium * count;
+		total.hard += row.hard * count;
+		total.deadly += row.deadly * count;
+	}
+	return total;
+}
+
+export function rateAdjustedXp(adjustedXp: number, thresholds: XpThresholds): EncounterDifficulty {
+	if (adjustedXp >= thresholds.deadly) return "deadly";
+	if (adjustedXp >= thresholds.hard) return "hard";
+	if (adjustedXp >= thresholds.medium) return "medium";
+	if (adjustedXp >= thresholds.easy) return "easy";
+	return "trivial";
+}
+
+export interface RatedMonster {
+	name: string;
+	challengeRating: number;
+	count: number;
+	/** XP for one of these monsters */
+	xp: number;
+}
+
+/**
+ * Rate an encounter the DMG way: sum monster XP, apply the group multiplier (adjusted for
+ * party size), and compare the result against the party's summed XP thresholds.
+ */
+export function assessEncounter(party: EncounterPartyMember[], monsters: RatedMonster[]) {
+	const partySize = party.reduce((sum, member) => sum + member.count, 0);
+	const monsterCount = monsters.reduce((sum, monster) => sum + monster.count, 0);
+	const baseXp = monsters.reduce((sum, monster) => sum + monster.xp * monster.count, 0);
+	const multiplier = encounterMultiplier(monsterCount, partySize);
+	const adjustedXp = Math.round(baseXp * multiplier);
+	const thresholds = partyThresholds(party);
+
+	return {
+		difficulty: rateAdjustedXp(adjustedXp, thresholds),
+		partySize,
+		thresholds,
+		monsters,
+		monsterCount,
+		baseXp,
+		multiplier,
+		adjustedXp,
+	};
+}
+
+export type EncounterAssessment = ReturnType<typeof assessEncounter>;
+
+// ── Free-text scenarios ──
+
+const NUMBER_WORDS: Record<string, number> = {
+	a: 1,
+	an: 1,
+	one: 1,
+	two: 2,
+	three: 3,
+	four: 4,
+	five: 5,
+	six: 6,
+	seven: 7,
+	eight: 8,
+	nine: 9,
+	ten: 10,
+	eleven: 11,
+	twelve: 12,
+};
+
+export interface ParsedScenario {
+	party: EncounterPartyMember[];
+	monsters: EncounterMonster[];
+	/** Pieces of the scenario that couldn't be counted (no level, or an ally on the party's side) */
+	unresolved: string[];
+}
+
+interface ScenarioEntry {
+	text: string;
+	count: number;
+	level?: number;
+	challengeRating?: number;
+	name: string;
+}
+
+function parseEntry(text: string): ScenarioEntry {
+	let rest = text.trim().toLowerCase();
+	let count = 1;
+
+	const party = /^(?:a |the )?party of (\d+|\w+)\s+/.exec(rest);
+	const leading = party ?? /^(\d+|\w+)\s+/.exec(rest);
+	if (leading) {
+		const word = leading[1];
+		const value = /^\d+$/.test(word) ? Number(word) : NUMBER_WORDS[word];
+		if (value !== undefined) {
+			count = value;
+			rest = rest.slice(leading[0].length);
+		}
+	}
+
+	const level = /\b(?:level[- ]?(\d+)|(\d+)(?:st|nd|rd|th)[- ]level)\b/.exec(rest);
+	if (level) rest = rest.replace(level[0], " ");
+	const cr = /\bcr[- ]?(\d+(?:\/\d+)?)\b/.exec(rest);
+	if (cr) rest = rest.replace(cr[0], " ");
+
+	return {
+		text: text.trim(),
+		count,
+		level: level ? Number(level[1] ?? level[2]) : undefined,
+		challengeRating: cr ? normalizeChallengeRating(cr[1]) : undefined,
+		name: rest.replace(/\s+/g, " ").trim(),
+	};
+}
+
+/**
+ * Split "3 goblins and an ogre vs a level 5 paladin" into a party and a monster list. The
+ * side whose entries carry character levels is the party; everything on the other side is
+ * a monster, named for an SRD lookup or given as "CR 3 ...".
+ */
+export function parseEncounterScenario(scenario: string): ParsedScenario {
+	const sides = scenario.split(/\s+(?:vs\.?|versus|against)\s+/i).map((side) =>
+		side
+			.split(/\s*(?:,|&|\+|\band\b)\s*/i)
+			.filter((part) => part.trim().length > 0)
+			.map(parseEntry),
+	);
+	const result: ParsedScenario = { party: [], monsters: [], unresolved: [] };
+	if (sides.length !== 2) {
+		result.unresolved.push(scenario.trim());
+		return result;
+	}
+
+	const hasLevels = sides.map((side) => side.some((entry) => entry.level !== undefined));
+	const partySide = hasLevels[0] && !hasLevels[1] ? 0 : hasLevels[1] && !hasLevels[0] ? 1 : -1;
+	if (partySide === -1) {
+		result.unresolved.push(...sides.flat().map((entry) => entry.text));
+		return result;
+	}
+
+	for (const entry of sides[partySide]) {
+		if (entry.level !== undefined && entry.level >= 1 && entry.level <= 20) {
+			result.party.push({ level: entry.level, count: entry.count });
+		} else {
+			result.unresolved.push(entry.text);
+		}
+	}
+	for (const entry of sides[1 - partySide]) {
+		result.monsters.push({
+			name: entry.name || undefined,
+			challengeRating: entry.challengeRating,
+			count: entry.count,
+		});
+	}
+	return result;
+}
+
+/** "wolves" → ["wolves", "wolf"], "goblins" → ["goblins", "goblin"] */
+function nameVariants(name: string) {
+	const variants = [name];
+	if (name.endsWith("ves")) variants.push(`${name.slice(0, -3)}f`);
+	if (name.endsWith("es")) variants.push(name.slice(0, -2));
+	if (name.endsWith("s")) variants.push(name.slice(0, -1));
+	return variants;
+}
+
+async function rateMonster(monster: EncounterMonster): Promise<RatedMonster | null> {
+	if (monster.challengeRating !== undefined) {
+		const stats = statsForChallengeRating(monster.challengeRating);
+		return {
+			name: monster.name ?? `CR ${formatChallengeRating(stats.challengeRating)} monster`,
+			challengeRating: stats.challengeRating,
+			count: monster.count,
+			xp: stats.xp,
+		};
+	}
+
+	for (const variant of nameVariants(monster.name ?? "")) {
+		const { monster: found } = await findMonster(variant);
+		if (found) {
+			return {
+				name: found.name,
+				challengeRating: found.challengeRating,
+				count: monster.count,
+				xp: found.xp,
+			};
+		}
+	}
+	return null;
+}
+
+/**
+ * Resolve a request (scenario text or explicit lists) into an assessment. Monsters named
+ * without a CR are looked up in the SRD compendium; anything that can't be counted is
+ * reported in `unresolved`. Throws when there is no party or no countable monster.
+ */
+export async function assessEncounterRequest(request: AssessEncounterRequest) {
+	const parsed: ParsedScenario =
+		request.party && request.monsters
+			? { party: request.party, monsters: request.monsters, unresolved: [] }
+			: parseEncounterScenario(request.scenario ?? "");
+
+	const monsters: RatedMonster[] = [];
+	const unresolved = [...parsed.unresolved];
+	for (const monster of parsed.monsters) {
+		const rated = await rateMonster(monster);
+		if (rated) monsters.push(rated);
+		else unresolved.push(monster.name ?? "unnamed monster");
+	}
+
+	if (parsed.party.length === 0) {
+		throw new Error("No party found — give character levels, e.g. 'a level 5 paladin'");
+	}
+	if (monsters.length === 0) {
+		throw new Error("No monsters found — use SRD names or a challenge rating, e.g. 'CR 3 ogre'");
+	}
+	return { ...assessEncounter(parsed.party, monsters), unresolved };
+}
@@ -0,0 +1,85 @@
+import { and, asc, eq, max } from "drizzle-orm";
+import { nanoid } from "nanoid";
+import { db, schema } from "../db/index.js";
+
+export interface RollLedgerEntry {
+	toolName: string;
+	toolCallId?: string;
+	input: unknown;
+	output: unknown;
+	isError?: boolean;
+}
+
+/**
+ * Records every tool invocation of one arena run, numbered in call order.
+ * The round is read from the arena row so entries line up with the persisted combat state.
+ */
+export function createRollLedger(arenaId: string, run: number) {
+	let sequence = 0;
+
+	return {
+		async record(entry: RollLedgerEntry) {
+			const current = sequence++;
+			const arena = await db
+				.select({ round: schema.arenas.round })
+				.from(schema.arenas)
+				.where(eq(schema.arenas.id, arenaId))
+				.get();
+
+			await db.insert(schema.rollEvents).values({
+				id: nanoid(),
+				arenaId,
+				run,
+				sequence: current,
+				round: arena?.round ?? 0,
+				toolName: entry.toolName,
+				toolCallId: entry.toolCallId ?? null,
+				input: JSON.stringify(entry.input ?? null),
+				output: JSON.stringify(entry.output ?? null),
+				isError: entry.isError ?? false,
+				createdAt: new Date(),
+			});
+		},
+	};
+}
+
+export type RollLedger = ReturnType<typeof createRollLedger>;
+
+/** The last run of an arena that logged anything, or null before its first. */
+export async function latestLedgerRun(arenaId: string) {
+	const latest = await db
+		.select({ run: max(schema.rollEvents.run) })
+		.from(schema.rollEvents)
+		.where(eq(schema.rollEvents.arenaId, arenaId))
+		.get();
+	return latest?.run ?? null;
+}
+
+/** The number a new run of an arena logs under: one past its last run's, so history is kept. */
+export async function nextLedgerRun(arenaId: string) {
+	const latest = await latestLedgerRun(arenaId);
+	return latest === null ? 0 : latest + 1;
+}
+
+/**
+ * Ledger entries for an arena — every run's, or just the given run's — in run and call order,
+ * with input/output deserialized.
+ */
+export async function getRollEvents(arenaId: string, run?: number) {
+	const events = await db
+		.select()
+		.from(schema.rollEvents)
+		.where(
+			and(
+				eq(schema.rollEvents.arenaId, arenaId),
+				run === undefined ? undefined : eq(schema.rollEvents.run, run),
+			),
+		)
+		.orderBy(asc(schema.rollEvents.run), asc(schema.rollEvents.sequence));
+
+	return events.map((e) => ({
+		...e,
+		input: JSON.parse(e.input) as unknown,
+		output: JSON.parse(e.output) as unknown,
+	}));
+}
@@ -0,0 +1,247 @@
+import type { Creature } from "../schemas/index.js";
+import { type CombatState, findCombatant, logEntry } from "./combat.js";
+import { incapacitatedBy } from "./conditions.js";
+import { type RandomSource, rollDie } from "./rng.js";
+
+function sameName(a: string, b: string) {
+	return a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+/** Swap in the changed combatant and log what it did. */
+function record(state: CombatState, index: number, creature: Creature, message: string, now: Date) {
+	const combatants = [...state.combatants];
+	combatants[index] = creature;
+	return { ...state, combatants, log: [...state.log, logEntry(state.round, message, now)] };
+}
+
+/** The combatant, refused when combat hasn't started or it can't act. */
+function actingCombatant(state: CombatState, name: string) {
+	if (state.round === 0) {
+		throw new Error("Combat hasn't started — call start-combat first");
+	}
+	const index = findCombatant(state, name);
+	const creature = state.combatants[index];
+	if (!creature.isAlive || creature.hitPoints === 0) {
+		throw new Error(`${creature.name} is down and can't act`);
+	}
+	const incapacitated = incapacitatedBy(creature);
+	if (incapacitated) {
+		throw new Error(`${creature.name} is ${incapacitated} and can't act`);
+	}
+	return { index, creature };
+}
+
+/** "Detect (1), Tail Attack (1), Wing Attack (2)" */
+function listOptions(options: Array<{ name: string; cost?: number }>) {
+	return options
+		.map((option) => (option.cost ? `${option.name} (${option.cost})` : option.name))
+		.join(", ");
+}
+
+/**
+ * Count the Legendary Resistance each save spent — resolveSavingThrows has already turned
+ * those failures into successes.
+ */
+export function spendLegendaryResistance(
+	state: CombatState,
+	results: Array<{ name: string; legendaryResistance?: boolean }>,
+	now = new Date(),
+) {
+	let next = state;
+	for (const result of results.filter((r) => r.legendaryResistance)) {
+		const index = findCombatant(next, result.name);
+		const creature = next.combatants[index];
+		if (!creature.legendaryResistance) continue;
+		const remaining = Math.max(0, creature.legendaryResistance.remaining - 1);
+		next = record(
+			next,
+			index,
+			{ ...creature, legendaryResistance: { ...creature.legendaryResistance, remaining } },
+			`${creature.name} uses Legendary Resistance to succeed on a saving throw (${remaining} left)`,
+			now,
+		);
+	}
+	return next;
+}
+
+/**
+ * Spend legendary actions on one option. They are taken at the end of another creature's
+ * turn, never on the creature's own, and come back when its turn starts.
+ */
+export function useLegendaryAction(
+	state: CombatState,
+	request: { name: string; action: string },
+	now = new Date(),
+) {
+	const { index, creature } = actingCombatant(state, request.name);
+	const legendary = creature.legendaryActions;
+	if (!legendary) throw new Error(`${creature.name} has no legendary actions`);
+	const action = legendary.actions.find((option) => sameName(option.name, request.action));
+	if (!action) {
+		throw new Error(
+			`${creature.name} has no legendary action called ${request.action} (options: ${listOptions(legendary.actions)})`,
+		);
+	}
+	if (index === state.turnIndex) {
+		throw new Error(
+			`${creature.name} takes legendary actions only at the end of another creature's turn`,
+		);
+	}
+	if (action.cost > legendary.remaining) {
+		throw new Error(
+			`${action.name} costs ${action.cost} legendary actions and ${creature.name} has ${legendary.remaining} left this round`,
+		);
+	}
+
+	const remaining = legendary.remaining - action.cost;
+	const message = `${creature.name} uses a legendary action: ${action.name} (${remaining} left)`;
+	const updated = { ...creature, legendaryActions: { ...legendary, remaining } };
+	return {
+		state: record(state, index, updated, message, now),
+		result: { name: creature.name, action, remaining, message },
+	};
+}
+
+/**
+ * Take a lair action. The window opens when the turn passes initiative count 20 and closes at
+ * the next turn; the same lair action can't be used two rounds in a row.
+ */
+export function useLairAction(
+	state: CombatState,
+	request: { name: string; action: string },
+	now = new Date(),
+) {
+	if (state.round === 0) {
+		throw new Error("Combat hasn't started — call start-combat first");
+	}
+	const index = findCombatant(state, request.name);
+	const creature = state.combatants[index];
+	const lair = creature.lairActions;
+	if (!lair) {
+		throw new Error(`${creature.name} has no lair actions — it isn't fighting in its lair`);
+	}
+	const action = lair.actions.find((option) => sameName(option.name, request.action));
+	if (!action) {
+		throw new Error(
+			`${creature.name} has no lair action called ${request.action} (options: ${listOptions(lair.actions)})`,
+		);
+	}
+	if (!lair.available) {
+		throw new Error(
+			`${creature.name}'s lair actions come on initiative count 20 — wait until next-turn passes it`,
+		);
+	}
+	if (lair.lastUsed && sameName(lair.lastUsed, action.name)) {
+		throw new Error(`${creature.name} can't use ${action.name} two rounds in a row`);
+	}
+
+	const message = `${creature.name} takes a lair action: ${action.name}`;
+	const updated = {
+		...creature,
+		lairActions: { ...lair, available: false, lastUsed: action.name },
+	};
+	return {
+		state: record(state, index, updated, message, now),
+		result: { name: creature.name, action, message },
+	};
+}
+
+/**
+ * Spend a recharge ability such as a breath weapon. It stays spent until roll-recharge rolls
+ * its number at the start of one of the creature's turns.
+ */
+export function useRechargeAbility(
+	state: CombatState,
+	request: { name: string; ability: string },
+	now = new Date(),
+) {
+	const { index, creature } = actingCombatant(state, request.name);
+	const abilities = creature.recharges ?? [];
+	const ability = abilities.find((a) => sameName(a.name, request.ability));
+	if (!ability) {
+		const options = abilities.map((a) => a.name).join(", ") || "none";
+		throw new Error(
+			`${creature.name} has no recharge ability called ${request.ability} (recharge abilities: ${options})`,
+		);
+	}
+	if (!ability.available) {
+		throw new Error(
+			`${creature.name}'s ${ability.name} hasn't recharged — roll-recharge at the start of its turn`,
+		);
+	}
+
+	const message = `${creature.name} uses ${ability.name} (recharge ${ability.recharge})`;
+	const updated = {
+		...creature,
+		recharges: abilities.map((a) =>
+			a === ability ? { ...a, available: false, rollDue: false } : a,
+		),
+	};
+	return {
+		state: record(state, index, updated, message, now),
+		result: { name: creature.name, ability: ability.name, recharge: ability.recharge, message },
+	};
+}
+
+export interface RechargeRoll {
+	ability: string;
+	recharge: string;
+	roll: number;
+	recharged: boolean;
+}
+
+/** Roll a d6 for each spent ability, in order; "5-6" comes back on a 5 or 6. */
+export function rollRechargeDice(
+	name: string,
+	abilities: Array<{ name: string; recharge: string }>,
+	rng: RandomSource,
+) {
+	const rolls: RechargeRoll[] = abilities.map((ability) => {
+		const roll = rollDie(rng, 6);
+		const recharged = roll >= Number(ability.recharge.charAt(0));
+		return { ability: ability.name, recharge: ability.recharge, roll, recharged };
+	});
+	const lines = rolls.map(
+		(r) =>
+			`${r.ability} (recharge ${r.recharge}): rolls ${r.roll} — ${r.recharged ? "recharged" : "not yet"}`,
+	);
+	return { name, rolls, narrative: `🔋 ${name} — ${lines.join("; ")}` };
+}
+
+export type RechargeResult = ReturnType<typeof rollRechargeDice>;
+
+/**
+ * Roll for the spent abilities due a recharge roll at the start of the creature's turn. A
+ * creature with nothing due is refused before a die is drawn.
+ */
+export function rollRecharge(
+	state: CombatState,
+	name: string,
+	rng: () => RandomSource,
+	now = new Date(),
+) {
+	if (state.round === 0) {
+		throw new Error("Combat hasn't started — call start-combat first");
+	}
+	const index = findCombatant(state, name);
+	const creature = state.combatants[index];
+	const due = (creature.recharges ?? []).filter((a) => a.rollDue && !a.available);
+	if (due.length === 0) {
+		throw new Error(
+			`${creature.name} has no recharge rolls due — spent abilities roll once, at the start of its turn`,
+		);
+	}
+
+	const result = rollRechargeDice(creature.name, due, rng());
+	const updated = {
+		...creature,
+		recharges: creature.recharges?.map((ability) => {
+			const rolled = result.rolls.find((r) => r.ability === ability.name);
+			return rolled ? { ...ability, available: rolled.recharged, rollDue: false } : ability;
+		}),
+	};
+	return {
+		state: record(state, index, updated, result.narrative.replace(/^🔋 /, ""), now),
+		result,
+	};
+}
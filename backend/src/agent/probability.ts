@@ -0,0 +1,392 @@
+import {
+	applyKeepDrop,
+	type DiceExpression,
+	type DiceTermNode,
+	type DiceTermNodeUnion,
+	type GroupTermNode,
+	type KeepDrop,
+	MAX_EXPLOSIONS_PER_DIE,
+	parseDiceExpression,
+} from "./dice.js";
+
+/**
+ * Exact probability distributions for dice expressions.
+ *
+ * A distribution maps each possible total to its probability. Everything is
+ * computed analytically (convolution and dynamic programming) — no sampling —
+ * so the numbers match the evaluator in `dice.ts` exactly.
+ */
+export type Distribution = Map<number, number>;
+
+export type RollMode = "normal" | "advantage" | "disadvantage";
+
+export interface DistributionOptions {
+	/** Double the number of dice in every dice term (critical hit damage) */
+	critical?: boolean;
+}
+
+export interface DiceStats {
+	notation: string;
+	min: number;
+	max: number;
+	mean: number;
+	stddev: number;
+	/** Probability of each possible total, ascending by total */
+	pmf: Array<{ total: number; probability: number }>;
+	target?: number;
+	/** Probability of rolling the target or higher */
+	chanceAtLeast?: number;
+}
+
+export interface HitChance {
+	toHitBonus: number;
+	targetAC: number;
+	rollMode: RollMode;
+	/** Probability the attack hits, criticals included */
+	hitChance: number;
+	critChance: number;
+}
+
+/** Upper bound on inner-loop iterations before we refuse to compute exactly. */
+const MAX_WORK = 50_000_000;
+/** Upper bound on joint outcomes enumerated for a group with keep/drop. */
+const MAX_GROUP_OUTCOMES = 1_000_000;
+
+function tooLarge(what: string): never {
+	throw new Error(`Dice expression too large to compute exactly (${what})`);
+}
+
+// ── Distribution algebra ──
+
+function pointMass(value: number): Distribution {
+	return new Map([[value, 1]]);
+}
+
+function addMass(dist: Distribution, value: number, probability: number) {
+	if (probability === 0) return;
+	dist.set(value, (dist.get(value) ?? 0) + probability);
+}
+
+export function convolve(a: Distribution, b: Distribution): Distribution {
+	if (a.size * b.size > MAX_WORK) tooLarge("convolution");
+	const out: Distribution = new Map();
+	for (const [va, pa] of a) {
+		for (const [vb, pb] of b) {
+			addMass(out, va + vb, pa * pb);
+		}
+	}
+	return out;
+}
+
+function negate(dist: Distribution): Distribution {
+	const out: Distribution = new Map();
+	for (const [v, p] of dist) out.set(-v, p);
+	return out;
+}
+
+/**
+ * Distribution of the sum of `count` independent draws. The work is bounded up front: the
+ * i-th convolution pairs at most i × span + 1 totals with the die's outcomes, so a sum that
+ * is too large fails at once instead of after most of the work.
+ */
+function sumOfIndependent(dist: Distribution, count: number): Distribution {
+	const values = [...dist.keys()];
+	const span = Math.max(...values) - Math.min(...values);
+	const work = dist.size * (count + (span * count * (count - 1)) / 2);
+	if (work > MAX_WORK) tooLarge(`${count} dice`);
+	let total = pointMass(0);
+	for (let i = 0; i < count; i++) total = convolve(total, dist);
+	return total;
+}
+
+// ── Single dice ──
+
+/**
+ * Distribution of one die after reroll-once and min/max clamping (no explosions).
+ */
+function faceDistribution(node: DiceTermNode): Distribution {
+	const { sides, rerollBelow, min, max } = node;
+	const base = 1 / sides;
+	// Chance that the first face is rerolled, after which the reroll is uniform
+	const rerollMass = rerollBelow === null ? 0 : rerollBelow / sides;
+	const dist: Distribution = new Map();
+
+	for (let face = 1; face <= sides; face++) {
+		const kept = rerollBelow !== null && face <= rerollBelow ? 0 : base;
+		let value = face;
+		if (min !== null) value = Math.max(value, min);
+		if (max !== null) value = Math.min(value, max);
+		addMass(dist, value, kept + rerollMass * base);
+	}
+	return dist;
+}
+
+/**
+ * Distribution of one exploding die including its chain of extra dice,
+ * capped at the same explosion depth the evaluator uses.
+ */
+function explodingDistribution(node: DiceTermNode): Distribution {
+	const face = faceDistribution(node);
+	let chain = face;
+	for (let depth = 0; depth < MAX_EXPLOSIONS_PER_DIE; depth++) {
+		const next: Distribution = new Map();
+		for (const [v, p] of face) {
+			if (v === node.sides) {
+				for (const [rest, q] of chain) addMass(next, v + rest, p * q);
+			} else {
+				addMass(next, v, p);
+			}
+		}
+		chain = next;
+	}
+	return chain;
+}
+
+/** Binomial probabilities of 0..n successes at chance q, in log space so large n stays finite. */
+function binomialPmf(n: number, q: number): number[] {
+	const pmf = new Array<number>(n + 1).fill(0);
+	if (q >= 1) pmf[n] = 1;
+	else if (q <= 0) pmf[0] = 1;
+	else {
+		let logTerm = n * Math.log1p(-q);
+		const logOdds = Math.log(q) - Math.log1p(-q);
+		pmf[0] = Math.exp(logTerm);
+		for (let c = 1; c <= n; c++) {
+			logTerm += Math.log((n - c + 1) / c) + logOdds;
+			pmf[c] = Math.exp(logTerm);
+		}
+	}
+	return pmf;
+}
+
+/**
+ * Exact distribution of the kept sum when `count` independent dice share one face
+ * distribution. Faces are visited from most- to least-preferred; the dice not yet placed
+ * land on each face binomially, at its chance given they land on it or a later face, and
+ * only as many as still fit under the keep count contribute to the sum. Every weight is a
+ * probability, so large pools neither overflow nor lose their mass.
+ */
+function keepDropDistribution(face: Distribution, count: number, keepDrop: KeepDrop): Distribution {
+	const highest = keepDrop.type === "kh" || keepDrop.type === "dl";
+	const keep = keepDrop.type === "kh" || keepDrop.type === "kl" ? keepDrop.n : count - keepDrop.n;
+
+	const values = [...face.keys()].sort((a, b) => (highest ? b - a : a - b));
+	const span = Math.max(...values) - Math.min(...values) + 1;
+	const work = values.length * (count + 1) ** 2 * keep * span;
+	if (work > MAX_WORK) tooLarge("keep/drop");
+
+	// dp[placed] maps kept-sum → probability
+	let dp: Distribution[] = Array.from({ length: count + 1 }, () => new Map());
+	dp[0].set(0, 1);
+
+	let rest = 1;
+	for (const [i, value] of values.entries()) {
+		const p = face.get(value) ?? 0;
+		// The last face takes every die left
+		const share = i === values.length - 1 ? 1 : Math.min(1, p / rest);
+		rest -= p;
+		const next: Distribution[] = Array.from({ length: count + 1 }, () => new Map());
+		for (let placed = 0; placed <= count; placed++) {
+			if (dp[placed].size === 0) continue;
+			const landing = binomialPmf(count - placed, share);
+			for (const [sum, weight] of dp[placed]) {
+				for (const [c, chance] of landing.entries()) {
+					if (chance === 0) continue;
+					const kept = Math.max(0, Math.min(c, keep - placed));
+					addMass(next[placed + c], sum + kept * value, weight * chance);
+				}
+			}
+		}
+		dp = next;
+	}
+	return dp[count];
+}
+
+function diceTermDistribution(node: DiceTermNode, options: DistributionOptions): Distribution {
+	const count = options.critical ? node.count * 2 : node.count;
+
+	if (node.explode) {
+		if (node.keepDrop) {
+			throw new Error(
+				`Exact odds are not supported for exploding dice with keep/drop (${node.notation})`,
+			);
+		}
+		return sumOfIndependent(explodingDistribution(node), count);
+	}
+
+	const face = faceDistribution(node);
+	return node.keepDrop
+		? keepDropDistribution(face, count, node.keepDrop)
+		: sumOfIndependent(face, count);
+}
+
+// ── Groups and expressions ──
+
+function groupDistribution(node: GroupTermNode, options: DistributionOptions): Distribution {
+	const parts = node.expressions.map((e) => expressionDistribution(e, options));
+	if (!node.keepDrop) return parts.reduce(convolve, pointMass(0));
+
+	const outcomes = parts.reduce((n, d) => n * d.size, 1);
+	if (outcomes > MAX_GROUP_OUTCOMES) tooLarge("group keep/drop");
+
+	const keepDrop = node.keepDrop;
+	const out: Distribution = new Map();
+	const entries = parts.map((d) => [...d.entries()]);
+
+	const walk = (index: number, totals: number[], probability: number) => {
+		if (index === entries.length) {
+			const kept = applyKeepDrop(totals, keepDrop);
+			addMass(
+				out,
+				kept.reduce((a, b) => a + b, 0),
+				probability,
+			);
+			return;
+		}
+		for (const [v, p] of entries[index]) {
+			walk(index + 1, [...totals, v], probability * p);
+		}
+	};
+	walk(0, [], 1);
+	return out;
+}
+
+function termDistribution(node: DiceTermNodeUnion, options: DistributionOptions): Distribution {
+	let dist: Distribution;
+	switch (node.kind) {
+		case "constant":
+			dist = pointMass(node.value);
+			break;
+		case "dice":
+			dist = diceTermDistribution(node, options);
+			break;
+		case "group":
+			dist = groupDistribution(node, options);
+			break;
+	}
+	return node.sign < 0 ? negate(dist) : dist;
+}
+
+function expressionDistribution(
+	expression: DiceExpression,
+	options: DistributionOptions,
+): Distribution {
+	return expression.terms.map((t) => termDistribution(t, options)).reduce(convolve, pointMass(0));
+}
+
+/**
+ * Exact distribution of totals for a dice expression.
+ */
+export function diceDistribution(
+	expression: string | DiceExpression,
+	options: DistributionOptions = {},
+): Distribution {
+	const parsed = typeof expression === "string" ? parseDiceExpression(expression) : expression;
+	return expressionDistribution(parsed, options);
+}
+
+// ── Summaries ──
+
+/** Probability of a total meeting or beating the target. */
+export function chanceAtLeast(dist: Distribution, target: number): number {
+	let chance = 0;
+	for (const [v, p] of dist) {
+		if (v >= target) chance += p;
+	}
+	return chance;
+}
+
+/** Expected value, optionally with each total floored (damage never drops below 0). */
+export function expectedValue(dist: Distribution, floor = Number.NEGATIVE_INFINITY): number {
+	let mean = 0;
+	for (const [v, p] of dist) mean += Math.max(v, floor) * p;
+	return mean;
+}
+
+/**
+ * Min, max, mean, standard deviation and full PMF for a dice expression,
+ * plus the chance to meet or beat `target` when one is given.
+ */
+export function diceStats(notation: string, target?: number): DiceStats {
+	const dist = diceDistribution(notation);
+	const pmf = [...dist.entries()]
+		.filter(([, p]) => p > 0)
+		.sort(([a], [b]) => a - b)
+		.map(([total, probability]) => ({ total, probability }));
+
+	const mean = expectedValue(dist);
+	let variance = 0;
+	for (const { total, probability } of pmf) variance += (total - mean) ** 2 * probability;
+
+	return {
+		notation,
+		min: pmf[0].total,
+		max: pmf[pmf.length - 1].total,
+		mean,
+		stddev: Math.sqrt(variance),
+		pmf,
+		...(target === undefined ? {} : { target, chanceAtLeast: chanceAtLeast(dist, target) }),
+	};
+}
+
+/**
+ * Chance for a d20 attack roll to hit and to crit. A natural 20 always hits
+ * and a natural 1 always misses, regardless of bonus and AC.
+ */
+export function hitChance(
+	toHitBonus: number,
+	targetAC: number,
+	rollMode: RollMode = "normal",
+): HitChance {
+	let hitFaces = 0;
+	for (let face = 1; face <= 20; face++) {
+		if (face === 20 || (face !== 1 && face + toHitBonus >= targetAC)) hitFaces++;
+	}
+	const single = hitFaces / 20;
+	const crit = 1 / 20;
+
+	const combine = (p: number) =>
+		rollMode === "advantage" ? 1 - (1 - p) ** 2 : rollMode === "disadvantage" ? p ** 2 : p;
+
+	return {
+		toHitBonus,
+		targetAC,
+		rollMode,
+		hitChance: combine(single),
+		critChance: combine(crit),
+	};
+}
+
+/**
+ * Expected damage per attack: normal hits roll the damage expression,
+ * criticals roll it with doubled dice, and misses deal nothing.
+ */
+export function expectedAttackDamage(chance: HitChance, damageDice: string): number {
+	const expression = parseDiceExpression(damageDice);
+	const normal = expectedValue(diceDistribution(expression), 0);
+	const critical = expectedValue(diceDistribution(expression, { critical: true }), 0);
+	return (chance.hitChance - chance.critChance) * normal + chance.critChance * critical;
+}
+
+export interface DiceOddsRequest {
+	notation: string;
+	target?: number;
+	toHitBonus?: number;
+	targetAC?: number;
+	rollMode?: RollMode;
+}
+
+/**
+ * Stats for a notation plus, when an attack bonus and AC are given, the chance
+ * to hit and the expected damage per attack if the notation is the damage roll.
+ */
+export function describeDiceOdds(request: DiceOddsRequest) {
+	const stats = diceStats(request.notation, request.target);
+	if (request.toHitBonus === undefined || request.targetAC === undefined) return stats;
+
+	const chance = hitChance(request.toHitBonus, request.targetAC, request.rollMode);
+	return {
+		...stats,
+		attack: { ...chance, expectedDamage: expectedAttackDamage(chance, request.notation) },
+	};
+}
@@ -0,0 +1,353 @@
+import { ordinal } from "../compendium/classes.js";
+import type { Creature } from "../schemas/index.js";
+import type { AttackRequest, AttackResult } from "./attack.js";
+import { distanceBetween } from "./battlefield.js";
+import { type CombatState, findCombatant, logEntry } from "./combat.js";
+import { incapacitatedBy } from "./conditions.js";
+import type { RandomSource } from "./rng.js";
+import {
+	abilityCheckTest,
+	type D20Test,
+	type D20TestResult,
+	rollD20Test,
+} from "./saving-throws.js";
+
+/** Reactions a defender can take when an attack hits it */
+export const ATTACK_REACTIONS = ["shield", "parry", "uncanny-dodge"] as const;
+
+export type AttackReactionName = (typeof ATTACK_REACTIONS)[number];
+
+/** Shield's bonus to AC, against the triggering attack and until the caster's next turn */
+const SHIELD_AC = 5;
+
+/** Counterspell's range */
+const COUNTERSPELL_RANGE = 60;
+
+function sameName(a: string, b: string) {
+	return a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+/** Why a creature can't take a reaction right now, or null when it can. */
+export function reactionBlockedBy(creature: Creature) {
+	if (!creature.isAlive || creature.hitPoints === 0) return `${creature.name} is down`;
+	const incapacitated = incapacitatedBy(creature);
+	if (incapacitated) return `${creature.name} is ${incapacitated}`;
+	if (creature.reactionUsed) return `${creature.name} has already used its reaction this round`;
+	return null;
+}
+
+/** The lowest slot of at least `level` the creature has left, or null. */
+function lowestSlot(creature: Creature, level: number) {
+	const levels = (creature.spellcasting?.slots ?? [])
+		.filter((slot) => slot.level >= level && slot.remaining > 0)
+		.map((slot) => slot.level);
+	return levels.length > 0 ? Math.min(...levels) : null;
+}
+
+/**
+ * Whether an attack is made in melee: the named attack's reach covers the distance, or, for an
+ * attack without a listed reach, it is made from 5 feet.
+ */
+export function isMeleeAttack(
+	attacker: Creature | undefined,
+	attackName: string | undefined,
+	distance: number,
+) {
+	const attack = attackName
+		? attacker?.attacks.find((a) => sameName(a.name, attackName))
+		: undefined;
+	if (attack && attack.reach === undefined && attack.range !== undefined) return false;
+	return distance <= (attack?.reach ?? 5);
+}
+
+/** An attack with Shield up gets +5 AC to beat; the replay rolls it the same way. */
+export function againstShield<T extends AttackRequest>(request: T): T {
+	return { ...request, targetAC: request.targetAC + SHIELD_AC };
+}
+
+export interface AttackReaction {
+	/** The defender reacting */
+	name: string;
+	reaction: AttackReactionName;
+	/** AC added against the attack (Shield, Parry); Uncanny Dodge halves the damage instead */
+	armorClassBonus: number;
+	/** The slot Shield is cast with */
+	slotLevel: number | null;
+}
+
+/** What a reaction would do against the attack, or why the creature can't take it. */
+function attackReactionOption(
+	creature: Creature,
+	reaction: AttackReactionName,
+	melee: boolean,
+): AttackReaction | string {
+	const option = { name: creature.name, reaction, armorClassBonus: 0, slotLevel: null };
+	switch (reaction) {
+		case "shield": {
+			if (!creature.spellcasting?.spells.includes("shield")) {
+				return `${creature.name} can't cast Shield`;
+			}
+			const slotLevel = lowestSlot(creature, 1);
+			if (slotLevel === null) return `${creature.name} has no spell slots left for Shield`;
+			return { ...option, armorClassBonus: SHIELD_AC, slotLevel };
+		}
+		case "parry": {
+			const parry = creature.reactions?.find((r) => r.name === "Parry");
+			if (!parry) return `${creature.name} can't parry`;
+			if (!melee) return `${creature.name} can only parry melee attacks`;
+			const bonus = /adds (\d+) to its AC/i.exec(parry.description)?.[1];
+			return { ...option, armorClassBonus: bonus ? Number(bonus) : 2 };
+		}
+		case "uncanny-dodge": {
+			const features = [...creature.traits, ...(creature.reactions ?? [])];
+			if (!features.some((feature) => feature.name === "Uncanny Dodge")) {
+				return `${creature.name} doesn't have Uncanny Dodge`;
+			}
+			return option;
+		}
+	}
+}
+
+/**
+ * Check a reaction the agent asked for before the attack is rolled, so a refused one draws no
+ * dice.
+ */
+export function checkAttackReaction(
+	creature: Creature,
+	reaction: AttackReactionName,
+	melee: boolean,
+) {
+	const blocked = reactionBlockedBy(creature);
+	if (blocked) throw new Error(`${blocked} and can't react`);
+	const option = attackReactionOption(creature, reaction, melee);
+	if (typeof option === "string") throw new Error(option);
+}
+
+/**
+ * Pick the defender's reaction to a hit. One the agent named is taken whenever the attack hits;
+ * "auto" reacts only when it helps — a Parry, then Shield, when the extra AC turns the hit into
+ * a miss, otherwise Uncanny Dodge.
+ */
+export function chooseAttackReaction(
+	creature: Creature,
+	result: AttackResult,
+	melee: boolean,
+	choice: AttackReactionName | "auto" | "none",
+): AttackReaction | null {
+	if (!result.hit || choice === "none" || reactionBlockedBy(creature)) return null;
+	const option = (reaction: AttackReactionName) => {
+		const found = attackReactionOption(creature, reaction, melee);
+		return typeof found === "string" ? null : found;
+	};
+	if (choice !== "auto") return option(choice);
+
+	const turnsAside = (reaction: AttackReaction | null) =>
+		reaction !== null &&
+		result.naturalRoll < result.critRange &&
+		result.attackRoll < result.targetAC + reaction.armorClassBonus;
+	const parry = option("parry");
+	if (turnsAside(parry)) return parry;
+	const shield = option("shield");
+	if (turnsAside(shield)) return shield;
+	return option("uncanny-dodge");
+}
+
+/**
+ * Recompute a rolled attack with the defender's reaction: extra AC the roll no longer beats
+ * turns the hit into a miss, and Uncanny Dodge halves the damage.
+ */
+export function reactToAttack(result: AttackResult, reaction: AttackReaction): AttackResult {
+	const { name } = reaction;
+	if (reaction.reaction === "uncanny-dodge") {
+		const totalDamage = Math.floor(result.totalDamage / 2);
+		return {
+			...result,
+			totalDamage,
+			narrative: `${result.narrative}\n🛡️ ${name} uses Uncanny Dodge and takes half: ${totalDamage} damage.`,
+		};
+	}
+
+	const targetAC = result.targetAC + reaction.armorClassBonus;
+	const how =
+		reaction.reaction === "shield"
+			? `${name} casts Shield (${ordinal(reaction.slotLevel ?? 1)}-level slot)`
+			: `${name} parries`;
+	if (result.naturalRoll >= result.critRange || result.attackRoll >= targetAC) {
+		return {
+			...result,
+			targetAC,
+			narrative: `${result.narrative}\n🛡️ ${how}: AC ${targetAC}, but the attack still hits.`,
+		};
+	}
+	return {
+		...result,
+		targetAC,
+		hit: false,
+		isCritical: false,
+		damageRolls: [],
+		damageBreakdown: [],
+		damageParts: [],
+		rolledDamage: 0,
+		damageAdjustments: [],
+		totalDamage: 0,
+		narrative: `${result.narrative}\n🛡️ ${how}: AC ${targetAC} — the attack misses!`,
+	};
+}
+
+/** Spend a creature's reaction, and the slot of a spell cast with it, and log it. */
+function react(
+	state: CombatState,
+	name: string,
+	slotLevel: number | null,
+	message: string,
+	changes: Partial<Creature>,
+	now: Date,
+): CombatState {
+	const index = findCombatant(state, name);
+	const creature = state.combatants[index];
+	const combatants = [...state.combatants];
+	combatants[index] = {
+		...creature,
+		...changes,
+		reactionUsed: true,
+		spellcasting: creature.spellcasting && {
+			...creature.spellcasting,
+			slots: creature.spellcasting.slots.map((slot) =>
+				slot.level === slotLevel ? { ...slot, remaining: slot.remaining - 1 } : slot,
+			),
+		},
+	};
+	return { ...state, combatants, log: [...state.log, logEntry(state.round, message, now)] };
+}
+
+/** Spend the reaction a defender took against an attack; Shield stays up until its next turn. */
+export function spendAttackReaction(
+	state: CombatState,
+	reaction: AttackReaction,
+	now = new Date(),
+) {
+	const { name, slotLevel } = reaction;
+	switch (reaction.reaction) {
+		case "shield":
+			return react(
+				state,
+				name,
+				slotLevel,
+				`${name} casts Shield (${ordinal(slotLevel ?? 1)}-level slot): +5 AC until its next turn`,
+				{ shielded: true },
+				now,
+			);
+		case "parry":
+			return react(state, name, null, `${name} parries (+${reaction.armorClassBonus} AC)`, {}, now);
+		case "uncanny-dodge":
+			return react(state, name, null, `${name} uses Uncanny Dodge`, {}, now);
+	}
+}
+
+export interface CounterspellPlan {
+	/** The creature countering the spell */
+	name: string;
+	slotLevel: number;
+	/** For a spell above the slot's level: a spellcasting ability check against `dc` */
+	test: D20Test | null;
+	dc: number | null;
+}
+
+/** Why a creature can't counter the caster's spell, or null when it can. */
+function counterspellBlockedBy(creature: Creature, caster: Creature) {
+	if (creature.name === caster.name) return `${creature.name} can't counter its own spell`;
+	if (!creature.spellcasting?.spells.includes("counterspell")) {
+		return `${creature.name} can't cast Counterspell`;
+	}
+	if (lowestSlot(creature, 3) === null) {
+		return `${creature.name} has no 3rd-level or higher slot left for Counterspell`;
+	}
+	const distance = distanceBetween(creature, caster);
+	if (distance !== null && distance > COUNTERSPELL_RANGE) {
+		return `${caster.name} is ${distance} ft from ${creature.name} — out of Counterspell's ${COUNTERSPELL_RANGE} ft range`;
+	}
+	return reactionBlockedBy(creature);
+}
+
+/**
+ * Find who counters a spell as it is cast: the creature named, or with no name a creature on
+ * another side that can — one that knows Counterspell, has a 3rd-level or higher slot and its
+ * reaction, and is within 60 feet. Left to itself it lets cantrips through; "none" lets every
+ * spell through. A slot of the spell's level or higher stops it outright, a lower one needs a
+ * spellcasting ability check against DC 10 + the spell's level.
+ */
+export function planCounterspell(
+	state: CombatState,
+	casterName: string,
+	level: number,
+	choice?: string,
+): CounterspellPlan | null {
+	if (choice !== undefined && sameName(choice, "none")) return null;
+	const caster = state.combatants[findCombatant(state, casterName)];
+	let counter: Creature | undefined;
+	if (choice !== undefined) {
+		counter = state.combatants[findCombatant(state, choice)];
+		const blocked = counterspellBlockedBy(counter, caster);
+		if (blocked) throw new Error(blocked);
+	} else {
+		if (level === 0) return null;
+		counter = state.combatants.find(
+			(c) =>
+				c.side !== undefined &&
+				caster.side !== undefined &&
+				c.side !== caster.side &&
+				counterspellBlockedBy(c, caster) === null,
+		);
+		if (!counter) return null;
+	}
+
+	const spellcasting = counter.spellcasting;
+	const outright = lowestSlot(counter, Math.max(3, level));
+	if (outright !== null || !spellcasting) {
+		return { name: counter.name, slotLevel: outright ?? 3, test: null, dc: null };
+	}
+	return {
+		name: counter.name,
+		slotLevel: lowestSlot(counter, 3) ?? 3,
+		test: abilityCheckTest(counter, spellcasting.ability),
+		dc: 10 + level,
+	};
+}
+
+/** Roll a planned Counterspell's ability check, when it needs one. */
+export function rollCounterspell(plan: CounterspellPlan, spell: string, rng: RandomSource) {
+	const { test, ...counter } = plan;
+	const check: D20TestResult | null = test ? rollD20Test(test, plan.dc ?? undefined, rng) : null;
+	const countered = check === null || check.success === true;
+	const cast = `🚫 ${plan.name} casts Counterspell (${ordinal(plan.slotLevel)}-level slot)`;
+	const roll = check
+		? check.total === null
+			? `: the DC ${plan.dc} check fails automatically`
+			: `: DC ${plan.dc} check, rolls ${check.total}`
+		: "";
+	return {
+		...counter,
+		spell,
+		check,
+		countered,
+		narrative: `${cast}${roll} — ${countered ? `${spell} fails` : `${spell} goes off anyway`}`,
+	};
+}
+
+export type CounterspellResult = ReturnType<typeof rollCounterspell>;
+
+/** Spend the counterspeller's reaction and slot. */
+export function spendCounterspell(
+	state: CombatState,
+	counter: CounterspellResult,
+	now = new Date(),
+) {
+	return react(
+		state,
+		counter.name,
+		counter.slotLevel,
+		`${counter.name} casts Counterspell (${ordinal(counter.slotLevel)}-level slot): ${counter.spell} ${counter.countered ? "is countered" : "goes off anyway"}`,
+		{},
+		now,
+	);
+}
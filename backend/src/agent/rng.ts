@@ -0,0 +1,91 @@
+import { createHash, createHmac } from "node:crypto";
+import { nanoid } from "nanoid";
+
+/**
+ * A source of uniformly distributed numbers in [0, 1), shaped like `Math.random`.
+ * Every tool draws its randomness from one of these so combats can be replayed.
+ */
+export type RandomSource = () => number;
+
+/** Unseeded fallback used when no arena context is supplied. */
+export const defaultRandomSource: RandomSource = () => Math.random();
+
+/** Generate a fresh arena seed. */
+export function generateSeed(): string {
+	return nanoid();
+}
+
+/**
+ * Hash a string seed into four 32-bit words (cyrb128).
+ */
+function hashSeed(seed: string): [number, number, number, number] {
+	let h1 = 1779033703;
+	let h2 = 3144134277;
+	let h3 = 1013904242;
+	let h4 = 2773480762;
+	for (let i = 0; i < seed.length; i++) {
+		const k = seed.charCodeAt(i);
+		h1 = h2 ^ Math.imul(h1 ^ k, 597399067);
+		h2 = h3 ^ Math.imul(h2 ^ k, 2869860233);
+		h3 = h4 ^ Math.imul(h3 ^ k, 951274213);
+		h4 = h1 ^ Math.imul(h4 ^ k, 2716044179);
+	}
+	h1 = Math.imul(h3 ^ (h1 >>> 18), 597399067);
+	h2 = Math.imul(h4 ^ (h2 >>> 22), 2869860233);
+	h3 = Math.imul(h1 ^ (h3 >>> 17), 951274213);
+	h4 = Math.imul(h2 ^ (h4 >>> 19), 2716044179);
+	h1 ^= h2 ^ h3 ^ h4;
+	h2 ^= h1;
+	h3 ^= h1;
+	h4 ^= h1;
+	return [h1 >>> 0, h2 >>> 0, h3 >>> 0, h4 >>> 0];
+}
+
+/**
+ * Deterministic PRNG (sfc32) seeded from a string. The same seed always
+ * yields the same sequence, which is what makes an arena replayable.
+ */
+export function createSeededRandom(seed: string): RandomSource {
+	let [a, b, c, d] = hashSeed(seed);
+	return () => {
+		a |= 0;
+		b |= 0;
+		c |= 0;
+		d |= 0;
+		const t = (((a + b) | 0) + d) | 0;
+		d = (d + 1) | 0;
+		a = b ^ (b >>> 9);
+		b = (c + (c << 3)) | 0;
+		c = (c << 21) | (c >>> 11);
+		c = (c + t) | 0;
+		return (t >>> 0) / 4294967296;
+	};
+}
+
+/**
+ * Verifiable random source for one roll sequence number: the i-th draw is the first
+ * 48 bits of HMAC-SHA256(seed, "<rollSequence>:<i>"). Anyone holding the revealed
+ * seed can recompute every draw of every sequence independently.
+ */
+export function createVerifiableRandom(seed: string, rollSequence: number): RandomSource {
+	let draw = 0;
+	return () => {
+		const digest = createHmac("sha256", seed).update(`${rollSequence}:${draw++}`).digest();
+		return digest.readUIntBE(0, 6) / 2 ** 48;
+	};
+}
+
+/** Public commitment to a seed (SHA-256 hex), published before any roll is made. */
+export function commitToSeed(seed: string): string {
+	return createHash("sha256").update(seed).digest("hex");
+}
+
+/** Roll a single die with the given number of sides. */
+export function rollDie(rng: RandomSource, sides: number): number {
+	return Math.floor(rng() * sides) + 1;
+}
+
+/** Pick a random integer in [min, max] inclusive. */
+export function randomInt(rng: RandomSource, min: number, max: number): number {
+	return min + Math.floor(rng() * (max - min + 1));
+}
@@ -0,0 +1,277 @@
+import type { AbilityName, Creature } from "../schemas/index.js";
+import { rollD20, rollModeFor } from "./attack.js";
+import { SKILL_ABILITIES } from "./characters.js";
+import { checkConditionEffects, type D20TestEffects, saveConditionEffects } from "./conditions.js";
+import { adjustDamage, type DamageDefenses, damageDefenses } from "./damage.js";
+import {
+	evaluateDiceExpression,
+	flattenDiceResult,
+	formatDiceBreakdown,
+	parseDiceExpression,
+} from "./dice.js";
+import type { RandomSource } from "./rng.js";
+
+/** One creature's d20 roll against a DC: its total modifier and what its conditions do to it */
+export interface D20Test {
+	name: string;
+	modifier: number;
+	effects: D20TestEffects;
+	/** For saves: how the creature's resistances change the damage riding on the save */
+	defenses?: DamageDefenses;
+	/** For saves: the creature spends Legendary Resistance if it fails, turning it into a success */
+	legendaryResistance?: boolean;
+}
+
+/** Advantage, disadvantage or a bonus the caller knows about, e.g. Magic Resistance */
+export interface D20TestOptions {
+	advantage?: string;
+	disadvantage?: string;
+	bonus?: number;
+}
+
+/** What a save may spend beyond the roll */
+export interface SaveOptions extends D20TestOptions {
+	/** Spend Legendary Resistance on a failure — the DM's call, never automatic */
+	legendaryResistance?: boolean;
+}
+
+function modifierOf(score: number) {
+	return Math.floor((score - 10) / 2);
+}
+
+function signed(n: number) {
+	return n >= 0 ? `+${n}` : `${n}`;
+}
+
+function capitalize(word: string) {
+	return word.charAt(0).toUpperCase() + word.slice(1);
+}
+
+function withOptions(test: D20Test, options: D20TestOptions): D20Test {
+	const { advantage, disadvantage, autoFail } = test.effects;
+	return {
+		...test,
+		modifier: test.modifier + (options.bonus ?? 0),
+		effects: {
+			advantage: options.advantage ? [...advantage, options.advantage] : advantage,
+			disadvantage: options.disadvantage ? [...disadvantage, options.disadvantage] : disadvantage,
+			autoFail,
+		},
+	};
+}
+
+/**
+ * A creature's saving throw: its proficient save bonus, or else the plain ability modifier.
+ * Legendary Resistance is only offered when asked for, and refused when none is left.
+ */
+export function savingThrowTest(
+	creature: Creature,
+	ability: AbilityName,
+	options: SaveOptions = {},
+): D20Test {
+	if (options.legendaryResistance && (creature.legendaryResistance?.remaining ?? 0) === 0) {
+		throw new Error(
+			creature.legendaryResistance
+				? `${creature.name} has no Legendary Resistance left`
+				: `${creature.name} doesn't have Legendary Resistance`,
+		);
+	}
+	const modifier = creature.savingThrows[ability] ?? modifierOf(creature.abilityScores[ability]);
+	return withOptions(
+		{
+			name: creature.name,
+			modifier,
+			effects: saveConditionEffects(creature, ability),
+			defenses: damageDefenses(creature),
+			legendaryResistance: options.legendaryResistance === true,
+		},
+		options,
+	);
+}
+
+/** A creature's ability check, using its skill bonus when it is proficient in the skill. */
+export function abilityCheckTest(
+	creature: Creature,
+	ability: AbilityName,
+	skill?: string,
+	options: D20TestOptions = {},
+): D20Test {
+	const modifier =
+		skill !== undefined && skill in creature.skills
+			? creature.skills[skill]
+			: modifierOf(creature.abilityScores[ability]);
+	return withOptions(
+		{ name: creature.name, modifier, effects: checkConditionEffects(creature) },
+		options,
+	);
+}
+
+/** Which ability a check uses: the one given, or the skill's usual ability. */
+export function checkAbility(ability: AbilityName | undefined, skill: string | undefined) {
+	if (skill !== undefined && !(skill in SKILL_ABILITIES)) {
+		throw new Error(
+			`Unknown skill "${skill}" (skills: ${Object.keys(SKILL_ABILITIES).join(", ")})`,
+		);
+	}
+	const resolved = ability ?? (skill ? SKILL_ABILITIES[skill] : undefined);
+	if (!resolved) throw new Error("Give the ability the check uses, a skill, or both");
+	return resolved;
+}
+
+/**
+ * Roll one d20 test against `dc`. A creature that automatically fails rolls no dice; without
+ * a DC, `success` is null and only the total matters (e.g. a contested check).
+ */
+export function rollD20Test(test: D20Test, dc: number | undefined, rng: RandomSource) {
+	const rollMode = rollModeFor(test.effects);
+	if (test.effects.autoFail) {
+		return {
+			...test,
+			rollMode,
+			d20Rolls: [] as number[],
+			naturalRoll: null,
+			total: null,
+			success: false as boolean | null,
+		};
+	}
+	const { d20Rolls, naturalRoll } = rollD20(rng, rollMode);
+	const total = naturalRoll + test.modifier;
+	return {
+		...test,
+		rollMode,
+		d20Rolls,
+		naturalRoll: naturalRoll as number | null,
+		total: total as number | null,
+		success: dc === undefined ? null : total >= dc,
+	};
+}
+
+export type D20TestResult = ReturnType<typeof rollD20Test>;
+
+function describeRoll(result: D20TestResult) {
+	if (result.total === null) return `automatically fails (${result.effects.autoFail})`;
+	const mode =
+		result.rollMode === "normal" ? "" : ` with ${result.rollMode} [${result.d20Rolls.join(", ")}]`;
+	return `rolls ${result.total} (${result.naturalRoll}${signed(result.modifier)})${mode}`;
+}
+
+export interface SavingThrowRequest {
+	ability: AbilityName;
+	dc: number;
+	/** What forces the save, e.g. "Fireball" */
+	source?: string;
+	damageDice?: string;
+	damageType?: string;
+	/** Damage on a successful save: half (most spells and breath weapons) or none */
+	onSuccess?: "half" | "none";
+}
+
+function damageOnSave(total: number, saved: boolean, onSuccess: "half" | "none") {
+	if (!saved) return total;
+	return onSuccess === "half" ? Math.floor(total / 2) : 0;
+}
+
+/**
+ * Parse a save's shared damage dice, throwing on a malformed expression. Tools call it before
+ * claiming a roll sequence, so a rejected save leaves no gap in the verifiable log.
+ */
+export function parseSaveDamage(damageDice: string | undefined) {
+	return damageDice ? parseDiceExpression(damageDice) : undefined;
+}
+
+/**
+ * Roll a saving throw for each target against one DC. Damage is rolled once and shared, as
+ * for an area spell: full on a failed save, half (rounded down) or none on a success.
+ */
+export function resolveSavingThrows(
+	tests: D20Test[],
+	request: SavingThrowRequest,
+	rng: RandomSource,
+) {
+	const { ability, dc, source, damageDice, damageType } = request;
+	const onSuccess = request.onSuccess ?? "half";
+	// Parse up front so a malformed damage expression fails before any die is rolled
+	const damageExpression = parseSaveDamage(damageDice);
+
+	const saves = tests.map((test) => rollD20Test(test, dc, rng));
+	const rolled = damageExpression ? evaluateDiceExpression(damageExpression, { rng }) : undefined;
+	const damage = rolled
+		? {
+				total: Math.max(0, rolled.total),
+				rolls: flattenDiceResult(rolled).rolls,
+				breakdown: rolled.terms,
+			}
+		: null;
+
+	const results = saves.map((save) => {
+		// Legendary Resistance, when the DM spends it, turns a failure into a success
+		const resisted = save.success === false && save.legendaryResistance === true;
+		const success = resisted || save.success;
+		const rolledDamage = damage ? damageOnSave(damage.total, success === true, onSuccess) : 0;
+		// A save's damage isn't an attack, so only plain type defenses apply
+		const adjusted =
+			damageType && save.defenses
+				? adjustDamage(save.name, [{ damageType, total: rolledDamage }], save.defenses, {
+						attack: false,
+					})
+				: { total: rolledDamage, notes: [] };
+		return {
+			...save,
+			success,
+			legendaryResistance: resisted,
+			damage: adjusted.total,
+			damageAdjustment: adjusted.notes[0] ?? null,
+		};
+	});
+
+	const damageText = damageType ? ` ${damageType} damage` : " damage";
+	const header = `DC ${dc} ${capitalize(ability)} saving throw${source ? ` against ${source}` : ""}`;
+	const lines = results.map((result) => {
+		const outcome = result.legendaryResistance
+			? " — fails, but uses Legendary Resistance to succeed"
+			: result.total === null
+				? ""
+				: result.success
+					? " — succeeds"
+					: " — fails";
+		const adjustment = result.damageAdjustment ? ` (${result.damageAdjustment})` : "";
+		const taken = damage ? `, taking ${result.damage}${damageText}${adjustment}` : "";
+		return `${result.name} ${describeRoll(result)}${outcome}${taken}`;
+	});
+	return {
+		ability,
+		dc,
+		source,
+		damageType,
+		onSuccess,
+		damage,
+		results,
+		narrative: [
+			rolled
+				? `${header} — ${damage?.total}${damageText} (${formatDiceBreakdown(rolled)})`
+				: header,
+			...lines,
+		].join("\n"),
+	};
+}
+
+export type SavingThrowResult = ReturnType<typeof resolveSavingThrows>;
+
+/** Roll an ability check, optionally against a DC, and describe it. */
+export function resolveAbilityCheck(
+	test: D20Test,
+	request: { ability: AbilityName; skill?: string; dc?: number },
+	rng: RandomSource,
+) {
+	const { ability, skill, dc } = request;
+	const check = rollD20Test(test, dc, rng);
+	const name = `${capitalize(ability)}${skill ? ` (${capitalize(skill)})` : ""} check`;
+	const verdict = check.success === null ? "" : check.success ? " — success!" : " — failure.";
+	return {
+		...check,
+		ability,
+		skill,
+		dc,
+		narrative: `🎲 ${test.name} ${describeRoll(check)} on a ${name}${dc === undefined ? "" : ` vs DC ${dc}`}${verdict}`,
+	};
+}
@@ -0,0 +1,742 @@
+import { ordinal } from "../compendium/classes.js";
+import { describeSlots, findSpell, type SpellDefinition } from "../compendium/spells.js";
+import type { Creature, CreatureSpellcasting, GridPosition } from "../schemas/index.js";
+import { type AttackRequest, type AttackResult, resolveAttack } from "./attack.js";
+import { aimArea, creaturesInArea, describeArea, spellAttackPositioning } from "./battlefield.js";
+import {
+	applyCondition,
+	applyDamage,
+	applyHealing,
+	type CombatState,
+	findCombatant,
+	type HitPointChange,
+	logEntry,
+} from "./combat.js";
+import {
+	type AttackConditionEffects,
+	attackConditionEffects,
+	describeCondition,
+	incapacitatedBy,
+} from "./conditions.js";
+import { adjustDamage, type DamageDefenses, damageDefenses, NO_DAMAGE_DEFENSES } from "./damage.js";
+import {
+	type DiceTermResult,
+	evaluateDiceExpression,
+	flattenDiceResult,
+	formatDiceBreakdown,
+	parseDiceExpression,
+} from "./dice.js";
+import { spendLegendaryResistance } from "./legendary.js";
+import {
+	againstShield,
+	type CounterspellResult,
+	planCounterspell,
+	rollCounterspell,
+	spendCounterspell,
+} from "./reactions.js";
+import type { RandomSource } from "./rng.js";
+import {
+	type D20Test,
+	resolveSavingThrows,
+	type SavingThrowRequest,
+	type SavingThrowResult,
+	savingThrowTest,
+} from "./saving-throws.js";
+
+export interface CastSpellRequest {
+	caster: string;
+	spell: string;
+	/** Slot level to cast with; defaults to the lowest slot that can cast the spell */
+	slotLevel?: number;
+	/** Target names; rays and darts go to them in turn. Healing and utility spells default to the caster */
+	targets?: string[];
+	/** Feet to the targets, for ranged spell attacks off the battlefield (default 30) */
+	distance?: number;
+	/** Aim an area spell on the battlefield instead of naming targets */
+	area?: { origin?: GridPosition; toward?: GridPosition };
+	/** Who counters the spell with Counterspell, or "none"; by default an enemy caster that can */
+	counterspell?: string;
+	/** Targets that spend Legendary Resistance if they fail the spell's save */
+	legendaryResistance?: string[];
+}
+
+/**
+ * Everything a cast rolls dice for, fixed from the combat state before any die is thrown, so a
+ * replay can re-roll it without that state.
+ */
+export type SpellPlan = {
+	caster: string;
+	spell: string;
+	slotLevel: number | null;
+} & (
+	| {
+			kind: "attack";
+			attacks: Array<{
+				request: AttackRequest;
+				effects: AttackConditionEffects;
+				defenses: DamageDefenses;
+			}>;
+	  }
+	| {
+			kind: "auto-hit";
+			damageDice: string;
+			damageType: string;
+			darts: string[];
+			defenses: Record<string, DamageDefenses>;
+	  }
+	| { kind: "save"; tests: D20Test[]; request: SavingThrowRequest }
+	| { kind: "healing"; dice: string; targets: string[] }
+	| { kind: "utility"; targets: string[] }
+);
+
+/** Add `extra` dice `times` times, merging into the base when the dice match ("8d6" + 2×"1d6" → "10d6"). */
+function addDice(base: string, extra: string | undefined, times: number) {
+	if (!extra || times <= 0) return base;
+	const baseDice = /^(\d+)d(\d+)$/.exec(base);
+	const extraDice = /^(\d+)d(\d+)$/.exec(extra);
+	if (baseDice && extraDice && baseDice[2] === extraDice[2]) {
+		return `${Number(baseDice[1]) + Number(extraDice[1]) * times}d${baseDice[2]}`;
+	}
+	return [base, ...Array<string>(times).fill(extra)].join("+");
+}
+
+function withModifier(dice: string, modifier: number) {
+	if (modifier === 0) return dice;
+	return modifier > 0 ? `${dice}+${modifier}` : `${dice}${modifier}`;
+}
+
+function modifierOf(score: number) {
+	return Math.floor((score - 10) / 2);
+}
+
+/** The slot a cast uses: the requested level, or the lowest one left that can cast the spell. */
+function chooseSlot(
+	caster: Creature,
+	spellcasting: CreatureSpellcasting,
+	spell: SpellDefinition,
+	requested: number | undefined,
+) {
+	if (spell.level === 0) return null;
+	if (requested !== undefined && requested < spell.level) {
+		throw new Error(
+			`${spell.name} is a ${ordinal(spell.level)}-level spell and can't be cast with a ${ordinal(requested)}-level slot`,
+		);
+	}
+	const slot = spellcasting.slots
+		.filter(
+			(s) =>
+				s.remaining > 0 &&
+				(requested === undefined ? s.level >= spell.level : s.level === requested),
+		)
+		.sort((a, b) => a.level - b.level)[0];
+	if (!slot) {
+		const wanted = requested ?? spell.level;
+		throw new Error(
+			`${caster.name} has no ${ordinal(wanted)}-level${requested === undefined ? " or higher" : ""} spell slots left (slots: ${describeSlots(spellcasting.slots)})`,
+		);
+	}
+	return slot.level;
+}
+
+/** Targets in order, each resolved to its tracked combatant. */
+function resolveTargets(state: CombatState, names: string[], allowRepeats: boolean) {
+	const targets = names.map((name) => state.combatants[findCombatant(state, name)]);
+	if (!allowRepeats) {
+		const seen = new Set<string>();
+		for (const target of targets) {
+			if (seen.has(target.name)) throw new Error(`${target.name} is listed more than once`);
+			seen.add(target.name);
+		}
+	}
+	return targets;
+}
+
+/**
+ * Everyone a spell's area catches once it is aimed on the battlefield. Spells with a range of
+ * "Self" start from the caster and leave it out.
+ */
+function areaTargets(
+	state: CombatState,
+	caster: Creature,
+	spell: SpellDefinition,
+	request: CastSpellRequest,
+) {
+	if (!spell.area) throw new Error(`${spell.name} has no area of effect — name its targets`);
+	if (request.targets && request.targets.length > 0) {
+		throw new Error(`Give ${spell.name} an area or targets, not both`);
+	}
+	const self = spell.range.startsWith("Self") ? caster.name : undefined;
+	const area = aimArea(state, { ...spell.area, ...request.area }, self);
+	const caught = creaturesInArea(state, area, self);
+	if (caught.length === 0) {
+		throw new Error(`${spell.name}'s ${describeArea(area)} catches no combatants`);
+	}
+	return caught.map((target) => target.name);
+}
+
+/**
+ * Check a cast against the caster's spell list, slots and conditions, and fix every roll it
+ * needs. Throws without touching the state when the cast isn't possible.
+ */
+export function planSpell(state: CombatState, request: CastSpellRequest) {
+	const caster = state.combatants[findCombatant(state, request.caster)];
+	if (!caster.isAlive) throw new Error(`${caster.name} is down and can't cast spells`);
+	const incapacitated = incapacitatedBy(caster);
+	if (incapacitated) throw new Error(`${caster.name} is ${incapacitated} and can't cast spells`);
+
+	const { spellcasting } = caster;
+	if (!spellcasting) {
+		throw new Error(
+			`${caster.name} has no spellcasting — use resolve-attack or resolve-saving-throw for its magical attacks`,
+		);
+	}
+	const found = findSpell(request.spell);
+	if (!found || !spellcasting.spells.includes(found.slug)) {
+		const known = spellcasting.spells.map((slug) => findSpell(slug)?.spell.name ?? slug);
+		throw new Error(
+			`${caster.name} can't cast ${request.spell} (spells: ${known.join(", ") || "none"})`,
+		);
+	}
+	const { slug, spell } = found;
+	if (slug === "shield" || slug === "counterspell") {
+		throw new Error(
+			`${spell.name} is cast as a reaction — ${
+				slug === "shield"
+					? "resolve-attack casts it when its caster is hit"
+					: "cast-spell casts it against an enemy's spell"
+			}`,
+		);
+	}
+	const slotLevel = chooseSlot(caster, spellcasting, spell, request.slotLevel);
+
+	const steps =
+		slotLevel === null ? 0 : Math.floor((slotLevel - spell.level) / (spell.upcast?.every ?? 1));
+	const tier = 1 + [5, 11, 17].filter((threshold) => spellcasting.casterLevel >= threshold).length;
+	const extraDice = spell.cantripScaling === "dice" ? tier - 1 : 0;
+	const extraAttacks =
+		(spell.upcast?.attacks ?? 0) * steps + (spell.cantripScaling === "attacks" ? tier - 1 : 0);
+	const modifier = modifierOf(caster.abilityScores[spellcasting.ability]);
+	const base = { caster: caster.name, spell: spell.name, slotLevel };
+	const { effect } = spell;
+
+	const names = request.area ? areaTargets(state, caster, spell, request) : (request.targets ?? []);
+	const maxTargets =
+		"maxTargets" in effect && effect.maxTargets !== undefined
+			? effect.maxTargets + (spell.upcast?.targets ?? 0) * steps
+			: undefined;
+	if (maxTargets !== undefined && names.length > maxTargets) {
+		throw new Error(
+			`${spell.name}${slotLevel ? ` at ${ordinal(slotLevel)} level` : ""} affects at most ${maxTargets} target${maxTargets === 1 ? "" : "s"}`,
+		);
+	}
+	if (
+		names.length === 0 &&
+		(effect.kind === "attack" || effect.kind === "auto-hit" || effect.kind === "save")
+	) {
+		throw new Error(`${spell.name} needs at least one target`);
+	}
+
+	let plan: SpellPlan;
+	switch (effect.kind) {
+		case "attack": {
+			const count = (effect.attacks ?? 1) + extraAttacks;
+			if (names.length > count) {
+				throw new Error(
+					`${spell.name} makes ${count} attack${count === 1 ? "" : "s"} — give at most ${count} targets`,
+				);
+			}
+			let damageDice = addDice(effect.damageDice, effect.damageDice, extraDice);
+			damageDice = addDice(damageDice, spell.upcast?.dice, steps);
+			if (effect.addModifier) damageDice = withModifier(damageDice, modifier);
+			const targets = resolveTargets(state, names, true);
+			// The grid gives each target's distance when it places caster and target, as for
+			// resolve-attack: out of range refuses the cast, an adjacent enemy gives disadvantage
+			const positioned = targets.map((target) => {
+				const positioning = spellAttackPositioning(state, caster.name, target.name, {
+					...spell,
+					reach: effect.reach,
+				});
+				const distance =
+					positioning?.distance ?? (effect.reach === "melee" ? 5 : (request.distance ?? 30));
+				const effects = attackConditionEffects(caster, target, distance);
+				effects.disadvantage.push(...(positioning?.disadvantage ?? []));
+				return effects;
+			});
+			plan = {
+				...base,
+				kind: "attack",
+				attacks: Array.from({ length: count }, (_, i) => {
+					const target = targets[i % targets.length];
+					const effects = positioned[i % targets.length];
+					const request = {
+						attackerName: caster.name,
+						targetName: target.name,
+						toHitBonus: spellcasting.attackBonus,
+						targetAC: target.armorClass,
+						damageDice,
+						damageType: effect.damageType,
+						magical: true,
+					};
+					return {
+						request: target.shielded ? againstShield(request) : request,
+						effects,
+						defenses: damageDefenses(target),
+					};
+				}),
+			};
+			break;
+		}
+		case "auto-hit": {
+			const count = effect.darts + extraAttacks;
+			if (names.length > count) {
+				throw new Error(`${spell.name} fires ${count} darts — give at most ${count} targets`);
+			}
+			const targets = resolveTargets(state, names, true);
+			plan = {
+				...base,
+				kind: "auto-hit",
+				damageDice: effect.damageDice,
+				damageType: effect.damageType,
+				darts: Array.from({ length: count }, (_, i) => targets[i % targets.length].name),
+				defenses: Object.fromEntries(
+					targets.map((target) => [target.name, damageDefenses(target)]),
+				),
+			};
+			break;
+		}
+		case "save": {
+			const targets = resolveTargets(state, names, false);
+			const damageDice = effect.damageDice
+				? addDice(
+						addDice(effect.damageDice, effect.damageDice, extraDice),
+						spell.upcast?.dice,
+						steps,
+					)
+				: undefined;
+			plan = {
+				...base,
+				kind: "save",
+				tests: targets.map((target) =>
+					savingThrowTest(target, effect.ability, {
+						legendaryResistance: request.legendaryResistance?.some(
+							(name) => name.trim().toLowerCase() === target.name.toLowerCase(),
+						),
+					}),
+				),
+				request: {
+					ability: effect.ability,
+					dc: spellcasting.saveDC,
+					source: spell.name,
+					damageDice,
+					damageType: effect.damageType,
+					onSuccess: effect.onSuccess,
+				},
+			};
+			break;
+		}
+		case "healing": {
+			const targets = resolveTargets(state, names.length > 0 ? names : [caster.name], false);
+			const dead = targets.find((target) => target.type === "player" && !target.isAlive);
+			if (dead) throw new Error(`${dead.name} is dead — healing can't bring them back`);
+			plan = {
+				...base,
+				kind: "healing",
+				dice: withModifier(addDice(effect.dice, spell.upcast?.dice, steps), modifier),
+				targets: targets.map((target) => target.name),
+			};
+			break;
+		}
+		case "utility": {
+			const targets = resolveTargets(state, names.length > 0 ? names : [caster.name], false);
+			plan = { ...base, kind: "utility", targets: targets.map((target) => target.name) };
+			break;
+		}
+	}
+	return { caster, slug, spell, slotLevel, plan };
+}
+
+function castHeader(plan: SpellPlan) {
+	return `✨ ${plan.caster} casts ${plan.spell}${plan.slotLevel ? ` with a ${ordinal(plan.slotLevel)}-level slot` : ""}`;
+}
+
+/** What a countered cast rolls: nothing past the Counterspell. */
+export function counteredSpell(plan: SpellPlan, counterspell: CounterspellResult) {
+	return {
+		attacks: [] as SpellOutcome["attacks"],
+		saves: null,
+		roll: null,
+		dartHits: [] as SpellOutcome["dartHits"],
+		narrative: `${castHeader(plan)}\n${counterspell.narrative}`,
+	};
+}
+
+/**
+ * Roll everything a planned cast calls for. Depends only on the plan and the dice, so the
+ * verifier can re-run it from a logged plan.
+ */
+export function rollSpell(plan: SpellPlan, rng: RandomSource) {
+	const header = castHeader(plan);
+	let attacks: Array<AttackResult & { target: string }> = [];
+	let saves: SavingThrowResult | null = null;
+	let roll: { total: number; rolls: number[]; breakdown: DiceTermResult[] } | null = null;
+	const dartHits: Array<{ target: string; damage: number; adjustment: string | null }> = [];
+	const lines: string[] = [];
+
+	switch (plan.kind) {
+		case "attack":
+			attacks = plan.attacks.map(({ request, effects, defenses }) => ({
+				target: request.targetName,
+				...resolveAttack(request, rng, effects, defenses),
+			}));
+			lines.push(...attacks.map((attack) => attack.narrative));
+			break;
+		case "save":
+			saves = resolveSavingThrows(plan.tests, plan.request, rng);
+			lines.push(saves.narrative);
+			break;
+		case "auto-hit":
+		case "healing": {
+			const rolled = evaluateDiceExpression(
+				parseDiceExpression(plan.kind === "healing" ? plan.dice : plan.damageDice),
+				{ rng },
+			);
+			roll = {
+				total: Math.max(0, rolled.total),
+				rolls: flattenDiceResult(rolled).rolls,
+				breakdown: rolled.terms,
+			};
+			if (plan.kind === "healing") {
+				lines.push(
+					`${plan.targets.join(", ")} regain${plan.targets.length === 1 ? "s" : ""} ${roll.total} HP (${formatDiceBreakdown(rolled)})`,
+				);
+			} else {
+				const hits = new Map<string, number>();
+				for (const target of plan.darts) hits.set(target, (hits.get(target) ?? 0) + 1);
+				const spread = [...hits].map(([target, count]) => `${target} ×${count}`).join(", ");
+				lines.push(
+					`${plan.darts.length} darts hit for ${roll.total} ${plan.damageType} damage each (${formatDiceBreakdown(rolled)}): ${spread}`,
+				);
+				for (const [target, count] of hits) {
+					const adjusted = adjustDamage(
+						target,
+						[{ damageType: plan.damageType, total: roll.total * count }],
+						plan.defenses[target] ?? NO_DAMAGE_DEFENSES,
+						{ attack: false },
+					);
+					dartHits.push({ target, damage: adjusted.total, adjustment: adjusted.notes[0] ?? null });
+					lines.push(...adjusted.notes);
+				}
+			}
+			break;
+		}
+		case "utility":
+			if (plan.targets.length > 1 || plan.targets[0] !== plan.caster) {
+				lines.push(`Targets: ${plan.targets.join(", ")}`);
+			}
+			break;
+	}
+	return { attacks, saves, roll, dartHits, narrative: [header, ...lines].join("\n") };
+}
+
+export type SpellOutcome = ReturnType<typeof rollSpell>;
+
+/** Damage each target takes from a rolled cast. */
+function damageByTarget(plan: SpellPlan, outcome: SpellOutcome) {
+	const damage = new Map<string, { amount: number; critical: boolean }>();
+	const add = (name: string, amount: number, critical = false) => {
+		const dealt = damage.get(name) ?? { amount: 0, critical: false };
+		damage.set(name, { amount: dealt.amount + amount, critical: dealt.critical || critical });
+	};
+	if (plan.kind === "attack") {
+		for (const attack of outcome.attacks) add(attack.target, attack.totalDamage, attack.isCritical);
+	} else if (plan.kind === "auto-hit") {
+		for (const hit of outcome.dartHits) add(hit.target, hit.damage);
+	} else if (plan.kind === "save" && outcome.saves) {
+		for (const result of outcome.saves.results) add(result.name, result.damage);
+	}
+	return damage;
+}
+
+function updateCombatant(
+	state: CombatState,
+	name: string,
+	change: (creature: Creature) => Creature,
+) {
+	const index = findCombatant(state, name);
+	const combatants = [...state.combatants];
+	combatants[index] = change(combatants[index]);
+	return { ...state, combatants };
+}
+
+/**
+ * Drop the concentration spell a combatant is maintaining, ending the conditions it imposed.
+ * Returns the state unchanged (and no message) when it isn't concentrating.
+ */
+export function endConcentration(state: CombatState, name: string, now = new Date()) {
+	const caster = state.combatants[findCombatant(state, name)];
+	if (!caster.concentration) return { state, message: null };
+	const { spell, targets } = caster.concentration;
+
+	let next = updateCombatant(state, caster.name, ({ concentration: _ended, ...rest }) => rest);
+	const log = [logEntry(state.round, `${caster.name} stops concentrating on ${spell}`, now)];
+	for (const target of next.combatants.filter((c) => targets.includes(c.name))) {
+		const ending = target.conditions.filter((condition) => condition.source === spell);
+		if (ending.length === 0) continue;
+		next = updateCombatant(next, target.name, (creature) => ({
+			...creature,
+			conditions: creature.conditions.filter((condition) => condition.source !== spell),
+		}));
+		for (const condition of ending) {
+			log.push(logEntry(state.round, `${target.name} is no longer ${condition.name}`, now));
+		}
+	}
+	return {
+		state: { ...next, log: [...next.log, ...log] },
+		message: log.map((entry) => entry.message).join("; "),
+	};
+}
+
+/** The Constitution save to keep concentrating: DC 10 or half the damage, whichever is higher. */
+export function rollConcentrationSave(
+	test: D20Test,
+	spell: string,
+	damage: number,
+	rng: RandomSource,
+) {
+	const dc = Math.max(10, Math.floor(damage / 2));
+	return resolveSavingThrows(
+		[test],
+		{ ability: "constitution", dc, source: `concentration on ${spell}` },
+		rng,
+	);
+}
+
+export interface ConcentrationCheck {
+	name: string;
+	spell: string;
+	damage: number;
+	/** The Constitution save, or null when the damage dropped the creature to 0 HP */
+	save: SavingThrowResult | null;
+	maintained: boolean;
+	/** Each target of the spell that lost conditions, with the ones it has left */
+	ended: Array<{ target: string; conditions: string[] }>;
+	narrative: string;
+}
+
+/**
+ * Make a concentration check for each hit of damage a concentrating creature just took: a
+ * failed Constitution save ends the spell and the conditions it imposed, and dropping to 0 HP
+ * ends it without a save. `rng` is only called once a save is rolled.
+ */
+export function checkConcentration(
+	state: CombatState,
+	changes: HitPointChange[],
+	rng: () => RandomSource,
+	now = new Date(),
+) {
+	let next = state;
+	let dice: RandomSource | undefined;
+	const roll = () => (dice ??= rng());
+	const checks: ConcentrationCheck[] = [];
+	for (const change of changes) {
+		if (change.kind !== "damage" || change.amount === 0) continue;
+		const creature = next.combatants[findCombatant(next, change.name)];
+		if (!creature.concentration) continue;
+		const { spell, targets } = creature.concentration;
+
+		const save =
+			creature.hitPoints === 0
+				? null
+				: rollConcentrationSave(
+						savingThrowTest(creature, "constitution"),
+						spell,
+						change.amount,
+						roll(),
+					);
+		const maintained = save?.results[0].success === true;
+		const lines = [save ? save.narrative : `${creature.name} drops to 0 HP`];
+		const ended: ConcentrationCheck["ended"] = [];
+		if (maintained) {
+			const message = `${creature.name} keeps concentrating on ${spell}`;
+			next = { ...next, log: [...next.log, logEntry(next.round, message, now)] };
+			lines.push(message);
+		} else {
+			const before = next;
+			const stopped = endConcentration(next, creature.name, now);
+			next = stopped.state;
+			if (stopped.message) lines.push(stopped.message);
+			next.combatants.forEach((target, index) => {
+				if (!targets.includes(target.name)) return;
+				if (target.conditions.length === before.combatants[index].conditions.length) return;
+				ended.push({ target: target.name, conditions: target.conditions.map(describeCondition) });
+			});
+		}
+		checks.push({
+			name: creature.name,
+			spell,
+			damage: change.amount,
+			save,
+			maintained,
+			ended,
+			narrative: lines.join("\n"),
+		});
+	}
+	return { state: next, checks };
+}
+
+function noDice(): number {
+	throw new Error("This spell rolls no dice");
+}
+
+/**
+ * Cast a spell in the tracked fight: spend the slot, roll it, apply its damage, healing and
+ * conditions, and move the caster's concentration to it. `rng` is only called once the cast
+ * has been checked, so a refused cast draws no dice.
+ */
+export function castSpell(
+	state: CombatState,
+	request: CastSpellRequest,
+	rng: () => RandomSource,
+	now = new Date(),
+) {
+	const { caster, spell, slotLevel, plan } = planSpell(state, request);
+	const counter = planCounterspell(state, caster.name, slotLevel ?? 0, request.counterspell);
+	// Utility spells roll nothing, so they don't take a roll from the arena's sequence; a
+	// Counterspell's check before the spell and the concentration checks after its damage draw
+	// from the same roll as the spell
+	let dice: RandomSource | undefined;
+	const roll = () => (dice ??= rng());
+	const counterspell =
+		counter && rollCounterspell(counter, spell.name, counter.test ? roll() : noDice);
+
+	const slotNote = slotLevel ? ` (${ordinal(slotLevel)}-level slot)` : "";
+	let next: CombatState = updateCombatant(state, caster.name, (creature) => ({
+		...creature,
+		spellcasting: creature.spellcasting && {
+			...creature.spellcasting,
+			slots: creature.spellcasting.slots.map((slot) =>
+				slot.level === slotLevel ? { ...slot, remaining: slot.remaining - 1 } : slot,
+			),
+		},
+	}));
+	next = {
+		...next,
+		log: [...next.log, logEntry(state.round, `${caster.name} casts ${spell.name}${slotNote}`, now)],
+	};
+
+	const notes: string[] = [];
+	if (counterspell) {
+		next = spendCounterspell(next, counterspell, now);
+		if (counterspell.countered) {
+			const updated = next.combatants[findCombatant(next, caster.name)];
+			return {
+				state: next,
+				result: {
+					plan,
+					...counteredSpell(plan, counterspell),
+					counterspell,
+					level: spell.level,
+					concentration: spell.concentration,
+					notes,
+					hpChanges: [],
+					concentrationChecks: [],
+					slots: describeSlots(updated.spellcasting?.slots ?? []),
+				},
+			};
+		}
+		notes.push(counterspell.narrative);
+	}
+	const outcome = rollSpell(plan, plan.kind === "utility" ? noDice : roll());
+
+	if (spell.concentration) {
+		const ended = endConcentration(next, caster.name, now);
+		next = ended.state;
+		if (ended.message) notes.push(ended.message);
+	}
+
+	if (outcome.saves) next = spendLegendaryResistance(next, outcome.saves.results, now);
+
+	const hpChanges: HitPointChange[] = [];
+	for (const [name, { amount, critical }] of damageByTarget(plan, outcome)) {
+		if (amount === 0) continue;
+		const applied = applyDamage(next, name, amount, { critical }, now);
+		hpChanges.push(applied.change);
+		next = applied.state;
+	}
+	const checked = checkConcentration(next, hpChanges, roll, now);
+	next = checked.state;
+	if (plan.kind === "healing" && outcome.roll) {
+		for (const name of plan.targets) {
+			const applied = applyHealing(next, name, outcome.roll.total, {}, now);
+			hpChanges.push(applied.change);
+			next = applied.state;
+		}
+	}
+
+	const { effect } = spell;
+	const conditionTargets =
+		effect.kind === "save" && effect.condition && outcome.saves
+			? outcome.saves.results.filter((result) => !result.success).map((result) => result.name)
+			: effect.kind === "utility" && effect.condition && plan.kind === "utility"
+				? plan.targets
+				: [];
+	const conditionName =
+		effect.kind === "save"
+			? effect.condition?.name
+			: effect.kind === "utility"
+				? effect.condition
+				: undefined;
+	if (conditionName) {
+		for (const name of conditionTargets) {
+			const applied = applyCondition(
+				next,
+				name,
+				{
+					name: conditionName,
+					source: spell.name,
+					duration:
+						effect.kind === "save" && effect.condition?.repeatSave
+							? {
+									type: "until-save",
+									ability: effect.ability,
+									dc: caster.spellcasting?.saveDC ?? 10,
+								}
+							: { type: "until-removed" },
+				},
+				now,
+			);
+			notes.push(applied.message);
+			next = applied.state;
+		}
+	}
+
+	if (spell.concentration) {
+		const targets =
+			plan.kind === "save"
+				? plan.tests.map((test) => test.name)
+				: plan.kind === "utility" || plan.kind === "healing"
+					? plan.targets
+					: [];
+		next = updateCombatant(next, caster.name, (creature) => ({
+			...creature,
+			concentration: { spell: spell.name, targets },
+		}));
+		notes.push(`${caster.name} is concentrating on ${spell.name}`);
+	}
+
+	const updated = next.combatants[findCombatant(next, caster.name)];
+	return {
+		state: next,
+		result: {
+			plan,
+			...outcome,
+			counterspell,
+			level: spell.level,
+			concentration: spell.concentration,
+			notes,
+			hpChanges,
+			concentrationChecks: checked.checks,
+			slots: describeSlots(updated.spellcasting?.slots ?? []),
+		},
+	};
+}
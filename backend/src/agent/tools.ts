@@ -1,23 +1,147 @@
 import { createTool } from "@mastra/core/tools";
 import { z } from "zod";
+import { findMonster } from "../compendium/monsters.js";
+import { monsterToStatBlock } from "../compendium/stat-block.js";
+import { findSavedCreature } from "../library/creatures.js";
+import {
+	abilityNameSchema,
+	areaShapeSchema,
+	battlefieldSchema,
+	buildCharacterRequestSchema,
+	challengeRatingValueSchema,
+	characterSheetSchema,
+	conditionDurationSchema,
+	conditionNameSchema,
+	creatureSchema,
+	creatureSizeSchema,
+	deathSavesSchema,
+	encounterMonsterSchema,
+	encounterPartyMemberSchema,
+	featureSchema,
+	gridPositionSchema,
+	legendaryActionSchema,
+	monsterSchema,
+} from "../schemas/index.js";
+import {
+	ATTACK_SITUATIONS,
+	type AttackRequest,
+	parseAttackDamage,
+	resolveAttack,
+} from "./attack.js";
+import {
+	aimArea,
+	attackPositioning,
+	creaturesInArea,
+	describeArea,
+	describePosition,
+	moveAlong,
+	planMove,
+	setBattlefield,
+	spendReaction,
+} from "./battlefield.js";
+import { generateStatBlock } from "./challenge-rating.js";
+import { buildCharacter } from "./characters.js";
+import {
+	applyCondition,
+	applyDamage,
+	applyHealing,
+	type CombatState,
+	combatOutcome,
+	findCombatant,
+	type HitPointChange,
+	nextTurn,
+	removeCondition,
+	rollDeathSave,
+	rollInitiative,
+	startCombat,
+	summarizeCombat,
+} from "./combat.js";
+import { attackConditionEffects, describeCondition, type SaveDue, savesDue } from "./conditions.js";
+import {
+	beginRolls,
+	createArenaContext,
+	getCombatTracker,
+	getLibraryOwner,
+	getRandomSource,
+	registerCombatant,
+} from "./context.js";
+import { damageDefenses, NO_DAMAGE_DEFENSES } from "./damage.js";
+import {
+	type DiceTermResult,
+	evaluateDiceExpression,
+	flattenDiceResult,
+	parseDiceExpression,
+} from "./dice.js";
+import { assessEncounterRequest } from "./encounter.js";
+import {
+	rollRecharge,
+	spendLegendaryResistance,
+	useLairAction,
+	useLegendaryAction,
+	useRechargeAbility,
+} from "./legendary.js";
+import { describeDiceOdds } from "./probability.js";
+import {
+	ATTACK_REACTIONS,
+	againstShield,
+	checkAttackReaction,
+	chooseAttackReaction,
+	isMeleeAttack,
+	reactToAttack,
+	spendAttackReaction,
+} from "./reactions.js";
+import type { RandomSource } from "./rng.js";
+import {
+	abilityCheckTest,
+	checkAbility,
+	parseSaveDamage,
+	resolveAbilityCheck,
+	resolveSavingThrows,
+	type SavingThrowResult,
+	savingThrowTest,
+} from "./saving-throws.js";
+import { type ConcentrationCheck, castSpell, checkConcentration } from "./spells.js";
+
+const diceTermResultSchema: z.ZodType<DiceTermResult> = z.lazy(() =>
+	z.object({
+		kind: z.enum(["dice", "constant", "group"]),
+		notation: z.string(),
+		sign: z.union([z.literal(1), z.literal(-1)]),
+		rolls: z.array(z.number()),
+		kept: z.array(z.number()),
+		rerolled: z.array(z.number()),
+		subtotal: z.number(),
+		total: z.number(),
+		groups: z
+			.array(
+				z.object({ notation: z.string(), terms: z.array(diceTermResultSchema), total: z.number() }),
+			)
+			.optional(),
+	}),
+);
 
 /**
- * Roll dice in D&D notation. Supports:
+ * Roll dice in D&D notation. Supports full expressions:
  * - Basic: "2d6+3", "1d20", "4d8-1"
+ * - Multiple terms: "1d8+2d6+3" (sneak attack), "1d4+1d4-1"
  * - Keep highest: "2d20kh1+5" (advantage)
  * - Keep lowest: "2d20kl1+5" (disadvantage)
  * - Drop lowest: "4d6dl1" (stat rolling)
  * - Drop highest: "4d6dh1"
+ * - Exploding: "3d6!"
+ * - Reroll once at or below: "2d6r2" (Great Weapon Fighting)
+ * - Minimum / maximum face: "1d20min10" (Reliable Talent), "1d6max4"
+ * - Grouped keep/drop: "{1d20+5, 1d20+8}kh1"
  */
 export const rollDiceTool = createTool({
 	id: "roll-dice",
 	description:
-		"Roll dice using D&D notation. Supports basic ('2d6+3', '1d20'), advantage/disadvantage ('2d20kh1+5', '2d20kl1'), and drop ('4d6dl1'). Returns individual rolls, kept rolls, and total.",
+		"Roll dice using D&D notation. Supports basic ('2d6+3', '1d20'), multiple terms ('1d8+2d6+3'), advantage/disadvantage ('2d20kh1+5', '2d20kl1'), drop ('4d6dl1'), exploding ('3d6!'), reroll-below ('2d6r2'), min/max faces ('1d20min10') and groups ('{1d20+5, 1d20+8}kh1'). Returns individual rolls, kept rolls, a per-term breakdown, and total.",
 	inputSchema: z.object({
 		notation: z
 			.string()
 			.describe(
-				"Dice notation, e.g. '2d6+3', '1d20', '2d20kh1+5' (advantage), '2d20kl1' (disadvantage), '4d6dl1' (drop lowest)",
+				"Dice notation, e.g. '2d6+3', '1d8+2d6+3', '2d20kh1+5' (advantage), '2d20kl1' (disadvantage), '4d6dl1' (drop lowest), '3d6!' (exploding), '2d6r2' (reroll 1s and 2s)",
 			),
 		purpose: z.string().optional().describe("What the roll is for, e.g. 'attack roll', 'damage'"),
 	}),
@@ -27,21 +151,27 @@ export const rollDiceTool = createTool({
 		kept: z.array(z.number()),
 		modifier: z.number(),
 		total: z.number(),
+		breakdown: z.array(diceTermResultSchema),
 		purpose: z.string().optional(),
+		rollSequence: z.number().optional(),
 	}),
-	execute: async (input) => {
+	execute: async (input, context) => {
 		const { notation, purpose } = input;
-		const parsed = parseDiceNotation(notation);
-
-		const rolls: number[] = [];
-		for (let i = 0; i < parsed.count; i++) {
-			rolls.push(Math.floor(Math.random() * parsed.sides) + 1);
-		}
+		const expression = parseDiceExpression(notation);
+		const { rng, rollSequence } = beginRolls(context);
+		const result = evaluateDiceExpression(expression, { rng });
+		const { rolls, kept, modifier } = flattenDiceResult(result);
 
-		const kept = applyKeepDrop(rolls, parsed.keepDrop);
-		const total = kept.reduce((a, b) => a + b, 0) + parsed.modifier;
-
-		return { notation, rolls, kept, modifier: parsed.modifier, total, purpose };
+		return {
+			notation,
+			rolls,
+			kept,
+			modifier,
+			total: result.total,
+			breakdown: result.terms,
+			purpose,
+			rollSequence,
+		};
 	},
 });
 
@@ -68,219 +198,1546 @@ export const abilityModifierTool = createTool({
 });
 
 /**
- * Generate a D&D 5e stat block for a creature.
+ * Generate a stat block from the DMG "Monster Statistics by Challenge Rating" table.
+ * See challenge-rating.ts for how each statistic is derived.
  */
 export const generateStatBlockTool = createTool({
 	id: "generate-stat-block",
 	description:
-		"Generate a D&D 5e stat block for a creature. Returns a complete stat block with ability scores, HP, AC, and attacks.",
+		"Generate a D&D 5e stat block for a creature from the DMG challenge-rating table. Returns AC, HP (from hit dice and CON), ability scores and attacks matched to the CR. Supports fractional CRs (1/8, 1/4, 1/2) and defensive/offensive archetypes. For player characters with a class and level, use build-character instead.",
 	inputSchema: z.object({
 		name: z.string().describe("Creature name"),
 		type: z.enum(["player", "monster", "npc"]).describe("Creature type"),
-		challengeRating: z.number().optional().describe("Desired challenge rating (0-30)"),
+		challengeRating: challengeRatingValueSchema
+			.optional()
+			.describe("Desired challenge rating: 0-30, or '1/8', '1/4', '1/2' (default 1)"),
+		archetype: z
+			.enum(["balanced", "defensive", "offensive"])
+			.optional()
+			.describe(
+				"'defensive' trades damage for AC/HP, 'offensive' the reverse (default 'balanced')",
+			),
+		size: creatureSizeSchema
+			.optional()
+			.describe("Creature size; sets the hit die (default Medium)"),
 		description: z.string().optional().describe("Brief description to guide stat generation"),
 	}),
+	outputSchema: creatureSchema,
+	execute: async (input, context) => {
+		const creature = generateStatBlock({
+			name: input.name,
+			type: input.type,
+			challengeRating: input.challengeRating ?? 1,
+			archetype: input.archetype,
+			size: input.size,
+			rng: getRandomSource(context),
+		});
+		await registerCombatant(context, creature);
+		return creature;
+	},
+});
+
+/**
+ * Pull a canonical stat block from the SRD compendium. The combatant gets the monster's
+ * real AC, HP and attacks; the full entry (traits, reactions, legendary actions) comes
+ * back alongside so the agent can play it faithfully.
+ */
+export const lookupMonsterTool = createTool({
+	id: "lookup-monster",
+	description:
+		"Look up a canonical SRD monster (e.g. 'Goblin', 'Owlbear', 'Young Red Dragon') and return a combat-ready stat block plus the full compendium entry. The compendium bundles a curated subset of the SRD — common arena opponents, not the whole bestiary — so try this first for any standard monster; if it isn't there, it returns suggestions, and generate-stat-block covers the rest. Legendary actions, Legendary Resistance and recharge abilities (breath weapons) come tracked on the combatant.",
+	inputSchema: z.object({
+		monster: z.string().describe("Monster to look up, e.g. 'goblin' or 'Adult Red Dragon'"),
+		name: z
+			.string()
+			.optional()
+			.describe(
+				"Display name for this combatant, e.g. 'Goblin Archer #2'. Defaults to the monster name",
+			),
+		rollHitPoints: z
+			.boolean()
+			.optional()
+			.describe("Roll the monster's hit dice instead of using average hit points"),
+		inLair: z
+			.boolean()
+			.optional()
+			.describe("The fight is in the monster's lair, giving it lair actions on initiative 20"),
+	}),
 	outputSchema: z.object({
-		id: z.string(),
-		name: z.string(),
-		type: z.enum(["player", "monster", "npc"]),
-		armorClass: z.number(),
-		hitPoints: z.number(),
-		maxHitPoints: z.number(),
-		abilityScores: z.object({
-			strength: z.number(),
-			dexterity: z.number(),
-			constitution: z.number(),
-			intelligence: z.number(),
-			wisdom: z.number(),
-			charisma: z.number(),
+		found: z.boolean(),
+		creature: creatureSchema.optional(),
+		monster: monsterSchema.optional(),
+		suggestions: z.array(z.string()),
+	}),
+	execute: async (input, context) => {
+		const { monster, suggestions } = await findMonster(input.monster);
+		if (!monster) return { found: false, suggestions };
+
+		const creature = monsterToStatBlock(monster, {
+			name: input.name,
+			rollHitPoints: input.rollHitPoints,
+			inLair: input.inLair,
+			rng: getRandomSource(context),
+		});
+		await registerCombatant(context, creature);
+		return { found: true, creature, monster, suggestions };
+	},
+});
+
+/**
+ * Pull a combatant from the arena creator's saved library, so recurring villains and PCs
+ * keep the same stats from arena to arena. Each pull is a fresh copy at full health.
+ */
+export const loadCreatureTool = createTool({
+	id: "load-creature",
+	description:
+		"Load a creature or character the user saved to their library (e.g. 'Vex the Rogue', 'Lord Malgrim') with its exact saved stats, at full HP. Use this first whenever the prompt names a recurring character; if not found, it returns names from the library.",
+	inputSchema: z.object({
+		creature: z.string().describe("Name of the saved creature, e.g. 'Lord Malgrim'"),
+		name: z
+			.string()
+			.optional()
+			.describe("Display name for this combatant, e.g. 'Cultist #2'. Defaults to the saved name"),
+	}),
+	outputSchema: z.object({
+		found: z.boolean(),
+		creature: creatureSchema.optional(),
+		suggestions: z.array(z.string()),
+	}),
+	execute: async (input, context) => {
+		const ownerId = getLibraryOwner(context);
+		if (!ownerId) return { found: false, suggestions: [] };
+
+		const { creature, suggestions } = await findSavedCreature(ownerId, input.creature);
+		if (!creature) return { found: false, suggestions };
+
+		const rng = getRandomSource(context);
+		const combatant = {
+			...creature,
+			id: `creature-${Date.now()}-${rng().toString(36).slice(2, 8)}`,
+			name: input.name ?? creature.name,
+			hitPoints: creature.maxHitPoints,
+			conditions: [],
+			isAlive: true,
+		};
+		await registerCombatant(context, combatant);
+		return { found: true, creature: combatant, suggestions };
+	},
+});
+
+/**
+ * Build a player character from SRD class, subclass, race and level rather than the
+ * monster-style CR table, so PCs get real hit dice, armor and class features.
+ */
+export const buildCharacterTool = createTool({
+	id: "build-character",
+	description:
+		"Build a level 1-20 D&D 5e player character from class, optional subclass, race and ability score method (standard array, point buy, or 4d6-drop-lowest). Derives HP, AC from equipment, proficiency bonus, saves, skills, attacks and class features such as Extra Attack and Sneak Attack. Use this for every player character instead of generate-stat-block.",
+	inputSchema: buildCharacterRequestSchema.omit({ seed: true }),
+	outputSchema: z.object({
+		creature: creatureSchema,
+		character: characterSheetSchema,
+	}),
+	execute: async (input, context) => {
+		const built = buildCharacter(input, getRandomSource(context));
+		await registerCombatant(context, built.creature);
+		return built;
+	},
+});
+
+const attackConditionEffectsSchema = z.object({
+	advantage: z.array(z.string()),
+	disadvantage: z.array(z.string()),
+	autoCritical: z.string().nullable(),
+});
+
+const damageDefensesSchema = z.object({
+	resistances: z.array(z.string()),
+	immunities: z.array(z.string()),
+	vulnerabilities: z.array(z.string()),
+});
+
+const attackResultSchema = z.object({
+	attackRoll: z.number(),
+	naturalRoll: z.number(),
+	d20Rolls: z.array(z.number()),
+	rollMode: z.enum(["normal", "advantage", "disadvantage"]),
+	rollModeReasons: z.object({ advantage: z.array(z.string()), disadvantage: z.array(z.string()) }),
+	conditionEffects: attackConditionEffectsSchema,
+	targetAC: z.number(),
+	critRange: z.number(),
+	modifiers: z.array(z.string()),
+	isCritical: z.boolean(),
+	isFumble: z.boolean(),
+	hit: z.boolean(),
+	damageRolls: z.array(z.number()).optional(),
+	damageBreakdown: z.array(diceTermResultSchema).optional(),
+	damageParts: z.array(
+		z.object({ source: z.string().nullable(), damageType: z.string(), total: z.number() }),
+	),
+	damageDefenses: damageDefensesSchema,
+	rolledDamage: z.number(),
+	damageAdjustments: z.array(z.string()),
+	totalDamage: z.number(),
+	narrative: z.string(),
+});
+
+const attackReactionSchema = z.object({
+	name: z.string(),
+	reaction: z.enum(ATTACK_REACTIONS),
+	armorClassBonus: z.number(),
+	slotLevel: z.number().nullable(),
+});
+
+/** An attack on a tracked target: Shield already up, and the reaction it took to the hit */
+const reactedAttackResultSchema = attackResultSchema.extend({
+	shielded: z.boolean(),
+	reaction: attackReactionSchema.nullable(),
+});
+
+/**
+ * Everything an attack is checked against before any die is rolled: its damage dice, the
+ * grid distance and the conditions that forbid or tilt it. Throws when the attack can't be
+ * made, so a refused attack draws no dice and leaves no unlogged roll sequence behind.
+ */
+function checkAttack(
+	state: CombatState | undefined,
+	input: Pick<
+		AttackRequest,
+		"attackerName" | "targetName" | "damageDice" | "damageType" | "magicBonus" | "bonusDamage"
+	> & { distance?: number; attackName?: string },
+) {
+	const tracked = (name: string) =>
+		state?.combatants.find((c) => c.name.toLowerCase() === name.trim().toLowerCase());
+	parseAttackDamage(input);
+	const positioning =
+		state && attackPositioning(state, input.attackerName, input.targetName, input.attackName);
+	const attacker = tracked(input.attackerName);
+	const target = tracked(input.targetName);
+	const distance = positioning?.distance ?? input.distance ?? 5;
+	const effects = attackConditionEffects(attacker, target, distance);
+	effects.disadvantage.push(...(positioning?.disadvantage ?? []));
+	return { attacker, target, distance, effects };
+}
+
+/**
+ * Resolve an attack between two combatants. When both are tracked in the arena's combat
+ * state, their conditions set advantage, disadvantage and automatic critical hits; when both
+ * stand on the battlefield, the attack must reach and ranged attacks take range penalties. A
+ * tracked target hit by the attack can react with Shield, Parry or Uncanny Dodge.
+ */
+export const resolveAttackTool = createTool({
+	id: "resolve-attack",
+	description:
+		"Resolve a D&D 5e attack. Rolls to hit against target AC, then rolls damage if it hits. Handles critical hits (nat 20, or the crit range given) and misses (nat 1). Tracked conditions apply automatically: e.g. advantage against a prone target within 5 ft, disadvantage while poisoned, and automatic crits on a paralyzed target within 5 ft. Once set-battlefield has placed both combatants, the grid gives the distance: a melee attack must reach the target, a ranged attack can't go past long range and has disadvantage beyond normal range or with an enemy within 5 ft — name the attack used so its reach or range is checked. Give situations such as flanking or an unseen attacker, cover, a magic weapon bonus and bonus damage dice (Sneak Attack, Divine Smite) instead of folding them into the numbers; the result explains each one. A tracked target that is hit can spend its reaction: Shield (+5 AC, lasting until its next turn, for a caster who knows it), Parry (a melee attack, for a stat block with the reaction) or Uncanny Dodge (half damage). By default it reacts only when that turns the hit into a miss, or halves it with Uncanny Dodge; name a reaction to take it on any hit, or 'none' to hold it.",
+	inputSchema: z.object({
+		attackerName: z.string(),
+		targetName: z.string(),
+		toHitBonus: z.number().describe("Attacker's to-hit bonus"),
+		targetAC: z.number().describe("Target's armor class"),
+		damageDice: z
+			.string()
+			.describe(
+				"Damage dice expression, e.g. '2d6+3' — list Sneak Attack and the like in bonusDamage",
+			),
+		damageType: z.string().describe("Damage type, e.g. 'slashing'"),
+		distance: z
+			.number()
+			.min(0)
+			.optional()
+			.describe(
+				"Feet between attacker and target (default 5, a melee attack) — on a battlefield the grid decides",
+			),
+		attackName: z
+			.string()
+			.optional()
+			.describe(
+				"The stat block attack used, e.g. 'Longbow' — on a battlefield its reach and range are checked",
+			),
+		advantage: z.boolean().optional().describe("Advantage for a reason not listed in situations"),
+		disadvantage: z
+			.boolean()
+			.optional()
+			.describe("Disadvantage for a reason not listed in situations"),
+		situations: z
+			.array(z.enum(ATTACK_SITUATIONS))
+			.optional()
+			.describe(
+				"Circumstances of the attack: flanking, help (an ally took the Help action), prone-target, invisible-attacker (the target can't see the attacker), invisible-target, long-range",
+			),
+		cover: z
+			.enum(["half", "three-quarters"])
+			.optional()
+			.describe("Target's cover: +2 AC for half, +5 for three-quarters"),
+		critRange: z
+			.number()
+			.int()
+			.min(2)
+			.max(20)
+			.optional()
+			.describe("Lowest natural roll that crits, e.g. 19 for a Champion's Improved Critical"),
+		magicBonus: z
+			.number()
+			.int()
+			.min(1)
+			.max(3)
+			.optional()
+			.describe("A magic weapon's bonus to attack and damage, e.g. 1 for a +1 longsword"),
+		magical: z
+			.boolean()
+			.optional()
+			.describe("The weapon is magical without a bonus (a +N weapon already counts)"),
+		silvered: z.boolean().optional().describe("The weapon is silvered"),
+		bonusDamage: z
+			.array(
+				z.object({
+					source: z.string().describe("e.g. 'Sneak Attack' or 'Divine Smite'"),
+					dice: z.string().describe("e.g. '3d6'"),
+					damageType: z
+						.string()
+						.optional()
+						.describe("Defaults to the attack's damage type, e.g. 'radiant' for a smite"),
+				}),
+			)
+			.optional()
+			.describe("Extra damage dice on a hit, doubled on a critical"),
+		reaction: z
+			.enum(["auto", "none", ...ATTACK_REACTIONS])
+			.optional()
+			.describe(
+				"The target's reaction to a hit (default auto: whichever turns the hit into a miss, else Uncanny Dodge)",
+			),
+	}),
+	outputSchema: reactedAttackResultSchema.extend({ rollSequence: z.number().optional() }),
+	execute: async (input, context) => {
+		const tracker = getCombatTracker(context);
+		const { attacker, target, distance, effects } = checkAttack(tracker?.state, input);
+		const defenses = target ? damageDefenses(target) : NO_DAMAGE_DEFENSES;
+		const melee = isMeleeAttack(attacker, input.attackName, distance);
+		const choice = input.reaction ?? "auto";
+		if (choice !== "auto" && choice !== "none") {
+			if (!target)
+				throw new Error(`${input.targetName} isn't tracked in the fight and can't react`);
+			checkAttackReaction(target, choice, melee);
+		}
+		const shielded = target?.shielded ?? false;
+
+		const { rng, rollSequence } = beginRolls(context);
+		const result = resolveAttack(shielded ? againstShield(input) : input, rng, effects, defenses);
+		const reaction = target ? chooseAttackReaction(target, result, melee, choice) : null;
+		if (!reaction || !tracker) return { ...result, shielded, reaction: null, rollSequence };
+		await tracker.update((current) => spendAttackReaction(current, reaction));
+		return { ...reactToAttack(result, reaction), shielded, reaction, rollSequence };
+	},
+});
+
+/**
+ * Exact odds for a dice expression, and optionally the chance an attack hits.
+ */
+export const diceStatsTool = createTool({
+	id: "dice-stats",
+	description:
+		"Compute exact odds for a dice expression: min, max, mean, standard deviation, the probability of each total, and the chance to meet or beat a target. Given toHitBonus and targetAC, also returns the chance to hit, chance to crit, and expected damage per attack using the notation as damage. Use this to judge how dangerous an attack or encounter is — it does not roll anything.",
+	inputSchema: z.object({
+		notation: z.string().describe("Dice expression, e.g. '2d6+3', '4d6dl1', '2d20kh1+5'"),
+		target: z.number().optional().describe("Total to meet or beat, e.g. a DC"),
+		toHitBonus: z.number().optional().describe("Attacker's to-hit bonus (requires targetAC)"),
+		targetAC: z.number().optional().describe("Target's armor class (requires toHitBonus)"),
+		rollMode: z.enum(["normal", "advantage", "disadvantage"]).optional(),
+	}),
+	outputSchema: z.object({
+		notation: z.string(),
+		min: z.number(),
+		max: z.number(),
+		mean: z.number(),
+		stddev: z.number(),
+		pmf: z.array(z.object({ total: z.number(), probability: z.number() })),
+		target: z.number().optional(),
+		chanceAtLeast: z.number().optional(),
+		attack: z
+			.object({
+				toHitBonus: z.number(),
+				targetAC: z.number(),
+				rollMode: z.enum(["normal", "advantage", "disadvantage"]),
+				hitChance: z.number(),
+				critChance: z.number(),
+				expectedDamage: z.number(),
+			})
+			.optional(),
+	}),
+	execute: async (input) => {
+		const odds = describeDiceOdds(input);
+		// Long tails (exploding dice) would flood the agent's context; drop totals under 0.01%
+		return { ...odds, pmf: odds.pmf.filter((entry) => entry.probability >= 0.0001) };
+	},
+});
+
+/**
+ * Rate an encounter against the DMG XP thresholds before (or while) running it.
+ */
+export const assessEncounterTool = createTool({
+	id: "assess-encounter",
+	description:
+		"Rate a D&D 5e encounter as trivial, easy, medium, hard or deadly using the DMG XP thresholds and group multipliers. Give the party's levels and the monsters by SRD name or challenge rating. Returns base and adjusted XP against the party's thresholds.",
+	inputSchema: z.object({
+		party: z
+			.array(encounterPartyMemberSchema)
+			.min(1)
+			.describe("Party members by level, e.g. [{ level: 5, count: 4 }]"),
+		monsters: z
+			.array(encounterMonsterSchema)
+			.min(1)
+			.describe("Monsters by SRD name or challengeRating, e.g. [{ name: 'Goblin', count: 3 }]"),
+	}),
+	outputSchema: z.object({
+		difficulty: z.enum(["trivial", "easy", "medium", "hard", "deadly"]),
+		partySize: z.number(),
+		thresholds: z.object({
+			easy: z.number(),
+			medium: z.number(),
+			hard: z.number(),
+			deadly: z.number(),
 		}),
-		attacks: z.array(
+		monsters: z.array(
 			z.object({
 				name: z.string(),
-				toHitBonus: z.number(),
-				damageDice: z.string(),
-				damageType: z.string(),
+				challengeRating: z.number(),
+				count: z.number(),
+				xp: z.number(),
 			}),
 		),
-		conditions: z.array(z.string()),
-		isAlive: z.boolean(),
+		monsterCount: z.number(),
+		baseXp: z.number(),
+		multiplier: z.number(),
+		adjustedXp: z.number(),
+		unresolved: z.array(z.string()),
 	}),
 	execute: async (input) => {
-		const { name, type, challengeRating = 1 } = input;
-		const cr = Math.max(0, Math.min(30, challengeRating));
+		return assessEncounterRequest(input);
+	},
+});
 
-		// Scale stats roughly with CR
-		const baseScore = Math.min(10 + cr, 30);
-		const hp = Math.max(1, Math.floor(10 + cr * 15 + Math.random() * 10));
-		const ac = Math.min(10 + Math.floor(cr * 0.8) + Math.floor(Math.random() * 3), 25);
-		const profBonus = Math.floor((cr - 1) / 4) + 2;
+// ── Combat state ──
 
-		const id = `creature-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+const combatSummarySchema = z.object({
+	status: z.enum(["setup", "active", "ended"]),
+	winner: z.string().nullable(),
+	round: z.number(),
+	turnIndex: z.number(),
+	currentTurn: z.string().nullable(),
+	combatants: z.array(
+		z.object({
+			name: z.string(),
+			side: z.string().nullable(),
+			initiative: z.number().nullable(),
+			hitPoints: z.number(),
+			maxHitPoints: z.number(),
+			temporaryHitPoints: z.number(),
+			armorClass: z.number(),
+			conditions: z.array(z.string()),
+			concentration: z.string().nullable(),
+			spellSlots: z.string().nullable(),
+			deathSaves: deathSavesSchema.nullable(),
+			position: gridPositionSchema.nullable(),
+			legendaryActions: z.number().nullable(),
+			legendaryResistance: z.number().nullable(),
+			lairActionAvailable: z.boolean().nullable(),
+			recharging: z.array(z.string()),
+			reactionUsed: z.boolean(),
+			shielded: z.boolean(),
+			isAlive: z.boolean(),
+		}),
+	),
+	battlefield: battlefieldSchema.nullable(),
+});
 
-		const strength = Math.min(baseScore + Math.floor(Math.random() * 4) - 2, 30);
-		const dexterity = Math.min(baseScore + Math.floor(Math.random() * 4) - 2, 30);
-		const constitution = Math.min(baseScore + Math.floor(Math.random() * 4) - 2, 30);
-		const intelligence = Math.min(8 + Math.floor(Math.random() * 6), 30);
-		const wisdom = Math.min(8 + Math.floor(Math.random() * 6), 30);
-		const charisma = Math.min(8 + Math.floor(Math.random() * 6), 30);
+function requireCombatTracker(context: Parameters<typeof getCombatTracker>[0]) {
+	const tracker = getCombatTracker(context);
+	if (!tracker) throw new Error("Combat state is only tracked inside an arena run");
+	return tracker;
+}
 
-		const strMod = Math.floor((strength - 10) / 2);
-		const damageDice =
-			cr <= 1 ? "1d6" : cr <= 4 ? "1d8" : cr <= 10 ? "2d6" : cr <= 16 ? "2d8" : "3d6";
+/**
+ * Fix the initiative order and begin round 1. Every combatant must already have a stat
+ * block from this run; the engine keeps their HP and turn order from here on.
+ */
+export const startCombatTool = createTool({
+	id: "start-combat",
+	description:
+		"Start combat once every combatant has a stat block and an initiative roll. Give each combatant's name, initiative total and side (e.g. 'party', 'monsters'); the engine sorts the turn order (ties to higher DEX), starts round 1 and returns whose turn it is. Combat state is saved to the arena.",
+	inputSchema: z.object({
+		combatants: z
+			.array(
+				z.object({
+					name: z.string().describe("Combatant name exactly as created, e.g. 'Goblin 2'"),
+					initiative: z.number().describe("Initiative total (1d20 + DEX modifier)"),
+					side: z.string().describe("Side the combatant fights for, e.g. 'party' or 'monsters'"),
+				}),
+			)
+			.min(2),
+	}),
+	outputSchema: combatSummarySchema,
+	execute: async (input, context) => {
+		const state = await requireCombatTracker(context).update((current) =>
+			startCombat(current, input.combatants),
+		);
+		return summarizeCombat(state);
+	},
+});
 
+/**
+ * Roll initiative for everyone at once and start combat in that order, so the agent never
+ * has to remember a string of separate d20 rolls.
+ */
+export const rollInitiativeTool = createTool({
+	id: "roll-initiative",
+	description:
+		"Roll initiative (1d20 + DEX modifier) for every combatant in one call and start combat: the engine sorts the turn order (ties go to the higher DEX score), begins round 1 and saves the order to the arena. Give each combatant's name exactly as created and its side (e.g. 'party', 'monsters'). Use this instead of separate roll-dice calls and start-combat.",
+	inputSchema: z.object({
+		combatants: z
+			.array(
+				z.object({
+					name: z.string().describe("Combatant name exactly as created, e.g. 'Goblin 2'"),
+					side: z.string().describe("Side the combatant fights for, e.g. 'party' or 'monsters'"),
+					bonus: z
+						.number()
+						.int()
+						.optional()
+						.describe("Initiative bonus on top of DEX, e.g. 5 for the Alert feat"),
+					advantage: z
+						.boolean()
+						.optional()
+						.describe("Roll with advantage, e.g. a barbarian's Feral Instinct"),
+				}),
+			)
+			.min(2),
+	}),
+	outputSchema: combatSummarySchema.extend({
+		order: z.array(
+			z.object({
+				name: z.string(),
+				side: z.string(),
+				dexterity: z.number(),
+				modifier: z.number(),
+				rolls: z.array(z.number()),
+				initiative: z.number(),
+			}),
+		),
+		rollSequence: z.number().optional(),
+	}),
+	execute: async (input, context) => {
+		let order!: ReturnType<typeof rollInitiative>["order"];
+		let rollSequence: number | undefined;
+		const state = await requireCombatTracker(context).update((current) => {
+			const rolled = rollInitiative(current, input.combatants, () => {
+				const scope = beginRolls(context);
+				rollSequence = scope.rollSequence;
+				return scope.rng;
+			});
+			order = rolled.order;
+			return rolled.state;
+		});
+		return { ...summarizeCombat(state), order, rollSequence };
+	},
+});
+
+/**
+ * End the current turn. Defeated combatants are skipped, and passing the last one in the
+ * order starts the next round.
+ */
+export const nextTurnTool = createTool({
+	id: "next-turn",
+	description:
+		"End the current combatant's turn and advance to the next one still standing, starting a new round after the last in initiative order. Conditions timed in rounds or to the end of a turn tick down and expire on their own. Returns the round, whose turn it is, and everyone's HP; status 'ended' with a winner once only one side is standing. savesDue lists the saving throws the combatant whose turn just ended repeats to end its conditions — roll them and remove-condition on a success. rechargesDue lists the spent recharge abilities (breath weapons) of the combatant whose turn starts — call roll-recharge for it before it acts. The starting combatant regains its legendary actions, and when the turn passes initiative count 20 a creature fighting in its lair has lairActionAvailable — take a lair action with use-lair-action before the next combatant acts.",
+	inputSchema: z.object({}),
+	outputSchema: combatSummarySchema.extend({
+		savesDue: z.array(
+			z.object({
+				name: z.string(),
+				condition: conditionNameSchema,
+				ability: abilityNameSchema,
+				dc: z.number(),
+				source: z.string().optional(),
+			}),
+		),
+		rechargesDue: z.array(
+			z.object({ name: z.string(), ability: z.string(), recharge: z.string() }),
+		),
+	}),
+	execute: async (_input, context) => {
+		let due: SaveDue[] = [];
+		const state = await requireCombatTracker(context).update((current) => {
+			const ending = current.combatants[current.turnIndex];
+			const advanced = nextTurn(current);
+			due = ending ? savesDue(ending) : [];
+			return advanced;
+		});
+		const starting = state.combatants[state.turnIndex];
+		const rechargesDue = (starting.recharges ?? [])
+			.filter((ability) => ability.rollDue)
+			.map(({ name, recharge }) => ({ name: starting.name, ability: name, recharge }));
+		return { ...summarizeCombat(state), savesDue: due, rechargesDue };
+	},
+});
+
+/**
+ * Read back the tracked fight — round, turn, and each combatant's HP and conditions.
+ */
+export const getCombatStateTool = createTool({
+	id: "get-combat-state",
+	description:
+		"Get the tracked combat state: round, whose turn it is, initiative order, and each combatant's HP, AC, conditions and whether they are still standing. Use it for round summaries instead of tracking HP yourself.",
+	inputSchema: z.object({}),
+	outputSchema: combatSummarySchema,
+	execute: async (_input, context) => {
+		return summarizeCombat(requireCombatTracker(context).state);
+	},
+});
+
+const hitPointChangeFields = z.object({
+	name: z.string(),
+	kind: z.enum(["damage", "healing", "temporary"]),
+	amount: z.number(),
+	previousHitPoints: z.number(),
+	hitPoints: z.number(),
+	maxHitPoints: z.number(),
+	previousTemporaryHitPoints: z.number(),
+	temporaryHitPoints: z.number(),
+	isAlive: z.boolean(),
+});
+
+const hitPointChangeSchema = hitPointChangeFields.extend({
+	creature: creatureSchema,
+	status: z.enum(["setup", "active", "ended"]),
+	winner: z.string().nullable(),
+});
+
+/** A concentration check's save uses the saving throw tools' schema, defined further down. */
+const concentrationCheckSchema = z.object({
+	name: z.string(),
+	spell: z.string(),
+	damage: z.number(),
+	save: z.lazy(() => savingThrowResultSchema).nullable(),
+	maintained: z.boolean(),
+	ended: z.array(z.object({ target: z.string(), conditions: z.array(z.string()) })),
+	narrative: z.string(),
+});
+
+/** Apply one hit point change through the tracker and report it with the fight's outcome. */
+async function trackHitPoints(
+	context: Parameters<typeof getCombatTracker>[0],
+	change: (state: CombatState) => ReturnType<typeof applyDamage>,
+) {
+	let applied!: ReturnType<typeof change>;
+	const state = await requireCombatTracker(context).update((current) => {
+		applied = change(current);
+		return applied.state;
+	});
+	return { ...applied.change, creature: applied.creature, ...combatOutcome(state) };
+}
+
+/**
+ * Subtract damage from a tracked combatant — temporary HP first, never below 0 — so HP
+ * never depends on the agent's arithmetic. A concentrating target's check takes a roll only
+ * when it happens.
+ */
+export const applyDamageTool = createTool({
+	id: "apply-damage",
+	description:
+		"Apply damage to a combatant after a hit (use resolve-attack's totalDamage) or a failed save. Temporary HP absorb it first; HP stop at 0. A monster or NPC at 0 HP is defeated; a player character falls unconscious and starts making death saves, and further damage counts as failed death saves (two on a critical hit) — set critical from resolve-attack's isCritical. A combatant concentrating on a spell rolls its concentration check (a Constitution save, DC 10 or half the damage) and on a failure — or at 0 HP — the spell and its conditions end. Returns the updated creature, the concentration checks and whether the combat has ended.",
+	inputSchema: z.object({
+		target: z.string().describe("Combatant taking the damage, e.g. 'Goblin 2'"),
+		amount: z.number().int().min(0).describe("Damage dealt"),
+		critical: z
+			.boolean()
+			.optional()
+			.describe(
+				"The damage came from a critical hit (two death save failures on a dying character)",
+			),
+	}),
+	outputSchema: hitPointChangeSchema.extend({
+		concentrationChecks: z.array(concentrationCheckSchema),
+		rollSequence: z.number().optional(),
+	}),
+	execute: async (input, context) => {
+		let concentrationChecks!: ConcentrationCheck[];
+		let rollSequence: number | undefined;
+		const tracked = await trackHitPoints(context, (state) => {
+			const applied = applyDamage(state, input.target, input.amount, {
+				critical: input.critical,
+			});
+			const checked = checkConcentration(applied.state, [applied.change], () => {
+				const scope = beginRolls(context);
+				rollSequence = scope.rollSequence;
+				return scope.rng;
+			});
+			concentrationChecks = checked.checks;
+			const creature = checked.state.combatants[findCombatant(checked.state, applied.change.name)];
+			return { ...applied, state: checked.state, creature };
+		});
+		return { ...tracked, concentrationChecks, rollSequence };
+	},
+});
+
+/**
+ * Restore hit points to a tracked combatant, or grant temporary hit points.
+ */
+export const applyHealingTool = createTool({
+	id: "apply-healing",
+	description:
+		"Heal a combatant (Cure Wounds, Second Wind, a potion). HP stop at the maximum, and healing a combatant at 0 HP brings it back into the fight — a dying player character wakes up and its death saves reset. A dead character can't be healed. With temporary: true, grants temporary HP instead (they don't stack — the higher pool is kept). Returns the updated creature.",
+	inputSchema: z.object({
+		target: z.string().describe("Combatant being healed, e.g. 'Kargan'"),
+		amount: z.number().int().min(0).describe("Hit points restored (or temporary HP granted)"),
+		temporary: z.boolean().optional().describe("Grant temporary hit points instead of healing"),
+	}),
+	outputSchema: hitPointChangeSchema,
+	execute: async (input, context) => {
+		return trackHitPoints(context, (state) =>
+			applyHealing(state, input.target, input.amount, { temporary: input.temporary }),
+		);
+	},
+});
+
+/**
+ * Roll a dying player character's death saving throw. The tally lives in the combat state, so
+ * the agent only has to call this at the start of the character's turn.
+ */
+export const deathSaveTool = createTool({
+	id: "death-save",
+	description:
+		"Roll a death saving throw for a player character dying at 0 HP — call it at the start of each of their turns instead of anything else. 10 or higher is a success, a natural 1 counts as two failures, and a natural 20 brings them back up with 1 HP. Three successes make them stable; three failures and they die. Returns the roll, the tally and whether the combat has ended.",
+	inputSchema: z.object({
+		name: z.string().describe("The dying character, e.g. 'Kargan'"),
+	}),
+	outputSchema: z.object({
+		name: z.string(),
+		roll: z.number(),
+		previous: deathSavesSchema,
+		deathSaves: deathSavesSchema.nullable(),
+		revived: z.boolean(),
+		stable: z.boolean(),
+		dead: z.boolean(),
+		narrative: z.string(),
+		hitPoints: z.number(),
+		status: z.enum(["setup", "active", "ended"]),
+		winner: z.string().nullable(),
+		rollSequence: z.number().optional(),
+	}),
+	execute: async (input, context) => {
+		let rolled!: ReturnType<typeof rollDeathSave>;
+		let rollSequence: number | undefined;
+		const state = await requireCombatTracker(context).update((current) => {
+			rolled = rollDeathSave(current, input.name, () => {
+				const scope = beginRolls(context);
+				rollSequence = scope.rollSequence;
+				return scope.rng;
+			});
+			return rolled.state;
+		});
 		return {
-			id,
-			name,
-			type,
-			armorClass: ac,
-			hitPoints: hp,
-			maxHitPoints: hp,
-			abilityScores: { strength, dexterity, constitution, intelligence, wisdom, charisma },
-			attacks: [
-				{
-					name: type === "monster" ? "Claw" : "Longsword",
-					toHitBonus: strMod + profBonus,
-					damageDice: `${damageDice}+${strMod}`,
-					damageType: "slashing",
-				},
-			],
-			conditions: [],
-			isAlive: true,
+			...rolled.result,
+			hitPoints: rolled.creature.hitPoints,
+			...combatOutcome(state),
+			rollSequence,
 		};
 	},
 });
 
+const conditionChangeSchema = z.object({
+	target: z.string(),
+	applied: z.boolean(),
+	message: z.string(),
+	conditions: z.array(z.string()),
+});
+
 /**
- * Resolve an attack between two combatants.
+ * Put a condition on a tracked combatant. Its duration ticks in the turn loop, and
+ * resolve-attack reads it to set advantage, disadvantage and automatic critical hits.
  */
-export const resolveAttackTool = createTool({
-	id: "resolve-attack",
+export const applyConditionTool = createTool({
+	id: "apply-condition",
+	description:
+		"Put a condition (prone, restrained, poisoned, stunned, frightened, grappled, paralyzed, …) on a combatant. Give its source and how long it lasts: 'rounds' (counts down at the end of the combatant's turns), 'until-save' (repeats a save at the end of each of its turns — see next-turn's savesDue), 'end-of-next-turn' (optionally tied to another creature's turn, e.g. the caster's) or 'until-removed'. Creatures immune to the condition are left unaffected. resolve-attack applies the condition's effects automatically.",
+	inputSchema: z.object({
+		target: z.string().describe("Combatant gaining the condition, e.g. 'Goblin 2'"),
+		condition: conditionNameSchema,
+		source: z
+			.string()
+			.optional()
+			.describe(
+				"What caused it, e.g. 'Ghoul' or 'Hold Person'; a charmed creature can't attack its source",
+			),
+		duration: conditionDurationSchema.optional(),
+		level: z.number().int().min(1).max(6).optional().describe("Exhaustion level"),
+	}),
+	outputSchema: conditionChangeSchema,
+	execute: async (input, context) => {
+		const { target, condition, source, duration, level } = input;
+		let result!: ReturnType<typeof applyCondition>;
+		await requireCombatTracker(context).update((current) => {
+			result = applyCondition(current, target, {
+				name: condition,
+				source,
+				duration: duration ?? { type: "until-removed" },
+				level,
+			});
+			return result.state;
+		});
+		return {
+			target: result.creature.name,
+			applied: result.applied,
+			message: result.message,
+			conditions: result.creature.conditions.map(describeCondition),
+		};
+	},
+});
+
+/**
+ * Take a condition off a tracked combatant — a successful save, standing up, a spell ending.
+ */
+export const removeConditionTool = createTool({
+	id: "remove-condition",
+	description:
+		"Remove a condition from a combatant: it succeeded on the save listed in next-turn's savesDue, stood up from prone, escaped a grapple, or the effect ended. Conditions timed in rounds or to the end of a turn expire on their own.",
+	inputSchema: z.object({
+		target: z.string().describe("Combatant losing the condition, e.g. 'Kargan'"),
+		condition: conditionNameSchema,
+	}),
+	outputSchema: conditionChangeSchema,
+	execute: async (input, context) => {
+		let result!: ReturnType<typeof removeCondition>;
+		await requireCombatTracker(context).update((current) => {
+			result = removeCondition(current, input.target, input.condition);
+			return result.state;
+		});
+		return {
+			target: result.creature.name,
+			applied: result.applied,
+			message: result.message,
+			conditions: result.creature.conditions.map(describeCondition),
+		};
+	},
+});
+
+// ── Saving throws and ability checks ──
+
+const d20TestOptionsSchema = {
+	advantage: z
+		.string()
+		.optional()
+		.describe(
+			"Why the roll has advantage, e.g. 'Magic Resistance' (conditions apply automatically)",
+		),
+	disadvantage: z.string().optional().describe("Why the roll has disadvantage"),
+	bonus: z.number().int().optional().describe("Extra bonus, e.g. 3 from a paladin's aura"),
+};
+
+const d20TestResultSchema = z.object({
+	name: z.string(),
+	modifier: z.number(),
+	effects: z.object({
+		advantage: z.array(z.string()),
+		disadvantage: z.array(z.string()),
+		autoFail: z.string().nullable(),
+	}),
+	rollMode: z.enum(["normal", "advantage", "disadvantage"]),
+	d20Rolls: z.array(z.number()),
+	naturalRoll: z.number().nullable(),
+	total: z.number().nullable(),
+	success: z.boolean().nullable(),
+	defenses: damageDefensesSchema.optional(),
+	/** For saves: offered Legendary Resistance, or (in results) spent it to succeed */
+	legendaryResistance: z.boolean().optional(),
+});
+
+const rolledDiceSchema = z.object({
+	total: z.number(),
+	rolls: z.array(z.number()),
+	breakdown: z.array(diceTermResultSchema),
+});
+
+const savingThrowResultSchema = z.object({
+	ability: abilityNameSchema,
+	dc: z.number(),
+	source: z.string().optional(),
+	damageType: z.string().optional(),
+	onSuccess: z.enum(["half", "none"]),
+	damage: rolledDiceSchema.nullable(),
+	results: z.array(
+		d20TestResultSchema.extend({ damage: z.number(), damageAdjustment: z.string().nullable() }),
+	),
+	narrative: z.string(),
+});
+
+/**
+ * Apply each failed (or half-damage) save's damage, and the Legendary Resistance any save
+ * spent, to the combat state, then roll the concentration checks the damage calls for.
+ */
+function applySaveDamage(state: CombatState, saves: SavingThrowResult, rng: RandomSource) {
+	const hpChanges: HitPointChange[] = [];
+	let next = spendLegendaryResistance(state, saves.results);
+	for (const result of saves.results) {
+		if (result.damage === 0) continue;
+		const applied = applyDamage(next, result.name, result.damage);
+		hpChanges.push(applied.change);
+		next = applied.state;
+	}
+	const checked = checkConcentration(next, hpChanges, () => rng);
+	return { state: checked.state, hpChanges, concentrationChecks: checked.checks };
+}
+
+/**
+ * Roll saving throws for one or more tracked combatants against a DC and apply the damage —
+ * the shape of spells, breath weapons and traps.
+ */
+export const resolveSavingThrowTool = createTool({
+	id: "resolve-saving-throw",
+	description:
+		"Resolve a saving throw — a spell, breath weapon, trap or poison — for one or more combatants against a DC. Each target rolls 1d20 + its own save bonus (proficiency included) with advantage or disadvantage from its conditions; paralyzed, stunned, petrified and unconscious creatures automatically fail Strength and Dexterity saves. With damageDice, damage is rolled once and applied to every target: full on a failure, half (or none, with onSuccess 'none') on a success, and concentrating targets roll their concentration checks. A legendary creature spends Legendary Resistance only when its target sets legendaryResistance — save it for the saves that matter. Do not call apply-damage for it afterwards.",
+	inputSchema: z.object({
+		targets: z
+			.array(
+				z.object({
+					name: z.string().describe("Combatant making the save, e.g. 'Goblin 2'"),
+					...d20TestOptionsSchema,
+					legendaryResistance: z
+						.boolean()
+						.optional()
+						.describe("Spend a Legendary Resistance use to succeed if it fails"),
+				}),
+			)
+			.min(1),
+		ability: abilityNameSchema,
+		dc: z.number().int().min(1).describe("Save DC, e.g. 15"),
+		source: z.string().optional().describe("What forces the save, e.g. 'Fireball'"),
+		damageDice: z.string().optional().describe("Damage dice, e.g. '8d6'"),
+		damageType: z.string().optional().describe("Damage type, e.g. 'fire'"),
+		onSuccess: z
+			.enum(["half", "none"])
+			.optional()
+			.describe("Damage on a successful save (default half)"),
+	}),
+	outputSchema: savingThrowResultSchema.extend({
+		hpChanges: z.array(hitPointChangeFields),
+		concentrationChecks: z.array(concentrationCheckSchema),
+		status: z.enum(["setup", "active", "ended"]),
+		winner: z.string().nullable(),
+		rollSequence: z.number().optional(),
+	}),
+	execute: async (input, context) => {
+		let saves!: SavingThrowResult;
+		let rollSequence: number | undefined;
+		let hpChanges!: HitPointChange[];
+		let concentrationChecks!: ConcentrationCheck[];
+		const state = await requireCombatTracker(context).update((current) => {
+			const tests = input.targets.map((target) =>
+				savingThrowTest(
+					current.combatants[findCombatant(current, target.name)],
+					input.ability,
+					target,
+				),
+			);
+			parseSaveDamage(input.damageDice);
+			const scope = beginRolls(context);
+			rollSequence = scope.rollSequence;
+			saves = resolveSavingThrows(tests, input, scope.rng);
+			const applied = applySaveDamage(current, saves, scope.rng);
+			hpChanges = applied.hpChanges;
+			concentrationChecks = applied.concentrationChecks;
+			return applied.state;
+		});
+		return { ...saves, hpChanges, concentrationChecks, ...combatOutcome(state), rollSequence };
+	},
+});
+
+/**
+ * Resolve a breath weapon, explosion or other area effect on the battlefield: the engine picks
+ * everyone inside the shape, rolls the damage once and rolls each target's save.
+ */
+export const areaEffectTool = createTool({
+	id: "area-effect",
+	description:
+		"Resolve an area effect that isn't a cast-spell spell — a dragon's breath, an exploding barrel, a collapsing ceiling — on the battlefield. Give the shape and size (sphere radius, cone or line length, cube side, in feet), where it starts and, for cones and lines, the square it points at. A caster's cone or line starts from its own square and leaves it out. Every combatant with a square inside the area rolls the save, and those named in legendaryResistance spend Legendary Resistance to succeed if they fail; damage is rolled once and applied in full on a failure and half (or none) on a success, with concentration checks for concentrating targets. Do not call resolve-saving-throw or apply-damage for it afterwards.",
+	inputSchema: z.object({
+		source: z.string().describe("What the effect is, e.g. 'Fire Breath'"),
+		shape: areaShapeSchema.describe("sphere (and cylinders), cone, line or cube"),
+		size: z
+			.number()
+			.int()
+			.min(5)
+			.describe("Feet: a sphere's radius, a cone or line's length, a cube's side"),
+		caster: z
+			.string()
+			.optional()
+			.describe("Creature the effect comes from — cones and lines start from its square"),
+		origin: gridPositionSchema
+			.optional()
+			.describe("A sphere's center, a cube's top-left square, or where a cone or line starts"),
+		toward: gridPositionSchema.optional().describe("Square a cone or line points at"),
+		width: z.number().int().min(5).optional().describe("A line's width in feet (default 5)"),
+		ability: abilityNameSchema,
+		dc: z.number().int().min(1).describe("Save DC, e.g. 15"),
+		legendaryResistance: z
+			.array(z.string())
+			.optional()
+			.describe("Creatures in the area that spend Legendary Resistance to succeed if they fail"),
+		damageDice: z.string().optional().describe("Damage dice, e.g. '12d6'"),
+		damageType: z.string().optional().describe("Damage type, e.g. 'fire'"),
+		onSuccess: z
+			.enum(["half", "none"])
+			.optional()
+			.describe("Damage on a successful save (default half)"),
+	}),
+	outputSchema: savingThrowResultSchema.extend({
+		area: z.string(),
+		targets: z.array(z.string()),
+		hpChanges: z.array(hitPointChangeFields),
+		concentrationChecks: z.array(concentrationCheckSchema),
+		status: z.enum(["setup", "active", "ended"]),
+		winner: z.string().nullable(),
+		rollSequence: z.number().optional(),
+	}),
+	execute: async (input, context) => {
+		let saves!: SavingThrowResult;
+		let area!: string;
+		let rollSequence: number | undefined;
+		let hpChanges!: HitPointChange[];
+		let concentrationChecks!: ConcentrationCheck[];
+		const state = await requireCombatTracker(context).update((current) => {
+			const aimed = aimArea(current, input, input.caster);
+			area = describeArea(aimed);
+			const caught = creaturesInArea(current, aimed, input.caster);
+			if (caught.length === 0) throw new Error(`The ${area} catches no combatants`);
+			const tests = caught.map((target) =>
+				savingThrowTest(target, input.ability, {
+					legendaryResistance: input.legendaryResistance?.some(
+						(name) => name.trim().toLowerCase() === target.name.toLowerCase(),
+					),
+				}),
+			);
+			parseSaveDamage(input.damageDice);
+			const scope = beginRolls(context);
+			rollSequence = scope.rollSequence;
+			saves = resolveSavingThrows(tests, input, scope.rng);
+			const applied = applySaveDamage(current, saves, scope.rng);
+			hpChanges = applied.hpChanges;
+			concentrationChecks = applied.concentrationChecks;
+			return applied.state;
+		});
+		return {
+			...saves,
+			area,
+			targets: saves.results.map((result) => result.name),
+			hpChanges,
+			concentrationChecks,
+			...combatOutcome(state),
+			rollSequence,
+		};
+	},
+});
+
+/**
+ * Roll an ability check for a tracked combatant, using its skill proficiencies and conditions.
+ */
+export const abilityCheckTool = createTool({
+	id: "ability-check",
+	description:
+		"Roll an ability check for a combatant — Athletics to grapple or shove, Perception to spot a hidden foe, Stealth to hide — using its skill bonus when proficient and its ability modifier otherwise. Poisoned, frightened and exhausted creatures roll with disadvantage. Give a DC to get success or failure; leave it out for a contested check and compare totals.",
+	inputSchema: z.object({
+		name: z.string().describe("Combatant making the check, e.g. 'Kargan'"),
+		ability: abilityNameSchema.optional().describe("Ability used; defaults to the skill's ability"),
+		skill: z.string().optional().describe("Skill in lower case, e.g. 'athletics' or 'stealth'"),
+		dc: z.number().int().min(1).optional().describe("Check DC, if there is one"),
+		...d20TestOptionsSchema,
+	}),
+	outputSchema: d20TestResultSchema.extend({
+		ability: abilityNameSchema,
+		skill: z.string().optional(),
+		dc: z.number().optional(),
+		narrative: z.string(),
+		rollSequence: z.number().optional(),
+	}),
+	execute: async (input, context) => {
+		const ability = checkAbility(input.ability, input.skill);
+		const { state } = requireCombatTracker(context);
+		const test = abilityCheckTest(
+			state.combatants[findCombatant(state, input.name)],
+			ability,
+			input.skill,
+			input,
+		);
+		const { rng, rollSequence } = beginRolls(context);
+		return { ...resolveAbilityCheck(test, { ...input, ability }, rng), rollSequence };
+	},
+});
+
+// ── Spellcasting ──
+
+const spellPlanBase = {
+	caster: z.string(),
+	spell: z.string(),
+	slotLevel: z.number().nullable(),
+};
+
+const spellPlanSchema = z.discriminatedUnion("kind", [
+	z.object({
+		...spellPlanBase,
+		kind: z.literal("attack"),
+		attacks: z.array(
+			z.object({
+				request: z.object({
+					attackerName: z.string(),
+					targetName: z.string(),
+					toHitBonus: z.number(),
+					targetAC: z.number(),
+					damageDice: z.string(),
+					damageType: z.string(),
+					magical: z.boolean().optional(),
+				}),
+				effects: attackConditionEffectsSchema,
+				defenses: damageDefensesSchema,
+			}),
+		),
+	}),
+	z.object({
+		...spellPlanBase,
+		kind: z.literal("auto-hit"),
+		damageDice: z.string(),
+		damageType: z.string(),
+		darts: z.array(z.string()),
+		defenses: z.record(z.string(), damageDefensesSchema),
+	}),
+	z.object({
+		...spellPlanBase,
+		kind: z.literal("save"),
+		tests: z.array(
+			d20TestResultSchema.pick({
+				name: true,
+				modifier: true,
+				effects: true,
+				defenses: true,
+				legendaryResistance: true,
+			}),
+		),
+		request: z.object({
+			ability: abilityNameSchema,
+			dc: z.number(),
+			source: z.string().optional(),
+			damageDice: z.string().optional(),
+			damageType: z.string().optional(),
+			onSuccess: z.enum(["half", "none"]).optional(),
+		}),
+	}),
+	z.object({
+		...spellPlanBase,
+		kind: z.literal("healing"),
+		dice: z.string(),
+		targets: z.array(z.string()),
+	}),
+	z.object({ ...spellPlanBase, kind: z.literal("utility"), targets: z.array(z.string()) }),
+]);
+
+const counterspellSchema = z.object({
+	name: z.string(),
+	slotLevel: z.number(),
+	dc: z.number().nullable(),
+	spell: z.string(),
+	check: d20TestResultSchema.nullable(),
+	countered: z.boolean(),
+	narrative: z.string(),
+});
+
+/**
+ * Cast a spell from a tracked combatant's spell list, spending a slot and applying the
+ * spell's attacks, saves, healing, conditions and concentration to the combat state. An enemy
+ * caster may spend its reaction to counter it first.
+ */
+export const castSpellTool = createTool({
+	id: "cast-spell",
+	description:
+		"Cast a spell for a combatant that has spellcasting (player characters of casting classes, and monsters with a Spellcasting trait). Checks the spell is on the caster's list and spends a slot — the lowest one that can cast it, unless slotLevel upcasts it — refusing the cast when none are left. Spell attacks roll against each target's AC, save spells roll each target's save against the caster's DC, healing adds the spellcasting modifier, and damage, healing and conditions are applied to the combat state. Casting a concentration spell ends the caster's previous one, and targets concentrating on a spell roll concentration checks for the damage. An enemy caster who knows Counterspell and has a 3rd-level slot and its reaction left counters a leveled spell within 60 ft — outright with a slot of the spell's level or higher, otherwise on a spellcasting ability check against DC 10 + the spell's level; name the counterspeller, or 'none' to let the spell through. Targets named in legendaryResistance spend Legendary Resistance to succeed if they fail the spell's save. Shield and Counterspell themselves are only cast as reactions. On a battlefield, aim area spells with area instead of naming targets; spell attacks must be within the spell's range (touch spells within 5 ft), and a ranged one has disadvantage with an enemy adjacent to the caster. Do not call apply-damage, apply-healing or apply-condition for it afterwards.",
+	inputSchema: z.object({
+		caster: z.string().describe("Combatant casting the spell, e.g. 'Mage'"),
+		spell: z.string().describe("Spell name, e.g. 'Fireball' or 'Cure Wounds'"),
+		targets: z
+			.array(z.string())
+			.optional()
+			.describe(
+				"Target names. Rays and darts are shared out in turn, so repeat a name to aim several at it. Healing and self spells default to the caster",
+			),
+		slotLevel: z.number().int().min(1).max(9).optional().describe("Cast with a higher slot"),
+		distance: z
+			.number()
+			.min(0)
+			.optional()
+			.describe(
+				"Feet to the targets, for ranged spell attacks when the battlefield doesn't place them (default 30)",
+			),
+		area: z
+			.object({
+				origin: gridPositionSchema
+					.optional()
+					.describe("Fireball's center, Thunderwave's top-left square; cones start at the caster"),
+				toward: gridPositionSchema.optional().describe("Square a cone or line points at"),
+			})
+			.optional()
+			.describe(
+				"Aim an area spell (Fireball, Burning Hands, Lightning Bolt…) on the battlefield instead of listing targets — everyone inside saves",
+			),
+		counterspell: z
+			.string()
+			.optional()
+			.describe(
+				"Who casts Counterspell against it, or 'none' — by default the first enemy caster that can, for a leveled spell",
+			),
+		legendaryResistance: z
+			.array(z.string())
+			.optional()
+			.describe("Targets that spend Legendary Resistance to succeed if they fail the spell's save"),
+	}),
+	outputSchema: z.object({
+		plan: spellPlanSchema,
+		level: z.number(),
+		concentration: z.boolean(),
+		attacks: z.array(attackResultSchema.extend({ target: z.string() })),
+		saves: savingThrowResultSchema.nullable(),
+		roll: rolledDiceSchema.nullable(),
+		dartHits: z.array(
+			z.object({ target: z.string(), damage: z.number(), adjustment: z.string().nullable() }),
+		),
+		narrative: z.string(),
+		notes: z.array(z.string()),
+		hpChanges: z.array(hitPointChangeFields),
+		concentrationChecks: z.array(concentrationCheckSchema),
+		counterspell: counterspellSchema.nullable(),
+		slots: z.string(),
+		status: z.enum(["setup", "active", "ended"]),
+		winner: z.string().nullable(),
+		rollSequence: z.number().optional(),
+	}),
+	execute: async (input, context) => {
+		let cast!: ReturnType<typeof castSpell>["result"];
+		let rollSequence: number | undefined;
+		const state = await requireCombatTracker(context).update((current) => {
+			const next = castSpell(current, input, () => {
+				const scope = beginRolls(context);
+				rollSequence = scope.rollSequence;
+				return scope.rng;
+			});
+			cast = next.result;
+			return next.state;
+		});
+		return { ...cast, ...combatOutcome(state), rollSequence };
+	},
+});
+
+// ── Battlefield ──
+
+/**
+ * Lay out the grid and place combatants on it. From then on the engine measures reach and
+ * range for attacks, and movement goes through move-combatant.
+ */
+export const setBattlefieldTool = createTool({
+	id: "set-battlefield",
 	description:
-		"Resolve a D&D 5e attack. Rolls to hit against target AC, then rolls damage if it hits. Handles critical hits (nat 20) and misses (nat 1).",
+		"Lay out a square grid for the fight (each square is 5 ft) and place combatants on it by the top-left square they occupy — Large creatures take 2×2 squares, Huge 3×3, Gargantuan 4×4. Mark difficult terrain (rubble, undergrowth, shallow water), which costs double movement. Call it after the combatants have stat blocks; call it again to move combatants outside of turns or change the terrain. Once placed, resolve-attack checks reach and range from the grid and move-combatant handles movement.",
 	inputSchema: z.object({
+		width: z.number().int().min(1).max(100).describe("Squares across"),
+		height: z.number().int().min(1).max(100).describe("Squares down"),
+		difficultTerrain: z
+			.array(gridPositionSchema)
+			.optional()
+			.describe("Squares of difficult terrain, e.g. [{x: 3, y: 4}]"),
+		positions: z
+			.array(
+				z.object({
+					name: z.string().describe("Combatant name exactly as created"),
+					x: z.number().int().min(0),
+					y: z.number().int().min(0),
+				}),
+			)
+			.describe("Where each combatant stands; combatants left out keep their squares"),
+	}),
+	outputSchema: combatSummarySchema,
+	execute: async (input, context) => {
+		const { positions, ...battlefield } = input;
+		const state = await requireCombatTracker(context).update((current) =>
+			setBattlefield(
+				current,
+				{ ...battlefield, difficultTerrain: battlefield.difficultTerrain ?? [] },
+				positions,
+			),
+		);
+		return summarizeCombat(state);
+	},
+});
+
+const opportunityAttackSchema = z.object({
+	attacker: z.string(),
+	attack: z.string(),
+	request: z.object({
 		attackerName: z.string(),
 		targetName: z.string(),
-		toHitBonus: z.number().describe("Attacker's to-hit bonus"),
-		targetAC: z.number().describe("Target's armor class"),
-		damageDice: z.string().describe("Damage dice notation, e.g. '2d6+3'"),
-		damageType: z.string().describe("Damage type, e.g. 'slashing'"),
+		toHitBonus: z.number(),
+		targetAC: z.number(),
+		damageDice: z.string(),
+		damageType: z.string(),
+		distance: z.number(),
+		attackName: z.string(),
+	}),
+	result: reactedAttackResultSchema,
+	/** The mover's concentration check for the hit, when it was concentrating */
+	concentration: concentrationCheckSchema.nullable(),
+});
+
+/**
+ * Move the combatant whose turn it is along the cheapest route to a square, within its speed.
+ * Leaving an enemy's reach provokes an opportunity attack, rolled through resolve-attack from
+ * the square the mover leaves; a mover dropped to 0 HP stops there.
+ */
+export const moveCombatantTool = createTool({
+	id: "move-combatant",
+	description:
+		"Move the combatant whose turn it is to a square on the battlefield. The engine finds the cheapest path (diagonals cost 5 ft, difficult terrain and crawling while prone cost double, enemies block their squares) and refuses a move beyond the speed left this turn — set dash for the Dash action. Leaving an enemy's reach provokes an opportunity attack from it unless disengage is set (the Disengage action); each enemy makes at most one per round, and its damage (and a concentrating mover's concentration check) is applied. A mover dropped to 0 HP stops where it was hit. Set standUp to stand from prone first for half the speed. Do not call resolve-attack or apply-damage for the opportunity attacks.",
+	inputSchema: z.object({
+		name: z.string().describe("The combatant moving, e.g. 'Kargan'"),
+		to: gridPositionSchema.describe("Destination square (top-left square for large creatures)"),
+		dash: z.boolean().optional().describe("Took the Dash action: double speed this turn"),
+		disengage: z.boolean().optional().describe("Took the Disengage action: no opportunity attacks"),
+		standUp: z.boolean().optional().describe("Stand up from prone before moving"),
 	}),
 	outputSchema: z.object({
-		attackRoll: z.number(),
-		naturalRoll: z.number(),
-		isCritical: z.boolean(),
-		isFumble: z.boolean(),
-		hit: z.boolean(),
-		damageRolls: z.array(z.number()).optional(),
-		totalDamage: z.number(),
+		name: z.string(),
+		from: gridPositionSchema,
+		to: gridPositionSchema,
+		path: z.array(gridPositionSchema),
+		feetMoved: z.number(),
+		movementLeft: z.number(),
+		opportunityAttacks: z.array(opportunityAttackSchema),
+		stopped: z.boolean(),
 		narrative: z.string(),
+		hpChanges: z.array(hitPointChangeFields),
+		status: z.enum(["setup", "active", "ended"]),
+		winner: z.string().nullable(),
+		rollSequence: z.number().optional(),
 	}),
-	execute: async (input) => {
-		const { attackerName, targetName, toHitBonus, targetAC, damageDice, damageType } = input;
-
-		const naturalRoll = Math.floor(Math.random() * 20) + 1;
-		const attackRoll = naturalRoll + toHitBonus;
-		const isCritical = naturalRoll === 20;
-		const isFumble = naturalRoll === 1;
-		const hit = isCritical || (!isFumble && attackRoll >= targetAC);
-
-		let totalDamage = 0;
-		const damageRolls: number[] = [];
-
-		if (hit) {
-			const match = damageDice.match(/^(\d+)d(\d+)([+-]\d+)?$/i);
-			if (match) {
-				const count = Number.parseInt(match[1], 10) * (isCritical ? 2 : 1);
-				const sides = Number.parseInt(match[2], 10);
-				const modifier = match[3] ? Number.parseInt(match[3], 10) : 0;
-
-				for (let i = 0; i < count; i++) {
-					damageRolls.push(Math.floor(Math.random() * sides) + 1);
-				}
-				totalDamage = Math.max(0, damageRolls.reduce((a, b) => a + b, 0) + modifier);
-			}
+	execute: async (input, context) => {
+		const tracker = requireCombatTracker(context);
+		const plan = planMove(tracker.state, input);
+		const mover = tracker.state.combatants[findCombatant(tracker.state, plan.name)];
+		const requests = plan.opportunityAttacks.map((trigger) => ({
+			attackerName: trigger.attacker,
+			targetName: plan.name,
+			toHitBonus: trigger.attack.toHitBonus,
+			targetAC: mover.armorClass,
+			damageDice: trigger.attack.damageDice,
+			damageType: trigger.attack.damageType,
+			distance: trigger.distance,
+			attackName: trigger.attack.name,
+		}));
+		// Every attack is checked from the square the mover leaves before any of the move is
+		// saved or a die is rolled, so a refused attack can't leave the move half applied
+		for (const [i, trigger] of plan.opportunityAttacks.entries()) {
+			checkAttack(moveAlong(tracker.state, plan, trigger.step), requests[i]);
 		}
+		// Every opportunity attack draws from this one scope, in order
+		const { rng, rollSequence } = beginRolls(context);
+		const attackContext = { requestContext: createArenaContext({ rng, combat: tracker }) };
 
-		let narrative: string;
-		if (isCritical) {
-			narrative = `⚔️ CRITICAL HIT! ${attackerName} rolls a natural 20! They strike ${targetName} for ${totalDamage} ${damageType} damage!`;
-		} else if (isFumble) {
-			narrative = `💨 Critical miss! ${attackerName} rolls a natural 1 and whiffs completely!`;
-		} else if (hit) {
-			narrative = `🎯 ${attackerName} rolls ${attackRoll} (${naturalRoll}+${toHitBonus}) vs AC ${targetAC} — hit! ${totalDamage} ${damageType} damage to ${targetName}.`;
-		} else {
-			narrative = `🛡️ ${attackerName} rolls ${attackRoll} (${naturalRoll}+${toHitBonus}) vs AC ${targetAC} — miss!`;
+		const opportunityAttacks: Array<z.infer<typeof opportunityAttackSchema>> = [];
+		const hpChanges: HitPointChange[] = [];
+		let step = plan.path.length - 1;
+		for (const [i, trigger] of plan.opportunityAttacks.entries()) {
+			await tracker.update((current) =>
+				spendReaction(moveAlong(current, plan, trigger.step), trigger.attacker),
+			);
+			const request = requests[i];
+			const result = await resolveAttackTool.execute?.(request, attackContext);
+			if (!result || "error" in result) {
+				throw new Error(result?.message ?? "The opportunity attack couldn't be resolved");
+			}
+			const attack = { attacker: trigger.attacker, attack: trigger.attack.name, request, result };
+			if (!result.hit) {
+				opportunityAttacks.push({ ...attack, concentration: null });
+				continue;
+			}
+			let checks: ConcentrationCheck[] = [];
+			const state = await tracker.update((current) => {
+				const applied = applyDamage(current, plan.name, result.totalDamage, {
+					critical: result.isCritical,
+				});
+				hpChanges.push(applied.change);
+				const checked = checkConcentration(applied.state, [applied.change], () => rng);
+				checks = checked.checks;
+				return checked.state;
+			});
+			opportunityAttacks.push({ ...attack, concentration: checks[0] ?? null });
+			const hit = state.combatants[findCombatant(state, plan.name)];
+			if (!hit.isAlive || hit.hitPoints === 0) {
+				step = trigger.step;
+				break;
+			}
 		}
+		const state = await tracker.update((current) => moveAlong(current, plan, step));
+
+		const stopped = step < plan.path.length - 1;
+		const feetMoved = plan.feet[step] - plan.feet[0];
+		const where = describePosition(plan.path[step]);
+		const provoked = opportunityAttacks.map(
+			({ attacker, attack, result }) =>
+				`${attacker}'s opportunity attack (${attack}): ${result.hit ? `${result.totalDamage} damage` : "miss"}`,
+		);
+		const narrative = [
+			stopped
+				? `${plan.name} is dropped after ${feetMoved} ft at ${where}`
+				: `${plan.name} moves ${feetMoved} ft to ${where}`,
+			...provoked,
+		].join(" — ");
 
 		return {
-			attackRoll,
-			naturalRoll,
-			isCritical,
-			isFumble,
-			hit,
-			damageRolls,
-			totalDamage,
+			name: plan.name,
+			from: plan.path[0],
+			to: plan.path[step],
+			path: plan.path.slice(0, step + 1),
+			feetMoved,
+			movementLeft: plan.speed - plan.feet[step],
+			opportunityAttacks,
+			stopped,
 			narrative,
+			hpChanges,
+			...combatOutcome(state),
+			rollSequence,
 		};
 	},
 });
 
-// ── Pure helper functions for direct testing ──
+// ── Legendary creatures ──
 
-export interface KeepDrop {
-	type: "kh" | "kl" | "dh" | "dl";
-	n: number;
-}
+/**
+ * Spend a boss's legendary actions at the end of another combatant's turn. The engine tracks
+ * what is left; the action itself is resolved with the usual tools.
+ */
+export const useLegendaryActionTool = createTool({
+	id: "use-legendary-action",
+	description:
+		"Spend a legendary creature's legendary actions on one of its options (e.g. an Adult Red Dragon's 'Tail Attack' for 1 or 'Wing Attack' for 2) at the end of another combatant's turn — never on its own turn. It has three a round and regains them when its turn starts. This only records the spend: resolve the action afterwards with resolve-attack, area-effect or ability-check.",
+	inputSchema: z.object({
+		name: z.string().describe("The legendary creature, e.g. 'Adult Red Dragon'"),
+		action: z.string().describe("Legendary action option, e.g. 'Tail Attack'"),
+	}),
+	outputSchema: z.object({
+		name: z.string(),
+		action: legendaryActionSchema,
+		remaining: z.number(),
+		message: z.string(),
+	}),
+	execute: async (input, context) => {
+		let used!: ReturnType<typeof useLegendaryAction>;
+		await requireCombatTracker(context).update((current) => {
+			used = useLegendaryAction(current, input);
+			return used.state;
+		});
+		return used.result;
+	},
+});
 
-export interface ParsedDice {
-	count: number;
-	sides: number;
-	keepDrop: KeepDrop | null;
-	modifier: number;
-}
+/**
+ * Take a lair action while the window at initiative count 20 is open.
+ */
+export const useLairActionTool = createTool({
+	id: "use-lair-action",
+	description:
+		"Take a lair action for a creature fighting in its lair. Lair actions come on initiative count 20 (losing ties): call it when next-turn reports lairActionAvailable, before the next combatant acts. One per round, and not the same one two rounds in a row. This only records it: resolve the effect afterwards with area-effect, resolve-saving-throw or apply-condition.",
+	inputSchema: z.object({
+		name: z.string().describe("The lair's creature, e.g. 'Adult Red Dragon'"),
+		action: z.string().describe("Lair action, e.g. 'Magma Geyser'"),
+	}),
+	outputSchema: z.object({ name: z.string(), action: featureSchema, message: z.string() }),
+	execute: async (input, context) => {
+		let used!: ReturnType<typeof useLairAction>;
+		await requireCombatTracker(context).update((current) => {
+			used = useLairAction(current, input);
+			return used.state;
+		});
+		return used.result;
+	},
+});
 
 /**
- * Parse dice notation including keep/drop modifiers.
- * Supports: "2d6+3", "2d20kh1+5", "4d6dl1", "2d20kl1-2"
+ * Spend a recharge ability such as a breath weapon, so it can't be used again until it
+ * recharges.
  */
-export function parseDiceNotation(notation: string): ParsedDice {
-	const match = notation.match(/^(\d+)d(\d+)(?:(kh|kl|dh|dl)(\d+))?([+-]\d+)?$/i);
-	if (!match) throw new Error(`Invalid dice notation: ${notation}`);
-	return {
-		count: Number.parseInt(match[1], 10),
-		sides: Number.parseInt(match[2], 10),
-		keepDrop: match[3]
-			? { type: match[3].toLowerCase() as KeepDrop["type"], n: Number.parseInt(match[4], 10) }
-			: null,
-		modifier: match[5] ? Number.parseInt(match[5], 10) : 0,
-	};
-}
+export const useRechargeAbilityTool = createTool({
+	id: "use-recharge-ability",
+	description:
+		"Spend an ability marked 'Recharge 5–6' (a dragon's Fire Breath, a giant spider's Web) before resolving it. Refused while the ability is still recharging. Resolve the ability itself afterwards, e.g. Fire Breath with area-effect.",
+	inputSchema: z.object({
+		name: z.string().describe("Combatant using it, e.g. 'Young Red Dragon'"),
+		ability: z.string().describe("The recharge ability, e.g. 'Fire Breath'"),
+	}),
+	outputSchema: z.object({
+		name: z.string(),
+		ability: z.string(),
+		recharge: z.string(),
+		message: z.string(),
+	}),
+	execute: async (input, context) => {
+		let used!: ReturnType<typeof useRechargeAbility>;
+		await requireCombatTracker(context).update((current) => {
+			used = useRechargeAbility(current, input);
+			return used.state;
+		});
+		return used.result;
+	},
+});
 
 /**
- * Apply keep/drop logic to a set of rolls.
- * - kh(n): keep highest n
- * - kl(n): keep lowest n
- * - dh(n): drop highest n
- * - dl(n): drop lowest n
+ * Roll a d6 for each spent recharge ability at the start of the creature's turn.
  */
-export function applyKeepDrop(rolls: number[], keepDrop: KeepDrop | null): number[] {
-	if (!keepDrop) return [...rolls];
-
-	const sorted = [...rolls].sort((a, b) => a - b);
-	const { type, n } = keepDrop;
-
-	switch (type) {
-		case "kh":
-			return sorted.slice(-n);
-		case "kl":
-			return sorted.slice(0, n);
-		case "dh":
-			return sorted.slice(0, Math.max(0, sorted.length - n));
-		case "dl":
-			return sorted.slice(n);
-	}
-}
+export const rollRechargeTool = createTool({
+	id: "roll-recharge",
+	description:
+		"Roll to recharge a combatant's spent abilities (breath weapons and the like) at the start of its turn — next-turn lists them in rechargesDue. Each rolls a d6 and comes back on its recharge number, e.g. 5 or 6. Returns each roll and whether the ability is available again.",
+	inputSchema: z.object({
+		name: z.string().describe("Combatant whose turn is starting, e.g. 'Young Red Dragon'"),
+	}),
+	outputSchema: z.object({
+		name: z.string(),
+		rolls: z.array(
+			z.object({
+				ability: z.string(),
+				recharge: z.string(),
+				roll: z.number(),
+				recharged: z.boolean(),
+			}),
+		),
+		narrative: z.string(),
+		rollSequence: z.number().optional(),
+	}),
+	execute: async (input, context) => {
+		let rolled!: ReturnType<typeof rollRecharge>;
+		let rollSequence: number | undefined;
+		await requireCombatTracker(context).update((current) => {
+			rolled = rollRecharge(current, input.name, () => {
+				const scope = beginRolls(context);
+				rollSequence = scope.rollSequence;
+				return scope.rng;
+			});
+			return rolled.state;
+		});
+		return { ...rolled.result, rollSequence };
+	},
+});
+
+// ── Pure helper functions for direct testing ──
+
+export {
+	applyKeepDrop,
+	type KeepDrop,
+	type ParsedDice,
+	parseDiceNotation,
+} from "./dice.js";
 
 export function calculateAbilityModifier(score: number) {
 	const modifier = Math.floor((score - 10) / 2);
@@ -0,0 +1,386 @@
+import type { z } from "zod";
+import { type AttackRequest, resolveAttack } from "./attack.js";
+import {
+	type DeathSaveRoll,
+	type InitiativeRoll,
+	rollDeathSaveDie,
+	rollInitiativeDice,
+} from "./combat.js";
+import { type AttackConditionEffects, NO_ATTACK_EFFECTS } from "./conditions.js";
+import { createArenaContext } from "./context.js";
+import { type DamageDefenses, NO_DAMAGE_DEFENSES } from "./damage.js";
+import { type RechargeResult, rollRechargeDice } from "./legendary.js";
+import {
+	type AttackReaction,
+	againstShield,
+	type CounterspellResult,
+	reactToAttack,
+	rollCounterspell,
+} from "./reactions.js";
+import { commitToSeed, createVerifiableRandom, type RandomSource } from "./rng.js";
+import {
+	resolveAbilityCheck,
+	resolveSavingThrows,
+	type SavingThrowRequest,
+	type SavingThrowResult,
+} from "./saving-throws.js";
+import {
+	type ConcentrationCheck,
+	counteredSpell,
+	rollConcentrationSave,
+	rollSpell,
+	type SpellPlan,
+} from "./spells.js";
+import {
+	abilityCheckTool,
+	areaEffectTool,
+	resolveAttackTool,
+	resolveSavingThrowTool,
+	rollDiceTool,
+	rollInitiativeTool,
+} from "./tools.js";
+
+type Replay = (input: unknown, logged: unknown, rng: RandomSource) => Promise<unknown>;
+
+/** A logged input, parsed with the input schema of the tool that took it. */
+function toolInput<T>(tool: { id: string; inputSchema?: z.ZodType<T> }, input: unknown): T {
+	if (!tool.inputSchema) throw new Error(`${tool.id} takes no input`);
+	return tool.inputSchema.parse(input);
+}
+
+function withRng(rng: RandomSource) {
+	return { requestContext: createArenaContext({ rng }) };
+}
+
+/**
+ * roll-initiative reads DEX from the run's combat state, which a replay doesn't have, so only
+ * its d20s are recomputed — from the modifiers it logged — and the rest of the output is kept.
+ */
+async function replayInitiative(input: unknown, logged: unknown, rng: RandomSource) {
+	const { combatants } = toolInput(rollInitiativeTool, input);
+	const { order } = logged as { order: InitiativeRoll[] };
+	const key = (name: string) => name.trim().toLowerCase();
+	const modifiers = new Map(order.map((entry) => [key(entry.name), entry.modifier]));
+
+	const dice = rollInitiativeDice(
+		combatants.map((c) => ({ modifier: modifiers.get(key(c.name)) ?? 0, advantage: c.advantage })),
+		rng,
+	);
+	return {
+		...(logged as object),
+		order: order.map((entry) => ({
+			...entry,
+			...dice[combatants.findIndex((c) => key(c.name) === key(entry.name))],
+		})),
+	};
+}
+
+interface LoggedAttack {
+	conditionEffects?: AttackConditionEffects;
+	damageDefenses?: DamageDefenses;
+	shielded?: boolean;
+	reaction?: AttackReaction | null;
+}
+
+/**
+ * Re-roll an attack against the condition effects and defenses it logged — and Shield's +5 AC
+ * when the target had it up — then apply the reaction the target took to the hit.
+ */
+function rerollAttack(request: AttackRequest, logged: LoggedAttack, rng: RandomSource) {
+	const { conditionEffects, damageDefenses, shielded, reaction } = logged;
+	const result = resolveAttack(
+		shielded ? againstShield(request) : request,
+		rng,
+		conditionEffects ?? NO_ATTACK_EFFECTS,
+		damageDefenses ?? NO_DAMAGE_DEFENSES,
+	);
+	// Attacks logged before reactions were tracked
+	if (shielded === undefined) return result;
+	return { ...(reaction ? reactToAttack(result, reaction) : result), shielded, reaction };
+}
+
+/**
+ * resolve-attack takes its advantage and automatic crits from the combatants' conditions at the
+ * time, damage adjustments from the target's defenses and the target's reaction from its state,
+ * so the replay re-rolls with the effects, defenses and reaction it logged.
+ */
+async function replayAttack(input: unknown, logged: unknown, rng: RandomSource) {
+	return rerollAttack(toolInput(resolveAttackTool, input), logged as LoggedAttack, rng);
+}
+
+/**
+ * Re-roll each logged concentration check's save from its logged modifier and effects; a
+ * check made at 0 HP rolled nothing.
+ */
+function replayConcentration(checks: ConcentrationCheck[], rng: RandomSource) {
+	return checks.map((check) => {
+		if (!check.save) return check;
+		const { name, modifier, effects, defenses, legendaryResistance } = check.save.results[0];
+		const test = { name, modifier, effects, defenses, legendaryResistance };
+		return { ...check, save: rollConcentrationSave(test, check.spell, check.damage, rng) };
+	});
+}
+
+/** apply-damage rolls only the concentration checks it logs. */
+async function replayDamage(_input: unknown, logged: unknown, rng: RandomSource) {
+	const { concentrationChecks } = logged as { concentrationChecks: ConcentrationCheck[] };
+	return {
+		...(logged as object),
+		concentrationChecks: replayConcentration(concentrationChecks, rng),
+	};
+}
+
+/**
+ * resolve-saving-throw and ability-check read save bonuses and conditions from the combat
+ * state, so the replay re-rolls each logged modifier and effect list; the HP changes a save
+ * applied are kept as logged, and the concentration checks they called for are re-rolled after.
+ * A save that spent Legendary Resistance fails again on the same dice, so offering it to
+ * exactly those saves spends it the same way.
+ */
+async function replaySavingThrow(input: SavingThrowRequest, logged: unknown, rng: RandomSource) {
+	const { results, concentrationChecks } = logged as SavingThrowResult & {
+		concentrationChecks: ConcentrationCheck[];
+	};
+	const tests = results.map(({ name, modifier, effects, defenses, legendaryResistance }) => ({
+		name,
+		modifier,
+		effects,
+		defenses,
+		legendaryResistance,
+	}));
+	return {
+		...(logged as object),
+		...resolveSavingThrows(tests, input, rng),
+		concentrationChecks: replayConcentration(concentrationChecks, rng),
+	};
+}
+
+async function replayAbilityCheck(input: unknown, logged: unknown, rng: RandomSource) {
+	const { name, modifier, effects, ability } = logged as ReturnType<typeof resolveAbilityCheck>;
+	const { skill, dc } = toolInput(abilityCheckTool, input);
+	return {
+		...(logged as object),
+		...resolveAbilityCheck({ name, modifier, effects }, { ability, skill, dc }, rng),
+	};
+}
+
+/**
+ * cast-spell fixes everything it reads from the combat state — attack bonuses, target ACs, save
+ * modifiers, upcast dice — in the plan it logs, so the replay re-rolls that plan and then the
+ * concentration checks its damage called for. A Counterspell's check comes first, from the
+ * modifier it logged; a countered spell rolls nothing more.
+ */
+async function replaySpell(_input: unknown, logged: unknown, rng: RandomSource) {
+	const { plan, concentrationChecks, counterspell } = logged as {
+		plan: SpellPlan;
+		concentrationChecks: ConcentrationCheck[];
+		counterspell?: CounterspellResult | null;
+	};
+	if (counterspell) {
+		const { check } = counterspell;
+		const test = check && { name: check.name, modifier: check.modifier, effects: check.effects };
+		const replayed = rollCounterspell({ ...counterspell, test }, plan.spell, test ? rng : noDice);
+		if (replayed.countered) {
+			return { ...(logged as object), ...counteredSpell(plan, replayed), counterspell: replayed };
+		}
+		return {
+			...(logged as object),
+			...rollSpell(plan, rng),
+			concentrationChecks: replayConcentration(concentrationChecks, rng),
+			counterspell: replayed,
+		};
+	}
+	return {
+		...(logged as object),
+		...rollSpell(plan, rng),
+		concentrationChecks: replayConcentration(concentrationChecks, rng),
+	};
+}
+
+/** death-save rolls against the tally the character had going in, which it logs as `previous`. */
+async function replayDeathSave(_input: unknown, logged: unknown, rng: RandomSource) {
+	const { name, previous } = logged as DeathSaveRoll;
+	return { ...(logged as object), ...rollDeathSaveDie(name, previous, rng) };
+}
+
+/**
+ * move-combatant rolls its opportunity attacks in order from one scope, each against the
+ * condition effects, defenses and reaction it logged and followed by the mover's concentration check for
+ * a hit, so the replay re-rolls them the same way.
+ */
+async function replayMove(_input: unknown, logged: unknown, rng: RandomSource) {
+	const { opportunityAttacks } = logged as {
+		opportunityAttacks: Array<{
+			request: AttackRequest;
+			result: LoggedAttack;
+			concentration: ConcentrationCheck | null;
+		}>;
+	};
+	return {
+		...(logged as object),
+		opportunityAttacks: opportunityAttacks.map((attack) => {
+			const result = rerollAttack(attack.request, attack.result, rng);
+			const concentration = attack.concentration
+				? replayConcentration([attack.concentration], rng)[0]
+				: null;
+			return { ...attack, result, concentration };
+		}),
+	};
+}
+
+/** roll-recharge rolls a d6 for each logged ability, in order. */
+async function replayRecharge(_input: unknown, logged: unknown, rng: RandomSource) {
+	const { name, rolls } = logged as RechargeResult;
+	const abilities = rolls.map(({ ability, recharge }) => ({ name: ability, recharge }));
+	return { ...(logged as object), ...rollRechargeDice(name, abilities, rng) };
+}
+
+/** Roll tools whose logged outputs can be recomputed from the seed, keyed by agent tool name. */
+const VERIFIABLE_TOOLS: Record<string, Replay> = {
+	rollDice: async (input, _logged, rng) =>
+		rollDiceTool.execute?.(toolInput(rollDiceTool, input), withRng(rng)),
+	applyDamage: replayDamage,
+	resolveAttack: replayAttack,
+	rollInitiative: replayInitiative,
+	resolveSavingThrow: (input, logged, rng) =>
+		replaySavingThrow(toolInput(resolveSavingThrowTool, input), logged, rng),
+	areaEffect: (input, logged, rng) =>
+		replaySavingThrow(toolInput(areaEffectTool, input), logged, rng),
+	abilityCheck: replayAbilityCheck,
+	castSpell: replaySpell,
+	deathSave: replayDeathSave,
+	moveCombatant: replayMove,
+	rollRecharge: replayRecharge,
+};
+
+export interface LoggedToolCall {
+	sequence: number;
+	toolName: string;
+	input: unknown;
+	output: unknown;
+	isError: boolean;
+}
+
+export interface RollVerification {
+	sequence: number;
+	toolName: string;
+	rollSequence: number | null;
+	status: "verified" | "mismatch" | "skipped";
+	reason?: string;
+}
+
+export interface VerificationReport {
+	seed: string;
+	seedCommitment: string;
+	/** SHA-256 of the revealed seed matches the commitment published before the run */
+	commitmentValid: boolean;
+	/** Roll sequence numbers that were drawn but never logged (hidden rerolls) */
+	missingSequences: number[];
+	checked: number;
+	mismatches: number;
+	/** True only when the commitment holds, every roll matches, and no sequence is missing */
+	verified: boolean;
+	rolls: RollVerification[];
+}
+
+/** JSON with object keys sorted, so outputs compare equal regardless of key order. */
+function canonicalJson(value: unknown): string {
+	return JSON.stringify(value, (_key, v) =>
+		v && typeof v === "object" && !Array.isArray(v)
+			? Object.fromEntries(Object.entries(v).sort(([a], [b]) => a.localeCompare(b)))
+			: v,
+	);
+}
+
+function withoutRollSequence(output: unknown) {
+	if (!output || typeof output !== "object") return output;
+	const { rollSequence: _rollSequence, ...rest } = output as Record<string, unknown>;
+	return rest;
+}
+
+function sameOutput(recomputed: unknown, logged: unknown) {
+	return (
+		canonicalJson(withoutRollSequence(recomputed)) === canonicalJson(withoutRollSequence(logged))
+	);
+}
+
+function noDice(): number {
+	throw new Error("No roll sequence recorded");
+}
+
+async function verifyCall(seed: string, call: LoggedToolCall): Promise<RollVerification> {
+	const replay = VERIFIABLE_TOOLS[call.toolName];
+	const logged = call.output as { rollSequence?: number } | null;
+	const rollSequence = typeof logged?.rollSequence === "number" ? logged.rollSequence : null;
+	const base = { sequence: call.sequence, toolName: call.toolName, rollSequence };
+
+	if (call.isError) return { ...base, status: "skipped", reason: "tool call failed" };
+	if (rollSequence === null) {
+		// apply-damage and utility spells take a roll only when they have dice to roll
+		const rolledNothing = await replay(call.input, logged, noDice).then(
+			(recomputed) => sameOutput(recomputed, logged),
+			() => false,
+		);
+		return rolledNothing
+			? { ...base, status: "skipped", reason: "no dice rolled" }
+			: { ...base, status: "mismatch", reason: "no roll sequence recorded" };
+	}
+
+	try {
+		const rng = createVerifiableRandom(seed, rollSequence);
+		const recomputed = await replay(call.input, logged, rng);
+		return sameOutput(recomputed, logged)
+			? { ...base, status: "verified" }
+			: { ...base, status: "mismatch", reason: "recomputed result differs from the log" };
+	} catch (err) {
+		const reason = err instanceof Error ? err.message : "recomputation failed";
+		return { ...base, status: "mismatch", reason };
+	}
+}
+
+/**
+ * Check a completed verifiable arena: the revealed seed must match its commitment,
+ * every logged roll must be reproducible from (seed, rollSequence), and the roll
+ * sequence numbers must be contiguous so no roll was made and then discarded.
+ */
+export async function verifyRolls(
+	seed: string,
+	seedCommitment: string,
+	calls: LoggedToolCall[],
+): Promise<VerificationReport> {
+	const rollCalls = calls.filter((c) => c.toolName in VERIFIABLE_TOOLS);
+	const rolls = await Promise.all(rollCalls.map((c) => verifyCall(seed, c)));
+
+	const seen = new Map<number, number>();
+	for (const roll of rolls) {
+		if (roll.rollSequence !== null) {
+			seen.set(roll.rollSequence, (seen.get(roll.rollSequence) ?? 0) + 1);
+		}
+	}
+	for (const roll of rolls) {
+		if (roll.rollSequence !== null && (seen.get(roll.rollSequence) ?? 0) > 1) {
+			roll.status = "mismatch";
+			roll.reason = "roll sequence logged more than once";
+		}
+	}
+
+	const highest = seen.size > 0 ? Math.max(...seen.keys()) : -1;
+	const missingSequences: number[] = [];
+	for (let n = 0; n <= highest; n++) {
+		if (!seen.has(n)) missingSequences.push(n);
+	}
+
+	const commitmentValid = commitToSeed(seed) === seedCommitment;
+	const mismatches = rolls.filter((r) => r.status === "mismatch").length;
+
+	return {
+		seed,
+		seedCommitment,
+		commitmentValid,
+		missingSequences,
+		checked: rolls.filter((r) => r.status !== "skipped").length,
+		mismatches,
+		verified: commitmentValid && mismatches === 0 && missingSequences.length === 0,
+		rolls,
+	};
+}
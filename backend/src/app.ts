@@ -5,6 +5,11 @@ import { requireAuth } from "./middleware.js";
 import { adminRoutes } from "./routes/admin.js";
 import { arenaRoutes } from "./routes/arena.js";
 import { authRoutes } from "./routes/auth.js";
+import { characterRoutes } from "./routes/characters.js";
+import { compendiumRoutes } from "./routes/compendium.js";
+import { creatureRoutes } from "./routes/creatures.js";
+import { diceRoutes } from "./routes/dice.js";
+import { encounterRoutes } from "./routes/encounters.js";
 
 const app = new Hono()
 	.use(logger())
@@ -28,6 +33,21 @@ const app = new Hono()
 	// Arena routes — /api/arenas/*
 	.route("/api/arenas", arenaRoutes)
 
+	// Dice probability routes — /api/dice/*
+	.route("/api/dice", diceRoutes)
+
+	// Saved creature library — /api/creatures/*
+	.route("/api/creatures", creatureRoutes)
+
+	// Player character builder — /api/characters
+	.route("/api/characters", characterRoutes)
+
+	// Encounter difficulty — /api/encounters/*
+	.route("/api/encounters", encounterRoutes)
+
+	// SRD compendium routes — /api/compendium/*
+	.route("/api/compendium", compendiumRoutes)
+
 	// Admin routes — /api/admin/*
 	.route("/api/admin", adminRoutes);
 
@@ -0,0 +1,59 @@
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { fileURLToPath } from "node:url";
+import { eq } from "drizzle-orm";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+
+// A fresh, migrated but unseeded database; db/index.ts reads DATABASE_URL on import
+const dir = mkdtempSync(join(tmpdir(), "compendium-"));
+process.env.DATABASE_URL = `file:${join(dir, "test.db")}`;
+const { db, schema } = await import("../../db/index.js");
+const { findMonster, searchMonsters } = await import("../monsters.js");
+const { SRD_MONSTERS } = await import("../srd-monsters.js");
+
+beforeAll(async () => {
+	const { migrate } = await import("drizzle-orm/libsql/migrator");
+	const migrationsFolder = fileURLToPath(new URL("../../../drizzle", import.meta.url));
+	await migrate(db, { migrationsFolder });
+});
+
+const clients = [db.$client];
+
+afterAll(() => {
+	for (const client of clients) client.close();
+	rmSync(dir, { recursive: true, force: true });
+});
+
+describe("compendium seeding", () => {
+	it("seeds an empty table on the first lookup", async () => {
+		const { monster } = await findMonster("Owlbear");
+		expect(monster?.name).toBe("Owlbear");
+		const rows = await db.select().from(schema.monsters);
+		expect(rows).toHaveLength(SRD_MONSTERS.length);
+	});
+
+	it("serves search from the seeded table", async () => {
+		const found = await searchMonsters({ q: "dragon", limit: 20 });
+		expect(found.map((m) => m.name)).toEqual([
+			"Young Red Dragon",
+			"Adult Red Dragon",
+			"Ancient Red Dragon",
+		]);
+	});
+
+	it("re-seeds on the next start when the bundled dataset has changed", async () => {
+		await db
+			.update(schema.monsters)
+			.set({ data: JSON.stringify({ ...SRD_MONSTERS[0], armorClass: 1 }) })
+			.where(eq(schema.monsters.slug, SRD_MONSTERS[0].slug));
+
+		// A new process: fresh modules over the same database
+		vi.resetModules();
+		const restarted = await import("../../db/index.js");
+		clients.push(restarted.db.$client);
+		const { getMonster } = await import("../monsters.js");
+		const monster = await getMonster(SRD_MONSTERS[0].slug);
+		expect(monster?.armorClass).toBe(SRD_MONSTERS[0].armorClass);
+	});
+});
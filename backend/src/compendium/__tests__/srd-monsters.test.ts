@@ -0,0 +1,219 @@
+import { describe, expect, it } from "vitest";
+import { resolveAttack } from "../../agent/attack.js";
+import { NO_DAMAGE_DEFENSES } from "../../agent/damage.js";
+import { parseDiceExpression } from "../../agent/dice.js";
+import { createSeededRandom } from "../../agent/rng.js";
+import { creatureSchema, monsterSchema } from "../../schemas/index.js";
+import { SRD_MONSTERS } from "../srd-monsters.js";
+import { monsterToStatBlock } from "../stat-block.js";
+
+const monsters = SRD_MONSTERS.map((entry) => monsterSchema.parse(entry));
+
+function bySlug(slug: string) {
+	const monster = monsters.find((m) => m.slug === slug);
+	if (!monster) throw new Error(`missing ${slug}`);
+	return monster;
+}
+
+/** Average of a hit-dice expression like "7d10+21", rounded down as in the SRD. */
+function averageHitPoints(hitDice: string) {
+	const expr = parseDiceExpression(hitDice);
+	const average = expr.terms.reduce((sum, term) => {
+		if (term.kind === "dice") return sum + (term.sign * term.count * (term.sides + 1)) / 2;
+		if (term.kind === "constant") return sum + term.sign * term.value;
+		return sum;
+	}, 0);
+	return Math.floor(average);
+}
+
+describe("SRD_MONSTERS", () => {
+	it("every entry matches the monster schema", () => {
+		for (const entry of SRD_MONSTERS) {
+			expect(monsterSchema.safeParse(entry).success, entry.name).toBe(true);
+		}
+	});
+
+	it("slugs are unique and derived from the name", () => {
+		const slugs = monsters.map((m) => m.slug);
+		expect(new Set(slugs).size).toBe(slugs.length);
+		for (const m of monsters) {
+			expect(m.slug).toBe(m.name.toLowerCase().replace(/ /g, "-"));
+		}
+	});
+
+	it("hit points are the average of the hit dice", () => {
+		for (const m of monsters) {
+			expect(averageHitPoints(m.hitDice), m.name).toBe(m.hitPoints);
+		}
+	});
+
+	it("every attack has valid damage dice", () => {
+		for (const m of monsters) {
+			for (const action of m.actions) {
+				for (const damage of action.attack?.damage ?? []) {
+					expect(() => parseDiceExpression(damage.dice), `${m.name} ${action.name}`).not.toThrow();
+				}
+			}
+		}
+	});
+});
+
+describe("monsterToStatBlock", () => {
+	it("keeps the canonical AC, HP and attacks", () => {
+		const stat = monsterToStatBlock(bySlug("goblin"));
+		expect(stat).toMatchObject({
+			name: "Goblin",
+			type: "monster",
+			armorClass: 15,
+			hitPoints: 7,
+			maxHitPoints: 7,
+			conditions: [],
+			isAlive: true,
+		});
+		expect(stat.attacks).toEqual([
+			{
+				name: "Scimitar",
+				toHitBonus: 4,
+				damageDice: "1d6+2",
+				damageType: "slashing",
+				reach: 5,
+			},
+			{
+				name: "Shortbow",
+				toHitBonus: 4,
+				damageDice: "1d6+2",
+				damageType: "piercing",
+				range: "80/320",
+			},
+		]);
+	});
+
+	it("skips non-attack actions and types each part of multi-type damage", () => {
+		const stat = monsterToStatBlock(bySlug("young-red-dragon"));
+		expect(stat.attacks.map((a) => a.name)).toEqual(["Bite", "Claw"]);
+		expect(stat.attacks[0]).toMatchObject({
+			damageDice: "2d10+6 piercing + 1d6 fire",
+			damageType: "piercing",
+		});
+	});
+
+	it("lets a fire-immune target shrug off only the fire in a dragon's bite", () => {
+		const bite = monsterToStatBlock(bySlug("adult-red-dragon")).attacks[0];
+		const result = resolveAttack(
+			{ attackerName: "Adult Red Dragon", targetName: "Salamander", targetAC: 10, ...bite },
+			createSeededRandom("bite"),
+			undefined,
+			{ ...NO_DAMAGE_DEFENSES, immunities: ["fire"] },
+		);
+		expect(result.hit).toBe(true);
+		const [piercing, fire] = result.damageParts;
+		expect([piercing.damageType, fire.damageType]).toEqual(["piercing", "fire"]);
+		expect(fire.total).toBeGreaterThan(0);
+		expect(result.totalDamage).toBe(piercing.total);
+	});
+
+	it("carries the rich 5e details onto the combatant", () => {
+		const stat = monsterToStatBlock(bySlug("wight"));
+		expect(stat).toMatchObject({
+			size: "Medium",
+			challengeRating: 3,
+			speed: { walk: 30 },
+			skills: { perception: 3, stealth: 4 },
+			damageImmunities: ["poison"],
+			conditionImmunities: ["exhaustion", "poisoned"],
+			senses: { darkvision: 60, passivePerception: 13 },
+		});
+		expect(stat.damageResistances[0]).toBe("necrotic");
+		expect(stat.traits.map((t) => t.name)).toEqual(["Sunlight Sensitivity"]);
+		expect(stat.multiattack).toMatch(/^The wight makes two longsword attacks/);
+		expect(creatureSchema.safeParse(stat).success).toBe(true);
+	});
+
+	it("keeps stat block reactions and leaves them off creatures without any", () => {
+		expect(monsterToStatBlock(bySlug("knight")).reactions?.map((r) => r.name)).toEqual(["Parry"]);
+		expect(monsterToStatBlock(bySlug("goblin"))).not.toHaveProperty("reactions");
+	});
+
+	it("reads spellcasting, slots and catalog spells from the Spellcasting trait", () => {
+		expect(monsterToStatBlock(bySlug("mage")).spellcasting).toEqual({
+			ability: "intelligence",
+			saveDC: 14,
+			attackBonus: 6,
+			casterLevel: 9,
+			spells: [
+				"fire-bolt",
+				"magic-missile",
+				"shield",
+				"misty-step",
+				"counterspell",
+				"fireball",
+				"greater-invisibility",
+				"ice-storm",
+				"cone-of-cold",
+			],
+			slots: [
+				{ level: 1, max: 4, remaining: 4 },
+				{ level: 2, max: 3, remaining: 3 },
+				{ level: 3, max: 3, remaining: 3 },
+				{ level: 4, max: 3, remaining: 3 },
+				{ level: 5, max: 1, remaining: 1 },
+			],
+		});
+		expect(monsterToStatBlock(bySlug("priest")).spellcasting).toMatchObject({
+			ability: "wisdom",
+			saveDC: 13,
+			spells: [
+				"sacred-flame",
+				"cure-wounds",
+				"guiding-bolt",
+				"spiritual-weapon",
+				"spirit-guardians",
+			],
+		});
+		expect(monsterToStatBlock(bySlug("ogre")).spellcasting).toBeUndefined();
+	});
+
+	it("tracks legendary actions, Legendary Resistance and recharge abilities", () => {
+		const dragon = monsterToStatBlock(bySlug("adult-red-dragon"));
+		expect(dragon.legendaryActions).toMatchObject({ perRound: 3, remaining: 3 });
+		expect(dragon.legendaryActions?.actions.map((a) => [a.name, a.cost])).toEqual([
+			["Detect", 1],
+			["Tail Attack", 1],
+			["Wing Attack", 2],
+		]);
+		expect(dragon.legendaryResistance).toEqual({ perDay: 3, remaining: 3 });
+		expect(dragon.recharges).toEqual([{ name: "Fire Breath", recharge: "5-6", available: true }]);
+		expect(dragon.lairActions).toBeUndefined();
+		expect(creatureSchema.safeParse(dragon).success).toBe(true);
+
+		const inLair = monsterToStatBlock(bySlug("adult-red-dragon"), { inLair: true });
+		expect(inLair.lairActions?.actions.map((a) => a.name)).toEqual([
+			"Magma Geyser",
+			"Tremor",
+			"Volcanic Gases",
+		]);
+		expect(monsterToStatBlock(bySlug("giant-spider")).recharges).toEqual([
+			{ name: "Web", recharge: "5-6", available: true },
+		]);
+		const ogre = monsterToStatBlock(bySlug("ogre"), { inLair: true });
+		expect([ogre.legendaryActions, ogre.legendaryResistance, ogre.lairActions]).toEqual([
+			undefined,
+			undefined,
+			undefined,
+		]);
+	});
+
+	it("uses the display name when given", () => {
+		expect(monsterToStatBlock(bySlug("orc"), { name: "Orc Raider #2" }).name).toBe("Orc Raider #2");
+	});
+
+	it("rolls hit dice reproducibly from the seed", () => {
+		const ogre = bySlug("ogre");
+		const a = monsterToStatBlock(ogre, { rollHitPoints: true, rng: createSeededRandom("ogre") });
+		const b = monsterToStatBlock(ogre, { rollHitPoints: true, rng: createSeededRandom("ogre") });
+		expect(a.hitPoints).toBe(b.hitPoints);
+		expect(a.hitPoints).toBeGreaterThanOrEqual(7 + 21);
+		expect(a.hitPoints).toBeLessThanOrEqual(70 + 21);
+		expect(a.maxHitPoints).toBe(a.hitPoints);
+	});
+});
@@ -0,0 +1,1193 @@
+import type { AbilityName, ArmorName, CharacterClass, WeaponName } from "../schemas/index.js";
+
+/*
+ * Classes, class features and one subclass per class from the System Reference Document 5.1
+ * by Wizards of the Coast LLC, licensed under CC BY 4.0. Rules text is abridged.
+ */
+
+export type FightingStyle = "archery" | "defense" | "dueling";
+
+export interface ClassFeature {
+	level: number;
+	name: string;
+	/** Static text, or text computed from the character's class level (uses, dice, ranges) */
+	description: string | ((level: number) => string);
+	fightingStyle?: FightingStyle;
+}
+
+export interface Subclass {
+	name: string;
+	features: ClassFeature[];
+}
+
+export interface CharacterClassDefinition {
+	name: string;
+	hitDie: number;
+	savingThrows: AbilityName[];
+	/** Where the highest scores go when assigning an array, rolls or ability score improvements */
+	abilityPriority: AbilityName[];
+	skills: string[];
+	armor: ArmorName;
+	shield: boolean;
+	weapons: WeaponName[];
+	spellcasting?: { ability: AbilityName; level: number };
+	/** Levels that grant an Ability Score Improvement */
+	abilityScoreImprovements: number[];
+	/** Attacks per Attack action from a given level on, e.g. [[5, 2], [11, 3]] */
+	extraAttacks?: Array<[level: number, attacks: number]>;
+	subclassLevel: number;
+	subclass: Subclass;
+	features: ClassFeature[];
+}
+
+const STANDARD_ASI_LEVELS = [4, 8, 12, 16, 19];
+
+/** The value from the highest threshold at or below `level`, e.g. a die that grows with level. */
+export function scaleByLevel<T>(level: number, table: Array<[level: number, value: T]>): T {
+	let value = table[0][1];
+	for (const [threshold, entry] of table) {
+		if (level >= threshold) value = entry;
+	}
+	return value;
+}
+
+const EXTRA_ATTACK: ClassFeature = {
+	level: 5,
+	name: "Extra Attack",
+	description: "Attacks twice, instead of once, whenever taking the Attack action.",
+};
+
+export const CLASSES: Record<CharacterClass, CharacterClassDefinition> = {
+	barbarian: {
+		name: "Barbarian",
+		hitDie: 12,
+		savingThrows: ["strength", "constitution"],
+		abilityPriority: [
+			"strength",
+			"constitution",
+			"dexterity",
+			"wisdom",
+			"charisma",
+			"intelligence",
+		],
+		skills: ["athletics", "perception"],
+		armor: "none",
+		shield: false,
+		weapons: ["greataxe", "handaxe"],
+		abilityScoreImprovements: STANDARD_ASI_LEVELS,
+		extraAttacks: [[5, 2]],
+		subclassLevel: 3,
+		subclass: {
+			name: "Path of the Berserker",
+			features: [
+				{
+					level: 3,
+					name: "Frenzy",
+					description:
+						"While raging, can make a single melee weapon attack as a bonus action on each turn; gains a level of exhaustion when the rage ends.",
+				},
+				{
+					level: 6,
+					name: "Mindless Rage",
+					description: "Can't be charmed or frightened while raging.",
+				},
+				{
+					level: 10,
+					name: "Intimidating Presence",
+					description:
+						"Action: frighten a creature within 30 feet until the end of its next turn (Wisdom save, DC 8 + proficiency bonus + CHA modifier).",
+				},
+				{
+					level: 14,
+					name: "Retaliation",
+					description:
+						"Reaction: when damaged by a creature within 5 feet, make a melee weapon attack against it.",
+				},
+			],
+		},
+		features: [
+			{
+				level: 1,
+				name: "Rage",
+				description: (level) =>
+					`Bonus action, ${scaleByLevel(level, [
+						[1, "2"],
+						[3, "3"],
+						[6, "4"],
+						[12, "5"],
+						[17, "6"],
+						[20, "unlimited"],
+					])} per long rest: advantage on STR checks and saves, +${scaleByLevel(level, [
+						[1, 2],
+						[9, 3],
+						[16, 4],
+					])} melee damage with STR weapons, resistance to bludgeoning, piercing and slashing damage.`,
+			},
+			{
+				level: 1,
+				name: "Unarmored Defense",
+				description:
+					"Without armor, AC equals 10 + DEX modifier + CON modifier (a shield still counts).",
+			},
+			{
+				level: 2,
+				name: "Reckless Attack",
+				description:
+					"On the first attack of a turn, may gain advantage on STR melee attacks; attacks against the barbarian have advantage until its next turn.",
+			},
+			{
+				level: 2,
+				name: "Danger Sense",
+				description:
+					"Advantage on DEX saves against effects it can see, unless blinded, deafened or incapacitated.",
+			},
+			EXTRA_ATTACK,
+			{
+				level: 5,
+				name: "Fast Movement",
+				description: "+10 feet of speed while not wearing heavy armor.",
+			},
+			{
+				level: 7,
+				name: "Feral Instinct",
+				description:
+					"Advantage on initiative rolls; can act normally when surprised if it rages first.",
+			},
+			{
+				level: 9,
+				name: "Brutal Critical",
+				description: (level) =>
+					`Rolls ${scaleByLevel(level, [
+						[9, "one additional weapon damage die"],
+						[13, "two additional weapon damage dice"],
+						[17, "three additional weapon damage dice"],
+					])} on a melee critical hit.`,
+			},
+			{
+				level: 11,
+				name: "Relentless Rage",
+				description:
+					"When dropped to 0 HP while raging, a DC 10 CON save (DC +5 per later use) leaves it at 1 HP instead.",
+			},
+			{
+				level: 15,
+				name: "Persistent Rage",
+				description:
+					"Rage ends early only if the barbarian falls unconscious or chooses to end it.",
+			},
+			{
+				level: 18,
+				name: "Indomitable Might",
+				description: "A STR check total lower than the STR score uses the score instead.",
+			},
+			{
+				level: 20,
+				name: "Primal Champion",
+				description: "STR and CON scores increase by 4, to a maximum of 24.",
+			},
+		],
+	},
+	bard: {
+		name: "Bard",
+		hitDie: 8,
+		savingThrows: ["dexterity", "charisma"],
+		abilityPriority: [
+			"charisma",
+			"dexterity",
+			"constitution",
+			"wisdom",
+			"intelligence",
+			"strength",
+		],
+		skills: ["performance", "persuasion", "deception"],
+		armor: "leather",
+		shield: false,
+		weapons: ["rapier", "dagger"],
+		spellcasting: { ability: "charisma", level: 1 },
+		abilityScoreImprovements: STANDARD_ASI_LEVELS,
+		subclassLevel: 3,
+		subclass: {
+			name: "College of Lore",
+			features: [
+				{
+					level: 3,
+					name: "Cutting Words",
+					description:
+						"Reaction: spend a Bardic Inspiration die to subtract it from a creature's attack roll, ability check or damage roll within 60 feet.",
+				},
+				{
+					level: 6,
+					name: "Additional Magical Secrets",
+					description: "Learns two spells from any class's spell list.",
+				},
+				{
+					level: 14,
+					name: "Peerless Skill",
+					description: "Can spend a Bardic Inspiration die on its own ability check.",
+				},
+			],
+		},
+		features: [
+			{
+				level: 1,
+				name: "Bardic Inspiration",
+				description: (level) =>
+					`Bonus action: give a creature within 60 feet a ${scaleByLevel(level, [
+						[1, "d6"],
+						[5, "d8"],
+						[10, "d10"],
+						[15, "d12"],
+					])} to add to one ability check, attack roll or saving throw. Uses equal CHA modifier (minimum 1) per ${level >= 5 ? "short or long" : "long"} rest.`,
+			},
+			{
+				level: 2,
+				name: "Jack of All Trades",
+				description: "Adds half the proficiency bonus to ability checks without proficiency.",
+			},
+			{
+				level: 2,
+				name: "Song of Rest",
+				description: (level) =>
+					`Allies regaining hit points from Hit Dice during a short rest regain an extra ${scaleByLevel(
+						level,
+						[
+							[2, "1d6"],
+							[9, "1d8"],
+							[13, "1d10"],
+							[17, "1d12"],
+						],
+					)}.`,
+			},
+			{
+				level: 6,
+				name: "Countercharm",
+				description:
+					"Action: allies within 30 feet have advantage on saves against being frightened or charmed.",
+			},
+			{
+				level: 10,
+				name: "Magical Secrets",
+				description: "Learns spells from any class's spell list.",
+			},
+		],
+	},
+	cleric: {
+		name: "Cleric",
+		hitDie: 8,
+		savingThrows: ["wisdom", "charisma"],
+		abilityPriority: [
+			"wisdom",
+			"constitution",
+			"strength",
+			"dexterity",
+			"charisma",
+			"intelligence",
+		],
+		skills: ["insight", "medicine"],
+		armor: "scale-mail",
+		shield: true,
+		weapons: ["mace", "light-crossbow"],
+		spellcasting: { ability: "wisdom", level: 1 },
+		abilityScoreImprovements: STANDARD_ASI_LEVELS,
+		subclassLevel: 1,
+		subclass: {
+			name: "Life Domain",
+			features: [
+				{
+					level: 1,
+					name: "Disciple of Life",
+					description:
+						"Healing spells of 1st level or higher restore an extra 2 + spell level hit points.",
+				},
+				{
+					level: 2,
+					name: "Channel Divinity: Preserve Life",
+					description: (level) =>
+						`Action: divide ${level * 5} hit points of healing among creatures within 30 feet, up to half each one's maximum.`,
+				},
+				{
+					level: 6,
+					name: "Blessed Healer",
+					description:
+						"Healing another creature with a spell also heals the cleric for 2 + spell level.",
+				},
+				{
+					level: 8,
+					name: "Divine Strike",
+					description: (level) =>
+						`Once per turn, a weapon hit deals an extra ${level >= 14 ? "2d8" : "1d8"} radiant damage.`,
+				},
+				{
+					level: 17,
+					name: "Supreme Healing",
+					description: "Healing spells restore the maximum possible from their dice.",
+				},
+			],
+		},
+		features: [
+			{
+				level: 2,
+				name: "Channel Divinity",
+				description: (level) =>
+					`${scaleByLevel(level, [
+						[2, "Once"],
+						[6, "Twice"],
+						[18, "Three times"],
+					])} per short or long rest; includes Turn Undead (WIS save or turned for 1 minute).`,
+			},
+			{
+				level: 5,
+				name: "Destroy Undead",
+				description: (level) =>
+					`Undead of CR ${scaleByLevel(level, [
+						[5, "1/2"],
+						[8, "1"],
+						[11, "2"],
+						[14, "3"],
+						[17, "4"],
+					])} or lower that fail the Turn Undead save are destroyed.`,
+			},
+			{
+				level: 10,
+				name: "Divine Intervention",
+				description:
+					"Action: implore the deity for aid; succeeds if a d100 roll is at or below the cleric level.",
+			},
+		],
+	},
+	druid: {
+		name: "Druid",
+		hitDie: 8,
+		savingThrows: ["intelligence", "wisdom"],
+		abilityPriority: [
+			"wisdom",
+			"constitution",
+			"dexterity",
+			"intelligence",
+			"charisma",
+			"strength",
+		],
+		skills: ["nature", "perception"],
+		armor: "leather",
+		shield: true,
+		weapons: ["produce-flame", "scimitar"],
+		spellcasting: { ability: "wisdom", level: 1 },
+		abilityScoreImprovements: STANDARD_ASI_LEVELS,
+		subclassLevel: 2,
+		subclass: {
+			name: "Circle of the Land",
+			features: [
+				{
+					level: 2,
+					name: "Natural Recovery",
+					description: (level) =>
+						`Once per day during a short rest, recover spell slots totalling up to ${Math.ceil(level / 2)} levels (none 6th or higher).`,
+				},
+				{
+					level: 6,
+					name: "Land's Stride",
+					description:
+						"Nonmagical difficult terrain costs no extra movement; advantage on saves against magical plants.",
+				},
+				{
+					level: 10,
+					name: "Nature's Ward",
+					description:
+						"Can't be charmed or frightened by elementals or fey; immune to poison and disease.",
+				},
+				{
+					level: 14,
+					name: "Nature's Sanctuary",
+					description: "Beasts and plants must make a WIS save to attack the druid.",
+				},
+			],
+		},
+		features: [
+			{
+				level: 2,
+				name: "Wild Shape",
+				description: (level) =>
+					`Twice per short rest, transform into a beast of CR ${scaleByLevel(level, [
+						[2, "1/4 (no flying or swimming speed)"],
+						[4, "1/2 (no flying speed)"],
+						[8, "1"],
+					])} or lower for up to ${Math.floor(level / 2)} hours.`,
+			},
+			{ level: 18, name: "Timeless Body", description: "Ages 1 year for every 10 that pass." },
+			{
+				level: 18,
+				name: "Beast Spells",
+				description: "Can cast spells with verbal and somatic components while in Wild Shape.",
+			},
+			{ level: 20, name: "Archdruid", description: "Unlimited Wild Shape uses." },
+		],
+	},
+	fighter: {
+		name: "Fighter",
+		hitDie: 10,
+		savingThrows: ["strength", "constitution"],
+		abilityPriority: [
+			"strength",
+			"constitution",
+			"dexterity",
+			"wisdom",
+			"charisma",
+			"intelligence",
+		],
+		skills: ["athletics", "perception"],
+		armor: "chain-mail",
+		shield: true,
+		weapons: ["longsword", "light-crossbow"],
+		abilityScoreImprovements: [4, 6, 8, 12, 14, 16, 19],
+		extraAttacks: [
+			[5, 2],
+			[11, 3],
+			[20, 4],
+		],
+		subclassLevel: 3,
+		subclass: {
+			name: "Champion",
+			features: [
+				{
+					level: 3,
+					name: "Improved Critical",
+					description: "Weapon attacks score a critical hit on a roll of 19 or 20.",
+				},
+				{
+					level: 7,
+					name: "Remarkable Athlete",
+					description:
+						"Adds half the proficiency bonus (rounded up) to STR, DEX and CON checks without proficiency.",
+				},
+				{
+					level: 10,
+					name: "Additional Fighting Style: Defense",
+					description: "+1 AC while wearing armor.",
+					fightingStyle: "defense",
+				},
+				{
+					level: 15,
+					name: "Superior Critical",
+					description: "Weapon attacks score a critical hit on a roll of 18–20.",
+				},
+				{
+					level: 18,
+					name: "Survivor",
+					description:
+						"At the start of each turn, regains 5 + CON modifier hit points if at half hit points or fewer (and above 0).",
+				},
+			],
+		},
+		features: [
+			{
+				level: 1,
+				name: "Fighting Style: Dueling",
+				description: "+2 damage with a melee weapon held in one hand and no other weapons.",
+				fightingStyle: "dueling",
+			},
+			{
+				level: 1,
+				name: "Second Wind",
+				description: (level) =>
+					`Bonus action, once per short rest: regain 1d10+${level} hit points.`,
+			},
+			{
+				level: 2,
+				name: "Action Surge",
+				description: (level) =>
+					`Take one additional action on a turn; ${level >= 17 ? "twice" : "once"} per short rest (once per turn).`,
+			},
+			{
+				...EXTRA_ATTACK,
+				description: (level) =>
+					`Attacks ${scaleByLevel(level, [
+						[5, "twice"],
+						[11, "three times"],
+						[20, "four times"],
+					])}, instead of once, whenever taking the Attack action.`,
+			},
+			{
+				level: 9,
+				name: "Indomitable",
+				description: (level) =>
+					`Reroll a failed saving throw, ${scaleByLevel(level, [
+						[9, "once"],
+						[13, "twice"],
+						[17, "three times"],
+					])} per long rest.`,
+			},
+		],
+	},
+	monk: {
+		name: "Monk",
+		hitDie: 8,
+		savingThrows: ["strength", "dexterity"],
+		abilityPriority: [
+			"dexterity",
+			"wisdom",
+			"constitution",
+			"strength",
+			"intelligence",
+			"charisma",
+		],
+		skills: ["acrobatics", "insight"],
+		armor: "none",
+		shield: false,
+		weapons: ["shortsword", "unarmed-strike"],
+		abilityScoreImprovements: STANDARD_ASI_LEVELS,
+		extraAttacks: [[5, 2]],
+		subclassLevel: 3,
+		subclass: {
+			name: "Way of the Open Hand",
+			features: [
+				{
+					level: 3,
+					name: "Open Hand Technique",
+					description:
+						"Flurry of Blows hits can knock prone (DEX save), push 15 feet (STR save) or deny reactions.",
+				},
+				{
+					level: 6,
+					name: "Wholeness of Body",
+					description: (level) => `Action, once per long rest: regain ${level * 3} hit points.`,
+				},
+				{
+					level: 11,
+					name: "Tranquility",
+					description:
+						"After a long rest, gains the effect of a sanctuary spell until the next long rest.",
+				},
+				{
+					level: 17,
+					name: "Quivering Palm",
+					description:
+						"Spend 3 ki on an unarmed hit to set lethal vibrations; later, the target makes a CON save or drops to 0 HP (10d10 necrotic on a success).",
+				},
+			],
+		},
+		features: [
+			{
+				level: 1,
+				name: "Unarmored Defense",
+				description: "Without armor or a shield, AC equals 10 + DEX modifier + WIS modifier.",
+			},
+			{
+				level: 1,
+				name: "Martial Arts",
+				description: (level) =>
+					`Unarmed strikes and monk weapons use DEX or STR and deal ${scaleByLevel(level, [
+						[1, "1d4"],
+						[5, "1d6"],
+						[11, "1d8"],
+						[17, "1d10"],
+					])}; an unarmed strike can be made as a bonus action after attacking.`,
+			},
+			{
+				level: 2,
+				name: "Ki",
+				description: (level) =>
+					`${level} ki points per short rest for Flurry of Blows, Patient Defense and Step of the Wind.`,
+			},
+			{
+				level: 2,
+				name: "Unarmored Movement",
+				description: (level) =>
+					`+${scaleByLevel(level, [
+						[2, 10],
+						[6, 15],
+						[10, 20],
+						[14, 25],
+						[18, 30],
+					])} feet of speed while unarmored${level >= 9 ? "; can run along vertical surfaces and across liquids" : ""}.`,
+			},
+			{
+				level: 3,
+				name: "Deflect Missiles",
+				description: (level) => `Reaction: reduce ranged weapon damage by 1d10+DEX+${level}.`,
+			},
+			{
+				level: 4,
+				name: "Slow Fall",
+				description: (level) => `Reaction: reduce falling damage by ${level * 5}.`,
+			},
+			EXTRA_ATTACK,
+			{
+				level: 5,
+				name: "Stunning Strike",
+				description:
+					"Spend 1 ki on a melee hit: the target makes a CON save or is stunned until the end of the monk's next turn.",
+			},
+			{
+				level: 6,
+				name: "Ki-Empowered Strikes",
+				description: "Unarmed strikes count as magical.",
+			},
+			{
+				level: 7,
+				name: "Evasion",
+				description:
+					"No damage on a successful DEX save for half damage, and only half on a failure.",
+			},
+			{
+				level: 7,
+				name: "Stillness of Mind",
+				description: "Action: end one effect causing the monk to be charmed or frightened.",
+			},
+			{ level: 10, name: "Purity of Body", description: "Immune to disease and poison." },
+			{
+				level: 13,
+				name: "Tongue of the Sun and Moon",
+				description: "Understands all spoken languages.",
+			},
+			{
+				level: 14,
+				name: "Diamond Soul",
+				description: "Proficient in all saving throws; spend 1 ki to reroll a failed save.",
+			},
+			{
+				level: 15,
+				name: "Timeless Body",
+				description: "Doesn't need food or water and suffers no frailty of old age.",
+			},
+			{
+				level: 18,
+				name: "Empty Body",
+				description: "Spend 4 ki: invisible for 1 minute with resistance to all damage but force.",
+			},
+			{
+				level: 20,
+				name: "Perfect Self",
+				description: "Regains 4 ki points when rolling initiative with none remaining.",
+			},
+		],
+	},
+	paladin: {
+		name: "Paladin",
+		hitDie: 10,
+		savingThrows: ["wisdom", "charisma"],
+		abilityPriority: [
+			"strength",
+			"charisma",
+			"constitution",
+			"wisdom",
+			"dexterity",
+			"intelligence",
+		],
+		skills: ["athletics", "persuasion"],
+		armor: "chain-mail",
+		shield: true,
+		weapons: ["longsword", "javelin"],
+		spellcasting: { ability: "charisma", level: 2 },
+		abilityScoreImprovements: STANDARD_ASI_LEVELS,
+		extraAttacks: [[5, 2]],
+		subclassLevel: 3,
+		subclass: {
+			name: "Oath of Devotion",
+			features: [
+				{
+					level: 3,
+					name: "Channel Divinity: Sacred Weapon",
+					description: "Action: add CHA modifier (minimum +1) to weapon attack rolls for 1 minute.",
+				},
+				{
+					level: 7,
+					name: "Aura of Devotion",
+					description: (level) =>
+						`The paladin and allies within ${level >= 18 ? 30 : 10} feet can't be charmed while it is conscious.`,
+				},
+				{
+					level: 15,
+					name: "Purity of Spirit",
+					description: "Always under the effects of protection from evil and good.",
+				},
+				{
+					level: 20,
+					name: "Holy Nimbus",
+					description:
+						"Action, once per long rest: 30-foot bright light for 1 minute; enemies starting there take 10 radiant damage.",
+				},
+			],
+		},
+		features: [
+			{
+				level: 1,
+				name: "Divine Sense",
+				description: "Action: detect celestials, fiends and undead within 60 feet.",
+			},
+			{
+				level: 1,
+				name: "Lay on Hands",
+				description: (level) => `Pool of ${level * 5} hit points of healing per long rest.`,
+			},
+			{
+				level: 2,
+				name: "Fighting Style: Dueling",
+				description: "+2 damage with a melee weapon held in one hand and no other weapons.",
+				fightingStyle: "dueling",
+			},
+			{
+				level: 2,
+				name: "Divine Smite",
+				description:
+					"On a melee weapon hit, expend a spell slot for 2d8 radiant damage +1d8 per slot level above 1st (maximum 5d8); +1d8 against undead or fiends.",
+			},
+			{ level: 3, name: "Divine Health", description: "Immune to disease." },
+			EXTRA_ATTACK,
+			{
+				level: 6,
+				name: "Aura of Protection",
+				description: (level) =>
+					`The paladin and allies within ${level >= 18 ? 30 : 10} feet add its CHA modifier (minimum +1) to saving throws.`,
+			},
+			{
+				level: 10,
+				name: "Aura of Courage",
+				description: (level) =>
+					`The paladin and allies within ${level >= 18 ? 30 : 10} feet can't be frightened.`,
+			},
+			{
+				level: 11,
+				name: "Improved Divine Smite",
+				description: "Every melee weapon hit deals an extra 1d8 radiant damage.",
+			},
+			{
+				level: 14,
+				name: "Cleansing Touch",
+				description:
+					"Action: end one spell on a willing creature, CHA modifier times per long rest.",
+			},
+		],
+	},
+	ranger: {
+		name: "Ranger",
+		hitDie: 10,
+		savingThrows: ["strength", "dexterity"],
+		abilityPriority: [
+			"dexterity",
+			"wisdom",
+			"constitution",
+			"strength",
+			"intelligence",
+			"charisma",
+		],
+		skills: ["perception", "stealth", "survival"],
+		armor: "scale-mail",
+		shield: false,
+		weapons: ["longbow", "shortsword"],
+		spellcasting: { ability: "wisdom", level: 2 },
+		abilityScoreImprovements: STANDARD_ASI_LEVELS,
+		extraAttacks: [[5, 2]],
+		subclassLevel: 3,
+		subclass: {
+			name: "Hunter",
+			features: [
+				{
+					level: 3,
+					name: "Hunter's Prey: Colossus Slayer",
+					description:
+						"Once per turn, a weapon hit on a creature below its hit point maximum deals an extra 1d8.",
+				},
+				{
+					level: 7,
+					name: "Defensive Tactics: Multiattack Defense",
+					description:
+						"After a creature hits the ranger, it gets +4 AC against that creature's later attacks this turn.",
+				},
+				{
+					level: 11,
+					name: "Volley",
+					description:
+						"Action: a ranged attack against every creature within 10 feet of a point in range.",
+				},
+				{
+					level: 15,
+					name: "Superior Hunter's Defense: Evasion",
+					description:
+						"No damage on a successful DEX save for half damage, and only half on a failure.",
+				},
+			],
+		},
+		features: [
+			{
+				level: 1,
+				name: "Favored Enemy",
+				description:
+					"Advantage on Survival checks to track, and INT checks to recall information about, favored enemies.",
+			},
+			{
+				level: 1,
+				name: "Natural Explorer",
+				description: "Expert at travel and navigation in a favored terrain.",
+			},
+			{
+				level: 2,
+				name: "Fighting Style: Archery",
+				description: "+2 to attack rolls with ranged weapons.",
+				fightingStyle: "archery",
+			},
+			{
+				level: 3,
+				name: "Primeval Awareness",
+				description: "Spend a spell slot to sense favored enemy types within 1 mile.",
+			},
+			EXTRA_ATTACK,
+			{
+				level: 8,
+				name: "Land's Stride",
+				description: "Nonmagical difficult terrain costs no extra movement.",
+			},
+			{
+				level: 10,
+				name: "Hide in Plain Sight",
+				description: "+10 to Stealth checks while camouflaged and motionless.",
+			},
+			{
+				level: 14,
+				name: "Vanish",
+				description: "Hide as a bonus action; can't be tracked nonmagically.",
+			},
+			{
+				level: 18,
+				name: "Feral Senses",
+				description:
+					"No disadvantage attacking unseen creatures; aware of invisible creatures within 30 feet.",
+			},
+			{
+				level: 20,
+				name: "Foe Slayer",
+				description:
+					"Once per turn, add WIS modifier to the attack or damage roll against a favored enemy.",
+			},
+		],
+	},
+	rogue: {
+		name: "Rogue",
+		hitDie: 8,
+		savingThrows: ["dexterity", "intelligence"],
+		abilityPriority: [
+			"dexterity",
+			"constitution",
+			"intelligence",
+			"wisdom",
+			"charisma",
+			"strength",
+		],
+		skills: ["stealth", "sleight of hand", "acrobatics", "perception"],
+		armor: "leather",
+		shield: false,
+		weapons: ["rapier", "shortbow"],
+		abilityScoreImprovements: [4, 8, 10, 12, 16, 19],
+		subclassLevel: 3,
+		subclass: {
+			name: "Thief",
+			features: [
+				{
+					level: 3,
+					name: "Fast Hands",
+					description: "Cunning Action can also Use an Object, disarm a trap or pick a lock.",
+				},
+				{
+					level: 3,
+					name: "Second-Story Work",
+					description:
+						"Climbing costs no extra movement; running jumps cover DEX modifier more feet.",
+				},
+				{
+					level: 9,
+					name: "Supreme Sneak",
+					description: "Advantage on Stealth checks when moving no more than half speed.",
+				},
+				{
+					level: 13,
+					name: "Use Magic Device",
+					description: "Ignores class, race and level requirements on magic items.",
+				},
+				{
+					level: 17,
+					name: "Thief's Reflexes",
+					description:
+						"Takes two turns in the first round of combat (the second at initiative minus 10).",
+				},
+			],
+		},
+		features: [
+			{
+				level: 1,
+				name: "Expertise",
+				description: "Double proficiency bonus for Stealth and Sleight of Hand checks.",
+			},
+			{
+				level: 1,
+				name: "Sneak Attack",
+				description: (level) =>
+					`Once per turn, +${Math.ceil(level / 2)}d6 damage to a finesse or ranged weapon hit with advantage, or when an ally is within 5 feet of the target.`,
+			},
+			{
+				level: 2,
+				name: "Cunning Action",
+				description: "Dash, Disengage or Hide as a bonus action.",
+			},
+			{
+				level: 5,
+				name: "Uncanny Dodge",
+				description: "Reaction: halve the damage of an attack from an attacker the rogue can see.",
+			},
+			{
+				level: 7,
+				name: "Evasion",
+				description:
+					"No damage on a successful DEX save for half damage, and only half on a failure.",
+			},
+			{
+				level: 11,
+				name: "Reliable Talent",
+				description: "Treats a d20 roll of 9 or lower as a 10 on proficient ability checks.",
+			},
+			{
+				level: 14,
+				name: "Blindsense",
+				description: "Aware of hidden or invisible creatures within 10 feet while able to hear.",
+			},
+			{ level: 15, name: "Slippery Mind", description: "Proficient in WIS saving throws." },
+			{
+				level: 18,
+				name: "Elusive",
+				description: "No attack roll has advantage against the rogue while it isn't incapacitated.",
+			},
+			{
+				level: 20,
+				name: "Stroke of Luck",
+				description: "Once per short rest, turn a miss into a hit or a failed check into a 20.",
+			},
+		],
+	},
+	sorcerer: {
+		name: "Sorcerer",
+		hitDie: 6,
+		savingThrows: ["constitution", "charisma"],
+		abilityPriority: [
+			"charisma",
+			"constitution",
+			"dexterity",
+			"wisdom",
+			"intelligence",
+			"strength",
+		],
+		skills: ["arcana", "persuasion"],
+		armor: "none",
+		shield: false,
+		weapons: ["fire-bolt", "dagger"],
+		spellcasting: { ability: "charisma", level: 1 },
+		abilityScoreImprovements: STANDARD_ASI_LEVELS,
+		subclassLevel: 1,
+		subclass: {
+			name: "Draconic Bloodline",
+			features: [
+				{
+					level: 1,
+					name: "Dragon Ancestor (Red)",
+					description: "Speaks Draconic; doubled proficiency on CHA checks with dragons.",
+				},
+				{
+					level: 1,
+					name: "Draconic Resilience",
+					description:
+						"Hit point maximum increases by 1 per sorcerer level; unarmored AC equals 13 + DEX modifier.",
+				},
+				{
+					level: 6,
+					name: "Elemental Affinity",
+					description:
+						"Adds CHA modifier to one damage roll of a fire spell; 1 sorcery point grants fire resistance for 1 hour.",
+				},
+				{
+					level: 14,
+					name: "Dragon Wings",
+					description: "Bonus action: sprout wings for a flying speed equal to the current speed.",
+				},
+				{
+					level: 18,
+					name: "Draconic Presence",
+					description:
+						"Spend 5 sorcery points for a 60-foot aura of awe or fear (WIS save) for 1 minute.",
+				},
+			],
+		},
+		features: [
+			{
+				level: 2,
+				name: "Font of Magic",
+				description: (level) =>
+					`${level} sorcery points per long rest, convertible to and from spell slots.`,
+			},
+			{
+				level: 3,
+				name: "Metamagic",
+				description: "Spend sorcery points to twin, quicken, extend or otherwise twist spells.",
+			},
+			{
+				level: 20,
+				name: "Sorcerous Restoration",
+				description: "Regains 4 sorcery points on a short rest.",
+			},
+		],
+	},
+	warlock: {
+		name: "Warlock",
+		hitDie: 8,
+		savingThrows: ["wisdom", "charisma"],
+		abilityPriority: [
+			"charisma",
+			"constitution",
+			"dexterity",
+			"wisdom",
+			"intelligence",
+			"strength",
+		],
+		skills: ["arcana", "deception"],
+		armor: "leather",
+		shield: false,
+		weapons: ["eldritch-blast", "dagger"],
+		spellcasting: { ability: "charisma", level: 1 },
+		abilityScoreImprovements: STANDARD_ASI_LEVELS,
+		subclassLevel: 1,
+		subclass: {
+			name: "The Fiend",
+			features: [
+				{
+					level: 1,
+					name: "Dark One's Blessing",
+					description: (level) =>
+						`Reducing a hostile creature to 0 HP grants temporary hit points equal to CHA modifier + ${level} (minimum 1).`,
+				},
+				{
+					level: 6,
+					name: "Dark One's Own Luck",
+					description: "Once per short rest, add a d10 to an ability check or saving throw.",
+				},
+				{
+					level: 10,
+					name: "Fiendish Resilience",
+					description:
+						"Chooses one damage type to resist after each rest (not from magical or silvered weapons).",
+				},
+				{
+					level: 14,
+					name: "Hurl Through Hell",
+					description:
+						"Once per long rest, a hit banishes the target through the lower planes for 10d10 psychic damage.",
+				},
+			],
+		},
+		features: [
+			{
+				level: 1,
+				name: "Pact Magic",
+				description: (level) =>
+					`${scaleByLevel(level, [
+						[1, 1],
+						[2, 2],
+						[11, 3],
+						[17, 4],
+					])} spell slots of ${ordinal(Math.min(5, Math.ceil(level / 2)))} level, regained on a short rest.`,
+			},
+			{
+				level: 2,
+				name: "Eldritch Invocation: Agonizing Blast",
+				description: "Adds CHA modifier to the damage of each eldritch blast beam.",
+			},
+			{
+				level: 3,
+				name: "Pact of the Blade",
+				description: "Can summon a pact weapon it is proficient with.",
+			},
+			{
+				level: 11,
+				name: "Mystic Arcanum",
+				description: (level) =>
+					`Casts one spell each of ${[6, 7, 8, 9]
+						.filter((spellLevel) => level >= spellLevel * 2 - 1)
+						.map(ordinal)
+						.join(", ")} level once per long rest.`,
+			},
+			{
+				level: 20,
+				name: "Eldritch Master",
+				description: "Once per long rest, regain all Pact Magic slots with 1 minute of entreaty.",
+			},
+		],
+	},
+	wizard: {
+		name: "Wizard",
+		hitDie: 6,
+		savingThrows: ["intelligence", "wisdom"],
+		abilityPriority: [
+			"intelligence",
+			"constitution",
+			"dexterity",
+			"wisdom",
+			"charisma",
+			"strength",
+		],
+		skills: ["arcana", "investigation"],
+		armor: "none",
+		shield: false,
+		weapons: ["fire-bolt", "quarterstaff"],
+		spellcasting: { ability: "intelligence", level: 1 },
+		abilityScoreImprovements: STANDARD_ASI_LEVELS,
+		subclassLevel: 2,
+		subclass: {
+			name: "School of Evocation",
+			features: [
+				{
+					level: 2,
+					name: "Sculpt Spells",
+					description:
+						"Chosen creatures automatically succeed on saves against the wizard's evocation spells and take no damage.",
+				},
+				{
+					level: 6,
+					name: "Potent Cantrip",
+					description:
+						"Creatures that succeed on a save against the wizard's cantrips still take half damage.",
+				},
+				{
+					level: 10,
+					name: "Empowered Evocation",
+					description: "Adds INT modifier to one damage roll of a wizard evocation spell.",
+				},
+				{
+					level: 14,
+					name: "Overchannel",
+					description:
+						"Deal maximum damage with a spell of 5th level or lower; later uses cost necrotic damage.",
+				},
+			],
+		},
+		features: [
+			{
+				level: 1,
+				name: "Arcane Recovery",
+				description: (level) =>
+					`Once per day on a short rest, recover spell slots totalling up to ${Math.ceil(level / 2)} levels (none 6th or higher).`,
+			},
+			{
+				level: 18,
+				name: "Spell Mastery",
+				description:
+					"Casts a chosen 1st-level and 2nd-level spell at their lowest level without a slot.",
+			},
+			{
+				level: 20,
+				name: "Signature Spells",
+				description:
+					"Two 3rd-level spells are always prepared and each castable once per short rest without a slot.",
+			},
+		],
+	},
+};
+
+/** 1st, 2nd, 3rd, 4th… for spell and slot levels 1–9 */
+export function ordinal(n: number) {
+	return `${n}${n === 1 ? "st" : n === 2 ? "nd" : n === 3 ? "rd" : "th"}`;
+}
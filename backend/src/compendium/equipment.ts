@@ -0,0 +1,204 @@
+import type { ArmorName, WeaponName } from "../schemas/index.js";
+
+/*
+ * Armor, weapons and attack cantrips from the System Reference Document 5.1 by
+ * Wizards of the Coast LLC, licensed under CC BY 4.0.
+ */
+
+export interface Armor {
+	name: string;
+	category: "none" | "light" | "medium" | "heavy";
+	baseAC: number;
+	/** Largest DEX modifier the armor allows; null for no cap */
+	maxDexBonus: number | null;
+}
+
+export const ARMOR: Record<ArmorName, Armor> = {
+	none: { name: "No armor", category: "none", baseAC: 10, maxDexBonus: null },
+	padded: { name: "Padded", category: "light", baseAC: 11, maxDexBonus: null },
+	leather: { name: "Leather", category: "light", baseAC: 11, maxDexBonus: null },
+	"studded-leather": { name: "Studded leather", category: "light", baseAC: 12, maxDexBonus: null },
+	hide: { name: "Hide", category: "medium", baseAC: 12, maxDexBonus: 2 },
+	"chain-shirt": { name: "Chain shirt", category: "medium", baseAC: 13, maxDexBonus: 2 },
+	"scale-mail": { name: "Scale mail", category: "medium", baseAC: 14, maxDexBonus: 2 },
+	breastplate: { name: "Breastplate", category: "medium", baseAC: 14, maxDexBonus: 2 },
+	"half-plate": { name: "Half plate", category: "medium", baseAC: 15, maxDexBonus: 2 },
+	"ring-mail": { name: "Ring mail", category: "heavy", baseAC: 14, maxDexBonus: 0 },
+	"chain-mail": { name: "Chain mail", category: "heavy", baseAC: 16, maxDexBonus: 0 },
+	splint: { name: "Splint", category: "heavy", baseAC: 17, maxDexBonus: 0 },
+	plate: { name: "Plate", category: "heavy", baseAC: 18, maxDexBonus: 0 },
+};
+
+export const SHIELD_AC_BONUS = 2;
+
+export interface Weapon {
+	name: string;
+	damageDice: string;
+	damageType: string;
+	/** melee: STR (or DEX if finesse); ranged: DEX; spell: the caster's spellcasting ability */
+	kind: "melee" | "ranged" | "spell";
+	finesse?: boolean;
+	twoHanded?: boolean;
+	/** Normal/long range in feet for ranged and thrown weapons, e.g. "20/60" */
+	range?: string;
+	/** Attack cantrips add a damage die at character levels 5, 11 and 17 */
+	cantrip?: boolean;
+	/** School of magic, for spell attacks */
+	school?: "conjuration" | "evocation";
+}
+
+export const WEAPONS: Record<WeaponName, Weapon> = {
+	club: { name: "Club", damageDice: "1d4", damageType: "bludgeoning", kind: "melee" },
+	dagger: {
+		name: "Dagger",
+		damageDice: "1d4",
+		damageType: "piercing",
+		kind: "melee",
+		finesse: true,
+		range: "20/60",
+	},
+	handaxe: {
+		name: "Handaxe",
+		damageDice: "1d6",
+		damageType: "slashing",
+		kind: "melee",
+		range: "20/60",
+	},
+	javelin: {
+		name: "Javelin",
+		damageDice: "1d6",
+		damageType: "piercing",
+		kind: "melee",
+		range: "30/120",
+	},
+	mace: { name: "Mace", damageDice: "1d6", damageType: "bludgeoning", kind: "melee" },
+	quarterstaff: {
+		name: "Quarterstaff",
+		damageDice: "1d6",
+		damageType: "bludgeoning",
+		kind: "melee",
+	},
+	spear: {
+		name: "Spear",
+		damageDice: "1d6",
+		damageType: "piercing",
+		kind: "melee",
+		range: "20/60",
+	},
+	"light-crossbow": {
+		name: "Light Crossbow",
+		damageDice: "1d8",
+		damageType: "piercing",
+		kind: "ranged",
+		twoHanded: true,
+		range: "80/320",
+	},
+	shortbow: {
+		name: "Shortbow",
+		damageDice: "1d6",
+		damageType: "piercing",
+		kind: "ranged",
+		twoHanded: true,
+		range: "80/320",
+	},
+	battleaxe: { name: "Battleaxe", damageDice: "1d8", damageType: "slashing", kind: "melee" },
+	greataxe: {
+		name: "Greataxe",
+		damageDice: "1d12",
+		damageType: "slashing",
+		kind: "melee",
+		twoHanded: true,
+	},
+	greatsword: {
+		name: "Greatsword",
+		damageDice: "2d6",
+		damageType: "slashing",
+		kind: "melee",
+		twoHanded: true,
+	},
+	longsword: { name: "Longsword", damageDice: "1d8", damageType: "slashing", kind: "melee" },
+	maul: {
+		name: "Maul",
+		damageDice: "2d6",
+		damageType: "bludgeoning",
+		kind: "melee",
+		twoHanded: true,
+	},
+	rapier: {
+		name: "Rapier",
+		damageDice: "1d8",
+		damageType: "piercing",
+		kind: "melee",
+		finesse: true,
+	},
+	scimitar: {
+		name: "Scimitar",
+		damageDice: "1d6",
+		damageType: "slashing",
+		kind: "melee",
+		finesse: true,
+	},
+	shortsword: {
+		name: "Shortsword",
+		damageDice: "1d6",
+		damageType: "piercing",
+		kind: "melee",
+		finesse: true,
+	},
+	warhammer: { name: "Warhammer", damageDice: "1d8", damageType: "bludgeoning", kind: "melee" },
+	"hand-crossbow": {
+		name: "Hand Crossbow",
+		damageDice: "1d6",
+		damageType: "piercing",
+		kind: "ranged",
+		range: "30/120",
+	},
+	"heavy-crossbow": {
+		name: "Heavy Crossbow",
+		damageDice: "1d10",
+		damageType: "piercing",
+		kind: "ranged",
+		twoHanded: true,
+		range: "100/400",
+	},
+	longbow: {
+		name: "Longbow",
+		damageDice: "1d8",
+		damageType: "piercing",
+		kind: "ranged",
+		twoHanded: true,
+		range: "150/600",
+	},
+	"unarmed-strike": {
+		name: "Unarmed Strike",
+		damageDice: "1",
+		damageType: "bludgeoning",
+		kind: "melee",
+	},
+	"fire-bolt": {
+		name: "Fire Bolt",
+		damageDice: "1d10",
+		damageType: "fire",
+		kind: "spell",
+		range: "120",
+		cantrip: true,
+		school: "evocation",
+	},
+	"eldritch-blast": {
+		name: "Eldritch Blast",
+		damageDice: "1d10",
+		damageType: "force",
+		kind: "spell",
+		range: "120",
+		school: "evocation",
+	},
+	"produce-flame": {
+		name: "Produce Flame",
+		damageDice: "1d8",
+		damageType: "fire",
+		kind: "spell",
+		range: "30",
+		cantrip: true,
+		school: "conjuration",
+	},
+};
@@ -0,0 +1,155 @@
+import { and, asc, eq, gte, like, lte, or, sql } from "drizzle-orm";
+import { db, schema } from "../db/index.js";
+import { type Monster, type MonsterSearchQuery, monsterSchema } from "../schemas/index.js";
+import { SRD_MONSTERS } from "./srd-monsters.js";
+
+type MonsterRow = typeof schema.monsters.$inferSelect;
+
+/** "Young Red Dragon" → "young-red-dragon" */
+export function toSlug(name: string) {
+	return name
+		.trim()
+		.toLowerCase()
+		.replace(/[^a-z0-9]+/g, "-")
+		.replace(/^-|-$/g, "");
+}
+
+/** Strip LIKE wildcards from user input so it matches literally. */
+function likePattern(text: string) {
+	return `%${text.trim().replace(/[%_]/g, "")}%`;
+}
+
+function parseRow(row: MonsterRow): Monster {
+	return monsterSchema.parse(JSON.parse(row.data));
+}
+
+function summarize(row: MonsterRow) {
+	return {
+		slug: row.slug,
+		name: row.name,
+		size: row.size,
+		creatureType: row.creatureType,
+		challengeRating: row.challengeRating,
+		xp: row.xp,
+		source: row.source,
+	};
+}
+
+export type MonsterSummary = ReturnType<typeof summarize>;
+
+const SRD_SOURCE = "SRD 5.1";
+
+/** Insert or refresh every bundled SRD monster. Returns how many were written. */
+export async function seedMonsters() {
+	for (const entry of SRD_MONSTERS) {
+		const monster = monsterSchema.parse(entry);
+		const row = {
+			name: monster.name,
+			size: monster.size,
+			creatureType: monster.creatureType,
+			challengeRating: monster.challengeRating,
+			xp: monster.xp,
+			data: JSON.stringify(monster),
+			source: SRD_SOURCE,
+		};
+		await db
+			.insert(schema.monsters)
+			.values({ slug: monster.slug, ...row })
+			.onConflictDoUpdate({ target: schema.monsters.slug, set: row });
+	}
+	return SRD_MONSTERS.length;
+}
+
+/** Re-seed when any bundled monster is missing from the table or stored from an older dataset. */
+async function syncMonsters() {
+	const rows = await db
+		.select({ slug: schema.monsters.slug, data: schema.monsters.data })
+		.from(schema.monsters)
+		.where(eq(schema.monsters.source, SRD_SOURCE));
+	const stored = new Map(rows.map((row) => [row.slug, row.data]));
+	const stale = SRD_MONSTERS.some((entry) => {
+		const monster = monsterSchema.parse(entry);
+		return stored.get(monster.slug) !== JSON.stringify(monster);
+	});
+	if (stale) await seedMonsters();
+}
+
+let seeded: Promise<void> | undefined;
+
+/**
+ * Seed the compendium on the first lookup, and re-seed it when the bundled dataset has
+ * changed since, so a fresh database or an edited srd-monsters.ts needs no `pnpm db:seed`.
+ * Checked once per process; a failed check is retried on the next lookup.
+ */
+function ensureMonstersSeeded() {
+	seeded ??= syncMonsters().catch((error) => {
+		seeded = undefined;
+		throw error;
+	});
+	return seeded;
+}
+
+export async function searchMonsters(query: MonsterSearchQuery): Promise<MonsterSummary[]> {
+	await ensureMonstersSeeded();
+	const { monsters } = schema;
+	const filters = [
+		query.q ? like(monsters.name, likePattern(query.q)) : undefined,
+		query.type ? like(monsters.creatureType, likePattern(query.type)) : undefined,
+		query.size ? eq(monsters.size, query.size) : undefined,
+		query.minCr !== undefined ? gte(monsters.challengeRating, query.minCr) : undefined,
+		query.maxCr !== undefined ? lte(monsters.challengeRating, query.maxCr) : undefined,
+	];
+
+	const rows = await db
+		.select()
+		.from(monsters)
+		.where(and(...filters))
+		.orderBy(asc(monsters.challengeRating), asc(monsters.name))
+		.limit(query.limit);
+	return rows.map(summarize);
+}
+
+export async function getMonster(slug: string): Promise<Monster | null> {
+	await ensureMonstersSeeded();
+	const row = await db.select().from(schema.monsters).where(eq(schema.monsters.slug, slug)).get();
+	return row ? parseRow(row) : null;
+}
+
+/**
+ * Resolve a free-text creature name to a compendium monster: exact slug first, then the
+ * shortest name containing the query. When nothing matches, returns up to five names
+ * sharing a word with the query so the caller can retry.
+ */
+export async function findMonster(
+	name: string,
+): Promise<{ monster: Monster | null; suggestions: string[] }> {
+	await ensureMonstersSeeded();
+	const { monsters } = schema;
+	const exact = await db
+		.select()
+		.from(monsters)
+		.where(eq(monsters.slug, toSlug(name)))
+		.get();
+	if (exact) return { monster: parseRow(exact), suggestions: [] };
+
+	const partial = await db
+		.select()
+		.from(monsters)
+		.where(like(monsters.name, likePattern(name)))
+		.orderBy(sql`length(${monsters.name})`, asc(monsters.name))
+		.get();
+	if (partial) return { monster: parseRow(partial), suggestions: [] };
+
+	const words = toSlug(name)
+		.split("-")
+		.filter((w) => w.length >= 3);
+	if (words.length === 0) return { monster: null, suggestions: [] };
+
+	const related = await db
+		.select({ name: monsters.name })
+		.from(monsters)
+		.where(or(...words.map((w) => like(monsters.name, likePattern(w)))))
+		.orderBy(asc(monsters.name))
+		.limit(5);
+	return { monster: null, suggestions: related.map((r) => r.name) };
+}
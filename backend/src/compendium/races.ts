@@ -0,0 +1,164 @@
+import type { AbilityName, CharacterRace, CreatureSize, Feature } from "../schemas/index.js";
+
+/*
+ * Playable races (with their SRD subrace where the SRD has one) from the System Reference
+ * Document 5.1 by Wizards of the Coast LLC, licensed under CC BY 4.0.
+ */
+
+export interface Race {
+	name: string;
+	size: CreatureSize;
+	speed: number;
+	abilityBonuses: Partial<Record<AbilityName, number>>;
+	/** Extra +1s the player assigns freely (half-elf); given to the highest-priority abilities */
+	flexibleBonuses?: number;
+	darkvision?: number;
+	damageResistances?: string[];
+	skills?: string[];
+	/** Hit point maximum increase per level (hill dwarf) */
+	hitPointsPerLevel?: number;
+	traits: Feature[];
+}
+
+export const RACES: Record<CharacterRace, Race> = {
+	dragonborn: {
+		name: "Dragonborn (red)",
+		size: "Medium",
+		speed: 30,
+		abilityBonuses: { strength: 2, charisma: 1 },
+		damageResistances: ["fire"],
+		traits: [
+			{
+				name: "Breath Weapon",
+				description:
+					"Exhales fire in a 15-foot cone (DC 8 + CON modifier + proficiency bonus Dexterity save, half on success). Usable once per short or long rest.",
+			},
+		],
+	},
+	dwarf: {
+		name: "Hill Dwarf",
+		size: "Medium",
+		speed: 25,
+		abilityBonuses: { constitution: 2, wisdom: 1 },
+		darkvision: 60,
+		damageResistances: ["poison"],
+		hitPointsPerLevel: 1,
+		traits: [
+			{
+				name: "Dwarven Resilience",
+				description: "Advantage on saving throws against poison.",
+			},
+		],
+	},
+	elf: {
+		name: "High Elf",
+		size: "Medium",
+		speed: 30,
+		abilityBonuses: { dexterity: 2, intelligence: 1 },
+		darkvision: 60,
+		skills: ["perception"],
+		traits: [
+			{
+				name: "Fey Ancestry",
+				description:
+					"Advantage on saving throws against being charmed, and magic can't put the elf to sleep.",
+			},
+		],
+	},
+	gnome: {
+		name: "Rock Gnome",
+		size: "Small",
+		speed: 25,
+		abilityBonuses: { intelligence: 2, constitution: 1 },
+		darkvision: 60,
+		traits: [
+			{
+				name: "Gnome Cunning",
+				description:
+					"Advantage on all Intelligence, Wisdom, and Charisma saving throws against magic.",
+			},
+		],
+	},
+	"half-elf": {
+		name: "Half-Elf",
+		size: "Medium",
+		speed: 30,
+		abilityBonuses: { charisma: 2 },
+		flexibleBonuses: 2,
+		darkvision: 60,
+		traits: [
+			{
+				name: "Fey Ancestry",
+				description:
+					"Advantage on saving throws against being charmed, and magic can't put the half-elf to sleep.",
+			},
+		],
+	},
+	"half-orc": {
+		name: "Half-Orc",
+		size: "Medium",
+		speed: 30,
+		abilityBonuses: { strength: 2, constitution: 1 },
+		darkvision: 60,
+		skills: ["intimidation"],
+		traits: [
+			{
+				name: "Relentless Endurance",
+				description:
+					"When reduced to 0 hit points but not killed outright, drops to 1 hit point instead. Once per long rest.",
+			},
+			{
+				name: "Savage Attacks",
+				description:
+					"On a critical hit with a melee weapon attack, roll one of the weapon's damage dice one additional time and add it to the extra damage.",
+			},
+		],
+	},
+	halfling: {
+		name: "Lightfoot Halfling",
+		size: "Small",
+		speed: 25,
+		abilityBonuses: { dexterity: 2, charisma: 1 },
+		traits: [
+			{
+				name: "Lucky",
+				description:
+					"When rolling a 1 on an attack roll, ability check, or saving throw, reroll the die and use the new roll.",
+			},
+			{ name: "Brave", description: "Advantage on saving throws against being frightened." },
+			{
+				name: "Halfling Nimbleness",
+				description: "Can move through the space of any creature that is of a size larger.",
+			},
+		],
+	},
+	human: {
+		name: "Human",
+		size: "Medium",
+		speed: 30,
+		abilityBonuses: {
+			strength: 1,
+			dexterity: 1,
+			constitution: 1,
+			intelligence: 1,
+			wisdom: 1,
+			charisma: 1,
+		},
+		traits: [],
+	},
+	tiefling: {
+		name: "Tiefling",
+		size: "Medium",
+		speed: 30,
+		abilityBonuses: { charisma: 2, intelligence: 1 },
+		darkvision: 60,
+		damageResistances: ["fire"],
+		traits: [
+			{
+				name: "Infernal Legacy",
+				description:
+					"Knows thaumaturgy; casts hellish rebuke (2nd level) from 3rd level and darkness from 5th level, each once per long rest, using Charisma.",
+			},
+		],
+	},
+};
@@ -0,0 +1,732 @@
+import type {
+	AbilityName,
+	AreaShape,
+	CharacterClass,
+	ConditionName,
+	SpellSlots,
+} from "../schemas/index.js";
+import { ordinal, scaleByLevel } from "./classes.js";
+
+/*
+ * Combat spells and spell slot tables from the System Reference Document 5.1 by Wizards of
+ * the Coast LLC, licensed under CC BY 4.0. Rules text is abridged.
+ */
+
+/** How a spell resolves when cast */
+export type SpellEffect =
+	/** A spell attack roll per target (or per ray/beam) against AC */
+	| {
+			kind: "attack";
+			reach: "melee" | "ranged";
+			damageDice: string;
+			damageType: string;
+			/** Separate attack rolls, e.g. Scorching Ray's three rays */
+			attacks?: number;
+			/** Damage adds the spellcasting modifier, as with Spiritual Weapon */
+			addModifier?: boolean;
+	  }
+	/** Always hits, like Magic Missile's darts; one damage roll covers every dart */
+	| { kind: "auto-hit"; damageDice: string; damageType: string; darts: number }
+	/** Each target saves against the caster's spell save DC */
+	| {
+			kind: "save";
+			ability: AbilityName;
+			damageDice?: string;
+			damageType?: string;
+			onSuccess: "half" | "none";
+			/** Imposed on a failed save; with repeatSave, the target saves again each turn */
+			condition?: { name: ConditionName; repeatSave: boolean };
+			maxTargets?: number;
+	  }
+	/** Restores dice + spellcasting modifier hit points to each target */
+	| { kind: "healing"; dice: string; maxTargets?: number }
+	/** No roll; any condition goes on the targets (or the caster) while the spell lasts */
+	| { kind: "utility"; condition?: ConditionName; maxTargets?: number };
+
+export interface SpellDefinition {
+	name: string;
+	/** 0 for cantrips */
+	level: number;
+	school: string;
+	castingTime: "action" | "bonus action" | "reaction";
+	range: string;
+	concentration: boolean;
+	classes: CharacterClass[];
+	effect: SpellEffect;
+	/**
+	 * The area a save spell covers on a battlefield: `size` is a sphere's radius, a cone or
+	 * line's length or a cube's side, in feet
+	 */
+	area?: { shape: AreaShape; size: number };
+	/** What each slot level above the spell's adds; `every` spaces the steps, e.g. every 2 levels */
+	upcast?: { dice?: string; targets?: number; attacks?: number; every?: number };
+	/** Cantrips add a damage die ("dice") or a beam ("attacks") at caster levels 5, 11 and 17 */
+	cantripScaling?: "dice" | "attacks";
+	description: string;
+}
+
+const ARCANE: CharacterClass[] = ["sorcerer", "wizard"];
+
+export const SPELLS: Record<string, SpellDefinition> = {
+	// ── Cantrips ──
+	"acid-splash": {
+		name: "Acid Splash",
+		level: 0,
+		school: "conjuration",
+		castingTime: "action",
+		range: "60 ft",
+		concentration: false,
+		classes: ARCANE,
+		effect: {
+			kind: "save",
+			ability: "dexterity",
+			damageDice: "1d6",
+			damageType: "acid",
+			onSuccess: "none",
+			maxTargets: 2,
+		},
+		cantripScaling: "dice",
+		description: "One or two creatures within 5 feet of each other make a Dexterity save.",
+	},
+	"eldritch-blast": {
+		name: "Eldritch Blast",
+		level: 0,
+		school: "evocation",
+		castingTime: "action",
+		range: "120 ft",
+		concentration: false,
+		classes: ["warlock"],
+		effect: { kind: "attack", reach: "ranged", damageDice: "1d10", damageType: "force" },
+		cantripScaling: "attacks",
+		description:
+			"A beam of crackling energy; more beams at higher levels, aimed at one or more targets.",
+	},
+	"fire-bolt": {
+		name: "Fire Bolt",
+		level: 0,
+		school: "evocation",
+		castingTime: "action",
+		range: "120 ft",
+		concentration: false,
+		classes: ARCANE,
+		effect: { kind: "attack", reach: "ranged", damageDice: "1d10", damageType: "fire" },
+		cantripScaling: "dice",
+		description: "A mote of fire hurled at a creature or object.",
+	},
+	"poison-spray": {
+		name: "Poison Spray",
+		level: 0,
+		school: "conjuration",
+		castingTime: "action",
+		range: "10 ft",
+		concentration: false,
+		classes: ["druid", "sorcerer", "warlock", "wizard"],
+		effect: {
+			kind: "save",
+			ability: "constitution",
+			damageDice: "1d12",
+			damageType: "poison",
+			onSuccess: "none",
+			maxTargets: 1,
+		},
+		cantripScaling: "dice",
+		description: "A puff of noxious gas; the target makes a Constitution save.",
+	},
+	"produce-flame": {
+		name: "Produce Flame",
+		level: 0,
+		school: "conjuration",
+		castingTime: "action",
+		range: "30 ft",
+		concentration: false,
+		classes: ["druid"],
+		effect: { kind: "attack", reach: "ranged", damageDice: "1d8", damageType: "fire" },
+		cantripScaling: "dice",
+		description: "A flickering flame in the hand, hurled at a creature.",
+	},
+	"ray-of-frost": {
+		name: "Ray of Frost",
+		level: 0,
+		school: "evocation",
+		castingTime: "action",
+		range: "60 ft",
+		concentration: false,
+		classes: ARCANE,
+		effect: { kind: "attack", reach: "ranged", damageDice: "1d8", damageType: "cold" },
+		cantripScaling: "dice",
+		description:
+			"A frigid beam; on a hit the target's speed drops by 10 feet until your next turn.",
+	},
+	"sacred-flame": {
+		name: "Sacred Flame",
+		level: 0,
+		school: "evocation",
+		castingTime: "action",
+		range: "60 ft",
+		concentration: false,
+		classes: ["cleric"],
+		effect: {
+			kind: "save",
+			ability: "dexterity",
+			damageDice: "1d8",
+			damageType: "radiant",
+			onSuccess: "none",
+			maxTargets: 1,
+		},
+		cantripScaling: "dice",
+		description: "Flame-like radiance descends on a creature; cover gives no benefit against it.",
+	},
+	"shocking-grasp": {
+		name: "Shocking Grasp",
+		level: 0,
+		school: "evocation",
+		castingTime: "action",
+		range: "Touch",
+		concentration: false,
+		classes: ARCANE,
+		effect: { kind: "attack", reach: "melee", damageDice: "1d8", damageType: "lightning" },
+		cantripScaling: "dice",
+		description:
+			"Lightning from the hand; a hit stops the target taking reactions until its next turn.",
+	},
+	"vicious-mockery": {
+		name: "Vicious Mockery",
+		level: 0,
+		school: "enchantment",
+		castingTime: "action",
+		range: "60 ft",
+		concentration: false,
+		classes: ["bard"],
+		effect: {
+			kind: "save",
+			ability: "wisdom",
+			damageDice: "1d4",
+			damageType: "psychic",
+			onSuccess: "none",
+			maxTargets: 1,
+		},
+		cantripScaling: "dice",
+		description:
+			"Insults laced with enchantment; on a failed save the target also has disadvantage on its next attack.",
+	},
+
+	// ── 1st level ──
+	bless: {
+		name: "Bless",
+		level: 1,
+		school: "enchantment",
+		castingTime: "action",
+		range: "30 ft",
+		concentration: true,
+		classes: ["cleric", "paladin"],
+		effect: { kind: "utility", maxTargets: 3 },
+		upcast: { targets: 1 },
+		description: "Up to three creatures add 1d4 to attack rolls and saving throws.",
+	},
+	"burning-hands": {
+		name: "Burning Hands",
+		level: 1,
+		school: "evocation",
+		castingTime: "action",
+		range: "Self (15-foot cone)",
+		concentration: false,
+		classes: ARCANE,
+		area: { shape: "cone", size: 15 },
+		effect: {
+			kind: "save",
+			ability: "dexterity",
+			damageDice: "3d6",
+			damageType: "fire",
+			onSuccess: "half",
+		},
+		upcast: { dice: "1d6" },
+		description: "A thin sheet of flames shoots from outstretched fingertips.",
+	},
+	"cure-wounds": {
+		name: "Cure Wounds",
+		level: 1,
+		school: "evocation",
+		castingTime: "action",
+		range: "Touch",
+		concentration: false,
+		classes: ["bard", "cleric", "druid", "paladin", "ranger"],
+		effect: { kind: "healing", dice: "1d8", maxTargets: 1 },
+		upcast: { dice: "1d8" },
+		description: "A touched creature regains hit points.",
+	},
+	"guiding-bolt": {
+		name: "Guiding Bolt",
+		level: 1,
+		school: "evocation",
+		castingTime: "action",
+		range: "120 ft",
+		concentration: false,
+		classes: ["cleric"],
+		effect: { kind: "attack", reach: "ranged", damageDice: "4d6", damageType: "radiant" },
+		upcast: { dice: "1d6" },
+		description: "A flash of light; the next attack roll against the target has advantage.",
+	},
+	"healing-word": {
+		name: "Healing Word",
+		level: 1,
+		school: "evocation",
+		castingTime: "bonus action",
+		range: "60 ft",
+		concentration: false,
+		classes: ["bard", "cleric", "druid"],
+		effect: { kind: "healing", dice: "1d4", maxTargets: 1 },
+		upcast: { dice: "1d4" },
+		description: "A creature you can see regains hit points.",
+	},
+	"hellish-rebuke": {
+		name: "Hellish Rebuke",
+		level: 1,
+		school: "evocation",
+		castingTime: "reaction",
+		range: "60 ft",
+		concentration: false,
+		classes: ["warlock"],
+		effect: {
+			kind: "save",
+			ability: "dexterity",
+			damageDice: "2d10",
+			damageType: "fire",
+			onSuccess: "half",
+			maxTargets: 1,
+		},
+		upcast: { dice: "1d10" },
+		description: "Cast in reaction to being damaged; the attacker is wreathed in hellish flames.",
+	},
+	"inflict-wounds": {
+		name: "Inflict Wounds",
+		level: 1,
+		school: "necromancy",
+		castingTime: "action",
+		range: "Touch",
+		concentration: false,
+		classes: ["cleric"],
+		effect: { kind: "attack", reach: "melee", damageDice: "3d10", damageType: "necrotic" },
+		upcast: { dice: "1d10" },
+		description: "A melee spell attack that fills the target with negative energy.",
+	},
+	"magic-missile": {
+		name: "Magic Missile",
+		level: 1,
+		school: "evocation",
+		castingTime: "action",
+		range: "120 ft",
+		concentration: false,
+		classes: ARCANE,
+		effect: { kind: "auto-hit", damageDice: "1d4+1", damageType: "force", darts: 3 },
+		upcast: { attacks: 1 },
+		description: "Glowing darts that each hit a creature of your choice automatically.",
+	},
+	shield: {
+		name: "Shield",
+		level: 1,
+		school: "abjuration",
+		castingTime: "reaction",
+		range: "Self",
+		concentration: false,
+		classes: ARCANE,
+		effect: { kind: "utility" },
+		description:
+			"Cast when hit by an attack: +5 AC until the start of your next turn, including against the triggering attack.",
+	},
+	thunderwave: {
+		name: "Thunderwave",
+		level: 1,
+		school: "evocation",
+		castingTime: "action",
+		range: "Self (15-foot cube)",
+		concentration: false,
+		classes: ["bard", "druid", "sorcerer", "wizard"],
+		area: { shape: "cube", size: 15 },
+		effect: {
+			kind: "save",
+			ability: "constitution",
+			damageDice: "2d8",
+			damageType: "thunder",
+			onSuccess: "half",
+		},
+		upcast: { dice: "1d8" },
+		description: "A wave of thunderous force; creatures that fail are pushed 10 feet away.",
+	},
+
+	// ── 2nd level ──
+	"hold-person": {
+		name: "Hold Person",
+		level: 2,
+		school: "enchantment",
+		castingTime: "action",
+		range: "60 ft",
+		concentration: true,
+		classes: ["bard", "cleric", "druid", "sorcerer", "warlock", "wizard"],
+		effect: {
+			kind: "save",
+			ability: "wisdom",
+			onSuccess: "none",
+			condition: { name: "paralyzed", repeatSave: true },
+			maxTargets: 1,
+		},
+		upcast: { targets: 1 },
+		description:
+			"A humanoid that fails a Wisdom save is paralyzed, repeating the save at the end of each of its turns.",
+	},
+	"misty-step": {
+		name: "Misty Step",
+		level: 2,
+		school: "conjuration",
+		castingTime: "bonus action",
+		range: "Self",
+		concentration: false,
+		classes: ["sorcerer", "warlock", "wizard"],
+		effect: { kind: "utility" },
+		description: "Teleport up to 30 feet to an unoccupied space you can see.",
+	},
+	moonbeam: {
+		name: "Moonbeam",
+		level: 2,
+		school: "evocation",
+		castingTime: "action",
+		range: "120 ft",
+		concentration: true,
+		classes: ["druid"],
+		area: { shape: "sphere", size: 5 },
+		effect: {
+			kind: "save",
+			ability: "constitution",
+			damageDice: "2d10",
+			damageType: "radiant",
+			onSuccess: "half",
+		},
+		upcast: { dice: "1d10" },
+		description: "A beam of moonlight in a 5-foot-radius cylinder that can be moved each turn.",
+	},
+	"scorching-ray": {
+		name: "Scorching Ray",
+		level: 2,
+		school: "evocation",
+		castingTime: "action",
+		range: "120 ft",
+		concentration: false,
+		classes: ARCANE,
+		effect: { kind: "attack", reach: "ranged", damageDice: "2d6", damageType: "fire", attacks: 3 },
+		upcast: { attacks: 1 },
+		description: "Three rays of fire, each a separate ranged spell attack at one or more targets.",
+	},
+	shatter: {
+		name: "Shatter",
+		level: 2,
+		school: "evocation",
+		castingTime: "action",
+		range: "60 ft",
+		concentration: false,
+		classes: ["bard", "sorcerer", "warlock", "wizard"],
+		area: { shape: "sphere", size: 10 },
+		effect: {
+			kind: "save",
+			ability: "constitution",
+			damageDice: "3d8",
+			damageType: "thunder",
+			onSuccess: "half",
+		},
+		upcast: { dice: "1d8" },
+		description: "A painfully loud ringing in a 10-foot-radius sphere.",
+	},
+	"spiritual-weapon": {
+		name: "Spiritual Weapon",
+		level: 2,
+		school: "evocation",
+		castingTime: "bonus action",
+		range: "60 ft",
+		concentration: false,
+		classes: ["cleric"],
+		effect: {
+			kind: "attack",
+			reach: "melee",
+			damageDice: "1d8",
+			damageType: "force",
+			addModifier: true,
+		},
+		upcast: { dice: "1d8", every: 2 },
+		description:
+			"A floating spectral weapon makes a melee spell attack and can attack again as a bonus action on later turns.",
+	},
+
+	// ── 3rd level ──
+	counterspell: {
+		name: "Counterspell",
+		level: 3,
+		school: "abjuration",
+		castingTime: "reaction",
+		range: "60 ft",
+		concentration: false,
+		classes: ["sorcerer", "warlock", "wizard"],
+		effect: { kind: "utility" },
+		description:
+			"Interrupt a creature casting a spell of 3rd level or lower (or the slot level used); higher spells need an ability check.",
+	},
+	fireball: {
+		name: "Fireball",
+		level: 3,
+		school: "evocation",
+		castingTime: "action",
+		range: "150 ft",
+		concentration: false,
+		classes: ARCANE,
+		area: { shape: "sphere", size: 20 },
+		effect: {
+			kind: "save",
+			ability: "dexterity",
+			damageDice: "8d6",
+			damageType: "fire",
+			onSuccess: "half",
+		},
+		upcast: { dice: "1d6" },
+		description: "A bead of flame blossoms into a 20-foot-radius explosion.",
+	},
+	"lightning-bolt": {
+		name: "Lightning Bolt",
+		level: 3,
+		school: "evocation",
+		castingTime: "action",
+		range: "Self (100-foot line)",
+		concentration: false,
+		classes: ARCANE,
+		area: { shape: "line", size: 100 },
+		effect: {
+			kind: "save",
+			ability: "dexterity",
+			damageDice: "8d6",
+			damageType: "lightning",
+			onSuccess: "half",
+		},
+		upcast: { dice: "1d6" },
+		description: "A stroke of lightning 100 feet long and 5 feet wide.",
+	},
+	"mass-healing-word": {
+		name: "Mass Healing Word",
+		level: 3,
+		school: "evocation",
+		castingTime: "bonus action",
+		range: "60 ft",
+		concentration: false,
+		classes: ["cleric"],
+		effect: { kind: "healing", dice: "1d4", maxTargets: 6 },
+		upcast: { dice: "1d4" },
+		description: "Up to six creatures you can see regain hit points.",
+	},
+	"spirit-guardians": {
+		name: "Spirit Guardians",
+		level: 3,
+		school: "conjuration",
+		castingTime: "action",
+		range: "Self (15-foot radius)",
+		concentration: true,
+		classes: ["cleric"],
+		effect: {
+			kind: "save",
+			ability: "wisdom",
+			damageDice: "3d8",
+			damageType: "radiant",
+			onSuccess: "half",
+		},
+		upcast: { dice: "1d8" },
+		description:
+			"Spirits protect you; enemies entering the area or starting their turn there make a Wisdom save.",
+	},
+
+	// ── 4th level ──
+	blight: {
+		name: "Blight",
+		level: 4,
+		school: "necromancy",
+		castingTime: "action",
+		range: "30 ft",
+		concentration: false,
+		classes: ["druid", "sorcerer", "warlock", "wizard"],
+		effect: {
+			kind: "save",
+			ability: "constitution",
+			damageDice: "8d8",
+			damageType: "necrotic",
+			onSuccess: "half",
+			maxTargets: 1,
+		},
+		upcast: { dice: "1d8" },
+		description: "Necromantic energy drains moisture and vitality from a creature.",
+	},
+	"greater-invisibility": {
+		name: "Greater Invisibility",
+		level: 4,
+		school: "illusion",
+		castingTime: "action",
+		range: "Touch",
+		concentration: true,
+		classes: ["bard", "sorcerer", "wizard"],
+		effect: { kind: "utility", condition: "invisible", maxTargets: 1 },
+		description: "A creature you touch becomes invisible, even while it attacks or casts spells.",
+	},
+	"ice-storm": {
+		name: "Ice Storm",
+		level: 4,
+		school: "evocation",
+		castingTime: "action",
+		range: "300 ft",
+		concentration: false,
+		classes: ["druid", "sorcerer", "wizard"],
+		area: { shape: "sphere", size: 20 },
+		effect: {
+			kind: "save",
+			ability: "dexterity",
+			damageDice: "2d8+4d6",
+			damageType: "bludgeoning + cold",
+			onSuccess: "half",
+		},
+		upcast: { dice: "1d8" },
+		description: "Hail pounds a 20-foot-radius cylinder, leaving difficult terrain.",
+	},
+
+	// ── 5th level ──
+	"cone-of-cold": {
+		name: "Cone of Cold",
+		level: 5,
+		school: "evocation",
+		castingTime: "action",
+		range: "Self (60-foot cone)",
+		concentration: false,
+		classes: ARCANE,
+		area: { shape: "cone", size: 60 },
+		effect: {
+			kind: "save",
+			ability: "constitution",
+			damageDice: "8d8",
+			damageType: "cold",
+			onSuccess: "half",
+		},
+		upcast: { dice: "1d8" },
+		description: "A blast of cold air erupts from your hands.",
+	},
+	"flame-strike": {
+		name: "Flame Strike",
+		level: 5,
+		school: "evocation",
+		castingTime: "action",
+		range: "60 ft",
+		concentration: false,
+		classes: ["cleric"],
+		area: { shape: "sphere", size: 10 },
+		effect: {
+			kind: "save",
+			ability: "dexterity",
+			damageDice: "4d6+4d6",
+			damageType: "fire + radiant",
+			onSuccess: "half",
+		},
+		upcast: { dice: "1d6" },
+		description: "A vertical column of divine fire in a 10-foot-radius cylinder.",
+	},
+	"mass-cure-wounds": {
+		name: "Mass Cure Wounds",
+		level: 5,
+		school: "evocation",
+		castingTime: "action",
+		range: "60 ft",
+		concentration: false,
+		classes: ["bard", "cleric", "druid"],
+		effect: { kind: "healing", dice: "3d8", maxTargets: 6 },
+		upcast: { dice: "1d8" },
+		description: "A wave of healing energy; up to six creatures regain hit points.",
+	},
+};
+
+/** Slug for a spell name, e.g. "Cure Wounds" → "cure-wounds" */
+export function spellSlug(name: string) {
+	return name
+		.trim()
+		.toLowerCase()
+		.replace(/['’]/g, "")
+		.replace(/[^a-z0-9]+/g, "-");
+}
+
+/** Look up a catalog spell by name or slug. */
+export function findSpell(name: string) {
+	const slug = spellSlug(name);
+	const spell = SPELLS[slug];
+	return spell ? { slug, spell } : undefined;
+}
+
+// ── Spell slots ──
+
+/** Slots per spell level (1st first) for a full caster of each level 1–20 */
+const FULL_CASTER_SLOTS: number[][] = [
+	[2],
+	[3],
+	[4, 2],
+	[4, 3],
+	[4, 3, 2],
+	[4, 3, 3],
+	[4, 3, 3, 1],
+	[4, 3, 3, 2],
+	[4, 3, 3, 3, 1],
+	[4, 3, 3, 3, 2],
+	[4, 3, 3, 3, 2, 1],
+	[4, 3, 3, 3, 2, 1],
+	[4, 3, 3, 3, 2, 1, 1],
+	[4, 3, 3, 3, 2, 1, 1],
+	[4, 3, 3, 3, 2, 1, 1, 1],
+	[4, 3, 3, 3, 2, 1, 1, 1],
+	[4, 3, 3, 3, 2, 1, 1, 1, 1],
+	[4, 3, 3, 3, 3, 1, 1, 1, 1],
+	[4, 3, 3, 3, 3, 2, 1, 1, 1],
+	[4, 3, 3, 3, 3, 2, 2, 1, 1],
+];
+
+/** Warlock Pact Magic: slot count and slot level from a given warlock level on */
+const PACT_MAGIC: Array<[level: number, { slots: number; slotLevel: number }]> = [
+	[1, { slots: 1, slotLevel: 1 }],
+	[2, { slots: 2, slotLevel: 1 }],
+	[3, { slots: 2, slotLevel: 2 }],
+	[5, { slots: 2, slotLevel: 3 }],
+	[7, { slots: 2, slotLevel: 4 }],
+	[9, { slots: 2, slotLevel: 5 }],
+	[11, { slots: 3, slotLevel: 5 }],
+	[17, { slots: 4, slotLevel: 5 }],
+];
+
+/** "1st 2/4, 2nd 0/3" */
+export function describeSlots(slots: SpellSlots[]) {
+	return (
+		slots.map((slot) => `${ordinal(slot.level)} ${slot.remaining}/${slot.max}`).join(", ") || "none"
+	);
+}
+
+/** Full slots for a caster following the full-caster table at `casterLevel`. */
+export function fullCasterSlots(casterLevel: number): SpellSlots[] {
+	const counts = FULL_CASTER_SLOTS[Math.min(20, Math.max(1, casterLevel)) - 1];
+	return counts.map((max, i) => ({ level: i + 1, max, remaining: max }));
+}
+
+/** A character's spell slots at a class level: full, half (paladin, ranger) or pact casters. */
+export function classSpellSlots(className: CharacterClass, level: number): SpellSlots[] {
+	if (className === "warlock") {
+		const { slots, slotLevel } = scaleByLevel(level, PACT_MAGIC);
+		return [{ level: slotLevel, max: slots, remaining: slots }];
+	}
+	if (className === "paladin" || className === "ranger") {
+		return level < 2 ? [] : fullCasterSlots(Math.ceil(level / 2));
+	}
+	if (["bard", "cleric", "druid", "sorcerer", "wizard"].includes(className)) {
+		return fullCasterSlots(level);
+	}
+	return [];
+}
+
+/** Catalog spells on a class's list that its slots can cast, cantrips included. */
+export function classSpellList(className: CharacterClass, slots: SpellSlots[]): string[] {
+	const highest = Math.max(0, ...slots.map((slot) => slot.level));
+	return Object.entries(SPELLS)
+		.filter(([, spell]) => spell.classes.includes(className) && spell.level <= highest)
+		.map(([slug]) => slug);
+}
@@ -0,0 +1,1178 @@
+import type { z } from "zod";
+import type { monsterActionSchema, monsterSchema } from "../schemas/index.js";
+
+/*
+ * Monster stat blocks from the System Reference Document 5.1 by Wizards of the Coast LLC,
+ * licensed under CC BY 4.0 (https://creativecommons.org/licenses/by/4.0/legalcode).
+ *
+ * This is a curated subset of the SRD bestiary covering common arena opponents.
+ * Entries are validated against monsterSchema when seeded, and lookups re-seed the table
+ * whenever this list changes.
+ */
+
+type MonsterEntry = z.input<typeof monsterSchema>;
+type ActionEntry = z.input<typeof monsterActionSchema>;
+type Damage = [dice: string, type: string];
+
+function scores(
+	strength: number,
+	dexterity: number,
+	constitution: number,
+	intelligence: number,
+	wisdom: number,
+	charisma: number,
+) {
+	return { strength, dexterity, constitution, intelligence, wisdom, charisma };
+}
+
+/** Melee (or thrown, when `range` is given) weapon attack. */
+function melee(
+	name: string,
+	toHitBonus: number,
+	damage: Damage[],
+	options: { reach?: number; range?: string; description?: string } = {},
+): ActionEntry {
+	return {
+		name,
+		description: options.description,
+		attack: {
+			toHitBonus,
+			reach: options.reach ?? 5,
+			range: options.range,
+			damage: damage.map(([dice, type]) => ({ dice, type })),
+		},
+	};
+}
+
+function ranged(
+	name: string,
+	toHitBonus: number,
+	damage: Damage[],
+	range: string,
+	description?: string,
+): ActionEntry {
+	return {
+		name,
+		description,
+		attack: { toHitBonus, range, damage: damage.map(([dice, type]) => ({ dice, type })) },
+	};
+}
+
+const PACK_TACTICS = {
+	name: "Pack Tactics",
+	description:
+		"Has advantage on an attack roll against a creature if at least one of its allies is within 5 feet of the creature and the ally isn't incapacitated.",
+};
+
+const SUNLIGHT_SENSITIVITY = {
+	name: "Sunlight Sensitivity",
+	description:
+		"While in sunlight, has disadvantage on attack rolls, as well as on Wisdom (Perception) checks that rely on sight.",
+};
+
+const KEEN_HEARING_AND_SMELL = {
+	name: "Keen Hearing and Smell",
+	description: "Has advantage on Wisdom (Perception) checks that rely on hearing or smell.",
+};
+
+const PARRY = {
+	name: "Parry",
+	description:
+		"Adds 2 to its AC against one melee attack that would hit it. To do so, it must see the attacker and be wielding a melee weapon.",
+};
+
+const UNDEAD_UNDERSTANDING = "understands the languages it knew in life but can't speak";
+
+export const SRD_MONSTERS: MonsterEntry[] = [
+	{
+		slug: "adult-red-dragon",
+		name: "Adult Red Dragon",
+		size: "Huge",
+		creatureType: "dragon",
+		alignment: "chaotic evil",
+		armorClass: 19,
+		armorDescription: "natural armor",
+		hitPoints: 256,
+		hitDice: "19d12+133",
+		speed: { walk: 40, climb: 40, fly: 80 },
+		abilityScores: scores(27, 10, 25, 16, 13, 21),
+		savingThrows: { dexterity: 6, constitution: 13, wisdom: 7, charisma: 11 },
+		skills: { perception: 13, stealth: 6 },
+		damageImmunities: ["fire"],
+		senses: { blindsight: 60, darkvision: 120, passivePerception: 23 },
+		languages: "Common, Draconic",
+		challengeRating: 17,
+		xp: 18000,
+		traits: [
+			{
+				name: "Legendary Resistance (3/Day)",
+				description: "If the dragon fails a saving throw, it can choose to succeed instead.",
+			},
+		],
+		actions: [
+			{
+				name: "Multiattack",
+				description:
+					"The dragon can use its Frightful Presence. It then makes three attacks: one with its bite and two with its claws.",
+			},
+			melee(
+				"Bite",
+				14,
+				[
+					["2d10+8", "piercing"],
+					["2d6", "fire"],
+				],
+				{ reach: 10 },
+			),
+			melee("Claw", 14, [["2d6+8", "slashing"]]),
+			melee("Tail", 14, [["2d8+8", "bludgeoning"]], { reach: 15 }),
+			{
+				name: "Frightful Presence",
+				description:
+					"Each creature of the dragon's choice within 120 feet that is aware of it must succeed on a DC 19 Wisdom saving throw or become frightened for 1 minute, repeating the save at the end of each of its turns. A creature that succeeds is immune to the Frightful Presence for 24 hours.",
+			},
+			{
+				name: "Fire Breath",
+				recharge: "5-6",
+				description:
+					"The dragon exhales fire in a 60-foot cone. Each creature in that area must make a DC 21 Dexterity saving throw, taking 63 (18d6) fire damage on a failed save, or half as much damage on a successful one.",
+			},
+		],
+		legendaryActions: [
+			{ name: "Detect", cost: 1, description: "The dragon makes a Wisdom (Perception) check." },
+			{ name: "Tail Attack", cost: 1, description: "The dragon makes a tail attack." },
+			{
+				name: "Wing Attack",
+				cost: 2,
+				description:
+					"The dragon beats its wings. Each creature within 10 feet must succeed on a DC 22 Dexterity saving throw or take 15 (2d6+8) bludgeoning damage and be knocked prone. The dragon can then fly up to half its flying speed.",
+			},
+		],
+		lairActions: [
+			{
+				name: "Magma Geyser",
+				description:
+					"Magma erupts from a point on the ground the dragon can see within 120 feet of it, creating a 20-foot-high, 5-foot-radius geyser. Each creature in the geyser's area must make a DC 15 Dexterity saving throw, taking 10 (3d6) fire damage on a failed save, or half as much damage on a successful one.",
+			},
+			{
+				name: "Tremor",
+				description:
+					"A tremor shakes the lair in a 60-foot radius around the dragon. Each creature other than the dragon on the ground in that area must succeed on a DC 15 Dexterity saving throw or be knocked prone.",
+			},
+			{
+				name: "Volcanic Gases",
+				description:
+					"Volcanic gases form a cloud in a 20-foot-radius sphere centered on a point the dragon can see within 120 feet of it. The sphere spreads around corners, and its area is lightly obscured. It lasts until initiative count 20 on the next round. Each creature that starts its turn in the cloud must succeed on a DC 13 Constitution saving throw or be poisoned until the end of its turn. While poisoned in this way, a creature is incapacitated.",
+			},
+		],
+	},
+	{
+		slug: "ancient-red-dragon",
+		name: "Ancient Red Dragon",
+		size: "Gargantuan",
+		creatureType: "dragon",
+		alignment: "chaotic evil",
+		armorClass: 22,
+		armorDescription: "natural armor",
+		hitPoints: 546,
+		hitDice: "28d20+252",
+		speed: { walk: 40, climb: 40, fly: 80 },
+		abilityScores: scores(30, 10, 29, 18, 15, 23),
+		savingThrows: { dexterity: 7, constitution: 16, wisdom: 9, charisma: 13 },
+		skills: { perception: 16, stealth: 7 },
+		damageImmunities: ["fire"],
+		senses: { blindsight: 60, darkvision: 120, passivePerception: 26 },
+		languages: "Common, Draconic",
+		challengeRating: 24,
+		xp: 62000,
+		traits: [
+			{
+				name: "Legendary Resistance (3/Day)",
+				description: "If the dragon fails a saving throw, it can choose to succeed instead.",
+			},
+		],
+		actions: [
+			{
+				name: "Multiattack",
+				description:
+					"The dragon can use its Frightful Presence. It then makes three attacks: one with its bite and two with its claws.",
+			},
+			melee(
+				"Bite",
+				17,
+				[
+					["2d10+10", "piercing"],
+					["4d6", "fire"],
+				],
+				{ reach: 15 },
+			),
+			melee("Claw", 17, [["2d6+10", "slashing"]], { reach: 10 }),
+			melee("Tail", 17, [["2d8+10", "bludgeoning"]], { reach: 20 }),
+			{
+				name: "Frightful Presence",
+				description:
+					"Each creature of the dragon's choice within 120 feet that is aware of it must succeed on a DC 21 Wisdom saving throw or become frightened for 1 minute, repeating the save at the end of each of its turns. A creature that succeeds is immune to the Frightful Presence for 24 hours.",
+			},
+			{
+				name: "Fire Breath",
+				recharge: "5-6",
+				description:
+					"The dragon exhales fire in a 90-foot cone. Each creature in that area must make a DC 24 Dexterity saving throw, taking 91 (26d6) fire damage on a failed save, or half as much damage on a successful one.",
+			},
+		],
+		legendaryActions: [
+			{ name: "Detect", cost: 1, description: "The dragon makes a Wisdom (Perception) check." },
+			{ name: "Tail Attack", cost: 1, description: "The dragon makes a tail attack." },
+			{
+				name: "Wing Attack",
+				cost: 2,
+				description:
+					"The dragon beats its wings. Each creature within 15 feet must succeed on a DC 25 Dexterity saving throw or take 17 (2d6+10) bludgeoning damage and be knocked prone. The dragon can then fly up to half its flying speed.",
+			},
+		],
+		lairActions: [
+			{
+				name: "Magma Geyser",
+				description:
+					"Magma erupts from a point on the ground the dragon can see within 120 feet of it, creating a 20-foot-high, 5-foot-radius geyser. Each creature in the geyser's area must make a DC 15 Dexterity saving throw, taking 10 (3d6) fire damage on a failed save, or half as much damage on a successful one.",
+			},
+			{
+				name: "Tremor",
+				description:
+					"A tremor shakes the lair in a 60-foot radius around the dragon. Each creature other than the dragon on the ground in that area must succeed on a DC 15 Dexterity saving throw or be knocked prone.",
+			},
+			{
+				name: "Volcanic Gases",
+				description:
+					"Volcanic gases form a cloud in a 20-foot-radius sphere centered on a point the dragon can see within 120 feet of it. The sphere spreads around corners, and its area is lightly obscured. It lasts until initiative count 20 on the next round. Each creature that starts its turn in the cloud must succeed on a DC 13 Constitution saving throw or be poisoned until the end of its turn. While poisoned in this way, a creature is incapacitated.",
+			},
+		],
+	},
+	{
+		slug: "bandit",
+		name: "Bandit",
+		size: "Medium",
+		creatureType: "humanoid (any race)",
+		alignment: "any non-lawful alignment",
+		armorClass: 12,
+		armorDescription: "leather armor",
+		hitPoints: 11,
+		hitDice: "2d8+2",
+		speed: { walk: 30 },
+		abilityScores: scores(11, 12, 12, 10, 10, 10),
+		senses: { passivePerception: 10 },
+		languages: "any one language (usually Common)",
+		challengeRating: 0.125,
+		xp: 25,
+		actions: [
+			melee("Scimitar", 3, [["1d6+1", "slashing"]]),
+			ranged("Light Crossbow", 3, [["1d8+1", "piercing"]], "80/320"),
+		],
+	},
+	{
+		slug: "bandit-captain",
+		name: "Bandit Captain",
+		size: "Medium",
+		creatureType: "humanoid (any race)",
+		alignment: "any non-lawful alignment",
+		armorClass: 15,
+		armorDescription: "studded leather",
+		hitPoints: 65,
+		hitDice: "10d8+20",
+		speed: { walk: 30 },
+		abilityScores: scores(15, 16, 14, 14, 11, 14),
+		savingThrows: { strength: 4, dexterity: 5, wisdom: 2 },
+		skills: { athletics: 4, deception: 4 },
+		senses: { passivePerception: 10 },
+		languages: "any two languages",
+		challengeRating: 2,
+		xp: 450,
+		actions: [
+			{
+				name: "Multiattack",
+				description:
+					"The captain makes three melee attacks: two with its scimitar and one with its dagger. Or the captain makes two ranged attacks with its daggers.",
+			},
+			melee("Scimitar", 5, [["1d6+3", "slashing"]]),
+			melee("Dagger", 5, [["1d4+3", "piercing"]], { range: "20/60" }),
+		],
+		reactions: [PARRY],
+	},
+	{
+		slug: "basilisk",
+		name: "Basilisk",
+		size: "Medium",
+		creatureType: "monstrosity",
+		alignment: "unaligned",
+		armorClass: 15,
+		armorDescription: "natural armor",
+		hitPoints: 52,
+		hitDice: "8d8+16",
+		speed: { walk: 20 },
+		abilityScores: scores(16, 8, 15, 2, 8, 7),
+		senses: { darkvision: 60, passivePerception: 9 },
+		languages: "—",
+		challengeRating: 3,
+		xp: 700,
+		traits: [
+			{
+				name: "Petrifying Gaze",
+				description:
+					"If a creature starts its turn within 30 feet of the basilisk and the two can see each other, the basilisk can force it to make a DC 12 Constitution saving throw. On a failure the creature begins to turn to stone and is restrained, repeating the save at the end of its next turn; on a second failure it is petrified until freed by greater restoration or similar magic.",
+			},
+		],
+		actions: [
+			melee("Bite", 5, [
+				["2d6+3", "piercing"],
+				["2d6", "poison"],
+			]),
+		],
+	},
+	{
+		slug: "brown-bear",
+		name: "Brown Bear",
+		size: "Large",
+		creatureType: "beast",
+		alignment: "unaligned",
+		armorClass: 11,
+		armorDescription: "natural armor",
+		hitPoints: 34,
+		hitDice: "4d10+12",
+		speed: { walk: 40, climb: 30 },
+		abilityScores: scores(19, 10, 16, 2, 13, 7),
+		skills: { perception: 3 },
+		senses: { passivePerception: 13 },
+		languages: "—",
+		challengeRating: 1,
+		xp: 200,
+		traits: [
+			{
+				name: "Keen Smell",
+				description: "The bear has advantage on Wisdom (Perception) checks that rely on smell.",
+			},
+		],
+		actions: [
+			{
+				name: "Multiattack",
+				description: "The bear makes two attacks: one with its bite and one with its claws.",
+			},
+			melee("Bite", 6, [["1d8+4", "piercing"]]),
+			melee("Claws", 6, [["2d6+4", "slashing"]]),
+		],
+	},
+	{
+		slug: "bugbear",
+		name: "Bugbear",
+		size: "Medium",
+		creatureType: "humanoid (goblinoid)",
+		alignment: "chaotic evil",
+		armorClass: 16,
+		armorDescription: "hide armor, shield",
+		hitPoints: 27,
+		hitDice: "5d8+5",
+		speed: { walk: 30 },
+		abilityScores: scores(15, 14, 13, 8, 11, 9),
+		skills: { stealth: 6, survival: 2 },
+		senses: { darkvision: 60, passivePerception: 10 },
+		languages: "Common, Goblin",
+		challengeRating: 1,
+		xp: 200,
+		traits: [
+			{
+				name: "Brute",
+				description:
+					"A melee weapon deals one extra die of its damage when the bugbear hits with it (included in the attack).",
+			},
+			{
+				name: "Surprise Attack",
+				description:
+					"If the bugbear surprises a creature and hits it with an attack during the first round of combat, the target takes an extra 7 (2d6) damage from the attack.",
+			},
+		],
+		actions: [
+			melee("Morningstar", 4, [["2d8+2", "piercing"]]),
+			melee("Javelin", 4, [["2d6+2", "piercing"]], {
+				range: "30/120",
+				description: "Deals 5 (1d6+2) piercing damage instead when thrown.",
+			}),
+		],
+	},
+	{
+		slug: "cultist",
+		name: "Cultist",
+		size: "Medium",
+		creatureType: "humanoid (any race)",
+		alignment: "any non-good alignment",
+		armorClass: 12,
+		armorDescription: "leather armor",
+		hitPoints: 9,
+		hitDice: "2d8",
+		speed: { walk: 30 },
+		abilityScores: scores(11, 12, 10, 10, 11, 10),
+		skills: { deception: 2, religion: 2 },
+		senses: { passivePerception: 10 },
+		languages: "any one language (usually Common)",
+		challengeRating: 0.125,
+		xp: 25,
+		traits: [
+			{
+				name: "Dark Devotion",
+				description:
+					"The cultist has advantage on saving throws against being charmed or frightened.",
+			},
+		],
+		actions: [melee("Scimitar", 3, [["1d6+1", "slashing"]])],
+	},
+	{
+		slug: "dire-wolf",
+		name: "Dire Wolf",
+		size: "Large",
+		creatureType: "beast",
+		alignment: "unaligned",
+		armorClass: 14,
+		armorDescription: "natural armor",
+		hitPoints: 37,
+		hitDice: "5d10+10",
+		speed: { walk: 50 },
+		abilityScores: scores(17, 15, 15, 3, 12, 7),
+		skills: { perception: 3, stealth: 4 },
+		senses: { passivePerception: 13 },
+		languages: "—",
+		challengeRating: 1,
+		xp: 200,
+		traits: [KEEN_HEARING_AND_SMELL, PACK_TACTICS],
+		actions: [
+			melee("Bite", 5, [["2d6+3", "piercing"]], {
+				description:
+					"If the target is a creature, it must succeed on a DC 13 Strength saving throw or be knocked prone.",
+			}),
+		],
+	},
+	{
+		slug: "gelatinous-cube",
+		name: "Gelatinous Cube",
+		size: "Large",
+		creatureType: "ooze",
+		alignment: "unaligned",
+		armorClass: 6,
+		hitPoints: 84,
+		hitDice: "8d10+40",
+		speed: { walk: 15 },
+		abilityScores: scores(14, 3, 20, 1, 6, 1),
+		conditionImmunities: ["blinded", "charmed", "deafened", "exhaustion", "frightened", "prone"],
+		senses: { blindsight: 60, passivePerception: 8 },
+		languages: "—",
+		challengeRating: 2,
+		xp: 450,
+		traits: [
+			{
+				name: "Ooze Cube",
+				description:
+					"The cube takes up its entire space. A creature inside it can be seen but has total cover, takes 21 (6d6) acid damage at the start of each of the cube's turns, and is restrained.",
+			},
+			{
+				name: "Transparent",
+				description:
+					"Even when in plain sight, it takes a successful DC 15 Wisdom (Perception) check to spot a cube that has neither moved nor attacked.",
+			},
+		],
+		actions: [
+			melee("Pseudopod", 4, [["3d6", "acid"]]),
+			{
+				name: "Engulf",
+				description:
+					"The cube moves up to its speed, entering Large or smaller creatures' spaces. Each such creature makes a DC 12 Dexterity saving throw; on a failure it takes 10 (3d6) acid damage and is engulfed.",
+			},
+		],
+	},
+	{
+		slug: "ghoul",
+		name: "Ghoul",
+		size: "Medium",
+		creatureType: "undead",
+		alignment: "chaotic evil",
+		armorClass: 12,
+		hitPoints: 22,
+		hitDice: "5d8",
+		speed: { walk: 30 },
+		abilityScores: scores(13, 15, 10, 7, 10, 6),
+		damageImmunities: ["poison"],
+		conditionImmunities: ["charmed", "exhaustion", "poisoned"],
+		senses: { darkvision: 60, passivePerception: 10 },
+		languages: "Common",
+		challengeRating: 1,
+		xp: 200,
+		actions: [
+			melee("Bite", 2, [["2d6+2", "piercing"]]),
+			melee("Claws", 4, [["2d4+2", "slashing"]], {
+				description:
+					"If the target is a creature other than an elf or undead, it must succeed on a DC 10 Constitution saving throw or be paralyzed for 1 minute, repeating the save at the end of each of its turns.",
+			}),
+		],
+	},
+	{
+		slug: "giant-spider",
+		name: "Giant Spider",
+		size: "Large",
+		creatureType: "beast",
+		alignment: "unaligned",
+		armorClass: 14,
+		armorDescription: "natural armor",
+		hitPoints: 26,
+		hitDice: "4d10+4",
+		speed: { walk: 30, climb: 30 },
+		abilityScores: scores(14, 16, 12, 2, 11, 4),
+		skills: { stealth: 7 },
+		senses: { blindsight: 10, darkvision: 60, passivePerception: 10 },
+		languages: "—",
+		challengeRating: 1,
+		xp: 200,
+		traits: [
+			{
+				name: "Spider Climb",
+				description:
+					"The spider can climb difficult surfaces, including upside down on ceilings, without needing to make an ability check.",
+			},
+			{
+				name: "Web Sense",
+				description:
+					"While in contact with a web, the spider knows the exact location of any other creature in contact with the same web.",
+			},
+			{
+				name: "Web Walker",
+				description: "The spider ignores movement restrictions caused by webbing.",
+			},
+		],
+		actions: [
+			melee("Bite", 5, [["1d8+3", "piercing"]], {
+				description:
+					"The target must make a DC 11 Constitution saving throw, taking 9 (2d8) poison damage on a failed save, or half as much on a successful one.",
+			}),
+			{
+				name: "Web",
+				recharge: "5-6",
+				description:
+					"Ranged Weapon Attack: +5 to hit, range 30/60 ft., one creature. Hit: the target is restrained by webbing (escape DC 12 Strength; the webbing has AC 10 and 5 hit points).",
+			},
+		],
+	},
+	{
+		slug: "gnoll",
+		name: "Gnoll",
+		size: "Medium",
+		creatureType: "humanoid (gnoll)",
+		alignment: "chaotic evil",
+		armorClass: 15,
+		armorDescription: "hide armor, shield",
+		hitPoints: 22,
+		hitDice: "5d8",
+		speed: { walk: 30 },
+		abilityScores: scores(14, 12, 11, 6, 10, 7),
+		senses: { darkvision: 60, passivePerception: 10 },
+		languages: "Gnoll",
+		challengeRating: 0.5,
+		xp: 100,
+		traits: [
+			{
+				name: "Rampage",
+				description:
+					"When the gnoll reduces a creature to 0 hit points with a melee attack on its turn, it can take a bonus action to move up to half its speed and make a bite attack.",
+			},
+		],
+		actions: [
+			melee("Bite", 4, [["1d4+2", "piercing"]]),
+			melee("Spear", 4, [["1d6+2", "piercing"]], { range: "20/60" }),
+			ranged("Longbow", 3, [["1d8+1", "piercing"]], "150/600"),
+		],
+	},
+	{
+		slug: "goblin",
+		name: "Goblin",
+		size: "Small",
+		creatureType: "humanoid (goblinoid)",
+		alignment: "neutral evil",
+		armorClass: 15,
+		armorDescription: "leather armor, shield",
+		hitPoints: 7,
+		hitDice: "2d6",
+		speed: { walk: 30 },
+		abilityScores: scores(8, 14, 10, 10, 8, 8),
+		skills: { stealth: 6 },
+		senses: { darkvision: 60, passivePerception: 9 },
+		languages: "Common, Goblin",
+		challengeRating: 0.25,
+		xp: 50,
+		traits: [
+			{
+				name: "Nimble Escape",
+				description:
+					"The goblin can take the Disengage or Hide action as a bonus action on each of its turns.",
+			},
+		],
+		actions: [
+			melee("Scimitar", 4, [["1d6+2", "slashing"]]),
+			ranged("Shortbow", 4, [["1d6+2", "piercing"]], "80/320"),
+		],
+	},
+	{
+		slug: "guard",
+		name: "Guard",
+		size: "Medium",
+		creatureType: "humanoid (any race)",
+		alignment: "any alignment",
+		armorClass: 16,
+		armorDescription: "chain shirt, shield",
+		hitPoints: 11,
+		hitDice: "2d8+2",
+		speed: { walk: 30 },
+		abilityScores: scores(13, 12, 12, 10, 11, 10),
+		skills: { perception: 2 },
+		senses: { passivePerception: 12 },
+		languages: "any one language (usually Common)",
+		challengeRating: 0.125,
+		xp: 25,
+		actions: [
+			melee("Spear", 3, [["1d6+1", "piercing"]], {
+				range: "20/60",
+				description: "Deals 5 (1d8+1) piercing damage if used with two hands in melee.",
+			}),
+		],
+	},
+	{
+		slug: "hill-giant",
+		name: "Hill Giant",
+		size: "Huge",
+		creatureType: "giant",
+		alignment: "chaotic evil",
+		armorClass: 13,
+		armorDescription: "natural armor",
+		hitPoints: 105,
+		hitDice: "10d12+40",
+		speed: { walk: 40 },
+		abilityScores: scores(21, 8, 19, 5, 9, 6),
+		skills: { perception: 2 },
+		senses: { passivePerception: 12 },
+		languages: "Giant",
+		challengeRating: 5,
+		xp: 1800,
+		actions: [
+			{ name: "Multiattack", description: "The giant makes two greatclub attacks." },
+			melee("Greatclub", 8, [["3d8+5", "bludgeoning"]], { reach: 10 }),
+			ranged("Rock", 8, [["3d10+5", "bludgeoning"]], "60/240"),
+		],
+	},
+	{
+		slug: "hobgoblin",
+		name: "Hobgoblin",
+		size: "Medium",
+		creatureType: "humanoid (goblinoid)",
+		alignment: "lawful evil",
+		armorClass: 18,
+		armorDescription: "chain mail, shield",
+		hitPoints: 11,
+		hitDice: "2d8+2",
+		speed: { walk: 30 },
+		abilityScores: scores(13, 12, 12, 10, 10, 9),
+		senses: { darkvision: 60, passivePerception: 10 },
+		languages: "Common, Goblin",
+		challengeRating: 0.5,
+		xp: 100,
+		traits: [
+			{
+				name: "Martial Advantage",
+				description:
+					"Once per turn, the hobgoblin can deal an extra 7 (2d6) damage to a creature it hits with a weapon attack if that creature is within 5 feet of an ally of the hobgoblin that isn't incapacitated.",
+			},
+		],
+		actions: [
+			melee("Longsword", 3, [["1d8+1", "slashing"]], {
+				description: "Deals 6 (1d10+1) slashing damage if used with two hands.",
+			}),
+			ranged("Longbow", 3, [["1d8+1", "piercing"]], "150/600"),
+		],
+	},
+	{
+		slug: "knight",
+		name: "Knight",
+		size: "Medium",
+		creatureType: "humanoid (any race)",
+		alignment: "any alignment",
+		armorClass: 18,
+		armorDescription: "plate",
+		hitPoints: 52,
+		hitDice: "8d8+16",
+		speed: { walk: 30 },
+		abilityScores: scores(16, 11, 14, 11, 11, 15),
+		savingThrows: { constitution: 4, wisdom: 2 },
+		senses: { passivePerception: 10 },
+		languages: "any one language (usually Common)",
+		challengeRating: 3,
+		xp: 700,
+		traits: [
+			{
+				name: "Brave",
+				description: "The knight has advantage on saving throws against being frightened.",
+			},
+		],
+		actions: [
+			{ name: "Multiattack", description: "The knight makes two melee attacks." },
+			melee("Greatsword", 5, [["2d6+3", "slashing"]]),
+			ranged("Heavy Crossbow", 2, [["1d10", "piercing"]], "100/400"),
+			{
+				name: "Leadership (Recharges after a Short or Long Rest)",
+				description:
+					"For 1 minute, whenever a nonhostile creature within 30 feet that can see or hear the knight makes an attack roll or a saving throw, it can add a d4 to its roll.",
+			},
+		],
+		reactions: [PARRY],
+	},
+	{
+		slug: "kobold",
+		name: "Kobold",
+		size: "Small",
+		creatureType: "humanoid (kobold)",
+		alignment: "lawful evil",
+		armorClass: 12,
+		hitPoints: 5,
+		hitDice: "2d6-2",
+		speed: { walk: 30 },
+		abilityScores: scores(7, 15, 9, 8, 7, 8),
+		senses: { darkvision: 60, passivePerception: 8 },
+		languages: "Common, Draconic",
+		challengeRating: 0.125,
+		xp: 25,
+		traits: [SUNLIGHT_SENSITIVITY, PACK_TACTICS],
+		actions: [
+			melee("Dagger", 4, [["1d4+2", "piercing"]]),
+			ranged("Sling", 4, [["1d4+2", "bludgeoning"]], "30/120"),
+		],
+	},
+	{
+		slug: "mage",
+		name: "Mage",
+		size: "Medium",
+		creatureType: "humanoid (any race)",
+		alignment: "any alignment",
+		armorClass: 12,
+		armorDescription: "15 with mage armor",
+		hitPoints: 40,
+		hitDice: "9d8",
+		speed: { walk: 30 },
+		abilityScores: scores(9, 14, 11, 17, 12, 11),
+		savingThrows: { intelligence: 6, wisdom: 4 },
+		skills: { arcana: 6, history: 6 },
+		senses: { passivePerception: 11 },
+		languages: "any four languages",
+		challengeRating: 6,
+		xp: 2300,
+		traits: [
+			{
+				name: "Spellcasting",
+				description:
+					"The mage is a 9th-level spellcaster (spell save DC 14, +6 to hit with spell attacks). Cantrips: fire bolt, light, mage hand, prestidigitation. 1st level (4 slots): detect magic, mage armor, magic missile, shield. 2nd level (3 slots): misty step, suggestion. 3rd level (3 slots): counterspell, fireball, fly. 4th level (3 slots): greater invisibility, ice storm. 5th level (1 slot): cone of cold.",
+			},
+		],
+		actions: [melee("Dagger", 5, [["1d4+2", "piercing"]], { range: "20/60" })],
+	},
+	{
+		slug: "minotaur",
+		name: "Minotaur",
+		size: "Large",
+		creatureType: "monstrosity",
+		alignment: "chaotic evil",
+		armorClass: 14,
+		armorDescription: "natural armor",
+		hitPoints: 76,
+		hitDice: "9d10+27",
+		speed: { walk: 40 },
+		abilityScores: scores(18, 11, 16, 6, 16, 9),
+		skills: { perception: 7 },
+		senses: { darkvision: 60, passivePerception: 17 },
+		languages: "Abyssal",
+		challengeRating: 3,
+		xp: 700,
+		traits: [
+			{
+				name: "Charge",
+				description:
+					"If the minotaur moves at least 10 feet straight toward a target and then hits it with a gore attack on the same turn, the target takes an extra 9 (2d8) piercing damage and must succeed on a DC 14 Strength saving throw or be pushed up to 10 feet away and knocked prone.",
+			},
+			{
+				name: "Labyrinthine Recall",
+				description: "The minotaur can perfectly recall any path it has traveled.",
+			},
+			{
+				name: "Reckless",
+				description:
+					"At the start of its turn, the minotaur can gain advantage on all melee weapon attack rolls it makes during that turn, but attack rolls against it have advantage until the start of its next turn.",
+			},
+		],
+		actions: [
+			melee("Greataxe", 6, [["2d12+4", "slashing"]]),
+			melee("Gore", 6, [["2d8+4", "piercing"]]),
+		],
+	},
+	{
+		slug: "ogre",
+		name: "Ogre",
+		size: "Large",
+		creatureType: "giant",
+		alignment: "chaotic evil",
+		armorClass: 11,
+		armorDescription: "hide armor",
+		hitPoints: 59,
+		hitDice: "7d10+21",
+		speed: { walk: 40 },
+		abilityScores: scores(19, 8, 16, 5, 7, 7),
+		senses: { darkvision: 60, passivePerception: 8 },
+		languages: "Common, Giant",
+		challengeRating: 2,
+		xp: 450,
+		actions: [
+			melee("Greatclub", 6, [["2d8+4", "bludgeoning"]]),
+			melee("Javelin", 6, [["2d6+4", "piercing"]], { range: "30/120" }),
+		],
+	},
+	{
+		slug: "orc",
+		name: "Orc",
+		size: "Medium",
+		creatureType: "humanoid (orc)",
+		alignment: "chaotic evil",
+		armorClass: 13,
+		armorDescription: "hide armor",
+		hitPoints: 15,
+		hitDice: "2d8+6",
+		speed: { walk: 30 },
+		abilityScores: scores(16, 12, 16, 7, 11, 10),
+		skills: { intimidation: 2 },
+		senses: { darkvision: 60, passivePerception: 10 },
+		languages: "Common, Orc",
+		challengeRating: 0.5,
+		xp: 100,
+		traits: [
+			{
+				name: "Aggressive",
+				description:
+					"As a bonus action, the orc can move up to its speed toward a hostile creature that it can see.",
+			},
+		],
+		actions: [
+			melee("Greataxe", 5, [["1d12+3", "slashing"]]),
+			melee("Javelin", 5, [["1d6+3", "piercing"]], { range: "30/120" }),
+		],
+	},
+	{
+		slug: "owlbear",
+		name: "Owlbear",
+		size: "Large",
+		creatureType: "monstrosity",
+		alignment: "unaligned",
+		armorClass: 13,
+		armorDescription: "natural armor",
+		hitPoints: 59,
+		hitDice: "7d10+21",
+		speed: { walk: 40 },
+		abilityScores: scores(20, 12, 17, 3, 12, 7),
+		skills: { perception: 3 },
+		senses: { darkvision: 60, passivePerception: 13 },
+		languages: "—",
+		challengeRating: 3,
+		xp: 700,
+		traits: [
+			{
+				name: "Keen Sight and Smell",
+				description:
+					"The owlbear has advantage on Wisdom (Perception) checks that rely on sight or smell.",
+			},
+		],
+		actions: [
+			{
+				name: "Multiattack",
+				description: "The owlbear makes two attacks: one with its beak and one with its claws.",
+			},
+			melee("Beak", 7, [["1d10+5", "piercing"]]),
+			melee("Claws", 7, [["2d8+5", "slashing"]]),
+		],
+	},
+	{
+		slug: "priest",
+		name: "Priest",
+		size: "Medium",
+		creatureType: "humanoid (any race)",
+		alignment: "any alignment",
+		armorClass: 13,
+		armorDescription: "chain shirt",
+		hitPoints: 27,
+		hitDice: "5d8+5",
+		speed: { walk: 25 },
+		abilityScores: scores(10, 10, 12, 13, 16, 13),
+		skills: { medicine: 7, persuasion: 3, religion: 4 },
+		senses: { passivePerception: 13 },
+		languages: "any two languages",
+		challengeRating: 2,
+		xp: 450,
+		traits: [
+			{
+				name: "Divine Eminence",
+				description:
+					"As a bonus action, the priest can expend a spell slot to cause its melee weapon attacks to magically deal an extra 10 (3d6) radiant damage to a target on a hit, until the end of the turn.",
+			},
+			{
+				name: "Spellcasting",
+				description:
+					"The priest is a 5th-level spellcaster (spell save DC 13, +5 to hit with spell attacks). Cantrips: light, sacred flame, thaumaturgy. 1st level (4 slots): cure wounds, guiding bolt, sanctuary. 2nd level (3 slots): lesser restoration, spiritual weapon. 3rd level (2 slots): dispel magic, spirit guardians.",
+			},
+		],
+		actions: [melee("Mace", 2, [["1d6", "bludgeoning"]])],
+	},
+	{
+		slug: "skeleton",
+		name: "Skeleton",
+		size: "Medium",
+		creatureType: "undead",
+		alignment: "lawful evil",
+		armorClass: 13,
+		armorDescription: "armor scraps",
+		hitPoints: 13,
+		hitDice: "2d8+4",
+		speed: { walk: 30 },
+		abilityScores: scores(10, 14, 15, 6, 8, 5),
+		damageVulnerabilities: ["bludgeoning"],
+		damageImmunities: ["poison"],
+		conditionImmunities: ["exhaustion", "poisoned"],
+		senses: { darkvision: 60, passivePerception: 9 },
+		languages: UNDEAD_UNDERSTANDING,
+		challengeRating: 0.25,
+		xp: 50,
+		actions: [
+			melee("Shortsword", 4, [["1d6+2", "piercing"]]),
+			ranged("Shortbow", 4, [["1d6+2", "piercing"]], "80/320"),
+		],
+	},
+	{
+		slug: "thug",
+		name: "Thug",
+		size: "Medium",
+		creatureType: "humanoid (any race)",
+		alignment: "any non-good alignment",
+		armorClass: 11,
+		armorDescription: "leather armor",
+		hitPoints: 32,
+		hitDice: "5d8+10",
+		speed: { walk: 30 },
+		abilityScores: scores(15, 11, 14, 10, 10, 11),
+		skills: { intimidation: 2 },
+		senses: { passivePerception: 10 },
+		languages: "any one language (usually Common)",
+		challengeRating: 0.5,
+		xp: 100,
+		traits: [PACK_TACTICS],
+		actions: [
+			{ name: "Multiattack", description: "The thug makes two melee attacks." },
+			melee("Mace", 4, [["1d6+2", "bludgeoning"]]),
+			ranged("Heavy Crossbow", 2, [["1d10", "piercing"]], "100/400"),
+		],
+	},
+	{
+		slug: "troll",
+		name: "Troll",
+		size: "Large",
+		creatureType: "giant",
+		alignment: "chaotic evil",
+		armorClass: 15,
+		armorDescription: "natural armor",
+		hitPoints: 84,
+		hitDice: "8d10+40",
+		speed: { walk: 30 },
+		abilityScores: scores(18, 13, 20, 7, 9, 7),
+		skills: { perception: 2 },
+		senses: { darkvision: 60, passivePerception: 12 },
+		languages: "Giant",
+		challengeRating: 5,
+		xp: 1800,
+		traits: [
+			{
+				name: "Keen Smell",
+				description: "The troll has advantage on Wisdom (Perception) checks that rely on smell.",
+			},
+			{
+				name: "Regeneration",
+				description:
+					"The troll regains 10 hit points at the start of its turn. If the troll takes acid or fire damage, this trait doesn't function at the start of the troll's next turn. The troll dies only if it starts its turn with 0 hit points and doesn't regenerate.",
+			},
+		],
+		actions: [
+			{
+				name: "Multiattack",
+				description: "The troll makes three attacks: one with its bite and two with its claws.",
+			},
+			melee("Bite", 7, [["1d6+4", "piercing"]]),
+			melee("Claw", 7, [["2d6+4", "slashing"]]),
+		],
+	},
+	{
+		slug: "veteran",
+		name: "Veteran",
+		size: "Medium",
+		creatureType: "humanoid (any race)",
+		alignment: "any alignment",
+		armorClass: 17,
+		armorDescription: "splint",
+		hitPoints: 58,
+		hitDice: "9d8+18",
+		speed: { walk: 30 },
+		abilityScores: scores(16, 13, 14, 10, 11, 10),
+		skills: { athletics: 5, perception: 2 },
+		senses: { passivePerception: 12 },
+		languages: "any one language (usually Common)",
+		challengeRating: 3,
+		xp: 700,
+		actions: [
+			{
+				name: "Multiattack",
+				description:
+					"The veteran makes two longsword attacks. If it has a shortsword drawn, it can also make a shortsword attack.",
+			},
+			melee("Longsword", 5, [["1d8+3", "slashing"]], {
+				description: "Deals 8 (1d10+3) slashing damage if used with two hands.",
+			}),
+			melee("Shortsword", 5, [["1d6+3", "piercing"]]),
+			ranged("Heavy Crossbow", 3, [["1d10+1", "piercing"]], "100/400"),
+		],
+	},
+	{
+		slug: "wight",
+		name: "Wight",
+		size: "Medium",
+		creatureType: "undead",
+		alignment: "neutral evil",
+		armorClass: 14,
+		armorDescription: "studded leather",
+		hitPoints: 45,
+		hitDice: "6d8+18",
+		speed: { walk: 30 },
+		abilityScores: scores(15, 14, 16, 10, 13, 15),
+		skills: { perception: 3, stealth: 4 },
+		damageResistances: [
+			"necrotic",
+			"bludgeoning, piercing, and slashing from nonmagical attacks that aren't silvered",
+		],
+		damageImmunities: ["poison"],
+		conditionImmunities: ["exhaustion", "poisoned"],
+		senses: { darkvision: 60, passivePerception: 13 },
+		languages: "the languages it knew in life",
+		challengeRating: 3,
+		xp: 700,
+		traits: [SUNLIGHT_SENSITIVITY],
+		actions: [
+			{
+				name: "Multiattack",
+				description:
+					"The wight makes two longsword attacks or two longbow attacks. It can use its Life Drain in place of one longsword attack.",
+			},
+			melee("Life Drain", 4, [["1d6+2", "necrotic"]], {
+				description:
+					"The target must succeed on a DC 13 Constitution saving throw or its hit point maximum is reduced by an amount equal to the damage taken until it finishes a long rest.",
+			}),
+			melee("Longsword", 4, [["1d8+2", "slashing"]], {
+				description: "Deals 7 (1d10+2) slashing damage if used with two hands.",
+			}),
+			ranged("Longbow", 4, [["1d8+2", "piercing"]], "150/600"),
+		],
+	},
+	{
+		slug: "wolf",
+		name: "Wolf",
+		size: "Medium",
+		creatureType: "beast",
+		alignment: "unaligned",
+		armorClass: 13,
+		armorDescription: "natural armor",
+		hitPoints: 11,
+		hitDice: "2d8+2",
+		speed: { walk: 40 },
+		abilityScores: scores(12, 15, 12, 3, 12, 6),
+		skills: { perception: 3, stealth: 4 },
+		senses: { passivePerception: 13 },
+		languages: "—",
+		challengeRating: 0.25,
+		xp: 50,
+		traits: [KEEN_HEARING_AND_SMELL, PACK_TACTICS],
+		actions: [
+			melee("Bite", 4, [["2d4+2", "piercing"]], {
+				description:
+					"If the target is a creature, it must succeed on a DC 11 Strength saving throw or be knocked prone.",
+			}),
+		],
+	},
+	{
+		slug: "young-red-dragon",
+		name: "Young Red Dragon",
+		size: "Large",
+		creatureType: "dragon",
+		alignment: "chaotic evil",
+		armorClass: 18,
+		armorDescription: "natural armor",
+		hitPoints: 178,
+		hitDice: "17d10+85",
+		speed: { walk: 40, climb: 40, fly: 80 },
+		abilityScores: scores(23, 10, 21, 14, 11, 19),
+		savingThrows: { dexterity: 4, constitution: 9, wisdom: 4, charisma: 8 },
+		skills: { perception: 8, stealth: 4 },
+		damageImmunities: ["fire"],
+		senses: { blindsight: 30, darkvision: 120, passivePerception: 18 },
+		languages: "Common, Draconic",
+		challengeRating: 10,
+		xp: 5900,
+		actions: [
+			{
+				name: "Multiattack",
+				description: "The dragon makes three attacks: one with its bite and two with its claws.",
+			},
+			melee(
+				"Bite",
+				10,
+				[
+					["2d10+6", "piercing"],
+					["1d6", "fire"],
+				],
+				{ reach: 10 },
+			),
+			melee("Claw", 10, [["2d6+6", "slashing"]]),
+			{
+				name: "Fire Breath",
+				recharge: "5-6",
+				description:
+					"The dragon exhales fire in a 30-foot cone. Each creature in that area must make a DC 17 Dexterity saving throw, taking 56 (16d6) fire damage on a failed save, or half as much damage on a successful one.",
+			},
+		],
+	},
+	{
+		slug: "zombie",
+		name: "Zombie",
+		size: "Medium",
+		creatureType: "undead",
+		alignment: "neutral evil",
+		armorClass: 8,
+		hitPoints: 22,
+		hitDice: "3d8+9",
+		speed: { walk: 20 },
+		abilityScores: scores(13, 6, 16, 3, 6, 5),
+		savingThrows: { wisdom: 0 },
+		damageImmunities: ["poison"],
+		conditionImmunities: ["poisoned"],
+		senses: { darkvision: 60, passivePerception: 8 },
+		languages: UNDEAD_UNDERSTANDING,
+		challengeRating: 0.25,
+		xp: 50,
+		traits: [
+			{
+				name: "Undead Fortitude",
+				description:
+					"If damage reduces the zombie to 0 hit points, it must make a Constitution saving throw with a DC of 5 + the damage taken, unless the damage is radiant or from a critical hit. On a success, the zombie drops to 1 hit point instead.",
+			},
+		],
+		actions: [melee("Slam", 3, [["1d6+1", "bludgeoning"]])],
+	},
+];
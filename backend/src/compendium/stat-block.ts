@@ -0,0 +1,145 @@
+import { evaluateDiceExpression } from "../agent/dice.js";
+import { defaultRandomSource, type RandomSource } from "../agent/rng.js";
+import type {
+	AbilityName,
+	Condition,
+	CreatureSpellcasting,
+	Monster,
+	SpellSlots,
+} from "../schemas/index.js";
+import { findSpell } from "./spells.js";
+
+export interface StatBlockOptions {
+	/** Display name for this combatant, e.g. "Goblin Archer #2"; defaults to the monster name */
+	name?: string;
+	/** Roll the hit dice instead of taking the listed average */
+	rollHitPoints?: boolean;
+	/** Fought in its lair, so it gets the monster's lair actions */
+	inLair?: boolean;
+	rng?: RandomSource;
+}
+
+/**
+ * Turn an attack action into the combat-ready shape resolve-attack consumes.
+ * Multi-type damage ("2d10+8 piercing plus 2d6 fire") keeps a type on each part's dice,
+ * "2d10+8 piercing + 2d6 fire", so resistances and immunities apply part by part.
+ */
+function toAttack(action: Monster["actions"][number]) {
+	if (!action.attack) return null;
+	const { toHitBonus, damage, reach, range } = action.attack;
+	const typed = new Set(damage.map((d) => d.type)).size > 1;
+	return {
+		name: action.name,
+		toHitBonus,
+		damageDice: typed
+			? damage.map((d) => `${d.dice} ${d.type}`).join(" + ")
+			: damage.map((d) => d.dice).join("+"),
+		damageType: damage[0].type,
+		...(reach !== undefined && { reach }),
+		...(range !== undefined && { range }),
+	};
+}
+
+/** Uses per day from the SRD "Legendary Resistance (3/Day)" trait */
+function legendaryResistance(monster: Monster) {
+	const trait = monster.traits.find((t) => t.name.startsWith("Legendary Resistance"));
+	if (!trait) return undefined;
+	const perDay = Number(trait.name.match(/\((\d+)\/Day\)/)?.[1] ?? 1);
+	return { perDay, remaining: perDay };
+}
+
+const SPELLCASTING_ABILITIES: AbilityName[] = ["intelligence", "wisdom", "charisma"];
+
+/**
+ * Read the SRD "Spellcasting" trait — caster level, save DC, attack bonus, slots and spell
+ * list — keeping the spells the catalog can resolve.
+ */
+export function monsterSpellcasting(monster: Monster): CreatureSpellcasting | undefined {
+	const text = monster.traits.find((trait) => trait.name === "Spellcasting")?.description;
+	const level = text?.match(/(\d+)(?:st|nd|rd|th)-level spellcaster/);
+	const saveDC = text?.match(/spell save DC (\d+)/);
+	const attackBonus = text?.match(/\+(\d+) to hit with spell attacks/);
+	if (!text || !level || !saveDC || !attackBonus) return undefined;
+
+	const proficiencyBonus = Math.max(2, Math.floor((monster.challengeRating - 1) / 4) + 2);
+	const modifier = Number(saveDC[1]) - 8 - proficiencyBonus;
+	const ability =
+		SPELLCASTING_ABILITIES.find(
+			(name) => Math.floor((monster.abilityScores[name] - 10) / 2) === modifier,
+		) ??
+		SPELLCASTING_ABILITIES.reduce((best, name) =>
+			monster.abilityScores[name] > monster.abilityScores[best] ? name : best,
+		);
+
+	const spells: string[] = [];
+	const slots: SpellSlots[] = [];
+	const known = (list: string) =>
+		list.split(",").flatMap((name) => findSpell(name.replace(/\*/g, ""))?.slug ?? []);
+	const cantrips = text.match(/Cantrips(?: \(at will\))?: ([^.]+)\./);
+	if (cantrips) spells.push(...known(cantrips[1]));
+	for (const [, spellLevel, count, list] of text.matchAll(
+		/(\d)(?:st|nd|rd|th) level \((\d+) slots?\): ([^.]+)\./g,
+	)) {
+		slots.push({ level: Number(spellLevel), max: Number(count), remaining: Number(count) });
+		spells.push(...known(list));
+	}
+
+	return {
+		ability,
+		saveDC: Number(saveDC[1]),
+		attackBonus: Number(attackBonus[1]),
+		casterLevel: Number(level[1]),
+		spells,
+		slots,
+	};
+}
+
+/** Build a combatant (creatureSchema shape) from a compendium monster. */
+export function monsterToStatBlock(monster: Monster, options: StatBlockOptions = {}) {
+	const rng = options.rng ?? defaultRandomSource;
+	const hitPoints = options.rollHitPoints
+		? Math.max(1, evaluateDiceExpression(monster.hitDice, { rng }).total)
+		: monster.hitPoints;
+
+	return {
+		id: `creature-${Date.now()}-${rng().toString(36).slice(2, 8)}`,
+		name: options.name ?? monster.name,
+		type: "monster" as const,
+		armorClass: monster.armorClass,
+		hitPoints,
+		maxHitPoints: hitPoints,
+		size: monster.size,
+		challengeRating: monster.challengeRating,
+		hitDice: monster.hitDice,
+		speed: monster.speed,
+		abilityScores: monster.abilityScores,
+		savingThrows: monster.savingThrows,
+		skills: monster.skills,
+		damageVulnerabilities: monster.damageVulnerabilities,
+		damageResistances: monster.damageResistances,
+		damageImmunities: monster.damageImmunities,
+		conditionImmunities: monster.conditionImmunities,
+		senses: monster.senses,
+		traits: monster.traits,
+		multiattack: monster.actions.find((a) => a.name === "Multiattack")?.description,
+		attacks: monster.actions.map(toAttack).filter((a) => a !== null),
+		conditions: [] as Condition[],
+		spellcasting: monsterSpellcasting(monster),
+		...(monster.reactions.length > 0 && { reactions: monster.reactions }),
+		// SRD legendary creatures all take three legendary actions a round
+		...(monster.legendaryActions.length > 0 && {
+			legendaryActions: { perRound: 3, remaining: 3, actions: monster.legendaryActions },
+		}),
+		legendaryResistance: legendaryResistance(monster),
+		...(options.inLair &&
+			monster.lairActions.length > 0 && {
+				lairActions: { actions: monster.lairActions, available: false },
+			}),
+		...(monster.actions.some((a) => a.recharge) && {
+			recharges: monster.actions.flatMap((a) =>
+				a.recharge ? [{ name: a.name, recharge: a.recharge, available: true }] : [],
+			),
+		}),
+		isAlive: true,
+	};
+}
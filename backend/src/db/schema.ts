@@ -1,4 +1,4 @@
-import { integer, sqliteTable, text } from "drizzle-orm/sqlite-core";
+import { index, integer, real, sqliteTable, text, uniqueIndex } from "drizzle-orm/sqlite-core";
 
 // ── Better Auth tables ──
 export const users = sqliteTable("users", {
@@ -68,6 +68,12 @@ export const arenas = sqliteTable("arenas", {
 	combatants: text("combatants").notNull().default("[]"),
 	/** JSON-serialized combat log */
 	log: text("log").notNull().default("[]"),
+	/** JSON-serialized battlefield grid; null until one is set */
+	battlefield: text("battlefield"),
+	/** Seed for the arena's PRNG — re-running with the same seed replays identical mechanics */
+	seed: text("seed"),
+	/** SHA-256 of the seed, published before the run; set only for verifiable arenas */
+	seedCommitment: text("seed_commitment"),
 	createdBy: text("created_by")
 		.notNull()
 		.references(() => users.id),
@@ -85,3 +91,68 @@ export const chatMessages = sqliteTable("chat_messages", {
 	content: text("content").notNull(),
 	createdAt: integer("created_at", { mode: "timestamp" }).notNull(),
 });
+
+/** Append-only ledger of every tool invocation during an arena run, for auditing rolls. */
+export const rollEvents = sqliteTable(
+	"roll_events",
+	{
+		id: text("id").primaryKey(),
+		arenaId: text("arena_id")
+			.notNull()
+			.references(() => arenas.id),
+		/** Which run of the arena logged it, starting at 0; a retried run keeps earlier runs' entries */
+		run: integer("run").notNull().default(0),
+		/** Order of the invocation within the run, starting at 0 */
+		sequence: integer("sequence").notNull(),
+		round: integer("round").notNull().default(0),
+		toolName: text("tool_name").notNull(),
+		toolCallId: text("tool_call_id"),
+		/** JSON-serialized tool input */
+		input: text("input").notNull(),
+		/** JSON-serialized tool output (or error message when isError) */
+		output: text("output").notNull(),
+		isError: integer("is_error", { mode: "boolean" }).notNull().default(false),
+		createdAt: integer("created_at", { mode: "timestamp" }).notNull(),
+	},
+	(table) => [
+		uniqueIndex("roll_events_arena_run_sequence_unique").on(
+			table.arenaId,
+			table.run,
+			table.sequence,
+		),
+	],
+);
+
+/** A user's library of reusable combatants (recurring villains, PCs) */
+export const creatures = sqliteTable(
+	"creatures",
+	{
+		id: text("id").primaryKey(),
+		name: text("name").notNull(),
+		type: text("type", { enum: ["player", "monster", "npc"] }).notNull(),
+		challengeRating: real("challenge_rating"),
+		/** JSON-serialized stat block (see creatureSchema) */
+		data: text("data").notNull(),
+		createdBy: text("created_by")
+			.notNull()
+			.references(() => users.id),
+		createdAt: integer("created_at", { mode: "timestamp" }).notNull(),
+		updatedAt: integer("updated_at", { mode: "timestamp" }).notNull(),
+	},
+	(table) => [index("creatures_created_by_idx").on(table.createdBy)],
+);
+
+// ── Compendium tables ──
+
+/** Reference monsters (SRD 5.1), seeded from `compendium/srd-monsters.ts` by `pnpm db:seed`. */
+export const monsters = sqliteTable("monsters", {
+	slug: text("slug").primaryKey(),
+	name: text("name").notNull(),
+	size: text("size").notNull(),
+	creatureType: text("creature_type").notNull(),
+	challengeRating: real("challenge_rating").notNull(),
+	xp: integer("xp").notNull(),
+	/** JSON-serialized full stat block (see monsterSchema) */
+	data: text("data").notNull(),
+	source: text("source").notNull().default("SRD 5.1"),
+});
@@ -0,0 +1,7 @@
+import "dotenv/config";
+import { seedMonsters } from "../compendium/monsters.js";
+
+// Loads the bundled SRD compendium into the database. Safe to re-run: entries are upserted.
+// Lookups seed it on first use too; running this just does it ahead of time.
+const count = await seedMonsters();
+console.log(`Seeded ${count} SRD monsters`);
@@ -0,0 +1,128 @@
+import { and, asc, desc, eq, like, sql } from "drizzle-orm";
+import { nanoid } from "nanoid";
+import { db, schema } from "../db/index.js";
+import {
+	type Creature,
+	type CreatureListQuery,
+	creatureSchema,
+	type SavedCreatureRequest,
+} from "../schemas/index.js";
+
+type CreatureRow = typeof schema.creatures.$inferSelect;
+
+/** Strip LIKE wildcards from user input so it matches literally. */
+function likePattern(text: string) {
+	return `%${text.trim().replace(/[%_]/g, "")}%`;
+}
+
+/** Shape a library row for the API: the stored stat block, keyed by the row id. */
+export function serializeCreature(row: CreatureRow) {
+	return {
+		id: row.id,
+		name: row.name,
+		type: row.type,
+		challengeRating: row.challengeRating,
+		createdBy: row.createdBy,
+		createdAt: row.createdAt,
+		updatedAt: row.updatedAt,
+		creature: creatureSchema.parse({ ...JSON.parse(row.data), id: row.id }),
+	};
+}
+
+export type SavedCreature = ReturnType<typeof serializeCreature>;
+
+function columnsFor(creature: SavedCreatureRequest) {
+	return {
+		name: creature.name,
+		type: creature.type,
+		challengeRating: creature.challengeRating ?? null,
+		data: JSON.stringify(creature),
+	};
+}
+
+/** A user's saved creatures, newest first; `ownerId` null lists every user's (admin). */
+export async function listCreatures(ownerId: string | null, query: CreatureListQuery = {}) {
+	const { creatures } = schema;
+	const rows = await db
+		.select()
+		.from(creatures)
+		.where(
+			and(
+				ownerId ? eq(creatures.createdBy, ownerId) : undefined,
+				query.q ? like(creatures.name, likePattern(query.q)) : undefined,
+			),
+		)
+		.orderBy(desc(creatures.updatedAt))
+		.limit(200);
+	return rows.map(serializeCreature);
+}
+
+export async function getCreatureRow(id: string) {
+	return db.select().from(schema.creatures).where(eq(schema.creatures.id, id)).get();
+}
+
+export async function createCreature(ownerId: string, creature: SavedCreatureRequest) {
+	const now = new Date();
+	const row = {
+		id: nanoid(),
+		...columnsFor(creature),
+		createdBy: ownerId,
+		createdAt: now,
+		updatedAt: now,
+	};
+	await db.insert(schema.creatures).values(row);
+	return serializeCreature(row);
+}
+
+export async function updateCreature(row: CreatureRow, creature: SavedCreatureRequest) {
+	const updated = { ...row, ...columnsFor(creature), updatedAt: new Date() };
+	await db.update(schema.creatures).set(updated).where(eq(schema.creatures.id, row.id));
+	return serializeCreature(updated);
+}
+
+export async function deleteCreature(id: string) {
+	await db.delete(schema.creatures).where(eq(schema.creatures.id, id));
+}
+
+/** Copy a saved creature into `ownerId`'s library, named "<name> (copy)" unless renamed. */
+export async function duplicateCreature(row: CreatureRow, ownerId: string, name?: string) {
+	const { id: _id, ...creature } = serializeCreature(row).creature;
+	return createCreature(ownerId, { ...creature, name: name ?? `${row.name} (copy)` });
+}
+
+/**
+ * Resolve a name against one user's library: case-insensitive exact match first (most
+ * recently updated wins), then the shortest name containing the query. When nothing
+ * matches, returns up to five of the user's creature names so the caller can retry.
+ */
+export async function findSavedCreature(
+	ownerId: string,
+	name: string,
+): Promise<{ creature: Creature | null; suggestions: string[] }> {
+	const { creatures } = schema;
+	const owned = eq(creatures.createdBy, ownerId);
+
+	const exact = await db
+		.select()
+		.from(creatures)
+		.where(and(owned, sql`lower(${creatures.name}) = ${name.trim().toLowerCase()}`))
+		.orderBy(desc(creatures.updatedAt))
+		.get();
+	if (exact) return { creature: serializeCreature(exact).creature, suggestions: [] };
+
+	const partial = await db
+		.select()
+		.from(creatures)
+		.where(and(owned, like(creatures.name, likePattern(name))))
+		.orderBy(sql`length(${creatures.name})`, desc(creatures.updatedAt))
+		.get();
+	if (partial) return { creature: serializeCreature(partial).creature, suggestions: [] };
+
+	const others = await db
+		.select({ name: creatures.name })
+		.from(creatures)
+		.where(owned)
+		.orderBy(asc(creatures.name))
+		.limit(5);
+	return { creature: null, suggestions: others.map((c) => c.name) };
+}
@@ -3,11 +3,59 @@ import { desc, eq } from "drizzle-orm";
 import { Hono } from "hono";
 import { streamSSE } from "hono/streaming";
 import { nanoid } from "nanoid";
+import {
+	type CombatSummary,
+	combatStateFromRow,
+	createCombatTracker,
+	type HitPointChange,
+	saveCombatState,
+	summarizeCombat,
+} from "../agent/combat.js";
+import { createArenaContext } from "../agent/context.js";
 import { arenaMasterAgent } from "../agent/index.js";
+import {
+	createRollLedger,
+	getRollEvents,
+	latestLedgerRun,
+	nextLedgerRun,
+} from "../agent/ledger.js";
+import { commitToSeed, createSeededRandom, generateSeed } from "../agent/rng.js";
+import type { ConcentrationCheck } from "../agent/spells.js";
+import { verifyRolls } from "../agent/verify.js";
 import { db, schema } from "../db/index.js";
 import { requireAuth, requireRole } from "../middleware.js";
 import { createArenaRequestSchema } from "../schemas/index.js";
 
+type ArenaRow = typeof schema.arenas.$inferSelect;
+
+/**
+ * Shape an arena row for the API. A verifiable arena's seed stays hidden until
+ * combat completes — only its commitment is public before then.
+ */
+function serializeArena(arena: ArenaRow) {
+	const sealed = arena.seedCommitment !== null && arena.status !== "completed";
+	return {
+		...arena,
+		seed: sealed ? null : arena.seed,
+		combatants: JSON.parse(arena.combatants),
+		log: JSON.parse(arena.log),
+	};
+}
+
+/**
+ * The concentration checks a tool result made, without their full save results: move-combatant
+ * keeps each one with the opportunity attack that called for it.
+ */
+function concentrationChecks(toolName: string, result: unknown) {
+	const checks =
+		toolName === "moveCombatant"
+			? (
+					result as { opportunityAttacks: Array<{ concentration: ConcentrationCheck | null }> }
+				).opportunityAttacks.flatMap((attack) => attack.concentration ?? [])
+			: ((result as { concentrationChecks?: ConcentrationCheck[] }).concentrationChecks ?? []);
+	return checks.map(({ save, ...check }) => ({ ...check, dc: save?.dc ?? null }));
+}
+
 const arenaRoutes = new Hono()
 	// ── List arenas (any authenticated user) ──
 	.get("/", requireAuth, async (c) => {
@@ -26,11 +74,7 @@ const arenaRoutes = new Hono()
 
 		return c.json({
 			success: true,
-			data: arenas.map((a) => ({
-				...a,
-				combatants: JSON.parse(a.combatants),
-				log: JSON.parse(a.log),
-			})),
+			data: arenas.map(serializeArena),
 		});
 	})
 
@@ -54,11 +98,7 @@ const arenaRoutes = new Hono()
 
 		return c.json({
 			success: true,
-			data: {
-				...arena,
-				combatants: JSON.parse(arena.combatants),
-				log: JSON.parse(arena.log),
-			},
+			data: serializeArena(arena),
 		});
 	})
 
@@ -70,9 +110,11 @@ const arenaRoutes = new Hono()
 		zValidator("json", createArenaRequestSchema),
 		async (c) => {
 			const user = c.get("user");
-			const { message } = c.req.valid("json");
+			const { message, seed: requestedSeed, verifiable } = c.req.valid("json");
 			const arenaId = nanoid();
 			const now = new Date();
+			const seed = requestedSeed ?? generateSeed();
+			const seedCommitment = verifiable ? commitToSeed(seed) : null;
 
 			await db.insert(schema.arenas).values({
 				id: arenaId,
@@ -81,6 +123,8 @@ const arenaRoutes = new Hono()
 				status: "setup",
 				combatants: "[]",
 				log: "[]",
+				seed,
+				seedCommitment,
 				createdBy: user.id,
 				createdAt: now,
 				updatedAt: now,
@@ -88,7 +132,7 @@ const arenaRoutes = new Hono()
 
 			return c.json({
 				success: true,
-				data: { arenaId },
+				data: { arenaId, seedCommitment },
 			});
 		},
 	)
@@ -120,18 +164,25 @@ const arenaRoutes = new Hono()
 		}
 
 		const scenario = arena.description || arena.name;
+		// Arenas created before seeding existed get one on their first run
+		const seed = arena.seed ?? generateSeed();
 
 		const prompt = `Run a complete D&D 5e combat encounter for this scenario: "${scenario}"
 
 Do the following in order:
-1. Generate stat blocks for all combatants using the generate-stat-block tool
-2. Roll initiative for each combatant using the roll-dice tool
-3. Announce the initiative order
+1. Create stat blocks for all combatants — load-creature for anyone from the user's saved library, lookup-monster for SRD creatures, build-character for player characters, generate-stat-block for anything else
+2. Roll initiative for all combatants with one roll-initiative call, giving each combatant's side
+3. Announce the initiative order and lay out the battlefield with set-battlefield
 4. Run combat round by round until one side is eliminated:
-   - For each combatant's turn, choose a tactically appropriate action
-   - Use the resolve-attack tool for all attacks
-   - Track HP changes after each action
-   - Provide a brief status summary after each round
+   - For each combatant's turn, choose a tactically appropriate action; use move-combatant to move, and name the attack used in resolve-attack
+   - Use the resolve-attack tool for all attacks, cast-spell for spells, area-effect for breath weapons and other areas, resolve-saving-throw for other saves and ability-check for checks
+   - Use apply-damage and apply-healing for every HP change
+   - Use apply-condition and remove-condition to track conditions, and roll the saves next-turn lists in savesDue
+   - A player character at 0 HP rolls death-save on their turn instead of acting
+   - Spend recharge abilities, legendary actions and lair actions with use-recharge-ability, use-legendary-action and use-lair-action, and roll-recharge when next-turn lists rechargesDue
+   - Let resolve-attack and cast-spell take Shield, Parry, Uncanny Dodge and Counterspell reactions; don't cast Shield or Counterspell yourself
+   - Call next-turn at the end of every turn
+   - Provide a brief status summary after each round, using get-combat-state
 5. Declare the winner and give a final battle summary
 
 Run the ENTIRE combat to completion. Do not stop and ask for input. Be dramatic but keep the pace moving.`;
@@ -142,19 +193,36 @@ Run the ENTIRE combat to completion. Do not stop and ask for input. Be dramatic
 			// Mark arena as active
 			await db
 				.update(schema.arenas)
-				.set({ status: "active", updatedAt: new Date() })
+				.set({ status: "active", seed, updatedAt: new Date() })
 				.where(eq(schema.arenas.id, arenaId));
 
 			await stream.writeSSE({
-				data: JSON.stringify({ type: "status", status: "active" }),
+				data: JSON.stringify({
+					type: "status",
+					status: "active",
+					seedCommitment: arena.seedCommitment,
+				}),
 				event: "status",
 				id: String(eventId++),
 			});
 
 			try {
+				// A failed earlier attempt keeps its entries as history; this run logs under the next number
+				const ledger = createRollLedger(arenaId, await nextLedgerRun(arenaId));
+				// Likewise the combat state: the roster is rebuilt as this run creates stat blocks
+				const combat = createCombatTracker((state) => saveCombatState(arenaId, state));
+				await saveCombatState(arenaId, combat.state);
+
 				// Default maxSteps is 5 — far too few for a full combat.
 				// A typical fight needs ~3 stat blocks + 3 initiative rolls + 3-5 attacks/round × 5-10 rounds = 30-60 tool calls.
-				const result = await arenaMasterAgent.stream(prompt, { maxSteps: 100 });
+				// Every run starts the PRNG fresh from the arena seed, so a retry replays the same dice.
+				const requestContext = createArenaContext({
+					rng: createSeededRandom(seed),
+					verifiableSeed: arena.seedCommitment ? seed : undefined,
+					libraryOwnerId: arena.createdBy,
+					combat,
+				});
+				const result = await arenaMasterAgent.stream(prompt, { maxSteps: 100, requestContext });
 				let fullText = "";
 
 				const reader = result.fullStream.getReader();
@@ -172,12 +240,65 @@ Run the ENTIRE combat to completion. Do not stop and ask for input. Be dramatic
 							id: String(eventId++),
 						});
 					} else if (value.type === "tool-result") {
-						const { toolName, result: toolResult } = value.payload;
+						const { toolName, toolCallId, args, result: toolResult, isError } = value.payload;
+						await ledger.record({ toolName, toolCallId, input: args, output: toolResult, isError });
 						await stream.writeSSE({
 							data: JSON.stringify({ type: "tool-result", toolName, result: toolResult }),
 							event: "tool-result",
 							id: String(eventId++),
 						});
+						// The turn order also goes out on its own for the page's initiative strip
+						if (!isError && (toolName === "rollInitiative" || toolName === "startCombat")) {
+							const { round, turnIndex, combatants } = toolResult as CombatSummary;
+							await stream.writeSSE({
+								data: JSON.stringify({ type: "initiative", round, turnIndex, combatants }),
+								event: "initiative",
+								id: String(eventId++),
+							});
+						}
+						// HP changes also go out on their own so the page can animate them
+						if (!isError && (toolName === "applyDamage" || toolName === "applyHealing")) {
+							const { creature: _creature, ...change } = toolResult as { creature: unknown };
+							await stream.writeSSE({
+								data: JSON.stringify({ type: "hp-change", ...change }),
+								event: "hp-change",
+								id: String(eventId++),
+							});
+						}
+						if (
+							!isError &&
+							(toolName === "resolveSavingThrow" ||
+								toolName === "areaEffect" ||
+								toolName === "castSpell" ||
+								toolName === "moveCombatant")
+						) {
+							for (const change of (toolResult as { hpChanges: HitPointChange[] }).hpChanges) {
+								await stream.writeSSE({
+									data: JSON.stringify({ type: "hp-change", ...change }),
+									event: "hp-change",
+									id: String(eventId++),
+								});
+							}
+						}
+						// So do concentration checks, which can end a spell's conditions
+						if (!isError) {
+							for (const check of concentrationChecks(toolName, toolResult)) {
+								await stream.writeSSE({
+									data: JSON.stringify({ type: "concentration", ...check }),
+									event: "concentration",
+									id: String(eventId++),
+								});
+							}
+						}
+					} else if (value.type === "tool-error") {
+						const { toolName, toolCallId, args, error } = value.payload;
+						await ledger.record({
+							toolName,
+							toolCallId,
+							input: args,
+							output: error instanceof Error ? error.message : String(error),
+							isError: true,
+						});
 					}
 				}
 
@@ -197,8 +318,13 @@ Run the ENTIRE combat to completion. Do not stop and ask for input. Be dramatic
 					.set({ status: "completed", updatedAt: new Date() })
 					.where(eq(schema.arenas.id, arenaId));
 
+				// Completion reveals a verifiable arena's seed so anyone can check the rolls
 				await stream.writeSSE({
-					data: JSON.stringify({ type: "status", status: "completed" }),
+					data: JSON.stringify({
+						type: "status",
+						status: "completed",
+						seed: arena.seedCommitment ? seed : undefined,
+					}),
 					event: "status",
 					id: String(eventId++),
 				});
@@ -246,9 +372,84 @@ Run the ENTIRE combat to completion. Do not stop and ask for input. Be dramatic
 		return c.json({ success: true, data: messages });
 	})
 
+	// ── Get the dice-roll ledger for an arena ──
+	.get("/:id/rolls", requireAuth, async (c) => {
+		const user = c.get("user");
+		const arenaId = c.req.param("id");
+
+		const arena = await db.select().from(schema.arenas).where(eq(schema.arenas.id, arenaId)).get();
+
+		if (!arena) {
+			return c.json({ success: false, error: "Arena not found" }, 404);
+		}
+
+		const userRole = (user as { role?: string }).role;
+		if (userRole === "player" && arena.createdBy !== user.id) {
+			return c.json({ success: false, error: "Forbidden" }, 403);
+		}
+
+		const rolls = await getRollEvents(arenaId);
+		return c.json({ success: true, data: rolls });
+	})
+
+	// ── Get the tracked combat state (round, turn order, HP) for an arena ──
+	.get("/:id/combat", requireAuth, async (c) => {
+		const user = c.get("user");
+		const arenaId = c.req.param("id");
+
+		const arena = await db.select().from(schema.arenas).where(eq(schema.arenas.id, arenaId)).get();
+
+		if (!arena) {
+			return c.json({ success: false, error: "Arena not found" }, 404);
+		}
+
+		const userRole = (user as { role?: string }).role;
+		if (userRole === "player" && arena.createdBy !== user.id) {
+			return c.json({ success: false, error: "Forbidden" }, 403);
+		}
+
+		const state = combatStateFromRow(arena);
+		return c.json({ success: true, data: { ...summarizeCombat(state), log: state.log } });
+	})
+
+	// ── Verify a completed verifiable arena against its committed seed ──
+	.get("/:id/verify", requireAuth, async (c) => {
+		const user = c.get("user");
+		const arenaId = c.req.param("id");
+
+		const arena = await db.select().from(schema.arenas).where(eq(schema.arenas.id, arenaId)).get();
+
+		if (!arena) {
+			return c.json({ success: false, error: "Arena not found" }, 404);
+		}
+
+		const userRole = (user as { role?: string }).role;
+		if (userRole === "player" && arena.createdBy !== user.id) {
+			return c.json({ success: false, error: "Forbidden" }, 403);
+		}
+
+		if (!arena.seedCommitment || !arena.seed) {
+			return c.json({ success: false, error: "Arena was not created in verifiable mode" }, 400);
+		}
+
+		if (arena.status !== "completed") {
+			return c.json({ success: false, error: "Seed is revealed once combat completes" }, 400);
+		}
+
+		// The run that completed the arena is the last one; earlier, failed runs are history
+		const run = await latestLedgerRun(arenaId);
+		const report = await verifyRolls(
+			arena.seed,
+			arena.seedCommitment,
+			run === null ? [] : await getRollEvents(arenaId, run),
+		);
+		return c.json({ success: true, data: report });
+	})
+
 	// ── Delete arena (admin only) ──
 	.delete("/:id", requireAuth, requireRole("admin"), async (c) => {
 		const arenaId = c.req.param("id");
+		await db.delete(schema.rollEvents).where(eq(schema.rollEvents.arenaId, arenaId));
 		await db.delete(schema.chatMessages).where(eq(schema.chatMessages.arenaId, arenaId));
 		await db.delete(schema.arenas).where(eq(schema.arenas.id, arenaId));
 		return c.json({ success: true });
@@ -0,0 +1,28 @@
+import { zValidator } from "@hono/zod-validator";
+import { Hono } from "hono";
+import { buildCharacter } from "../agent/characters.js";
+import { createSeededRandom, defaultRandomSource } from "../agent/rng.js";
+import { requireAuth, requireRole } from "../middleware.js";
+import { buildCharacterRequestSchema } from "../schemas/index.js";
+
+const characterRoutes = new Hono()
+	// ── Build a player character from class, race and level (player+) ──
+	.post(
+		"/",
+		requireAuth,
+		requireRole("player"),
+		zValidator("json", buildCharacterRequestSchema),
+		async (c) => {
+			const request = c.req.valid("json");
+			const rng = request.seed ? createSeededRandom(request.seed) : defaultRandomSource;
+
+			try {
+				return c.json({ success: true, data: buildCharacter(request, rng) });
+			} catch (err) {
+				const error = err instanceof Error ? err.message : "Invalid character";
+				return c.json({ success: false, error }, 400);
+			}
+		},
+	);
+
+export { characterRoutes };
@@ -0,0 +1,25 @@
+import { zValidator } from "@hono/zod-validator";
+import { Hono } from "hono";
+import { getMonster, searchMonsters } from "../compendium/monsters.js";
+import { requireAuth } from "../middleware.js";
+import { monsterSearchQuerySchema } from "../schemas/index.js";
+
+const compendiumRoutes = new Hono()
+	// ── Search SRD monsters by name, type, size and CR range (any authenticated user) ──
+	.get("/monsters", requireAuth, zValidator("query", monsterSearchQuerySchema), async (c) => {
+		const monsters = await searchMonsters(c.req.valid("query"));
+		return c.json({ success: true, data: monsters });
+	})
+
+	// ── Full stat block for one monster ──
+	.get("/monsters/:slug", requireAuth, async (c) => {
+		const monster = await getMonster(c.req.param("slug"));
+
+		if (!monster) {
+			return c.json({ success: false, error: "Monster not found" }, 404);
+		}
+
+		return c.json({ success: true, data: monster });
+	});
+
+export { compendiumRoutes };
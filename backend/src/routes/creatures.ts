@@ -0,0 +1,124 @@
+import { zValidator } from "@hono/zod-validator";
+import { Hono } from "hono";
+import {
+	createCreature,
+	deleteCreature,
+	duplicateCreature,
+	getCreatureRow,
+	listCreatures,
+	serializeCreature,
+	updateCreature,
+} from "../library/creatures.js";
+import { requireAuth, requireRole } from "../middleware.js";
+import {
+	creatureListQuerySchema,
+	duplicateCreatureRequestSchema,
+	savedCreatureRequestSchema,
+} from "../schemas/index.js";
+
+/** Only the creature's owner and admins may read or change a saved creature. */
+function canAccess(user: { id: string }, createdBy: string) {
+	return (user as { role?: string }).role === "admin" || createdBy === user.id;
+}
+
+const creatureRoutes = new Hono()
+	// ── List saved creatures (own; admins see everyone's) ──
+	.get("/", requireAuth, zValidator("query", creatureListQuerySchema), async (c) => {
+		const user = c.get("user");
+		const userRole = (user as { role?: string }).role;
+		const creatures = await listCreatures(
+			userRole === "admin" ? null : user.id,
+			c.req.valid("query"),
+		);
+		return c.json({ success: true, data: creatures });
+	})
+
+	// ── Get one saved creature ──
+	.get("/:id", requireAuth, async (c) => {
+		const row = await getCreatureRow(c.req.param("id"));
+
+		if (!row) {
+			return c.json({ success: false, error: "Creature not found" }, 404);
+		}
+
+		if (!canAccess(c.get("user"), row.createdBy)) {
+			return c.json({ success: false, error: "Forbidden" }, 403);
+		}
+
+		return c.json({ success: true, data: serializeCreature(row) });
+	})
+
+	// ── Save a creature (player+) ──
+	.post(
+		"/",
+		requireAuth,
+		requireRole("player"),
+		zValidator("json", savedCreatureRequestSchema),
+		async (c) => {
+			const creature = await createCreature(c.get("user").id, c.req.valid("json"));
+			return c.json({ success: true, data: creature }, 201);
+		},
+	)
+
+	// ── Replace a saved creature's stat block (owner or admin) ──
+	.put(
+		"/:id",
+		requireAuth,
+		requireRole("player"),
+		zValidator("json", savedCreatureRequestSchema),
+		async (c) => {
+			const row = await getCreatureRow(c.req.param("id"));
+
+			if (!row) {
+				return c.json({ success: false, error: "Creature not found" }, 404);
+			}
+
+			if (!canAccess(c.get("user"), row.createdBy)) {
+				return c.json({ success: false, error: "Forbidden" }, 403);
+			}
+
+			const creature = await updateCreature(row, c.req.valid("json"));
+			return c.json({ success: true, data: creature });
+		},
+	)
+
+	// ── Copy a saved creature into the caller's library (player+) ──
+	.post(
+		"/:id/duplicate",
+		requireAuth,
+		requireRole("player"),
+		zValidator("json", duplicateCreatureRequestSchema),
+		async (c) => {
+			const user = c.get("user");
+			const row = await getCreatureRow(c.req.param("id"));
+
+			if (!row) {
+				return c.json({ success: false, error: "Creature not found" }, 404);
+			}
+
+			if (!canAccess(user, row.createdBy)) {
+				return c.json({ success: false, error: "Forbidden" }, 403);
+			}
+
+			const creature = await duplicateCreature(row, user.id, c.req.valid("json").name);
+			return c.json({ success: true, data: creature }, 201);
+		},
+	)
+
+	// ── Delete a saved creature (owner or admin) ──
+	.delete("/:id", requireAuth, requireRole("player"), async (c) => {
+		const row = await getCreatureRow(c.req.param("id"));
+
+		if (!row) {
+			return c.json({ success: false, error: "Creature not found" }, 404);
+		}
+
+		if (!canAccess(c.get("user"), row.createdBy)) {
+			return c.json({ success: false, error: "Forbidden" }, 403);
+		}
+
+		await deleteCreature(row.id);
+		return c.json({ success: true });
+	});
+
+export { creatureRoutes };
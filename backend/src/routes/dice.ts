@@ -0,0 +1,18 @@
+import { zValidator } from "@hono/zod-validator";
+import { Hono } from "hono";
+import { describeDiceOdds } from "../agent/probability.js";
+import { requireAuth } from "../middleware.js";
+import { diceStatsQuerySchema } from "../schemas/index.js";
+
+const diceRoutes = new Hono()
+	// ── Exact odds for a dice expression (any authenticated user) ──
+	.get("/stats", requireAuth, zValidator("query", diceStatsQuerySchema), async (c) => {
+		try {
+			return c.json({ success: true, data: describeDiceOdds(c.req.valid("query")) });
+		} catch (err) {
+			const error = err instanceof Error ? err.message : "Invalid dice notation";
+			return c.json({ success: false, error }, 400);
+		}
+	});
+
+export { diceRoutes };
@@ -0,0 +1,19 @@
+import { zValidator } from "@hono/zod-validator";
+import { Hono } from "hono";
+import { assessEncounterRequest } from "../agent/encounter.js";
+import { requireAuth } from "../middleware.js";
+import { assessEncounterRequestSchema } from "../schemas/index.js";
+
+const encounterRoutes = new Hono()
+	// ── Rate an encounter's difficulty from XP budgets (any authenticated user) ──
+	.post("/assess", requireAuth, zValidator("json", assessEncounterRequestSchema), async (c) => {
+		try {
+			const assessment = await assessEncounterRequest(c.req.valid("json"));
+			return c.json({ success: true, data: assessment });
+		} catch (err) {
+			const error = err instanceof Error ? err.message : "Couldn't assess this encounter";
+			return c.json({ success: false, error }, 400);
+		}
+	});
+
+export { encounterRoutes };
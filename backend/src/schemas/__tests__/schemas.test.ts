@@ -1,9 +1,13 @@
+import { zValidator } from "@hono/zod-validator";
+import { Hono } from "hono";
 import { describe, expect, it } from "vitest";
 import {
 	abilityScoresSchema,
 	chatRequestSchema,
 	createArenaRequestSchema,
+	creatureSchema,
 	roleSchema,
+	savedCreatureRequestSchema,
 } from "../index.js";
 
 describe("abilityScoresSchema", () => {
@@ -44,6 +48,53 @@ describe("abilityScoresSchema", () => {
 	});
 });
 
+describe("creatureSchema", () => {
+	const minimal = {
+		id: "creature-1",
+		name: "Bandit",
+		type: "npc",
+		armorClass: 12,
+		hitPoints: 11,
+		maxHitPoints: 11,
+		abilityScores: {
+			strength: 11,
+			dexterity: 12,
+			constitution: 12,
+			intelligence: 10,
+			wisdom: 10,
+			charisma: 10,
+		},
+		attacks: [],
+	};
+
+	it("defaults the 5e details for a minimal creature", () => {
+		const creature = creatureSchema.parse(minimal);
+		expect(creature).toMatchObject({
+			size: "Medium",
+			speed: { walk: 30 },
+			savingThrows: {},
+			damageResistances: [],
+			conditionImmunities: [],
+			senses: { passivePerception: 10 },
+			traits: [],
+			conditions: [],
+			isAlive: true,
+		});
+	});
+
+	it("rejects saves for abilities that don't exist", () => {
+		const result = creatureSchema.safeParse({ ...minimal, savingThrows: { luck: 3 } });
+		expect(result.success).toBe(false);
+	});
+
+	it("saves a creature without a client-chosen id", () => {
+		const saved = savedCreatureRequestSchema.parse(minimal);
+		expect(saved).not.toHaveProperty("id");
+		expect(saved.size).toBe("Medium");
+		expect(savedCreatureRequestSchema.safeParse({ ...minimal, hitPoints: 0 }).success).toBe(false);
+	});
+});
+
 describe("roleSchema", () => {
 	it.each(["admin", "player", "spectator"])("accepts '%s'", (role) => {
 		expect(roleSchema.safeParse(role).success).toBe(true);
@@ -73,6 +124,23 @@ describe("createArenaRequestSchema", () => {
 		});
 		expect(result.success).toBe(false);
 	});
+
+	it("rejects a chosen seed on a verifiable arena", async () => {
+		expect(createArenaRequestSchema.safeParse({ message: "duel", seed: "abc" }).success).toBe(true);
+		expect(createArenaRequestSchema.safeParse({ message: "duel", verifiable: true }).success).toBe(
+			true,
+		);
+
+		const app = new Hono().post("/", zValidator("json", createArenaRequestSchema), (c) =>
+			c.json({ ok: true }),
+		);
+		const res = await app.request("/", {
+			method: "POST",
+			headers: { "Content-Type": "application/json" },
+			body: JSON.stringify({ message: "duel", seed: "abc", verifiable: true }),
+		});
+		expect(res.status).toBe(400);
+	});
 });
 
 describe("chatRequestSchema", () => {
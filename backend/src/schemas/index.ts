@@ -10,34 +10,380 @@ export const abilityScoresSchema = z.object({
 	charisma: z.number().min(1).max(30),
 });
 
+// ── Shared creature traits ──
+export const abilityNameSchema = z.enum([
+	"strength",
+	"dexterity",
+	"constitution",
+	"intelligence",
+	"wisdom",
+	"charisma",
+]);
+
+export const creatureSizeSchema = z.enum([
+	"Tiny",
+	"Small",
+	"Medium",
+	"Large",
+	"Huge",
+	"Gargantuan",
+]);
+
+/** A named special trait, reaction or legendary action with its rules text */
+export const featureSchema = z.object({
+	name: z.string(),
+	description: z.string(),
+});
+
+/** Speeds in feet; walk is always present */
+export const speedSchema = z.object({
+	walk: z.number(),
+	burrow: z.number().optional(),
+	climb: z.number().optional(),
+	fly: z.number().optional(),
+	swim: z.number().optional(),
+});
+
+/** Special senses in feet, plus passive Wisdom (Perception) */
+export const sensesSchema = z.object({
+	blindsight: z.number().optional(),
+	darkvision: z.number().optional(),
+	tremorsense: z.number().optional(),
+	truesight: z.number().optional(),
+	passivePerception: z.number(),
+});
+
+/** Total bonus for each proficient saving throw; unlisted saves use the plain ability modifier */
+export const savingThrowsSchema = z.partialRecord(abilityNameSchema, z.number());
+
+/** Total bonus for each proficient skill, keyed by lower-case skill name ("perception") */
+export const skillsSchema = z.record(z.string(), z.number());
+
+// ── Conditions ──
+export const conditionNameSchema = z.enum([
+	"blinded",
+	"charmed",
+	"deafened",
+	"exhaustion",
+	"frightened",
+	"grappled",
+	"incapacitated",
+	"invisible",
+	"paralyzed",
+	"petrified",
+	"poisoned",
+	"prone",
+	"restrained",
+	"stunned",
+	"unconscious",
+]);
+
+/** How long a condition lasts; it is checked as turns pass in the combat engine */
+export const conditionDurationSchema = z.discriminatedUnion("type", [
+	/** Until something removes it — standing up from prone, escaping a grapple */
+	z.object({ type: z.literal("until-removed") }),
+	/** Counts down at the end of each of the affected creature's turns */
+	z.object({ type: z.literal("rounds"), rounds: z.number().int().min(1) }),
+	/** The creature repeats the save at the end of each of its turns, ending the condition on a success */
+	z.object({
+		type: z.literal("until-save"),
+		ability: abilityNameSchema,
+		dc: z.number().int().min(1),
+	}),
+	/** Ends when `creature`'s next turn ends (the affected creature's, unless given) */
+	z.object({
+		type: z.literal("end-of-next-turn"),
+		creature: z.string().optional(),
+		/** Set once that next turn has begun */
+		started: z.boolean().optional(),
+	}),
+]);
+
+export const conditionSchema = z.object({
+	name: conditionNameSchema,
+	/** Who or what imposed it, e.g. "Ghoul's Claws"; a charmed creature can't attack its charmer */
+	source: z.string().optional(),
+	duration: conditionDurationSchema.default({ type: "until-removed" }),
+	/** Exhaustion level, 1–6 */
+	level: z.number().int().min(1).max(6).optional(),
+});
+
+// ── Spellcasting ──
+/** Spell slots of one level; a warlock's pact slots are all of its pact level */
+export const spellSlotsSchema = z.object({
+	level: z.number().int().min(1).max(9),
+	max: z.number().int().min(0),
+	remaining: z.number().int().min(0),
+});
+
+export const creatureSpellcastingSchema = z.object({
+	ability: abilityNameSchema,
+	saveDC: z.number(),
+	attackBonus: z.number(),
+	/** Character level, or a monster's spellcaster level; cantrip damage scales with it */
+	casterLevel: z.number().int().min(1).max(20),
+	/** Slugs of the catalog spells the creature can cast, e.g. "fireball" */
+	spells: z.array(z.string()),
+	slots: z.array(spellSlotsSchema).default([]),
+});
+
+// ── Battlefield ──
+/** A 5-foot grid square, counted from 0 at the top-left corner of the battlefield */
+export const gridPositionSchema = z.object({
+	x: z.number().int().min(0),
+	y: z.number().int().min(0),
+});
+
+export const battlefieldSchema = z.object({
+	/** Size in 5-foot squares */
+	width: z.number().int().min(1).max(100),
+	height: z.number().int().min(1).max(100),
+	/** Squares that cost double movement to enter — rubble, undergrowth, shallow water */
+	difficultTerrain: z.array(gridPositionSchema).default([]),
+});
+
+/** Area of effect shapes; a cylinder covers the same squares as a sphere of its radius */
+export const areaShapeSchema = z.enum(["sphere", "cone", "line", "cube"]);
+
+/** A dying player character's death saving throws; three of either kind settles it */
+export const deathSavesSchema = z.object({
+	successes: z.number().int().min(0).max(3),
+	failures: z.number().int().min(0).max(3),
+	/** Three successes: still unconscious at 0 HP, but no longer rolling */
+	stable: z.boolean(),
+});
+
+// ── Legendary creatures ──
+/** A legendary action option and how many of the creature's legendary actions it spends */
+export const legendaryActionSchema = featureSchema.extend({
+	cost: z.number().int().min(1).default(1),
+});
+
+/** Legendary actions: taken at the end of other creatures' turns, regained at the start of its own */
+export const legendaryActionsSchema = z.object({
+	perRound: z.number().int().min(1).default(3),
+	remaining: z.number().int().min(0),
+	actions: z.array(legendaryActionSchema).min(1),
+});
+
+/** Legendary Resistance: uses left today of turning a failed saving throw into a success */
+export const legendaryResistanceSchema = z.object({
+	perDay: z.number().int().min(1),
+	remaining: z.number().int().min(0),
+});
+
+/** Lair actions, taken on initiative count 20 (losing ties) while fighting in the lair */
+export const lairActionsSchema = z.object({
+	actions: z.array(featureSchema).min(1),
+	/** Set while initiative count 20 has just passed and no lair action was taken yet */
+	available: z.boolean().default(false),
+	/** The same lair action can't be used two rounds in a row */
+	lastUsed: z.string().optional(),
+});
+
+/** An ability that comes back on a d6 roll at the start of the creature's turn, e.g. a breath weapon */
+export const rechargeAbilitySchema = z.object({
+	name: z.string(),
+	/** The d6 results that recharge it, e.g. "5-6" or "6" */
+	recharge: z.string().regex(/^[1-6](-6)?$/),
+	available: z.boolean().default(true),
+	/** Spent, and its turn has begun: roll-recharge rolls for it */
+	rollDue: z.boolean().optional(),
+});
+
 // ── Creature / Combatant ──
 export const creatureSchema = z.object({
 	id: z.string(),
 	name: z.string().min(1),
 	type: z.enum(["player", "monster", "npc"]),
 	armorClass: z.number().min(1),
-	hitPoints: z.number().min(1),
+	/** Current hit points — 0 once the creature is down */
+	hitPoints: z.number().min(0),
 	maxHitPoints: z.number().min(1),
+	/** Absorbed before hit points; gaining more replaces rather than adds */
+	temporaryHitPoints: z.number().min(0).optional(),
 	abilityScores: abilityScoresSchema,
+	size: creatureSizeSchema.default("Medium"),
+	challengeRating: z.number().min(0).max(30).optional(),
+	hitDice: z.string().optional(),
+	speed: speedSchema.default({ walk: 30 }),
+	savingThrows: savingThrowsSchema.default({}),
+	skills: skillsSchema.default({}),
+	damageVulnerabilities: z.array(z.string()).default([]),
+	damageResistances: z.array(z.string()).default([]),
+	damageImmunities: z.array(z.string()).default([]),
+	conditionImmunities: z.array(z.string()).default([]),
+	senses: sensesSchema.default({ passivePerception: 10 }),
+	traits: z.array(featureSchema).default([]),
+	/** How many attacks the creature makes on its turn, e.g. "Makes two Claw attacks." */
+	multiattack: z.string().optional(),
 	initiative: z.number().optional(),
+	/** The side the creature fights for once combat starts, e.g. "party" or "monsters" */
+	side: z.string().optional(),
 	attacks: z.array(
 		z.object({
 			name: z.string(),
 			toHitBonus: z.number(),
 			damageDice: z.string(),
 			damageType: z.string(),
+			/** Melee reach in feet; absent for attacks that are only ranged */
+			reach: z.number().optional(),
+			/** Normal/long range in feet for ranged and thrown attacks, e.g. "80/320" */
+			range: z.string().optional(),
 		}),
 	),
-	conditions: z.array(z.string()).default([]),
+	conditions: z.array(conditionSchema).default([]),
+	spellcasting: creatureSpellcastingSchema.optional(),
+	/** The concentration spell the creature is maintaining and who it affects */
+	concentration: z.object({ spell: z.string(), targets: z.array(z.string()) }).optional(),
+	/** Set while a player character is at 0 HP: dying, stable, or dead after three failures */
+	deathSaves: deathSavesSchema.optional(),
+	/** Top-left square the creature occupies once the battlefield is set */
+	position: gridPositionSchema.optional(),
+	/** Feet moved on the creature's current turn */
+	movementUsed: z.number().optional(),
+	/** Reactions from the stat block, e.g. a knight's Parry */
+	reactions: z.array(featureSchema).optional(),
+	/** Spent its reaction (an opportunity attack, Shield, Counterspell…) since its last turn began */
+	reactionUsed: z.boolean().optional(),
+	/** Cast Shield as a reaction: +5 AC until the start of its next turn */
+	shielded: z.boolean().optional(),
+	legendaryActions: legendaryActionsSchema.optional(),
+	legendaryResistance: legendaryResistanceSchema.optional(),
+	lairActions: lairActionsSchema.optional(),
+	recharges: z.array(rechargeAbilitySchema).optional(),
 	isAlive: z.boolean().default(true),
 });
 
+// ── SRD Compendium ──
+export const monsterActionSchema = z.object({
+	name: z.string(),
+	description: z.string().optional(),
+	/** Present for actions that are attack rolls; damage entries are added together on a hit */
+	attack: z
+		.object({
+			toHitBonus: z.number(),
+			reach: z.number().optional(),
+			range: z.string().optional(),
+			damage: z.array(z.object({ dice: z.string(), type: z.string() })).min(1),
+		})
+		.optional(),
+	/** Recharge roll, e.g. "5-6" */
+	recharge: z.string().optional(),
+});
+
+export const monsterSchema = z.object({
+	slug: z.string().regex(/^[a-z0-9-]+$/),
+	name: z.string().min(1),
+	size: creatureSizeSchema,
+	creatureType: z.string(),
+	alignment: z.string(),
+	armorClass: z.number().min(1),
+	armorDescription: z.string().optional(),
+	hitPoints: z.number().min(1),
+	hitDice: z.string(),
+	speed: speedSchema,
+	abilityScores: abilityScoresSchema,
+	savingThrows: savingThrowsSchema.default({}),
+	skills: skillsSchema.default({}),
+	damageVulnerabilities: z.array(z.string()).default([]),
+	damageResistances: z.array(z.string()).default([]),
+	damageImmunities: z.array(z.string()).default([]),
+	conditionImmunities: z.array(z.string()).default([]),
+	senses: sensesSchema,
+	languages: z.string(),
+	challengeRating: z.number().min(0).max(30),
+	xp: z.number().min(0),
+	traits: z.array(featureSchema).default([]),
+	actions: z.array(monsterActionSchema).min(1),
+	reactions: z.array(featureSchema).default([]),
+	legendaryActions: z.array(legendaryActionSchema).default([]),
+	/** Only used when the monster is fought in its lair */
+	lairActions: z.array(featureSchema).default([]),
+});
+
+// ── Player Characters (SRD classes, races and starting equipment) ──
+export const characterClassSchema = z.enum([
+	"barbarian",
+	"bard",
+	"cleric",
+	"druid",
+	"fighter",
+	"monk",
+	"paladin",
+	"ranger",
+	"rogue",
+	"sorcerer",
+	"warlock",
+	"wizard",
+]);
+
+export const characterRaceSchema = z.enum([
+	"dragonborn",
+	"dwarf",
+	"elf",
+	"gnome",
+	"half-elf",
+	"half-orc",
+	"halfling",
+	"human",
+	"tiefling",
+]);
+
+export const abilityMethodSchema = z.enum(["standard-array", "point-buy", "roll"]);
+
+export const armorNameSchema = z.enum([
+	"none",
+	"padded",
+	"leather",
+	"studded-leather",
+	"hide",
+	"chain-shirt",
+	"scale-mail",
+	"breastplate",
+	"half-plate",
+	"ring-mail",
+	"chain-mail",
+	"splint",
+	"plate",
+]);
+
+export const weaponNameSchema = z.enum([
+	"club",
+	"dagger",
+	"handaxe",
+	"javelin",
+	"mace",
+	"quarterstaff",
+	"spear",
+	"light-crossbow",
+	"shortbow",
+	"battleaxe",
+	"greataxe",
+	"greatsword",
+	"longsword",
+	"maul",
+	"rapier",
+	"scimitar",
+	"shortsword",
+	"warhammer",
+	"hand-crossbow",
+	"heavy-crossbow",
+	"longbow",
+	"unarmed-strike",
+	"fire-bolt",
+	"eldritch-blast",
+	"produce-flame",
+]);
+
 // ── Arena / Encounter ──
 export const arenaSchema = z.object({
 	id: z.string(),
 	name: z.string(),
 	description: z.string().optional(),
 	status: z.enum(["setup", "active", "completed"]),
+	seed: z.string().optional(),
+	seedCommitment: z.string().optional(),
 	round: z.number().default(0),
 	turnIndex: z.number().default(0),
 	combatants: z.array(creatureSchema),
@@ -65,19 +411,175 @@ export const chatMessageSchema = z.object({
 export const roleSchema = z.enum(["admin", "player", "spectator"]);
 
 // ── API Request schemas ──
-export const createArenaRequestSchema = z.object({
-	message: z.string().min(1).max(2000),
-});
+export const createArenaRequestSchema = z
+	.object({
+		message: z.string().min(1).max(2000),
+		/** Reuse a previous arena's seed to replay the same dice */
+		seed: z.string().min(1).max(64).optional(),
+		/** Commit to the seed up front and reveal it when combat completes */
+		verifiable: z.boolean().optional(),
+	})
+	// A commitment to a seed the creator chose (or one already revealed) proves nothing
+	.refine((r) => !(r.verifiable && r.seed !== undefined), {
+		message: "A verifiable arena's seed is generated by the server; leave seed out",
+		path: ["seed"],
+	});
 
 export const chatRequestSchema = z.object({
 	message: z.string().min(1).max(2000),
 });
 
+export const diceStatsQuerySchema = z
+	.object({
+		notation: z.string().min(1).max(200),
+		target: z.coerce.number().int().optional(),
+		toHitBonus: z.coerce.number().int().optional(),
+		targetAC: z.coerce.number().int().min(1).optional(),
+		rollMode: z.enum(["normal", "advantage", "disadvantage"]).optional(),
+	})
+	.refine((q) => (q.toHitBonus === undefined) === (q.targetAC === undefined), {
+		message: "toHitBonus and targetAC must be given together",
+	});
+
+export const monsterSearchQuerySchema = z.object({
+	q: z.string().max(100).optional(),
+	type: z.string().max(50).optional(),
+	size: creatureSizeSchema.optional(),
+	minCr: z.coerce.number().min(0).max(30).optional(),
+	maxCr: z.coerce.number().min(0).max(30).optional(),
+	limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+/** A challenge rating as a number (0–30) or one of the printed fractions */
+export const challengeRatingValueSchema = z.union([
+	z.number().min(0).max(30),
+	z.enum(["1/8", "1/4", "1/2"]),
+]);
+
+export const encounterPartyMemberSchema = z.object({
+	level: z.number().int().min(1).max(20),
+	count: z.number().int().min(1).max(20).default(1),
+});
+
+/** A monster by SRD name (its CR is looked up) or by explicit challenge rating */
+export const encounterMonsterSchema = z
+	.object({
+		name: z.string().min(1).max(100).optional(),
+		challengeRating: challengeRatingValueSchema.optional(),
+		count: z.number().int().min(1).max(50).default(1),
+	})
+	.refine((m) => m.name !== undefined || m.challengeRating !== undefined, {
+		message: "Each monster needs a name or a challengeRating",
+	});
+
+/**
+ * Either a free-text scenario ("3 goblins vs a level 5 paladin") or an explicit party and
+ * monster list. Explicit lists win when both are given.
+ */
+export const assessEncounterRequestSchema = z
+	.object({
+		scenario: z.string().min(1).max(2000).optional(),
+		party: z.array(encounterPartyMemberSchema).min(1).max(20).optional(),
+		monsters: z.array(encounterMonsterSchema).min(1).max(50).optional(),
+	})
+	.refine((r) => r.scenario !== undefined || (r.party !== undefined && r.monsters !== undefined), {
+		message: "Give a scenario, or both party and monsters",
+	});
+
+/** A creature saved to a user's library; the server assigns the id */
+export const savedCreatureRequestSchema = creatureSchema
+	.omit({ id: true })
+	.extend({ hitPoints: z.number().min(1) });
+
+export const creatureListQuerySchema = z.object({
+	q: z.string().max(100).optional(),
+});
+
+export const duplicateCreatureRequestSchema = z.object({
+	/** Name for the copy; defaults to "<name> (copy)" */
+	name: z.string().min(1).max(100).optional(),
+});
+
+export const buildCharacterRequestSchema = z.object({
+	name: z.string().min(1).max(100),
+	className: characterClassSchema,
+	/** SRD subclass name, e.g. "Champion"; defaults to the class's SRD subclass once it is unlocked */
+	subclass: z.string().max(100).optional(),
+	race: characterRaceSchema,
+	level: z.number().int().min(1).max(20),
+	abilityMethod: abilityMethodSchema.default("standard-array"),
+	/**
+	 * Base scores before racial bonuses. For standard-array they must be a permutation of
+	 * 15, 14, 13, 12, 10, 8; for point-buy each is 8–15 within 27 points. Omitted scores are
+	 * assigned by the class's ability priority.
+	 */
+	abilityScores: abilityScoresSchema.optional(),
+	/** Override the class's starting kit */
+	equipment: z
+		.object({
+			armor: armorNameSchema.optional(),
+			shield: z.boolean().optional(),
+			weapons: z.array(weaponNameSchema).min(1).max(4).optional(),
+		})
+		.optional(),
+	/** Seed for the roll method, to reproduce a character */
+	seed: z.string().min(1).max(64).optional(),
+});
+
+/** Build details returned alongside a character's combat stat block */
+export const characterSheetSchema = z.object({
+	className: z.string(),
+	subclass: z.string().optional(),
+	race: z.string(),
+	level: z.number().int(),
+	proficiencyBonus: z.number().int(),
+	abilityMethod: abilityMethodSchema,
+	/** Scores before racial bonuses and ability score improvements */
+	baseAbilityScores: abilityScoresSchema,
+	/** Every 4d6 rolled for the roll method, in rolling order */
+	abilityRolls: z.array(z.array(z.number())).optional(),
+	armor: z.string(),
+	shield: z.boolean(),
+	features: z.array(featureSchema.extend({ level: z.number().int() })),
+	spellcasting: z
+		.object({ ability: abilityNameSchema, saveDC: z.number(), attackBonus: z.number() })
+		.optional(),
+});
+
 // ── Inferred types ──
 export type AbilityScores = z.infer<typeof abilityScoresSchema>;
+export type AbilityName = z.infer<typeof abilityNameSchema>;
+export type CreatureSize = z.infer<typeof creatureSizeSchema>;
+export type Feature = z.infer<typeof featureSchema>;
+export type ConditionName = z.infer<typeof conditionNameSchema>;
+export type ConditionDuration = z.infer<typeof conditionDurationSchema>;
+export type Condition = z.infer<typeof conditionSchema>;
+export type SpellSlots = z.infer<typeof spellSlotsSchema>;
+export type CreatureSpellcasting = z.infer<typeof creatureSpellcastingSchema>;
+export type GridPosition = z.infer<typeof gridPositionSchema>;
+export type Battlefield = z.infer<typeof battlefieldSchema>;
+export type AreaShape = z.infer<typeof areaShapeSchema>;
+export type RechargeAbility = z.infer<typeof rechargeAbilitySchema>;
+export type DeathSaves = z.infer<typeof deathSavesSchema>;
 export type Creature = z.infer<typeof creatureSchema>;
+export type Monster = z.infer<typeof monsterSchema>;
+export type CharacterClass = z.infer<typeof characterClassSchema>;
+export type CharacterRace = z.infer<typeof characterRaceSchema>;
+export type AbilityMethod = z.infer<typeof abilityMethodSchema>;
+export type ArmorName = z.infer<typeof armorNameSchema>;
+export type WeaponName = z.infer<typeof weaponNameSchema>;
+export type MonsterAction = z.infer<typeof monsterActionSchema>;
 export type Arena = z.infer<typeof arenaSchema>;
 export type ChatMessage = z.infer<typeof chatMessageSchema>;
 export type Role = z.infer<typeof roleSchema>;
 export type CreateArenaRequest = z.infer<typeof createArenaRequestSchema>;
 export type ChatRequest = z.infer<typeof chatRequestSchema>;
+export type DiceStatsQuery = z.infer<typeof diceStatsQuerySchema>;
+export type MonsterSearchQuery = z.infer<typeof monsterSearchQuerySchema>;
+export type EncounterPartyMember = z.infer<typeof encounterPartyMemberSchema>;
+export type EncounterMonster = z.infer<typeof encounterMonsterSchema>;
+export type AssessEncounterRequest = z.infer<typeof assessEncounterRequestSchema>;
+export type SavedCreatureRequest = z.infer<typeof savedCreatureRequestSchema>;
+export type CreatureListQuery = z.infer<typeof creatureListQuerySchema>;
+export type BuildCharacterRequest = z.infer<typeof buildCharacterRequestSchema>;
+export type CharacterSheet = z.infer<typeof characterSheetSchema>;
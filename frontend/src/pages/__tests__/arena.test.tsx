@@ -1,5 +1,5 @@
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
-import { render, screen, waitFor } from "@testing-library/react";
+import { act, render, screen, waitFor } from "@testing-library/react";
 import { beforeEach, describe, expect, it, vi } from "vitest";
 import { ArenaPage } from "../arena";
 
@@ -79,4 +79,639 @@ describe("ArenaPage", () => {
 			expect(MockEventSource.instances[0].url).toBe("/api/arenas/test-arena/run");
 		});
 	});
+
+	it("renders saves, resistances and traits on a streamed stat block", async () => {
+		renderWithProviders(<ArenaPage arenaId="test-arena" />);
+		await waitFor(() => expect(MockEventSource.instances.length).toBe(1));
+
+		const [, onToolResult] = MockEventSource.instances[0].addEventListener.mock.calls.find(
+			([event]) => event === "tool-result",
+		) as [string, (e: { data: string }) => void];
+		act(() =>
+			onToolResult({
+				data: JSON.stringify({
+					type: "tool-result",
+					toolName: "generateStatBlock",
+					result: {
+						id: "creature-1",
+						name: "Wight",
+						type: "monster",
+						size: "Medium",
+						challengeRating: 3,
+						armorClass: 14,
+						hitPoints: 45,
+						maxHitPoints: 45,
+						speed: { walk: 30 },
+						abilityScores: {
+							strength: 15,
+							dexterity: 14,
+							constitution: 16,
+							intelligence: 10,
+							wisdom: 13,
+							charisma: 15,
+						},
+						savingThrows: { constitution: 5 },
+						skills: { perception: 3 },
+						damageResistances: ["necrotic"],
+						senses: { darkvision: 60, passivePerception: 13 },
+						traits: [{ name: "Sunlight Sensitivity", description: "Disadvantage in sunlight." }],
+						multiattack: "Makes two Longsword attacks.",
+						attacks: [],
+					},
+				}),
+			}),
+		);
+
+		expect(screen.getByText("Medium monster, CR 3")).toBeInTheDocument();
+		expect(screen.getByText("Con +5")).toBeInTheDocument();
+		expect(screen.getByText("necrotic")).toBeInTheDocument();
+		expect(screen.getByText("darkvision 60 ft., passive Perception 13")).toBeInTheDocument();
+		expect(screen.getByText("Sunlight Sensitivity.")).toBeInTheDocument();
+		expect(screen.getByText("Makes two Longsword attacks.")).toBeInTheDocument();
+	});
+
+	it("explains an attack roll with both d20s and each modifier", async () => {
+		renderWithProviders(<ArenaPage arenaId="test-arena" />);
+		await waitFor(() => expect(MockEventSource.instances.length).toBe(1));
+
+		const [, onToolResult] = MockEventSource.instances[0].addEventListener.mock.calls.find(
+			([event]) => event === "tool-result",
+		) as [string, (e: { data: string }) => void];
+		act(() =>
+			onToolResult({
+				data: JSON.stringify({
+					type: "tool-result",
+					toolName: "resolveAttack",
+					result: {
+						attackerName: "Vex",
+						targetName: "Guard",
+						naturalRoll: 11,
+						attackRoll: 17,
+						d20Rolls: [4, 11],
+						rollMode: "advantage",
+						rollModeReasons: { advantage: ["Vex is flanking Guard"], disadvantage: [] },
+						modifiers: ["half cover: +2 AC"],
+						damageAdjustments: ["Guard is resistant to piercing: 6 → 3"],
+						isCritical: false,
+						isFumble: false,
+						hit: true,
+						totalDamage: 6,
+						narrative: "🎯 Vex rolls 17 — hit!",
+					},
+				}),
+			}),
+		);
+
+		expect(screen.getByText("4")).toHaveClass("line-through");
+		expect(screen.getByText("11")).toHaveClass("font-semibold");
+		expect(screen.getByText("Vex is flanking Guard")).toBeInTheDocument();
+		expect(screen.getByText("half cover: +2 AC")).toBeInTheDocument();
+		expect(screen.getByText("Guard is resistant to piercing: 6 → 3")).toBeInTheDocument();
+	});
+
+	it("renders a saving throw card with a row per target", async () => {
+		renderWithProviders(<ArenaPage arenaId="test-arena" />);
+		await waitFor(() => expect(MockEventSource.instances.length).toBe(1));
+
+		const [, onToolResult] = MockEventSource.instances[0].addEventListener.mock.calls.find(
+			([event]) => event === "tool-result",
+		) as [string, (e: { data: string }) => void];
+		const save = (name: string, d20Rolls: number[], total: number | null, damage: number) => ({
+			name,
+			modifier: 2,
+			effects: {
+				advantage: [],
+				disadvantage: [],
+				autoFail: total === null ? `${name} is paralyzed` : null,
+			},
+			rollMode: "normal",
+			d20Rolls,
+			naturalRoll: d20Rolls[0] ?? null,
+			total,
+			success: total !== null && total >= 15,
+			damage,
+		});
+		act(() =>
+			onToolResult({
+				data: JSON.stringify({
+					type: "tool-result",
+					toolName: "resolveSavingThrow",
+					result: {
+						ability: "dexterity",
+						dc: 15,
+						source: "Fireball",
+						damageType: "fire",
+						onSuccess: "half",
+						damage: { total: 28 },
+						results: [save("Goblin 1", [16], 18, 14), save("Goblin 2", [], null, 28)],
+					},
+				}),
+			}),
+		);
+
+		expect(
+			screen.getByText("DC 15 Dexterity save — Fireball (28 fire damage)"),
+		).toBeInTheDocument();
+		expect(screen.getByText("16 + 2 = 18")).toBeInTheDocument();
+		expect(screen.getByText("saved")).toBeInTheDocument();
+		expect(screen.getByText("Goblin 2 is paralyzed")).toBeInTheDocument();
+		expect(screen.getByText("−28")).toBeInTheDocument();
+	});
+
+	it("groups an area effect's saves under where it landed", async () => {
+		renderWithProviders(<ArenaPage arenaId="test-arena" />);
+		await waitFor(() => expect(MockEventSource.instances.length).toBe(1));
+
+		const [, onToolResult] = MockEventSource.instances[0].addEventListener.mock.calls.find(
+			([event]) => event === "tool-result",
+		) as [string, (e: { data: string }) => void];
+		const save = (name: string, roll: number, damage: number) => ({
+			name,
+			modifier: 1,
+			effects: { advantage: [], disadvantage: [], autoFail: null },
+			rollMode: "normal",
+			d20Rolls: [roll],
+			naturalRoll: roll,
+			total: roll + 1,
+			success: roll + 1 >= 13,
+			damage,
+		});
+		act(() =>
+			onToolResult({
+				data: JSON.stringify({
+					type: "tool-result",
+					toolName: "areaEffect",
+					result: {
+						area: "15-ft cone from (1, 0) toward (4, 0)",
+						targets: ["Goblin 1", "Goblin 2"],
+						ability: "dexterity",
+						dc: 13,
+						source: "Fire Breath",
+						damageType: "fire",
+						onSuccess: "half",
+						damage: { total: 21 },
+						results: [save("Goblin 1", 4, 21), save("Goblin 2", 17, 10)],
+					},
+				}),
+			}),
+		);
+
+		expect(
+			screen.getByText("💥 Fire Breath — 15-ft cone from (1, 0) toward (4, 0)"),
+		).toBeInTheDocument();
+		expect(screen.getByText("Caught: Goblin 1, Goblin 2")).toBeInTheDocument();
+		expect(
+			screen.getByText("DC 13 Dexterity save — Fire Breath (21 fire damage)"),
+		).toBeInTheDocument();
+		expect(screen.getByText("−10")).toBeInTheDocument();
+	});
+
+	it("renders a spell cast with its attack rolls, concentration notes and slots", async () => {
+		renderWithProviders(<ArenaPage arenaId="test-arena" />);
+		await waitFor(() => expect(MockEventSource.instances.length).toBe(1));
+
+		const [, onToolResult] = MockEventSource.instances[0].addEventListener.mock.calls.find(
+			([event]) => event === "tool-result",
+		) as [string, (e: { data: string }) => void];
+		const ray = (narrative: string, hit: boolean) => ({
+			target: "Ogre",
+			naturalRoll: 12,
+			attackRoll: 18,
+			isCritical: false,
+			isFumble: false,
+			hit,
+			totalDamage: hit ? 7 : 0,
+			narrative,
+		});
+		act(() =>
+			onToolResult({
+				data: JSON.stringify({
+					type: "tool-result",
+					toolName: "castSpell",
+					result: {
+						attacks: [ray("Ray 1 hits the Ogre for 7", true), ray("Ray 2 misses the Ogre", false)],
+						saves: null,
+						narrative:
+							"✨ Mage casts Scorching Ray with a 2nd-level slot\nRay 1 hits\nRay 2 misses",
+						notes: ["Mage stops concentrating on Fly"],
+						slots: "1st 4/4, 2nd 2/3",
+					},
+				}),
+			}),
+		);
+
+		expect(
+			screen.getByText("✨ Mage casts Scorching Ray with a 2nd-level slot"),
+		).toBeInTheDocument();
+		expect(screen.getByText("Ray 1 hits the Ogre for 7")).toBeInTheDocument();
+		expect(screen.getByText("Ray 2 misses the Ogre")).toBeInTheDocument();
+		expect(screen.getByText("Mage stops concentrating on Fly")).toBeInTheDocument();
+		expect(screen.getByText("Slots: 1st 4/4, 2nd 2/3")).toBeInTheDocument();
+	});
+
+	it("renders HP changes from hp-change events", async () => {
+		renderWithProviders(<ArenaPage arenaId="test-arena" />);
+		await waitFor(() => expect(MockEventSource.instances.length).toBe(1));
+
+		const [, onHitPointChange] = MockEventSource.instances[0].addEventListener.mock.calls.find(
+			([event]) => event === "hp-change",
+		) as [string, (e: { data: string }) => void];
+		act(() =>
+			onHitPointChange({
+				data: JSON.stringify({
+					type: "hp-change",
+					name: "Goblin 1",
+					kind: "damage",
+					amount: 9,
+					previousHitPoints: 7,
+					hitPoints: 0,
+					maxHitPoints: 7,
+					previousTemporaryHitPoints: 0,
+					temporaryHitPoints: 0,
+					isAlive: false,
+				}),
+			}),
+		);
+
+		expect(screen.getByText("Goblin 1")).toBeInTheDocument();
+		expect(screen.getByText("0/7 HP")).toBeInTheDocument();
+		expect(screen.getByText("−9")).toBeInTheDocument();
+		expect(screen.getByText("💀 down")).toBeInTheDocument();
+	});
+
+	it("shows concentration checks and clears the conditions a broken spell imposed", async () => {
+		renderWithProviders(<ArenaPage arenaId="test-arena" />);
+		await waitFor(() => expect(MockEventSource.instances.length).toBe(1));
+
+		const listener = (name: string) =>
+			(
+				MockEventSource.instances[0].addEventListener.mock.calls.find(
+					([event]) => event === name,
+				) as [string, (e: { data: string }) => void]
+			)[1];
+		act(() =>
+			listener("initiative")({
+				data: JSON.stringify({
+					type: "initiative",
+					round: 1,
+					turnIndex: 0,
+					combatants: [
+						{ name: "Mage", initiative: 14, hitPoints: 40, maxHitPoints: 40, isAlive: true },
+						{
+							name: "Kargan",
+							initiative: 9,
+							hitPoints: 12,
+							maxHitPoints: 12,
+							conditions: ["paralyzed (Hold Person, DC 14 wisdom save ends)"],
+							isAlive: true,
+						},
+					],
+				}),
+			}),
+		);
+		act(() =>
+			listener("concentration")({
+				data: JSON.stringify({
+					type: "concentration",
+					name: "Mage",
+					spell: "Hold Person",
+					damage: 22,
+					dc: 11,
+					maintained: false,
+					ended: [{ target: "Kargan", conditions: [] }],
+					narrative:
+						"DC 11 Constitution saving throw against concentration on Hold Person\nMage rolls 7 (6+1) — fails\nMage stops concentrating on Hold Person; Kargan is no longer paralyzed",
+				}),
+			}),
+		);
+
+		expect(screen.getByText(/Mage loses concentration on Hold Person/)).toBeInTheDocument();
+		expect(screen.getByText("· DC 11")).toBeInTheDocument();
+		expect(screen.getByText(/Kargan is no longer paralyzed/)).toBeInTheDocument();
+		expect(screen.getByRole("list", { name: "Turn order" })).not.toHaveTextContent("paralyzed");
+	});
+
+	it("shows the turn order strip and follows next-turn, HP and condition updates", async () => {
+		renderWithProviders(<ArenaPage arenaId="test-arena" />);
+		await waitFor(() => expect(MockEventSource.instances.length).toBe(1));
+
+		const listener = (name: string) =>
+			(
+				MockEventSource.instances[0].addEventListener.mock.calls.find(
+					([event]) => event === name,
+				) as [string, (e: { data: string }) => void]
+			)[1];
+		const combatant = (name: string, initiative: number) => ({
+			name,
+			side: name === "Kargan" ? "party" : "monsters",
+			initiative,
+			hitPoints: 7,
+			maxHitPoints: 7,
+			isAlive: true,
+		});
+
+		act(() =>
+			listener("initiative")({
+				data: JSON.stringify({
+					type: "initiative",
+					round: 1,
+					turnIndex: 0,
+					combatants: [combatant("Kargan", 17), combatant("Goblin 1", 9)],
+				}),
+			}),
+		);
+		const strip = screen.getByRole("list", { name: "Turn order" });
+		expect(strip).toHaveTextContent("Kargan🎲 17 · 7/7 HP");
+		expect(screen.getByText("Round 1")).toBeInTheDocument();
+		expect(screen.getByText("Kargan").closest("li")).toHaveAttribute("aria-current", "true");
+
+		act(() =>
+			listener("tool-result")({
+				data: JSON.stringify({
+					type: "tool-result",
+					toolName: "nextTurn",
+					result: { round: 1, turnIndex: 1, currentTurn: "Goblin 1" },
+				}),
+			}),
+		);
+		expect(screen.getByText("Goblin 1").closest("li")).toHaveAttribute("aria-current", "true");
+
+		act(() =>
+			listener("hp-change")({
+				data: JSON.stringify({
+					type: "hp-change",
+					name: "Goblin 1",
+					kind: "damage",
+					amount: 7,
+					previousHitPoints: 7,
+					hitPoints: 0,
+					maxHitPoints: 7,
+					previousTemporaryHitPoints: 0,
+					temporaryHitPoints: 0,
+					isAlive: false,
+				}),
+			}),
+		);
+		expect(strip).toHaveTextContent("Goblin 1🎲 9 · 0/7 HP");
+
+		act(() =>
+			listener("tool-result")({
+				data: JSON.stringify({
+					type: "tool-result",
+					toolName: "applyCondition",
+					result: {
+						target: "Kargan",
+						applied: true,
+						message: "Kargan is prone",
+						conditions: ["prone (Shove)"],
+					},
+				}),
+			}),
+		);
+		expect(strip).toHaveTextContent("Kargan🎲 17 · 7/7 HPprone (Shove)");
+	});
+
+	it("shows a dying character's death saves and the roll that brings them back", async () => {
+		renderWithProviders(<ArenaPage arenaId="test-arena" />);
+		await waitFor(() => expect(MockEventSource.instances.length).toBe(1));
+
+		const listener = (name: string) =>
+			(
+				MockEventSource.instances[0].addEventListener.mock.calls.find(
+					([event]) => event === name,
+				) as [string, (e: { data: string }) => void]
+			)[1];
+
+		act(() =>
+			listener("initiative")({
+				data: JSON.stringify({
+					type: "initiative",
+					round: 2,
+					turnIndex: 0,
+					combatants: [
+						{
+							name: "Kargan",
+							side: "party",
+							initiative: 17,
+							hitPoints: 0,
+							maxHitPoints: 12,
+							deathSaves: { successes: 1, failures: 2, stable: false },
+							isAlive: true,
+						},
+					],
+				}),
+			}),
+		);
+		const strip = screen.getByRole("list", { name: "Turn order" });
+		expect(strip).toHaveTextContent("death saves 1✓ 2✗");
+
+		act(() =>
+			listener("tool-result")({
+				data: JSON.stringify({
+					type: "tool-result",
+					toolName: "deathSave",
+					result: {
+						name: "Kargan",
+						roll: 20,
+						deathSaves: null,
+						hitPoints: 1,
+						revived: true,
+						stable: false,
+						dead: false,
+						narrative:
+							"💀 Kargan's death saving throw: natural 20! Kargan regains 1 HP and wakes up",
+					},
+				}),
+			}),
+		);
+		expect(
+			await screen.findByText(
+				"💀 Kargan's death saving throw: natural 20! Kargan regains 1 HP and wakes up",
+			),
+		).toBeInTheDocument();
+		expect(strip).toHaveTextContent("Kargan🎲 17 · 1/12 HP");
+		expect(strip).not.toHaveTextContent("death saves");
+	});
+
+	it("places combatants on the battlefield and shows a move with its opportunity attack", async () => {
+		renderWithProviders(<ArenaPage arenaId="test-arena" />);
+		await waitFor(() => expect(MockEventSource.instances.length).toBe(1));
+
+		const listener = (name: string) =>
+			(
+				MockEventSource.instances[0].addEventListener.mock.calls.find(
+					([event]) => event === name,
+				) as [string, (e: { data: string }) => void]
+			)[1];
+
+		const entry = { side: null, initiative: 12, hitPoints: 12, maxHitPoints: 12, isAlive: true };
+		act(() =>
+			listener("initiative")({
+				data: JSON.stringify({
+					type: "initiative",
+					round: 1,
+					turnIndex: 0,
+					combatants: [
+						{ ...entry, name: "Kargan" },
+						{ ...entry, name: "Goblin" },
+					],
+				}),
+			}),
+		);
+		act(() =>
+			listener("tool-result")({
+				data: JSON.stringify({
+					type: "tool-result",
+					toolName: "setBattlefield",
+					result: {
+						battlefield: { width: 8, height: 6, difficultTerrain: [{ x: 3, y: 3 }] },
+						combatants: [
+							{ name: "Kargan", position: { x: 1, y: 0 } },
+							{ name: "Goblin", position: { x: 0, y: 0 } },
+						],
+					},
+				}),
+			}),
+		);
+		expect(
+			screen.getByText("🗺️ Battlefield 8×6 squares (40×30 ft), 1 of difficult terrain"),
+		).toBeInTheDocument();
+		const strip = screen.getByRole("list", { name: "Turn order" });
+		expect(strip).toHaveTextContent("Kargan🎲 12 · 12/12 HP📍 (1, 0)");
+
+		act(() =>
+			listener("tool-result")({
+				data: JSON.stringify({
+					type: "tool-result",
+					toolName: "moveCombatant",
+					result: {
+						name: "Kargan",
+						to: { x: 4, y: 0 },
+						stopped: false,
+						narrative:
+							"Kargan moves 15 ft to (4, 0) — Goblin's opportunity attack (Scimitar): miss",
+						opportunityAttacks: [
+							{
+								attacker: "Goblin",
+								attack: "Scimitar",
+								result: {
+									naturalRoll: 1,
+									attackRoll: 5,
+									isCritical: false,
+									isFumble: true,
+									hit: false,
+									totalDamage: 0,
+									narrative: "💨 Goblin rolls 1 — fumble!",
+								},
+							},
+						],
+					},
+				}),
+			}),
+		);
+		expect(await screen.findByText("🏃 Kargan moves 15 ft to (4, 0)")).toBeInTheDocument();
+		expect(screen.getByText("Goblin's opportunity attack (Scimitar)")).toBeInTheDocument();
+		expect(strip).toHaveTextContent("Kargan🎲 12 · 12/12 HP📍 (4, 0)");
+	});
+
+	it("shows a boss's legendary actions, recharge rolls and Legendary Resistance", async () => {
+		renderWithProviders(<ArenaPage arenaId="test-arena" />);
+		await waitFor(() => expect(MockEventSource.instances.length).toBe(1));
+
+		const listener = (name: string) =>
+			(
+				MockEventSource.instances[0].addEventListener.mock.calls.find(
+					([event]) => event === name,
+				) as [string, (e: { data: string }) => void]
+			)[1];
+
+		act(() =>
+			listener("initiative")({
+				data: JSON.stringify({
+					type: "initiative",
+					round: 1,
+					turnIndex: 0,
+					combatants: [
+						{ name: "Kargan", initiative: 15, hitPoints: 30, maxHitPoints: 30, isAlive: true },
+						{
+							name: "Dragon",
+							initiative: 10,
+							hitPoints: 256,
+							maxHitPoints: 256,
+							legendaryActions: 3,
+							isAlive: true,
+						},
+					],
+				}),
+			}),
+		);
+		const strip = screen.getByRole("list", { name: "Turn order" });
+		expect(strip).toHaveTextContent("👑 3 legendary");
+
+		act(() =>
+			listener("tool-result")({
+				data: JSON.stringify({
+					type: "tool-result",
+					toolName: "useLegendaryAction",
+					result: {
+						name: "Dragon",
+						action: { name: "Wing Attack", description: "", cost: 2 },
+						remaining: 1,
+						message: "Dragon uses a legendary action: Wing Attack (1 left)",
+					},
+				}),
+			}),
+		);
+		expect(
+			await screen.findByText("👑 Dragon uses a legendary action: Wing Attack (1 left)"),
+		).toBeInTheDocument();
+		expect(strip).toHaveTextContent("👑 1 legendary");
+
+		act(() =>
+			listener("tool-result")({
+				data: JSON.stringify({
+					type: "tool-result",
+					toolName: "rollRecharge",
+					result: {
+						name: "Dragon",
+						rolls: [{ ability: "Fire Breath", recharge: "5-6", roll: 6, recharged: true }],
+						narrative: "🔋 Dragon — Fire Breath (recharge 5-6): rolls 6 — recharged",
+					},
+				}),
+			}),
+		);
+		expect(
+			await screen.findByText("🔋 Dragon — Fire Breath (recharge 5-6): rolls 6 — recharged"),
+		).toBeInTheDocument();
+
+		act(() =>
+			listener("tool-result")({
+				data: JSON.stringify({
+					type: "tool-result",
+					toolName: "resolveSavingThrow",
+					result: {
+						ability: "wisdom",
+						dc: 21,
+						damage: null,
+						results: [
+							{
+								name: "Dragon",
+								modifier: 7,
+								effects: { advantage: [], disadvantage: [], autoFail: null },
+								rollMode: "normal",
+								d20Rolls: [3],
+								naturalRoll: 3,
+								total: 10,
+								success: true,
+								legendaryResistance: true,
+								damage: 0,
+								damageAdjustment: null,
+							},
+						],
+					},
+				}),
+			}),
+		);
+		expect(await screen.findByText("saved (Legendary Resistance)")).toBeInTheDocument();
+	});
 });
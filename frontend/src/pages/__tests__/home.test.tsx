@@ -0,0 +1,71 @@
+import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import { fireEvent, render, screen, waitFor } from "@testing-library/react";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { api } from "@/lib/api";
+import { HomePage } from "../home";
+
+vi.mock("@/lib/auth-client", () => ({
+	useSession: () => ({ data: null }),
+	signOut: vi.fn(),
+}));
+
+// Mock the API client
+vi.mock("@/lib/api", () => ({
+	api: {
+		api: {
+			arenas: {
+				$get: vi.fn().mockResolvedValue({
+					json: () => Promise.resolve({ success: true, data: [] }),
+				}),
+				$post: vi.fn(),
+			},
+			encounters: {
+				assess: {
+					$post: vi.fn().mockResolvedValue({
+						json: () =>
+							Promise.resolve({
+								success: true,
+								data: {
+									difficulty: "medium",
+									partySize: 1,
+									thresholds: { easy: 250, medium: 500, hard: 750, deadly: 1100 },
+									monsters: [{ name: "Goblin", challengeRating: 0.25, count: 4, xp: 50 }],
+									monsterCount: 4,
+									baseXp: 200,
+									multiplier: 2.5,
+									adjustedXp: 500,
+									unresolved: [],
+								},
+							}),
+					}),
+				},
+			},
+		},
+	},
+}));
+
+function renderWithProviders(ui: React.ReactElement) {
+	const queryClient = new QueryClient({
+		defaultOptions: { queries: { retry: false } },
+	});
+	return render(<QueryClientProvider client={queryClient}>{ui}</QueryClientProvider>);
+}
+
+beforeEach(() => {
+	vi.clearAllMocks();
+});
+
+describe("HomePage", () => {
+	it("rates the typed scenario before the fight is run", async () => {
+		renderWithProviders(<HomePage />);
+		fireEvent.change(screen.getByPlaceholderText("Describe your combat scenario..."), {
+			target: { value: "4 goblins vs a level 5 paladin" },
+		});
+
+		await waitFor(() => expect(screen.getByText("medium")).toBeInTheDocument());
+		expect(api.api.encounters.assess.$post).toHaveBeenCalledWith({
+			json: { scenario: "4 goblins vs a level 5 paladin" },
+		});
+		expect(screen.getByText(/500 adjusted XP/)).toBeInTheDocument();
+	});
+});
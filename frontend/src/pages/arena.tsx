@@ -11,6 +11,23 @@ import { api } from "@/lib/api";
 
 type CombatStatus = "setup" | "active" | "completed" | "error";
 
+type AbilityName =
+	| "strength"
+	| "dexterity"
+	| "constitution"
+	| "intelligence"
+	| "wisdom"
+	| "charisma";
+
+const ABILITIES: AbilityName[] = [
+	"strength",
+	"dexterity",
+	"constitution",
+	"intelligence",
+	"wisdom",
+	"charisma",
+];
+
 interface StatBlock {
 	id: string;
 	name: string;
@@ -18,14 +35,36 @@ interface StatBlock {
 	armorClass: number;
 	hitPoints: number;
 	maxHitPoints: number;
-	abilityScores: {
-		strength: number;
-		dexterity: number;
-		constitution: number;
-		intelligence: number;
-		wisdom: number;
-		charisma: number;
+	abilityScores: Record<AbilityName, number>;
+	// Richer 5e fields — optional so older stored results still render
+	size?: string;
+	challengeRating?: number;
+	speed?: { walk: number; burrow?: number; climb?: number; fly?: number; swim?: number };
+	savingThrows?: Partial<Record<AbilityName, number>>;
+	skills?: Record<string, number>;
+	damageVulnerabilities?: string[];
+	damageResistances?: string[];
+	damageImmunities?: string[];
+	conditionImmunities?: string[];
+	senses?: {
+		blindsight?: number;
+		darkvision?: number;
+		tremorsense?: number;
+		truesight?: number;
+		passivePerception: number;
 	};
+	traits?: Array<{ name: string; description: string }>;
+	multiattack?: string;
+	initiative?: number;
+	side?: string;
+	conditions?: Array<{ name: string }>;
+	spellcasting?: {
+		saveDC: number;
+		attackBonus: number;
+		spells: string[];
+		slots: Array<{ level: number; max: number; remaining: number }>;
+	};
+	isAlive?: boolean;
 	attacks: Array<{
 		name: string;
 		toHitBonus: number;
@@ -34,12 +73,42 @@ interface StatBlock {
 	}>;
 }
 
+interface MonsterLookupResult {
+	found: boolean;
+	creature?: StatBlock;
+	monster?: { size: string; creatureType: string; challengeRating: number };
+	suggestions: string[];
+}
+
+interface SavedCreatureResult {
+	found: boolean;
+	creature?: StatBlock;
+	suggestions: string[];
+}
+
+interface CharacterBuildResult {
+	creature: StatBlock;
+	character: { className: string; subclass?: string; race: string; level: number };
+}
+
+interface DiceTerm {
+	kind: "dice" | "constant" | "group";
+	notation: string;
+	sign: 1 | -1;
+	rolls: number[];
+	kept: number[];
+	rerolled: number[];
+	subtotal: number;
+	total: number;
+}
+
 interface DiceResult {
 	notation: string;
 	rolls: number[];
 	kept: number[];
 	modifier: number;
 	total: number;
+	breakdown?: DiceTerm[];
 	purpose?: string;
 }
 
@@ -48,6 +117,13 @@ interface AttackResult {
 	targetName: string;
 	naturalRoll: number;
 	attackRoll: number;
+	// Roll explanation — optional so older stored results still render
+	d20Rolls?: number[];
+	rollMode?: "normal" | "advantage" | "disadvantage";
+	rollModeReasons?: { advantage: string[]; disadvantage: string[] };
+	modifiers?: string[];
+	/** How the target's resistances changed the damage, e.g. "Skeleton is vulnerable to bludgeoning: 7 → 14" */
+	damageAdjustments?: string[];
 	isCritical: boolean;
 	isFumble: boolean;
 	hit: boolean;
@@ -55,8 +131,148 @@ interface AttackResult {
 	narrative: string;
 }
 
+interface D20TestResult {
+	name: string;
+	modifier: number;
+	effects: { advantage: string[]; disadvantage: string[]; autoFail: string | null };
+	rollMode: "normal" | "advantage" | "disadvantage";
+	d20Rolls: number[];
+	naturalRoll: number | null;
+	total: number | null;
+	success: boolean | null;
+	/** A failed save turned into a success with Legendary Resistance */
+	legendaryResistance?: boolean;
+}
+
+interface SavingThrowResult {
+	ability: string;
+	dc: number;
+	source?: string;
+	damageType?: string;
+	damage: { total: number } | null;
+	results: Array<D20TestResult & { damage: number; damageAdjustment?: string | null }>;
+}
+
+interface AbilityCheckResult extends D20TestResult {
+	narrative: string;
+}
+
+interface AreaEffectResult extends SavingThrowResult {
+	area: string;
+	targets: string[];
+}
+
+interface SpellCastResult {
+	attacks: Array<AttackResult & { target: string }>;
+	saves: SavingThrowResult | null;
+	narrative: string;
+	notes: string[];
+	slots: string;
+}
+
+interface DeathSaves {
+	successes: number;
+	failures: number;
+	stable: boolean;
+}
+
+interface DeathSaveResult {
+	name: string;
+	deathSaves: DeathSaves | null;
+	hitPoints: number;
+	revived: boolean;
+	stable: boolean;
+	dead: boolean;
+	narrative: string;
+}
+
+/** use-legendary-action, use-lair-action and use-recharge-ability: what the boss spent */
+interface BossActionResult {
+	name: string;
+	message: string;
+}
+
+interface RechargeResult {
+	name: string;
+	rolls: Array<{ ability: string; recharge: string; roll: number; recharged: boolean }>;
+	narrative: string;
+}
+
+interface GridPosition {
+	x: number;
+	y: number;
+}
+
+interface BattlefieldResult {
+	battlefield: { width: number; height: number; difficultTerrain: GridPosition[] } | null;
+	combatants: Array<{ name: string; position: GridPosition | null }>;
+}
+
+interface MoveResult {
+	name: string;
+	to: GridPosition;
+	opportunityAttacks: Array<{ attacker: string; attack: string; result: AttackResult }>;
+	stopped: boolean;
+	narrative: string;
+}
+
+interface HitPointChange {
+	name: string;
+	kind: "damage" | "healing" | "temporary";
+	amount: number;
+	previousHitPoints: number;
+	hitPoints: number;
+	maxHitPoints: number;
+	previousTemporaryHitPoints: number;
+	temporaryHitPoints: number;
+	isAlive: boolean;
+}
+
+interface ConcentrationCheck {
+	name: string;
+	spell: string;
+	damage: number;
+	/** Null when the damage dropped the creature to 0 HP */
+	dc: number | null;
+	maintained: boolean;
+	/** Targets of the spell that lost conditions, with the ones they have left */
+	ended: ConditionChange[];
+	narrative: string;
+}
+
+interface TurnOrderEntry {
+	name: string;
+	side: string | null;
+	initiative: number | null;
+	hitPoints: number;
+	maxHitPoints: number;
+	/** Described conditions, e.g. "prone (Shove)" */
+	conditions?: string[];
+	/** Set while a player character is at 0 HP */
+	deathSaves?: DeathSaves | null;
+	/** Square on the battlefield, once set-battlefield has placed the combatant */
+	position?: GridPosition | null;
+	/** Legendary actions left this round, for legendary creatures */
+	legendaryActions?: number | null;
+	isAlive: boolean;
+}
+
+interface ConditionChange {
+	target: string;
+	conditions: string[];
+}
+
+interface TurnOrder {
+	round: number;
+	turnIndex: number;
+	combatants: TurnOrderEntry[];
+}
+
 type ToolResult =
 	| { toolName: "generateStatBlock"; result: StatBlock }
+	| { toolName: "lookupMonster"; result: MonsterLookupResult }
+	| { toolName: "loadCreature"; result: SavedCreatureResult }
+	| { toolName: "buildCharacter"; result: CharacterBuildResult }
 	| { toolName: "rollDice"; result: DiceResult }
 	| { toolName: "resolveAttack"; result: AttackResult }
 	| { toolName: string; result: unknown };
@@ -64,7 +280,9 @@ type ToolResult =
 // Interleaved stream items: either text or a tool result
 type StreamItem =
 	| { type: "text"; key: string; content: string }
-	| { type: "tool-result"; key: string; data: ToolResult };
+	| { type: "tool-result"; key: string; data: ToolResult }
+	| { type: "hp-change"; key: string; change: HitPointChange }
+	| { type: "concentration"; key: string; check: ConcentrationCheck };
 
 let itemCounter = 0;
 function nextKey(prefix: string): string {
@@ -76,11 +294,89 @@ function abilityMod(score: number): string {
 	return mod >= 0 ? `+${mod}` : `${mod}`;
 }
 
-function StatBlockCard({ stat }: { stat: StatBlock }) {
+function formatChallengeRating(cr: number): string {
+	return cr > 0 && cr < 1 ? `1/${Math.round(1 / cr)}` : String(cr);
+}
+
+function signed(n: number): string {
+	return n >= 0 ? `+${n}` : `${n}`;
+}
+
+function capitalize(text: string): string {
+	return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+function ordinal(n: number): string {
+	const suffix = n === 1 ? "st" : n === 2 ? "nd" : n === 3 ? "rd" : "th";
+	return `${n}${suffix}`;
+}
+
+function formatSpeed(speed: NonNullable<StatBlock["speed"]>): string {
+	const { walk, ...other } = speed;
+	const extra = Object.entries(other)
+		.filter(([, feet]) => feet !== undefined)
+		.map(([mode, feet]) => `${mode} ${feet} ft.`);
+	return [`${walk} ft.`, ...extra].join(", ");
+}
+
+function formatSenses(senses: NonNullable<StatBlock["senses"]>): string {
+	const { passivePerception, ...special } = senses;
+	const listed = Object.entries(special)
+		.filter(([, feet]) => feet !== undefined)
+		.map(([sense, feet]) => `${sense} ${feet} ft.`);
+	return [...listed, `passive Perception ${passivePerception}`].join(", ");
+}
+
+/** "Saving Throws", "Skills", resistances… — only the lines the creature actually has. */
+function statBlockProperties(stat: StatBlock): Array<[string, string]> {
+	const lines: Array<[string, string | undefined]> = [
+		[
+			"Saving Throws",
+			ABILITIES.filter((a) => stat.savingThrows?.[a] !== undefined)
+				.map((a) => `${capitalize(a.slice(0, 3))} ${signed(stat.savingThrows?.[a] ?? 0)}`)
+				.join(", "),
+		],
+		[
+			"Skills",
+			Object.entries(stat.skills ?? {})
+				.map(([skill, bonus]) => `${capitalize(skill)} ${signed(bonus)}`)
+				.join(", "),
+		],
+		["Damage Vulnerabilities", stat.damageVulnerabilities?.join("; ")],
+		["Damage Resistances", stat.damageResistances?.join("; ")],
+		["Damage Immunities", stat.damageImmunities?.join("; ")],
+		["Condition Immunities", stat.conditionImmunities?.join(", ")],
+		["Senses", stat.senses && formatSenses(stat.senses)],
+		[
+			"Spellcasting",
+			stat.spellcasting &&
+				`DC ${stat.spellcasting.saveDC}, ${signed(stat.spellcasting.attackBonus)} to hit`,
+		],
+		["Spells", stat.spellcasting?.spells.map((slug) => slug.replace(/-/g, " ")).join(", ")],
+		[
+			"Spell Slots",
+			stat.spellcasting?.slots
+				.map((slot) => `${ordinal(slot.level)} ${slot.remaining}/${slot.max}`)
+				.join(", "),
+		],
+	];
+	return lines.filter((line): line is [string, string] => Boolean(line[1]));
+}
+
+function StatBlockCard({ stat, subtitle }: { stat: StatBlock; subtitle?: string }) {
+	const cr = stat.challengeRating;
+	const description =
+		subtitle ??
+		(stat.size &&
+			`${stat.size} ${stat.type}${cr !== undefined ? `, CR ${formatChallengeRating(cr)}` : ""}`);
+
 	return (
 		<div className="my-3 rounded-lg border bg-card p-4 shadow-sm">
 			<div className="mb-2 flex items-center justify-between">
-				<h3 className="font-bold text-base">{stat.name}</h3>
+				<div>
+					<h3 className="font-bold text-base">{stat.name}</h3>
+					{description && <p className="text-xs italic text-muted-foreground">{description}</p>}
+				</div>
 				<Badge variant="outline" className="text-xs capitalize">
 					{stat.type}
 				</Badge>
@@ -95,11 +391,10 @@ function StatBlockCard({ stat }: { stat: StatBlock }) {
 						{stat.hitPoints}/{stat.maxHitPoints}
 					</span>
 				</span>
+				{stat.speed && <span>🏃 {formatSpeed(stat.speed)}</span>}
 			</div>
 			<div className="mb-2 grid grid-cols-6 gap-1 text-center text-xs">
-				{(
-					["strength", "dexterity", "constitution", "intelligence", "wisdom", "charisma"] as const
-				).map((ability) => (
+				{ABILITIES.map((ability) => (
 					<div key={ability} className="rounded bg-muted px-1 py-1">
 						<div className="font-bold uppercase text-muted-foreground">{ability.slice(0, 3)}</div>
 						<div className="font-semibold">{stat.abilityScores[ability]}</div>
@@ -107,11 +402,28 @@ function StatBlockCard({ stat }: { stat: StatBlock }) {
 					</div>
 				))}
 			</div>
+			{statBlockProperties(stat).map(([label, value]) => (
+				<p key={label} className="text-xs">
+					<span className="font-semibold">{label}</span> {value}
+				</p>
+			))}
+			{stat.traits?.map((trait) => (
+				<p key={trait.name} className="mt-1 text-xs">
+					<span className="font-semibold italic">{trait.name}.</span> {trait.description}
+				</p>
+			))}
+			{stat.multiattack && (
+				<p className="mt-1 text-xs">
+					<span className="font-semibold italic">Multiattack.</span> {stat.multiattack}
+				</p>
+			)}
 			{stat.attacks.length > 0 && (
-				<div className="text-xs text-muted-foreground">
+				<div className="mt-1 text-xs text-muted-foreground">
 					{stat.attacks.map((atk) => (
 						<span key={atk.name} className="mr-3">
-							⚔️ {atk.name}: +{atk.toHitBonus} to hit, {atk.damageDice} {atk.damageType}
+							⚔️ {atk.name}: +{atk.toHitBonus} to hit, {atk.damageDice}
+							{/* Multi-type dice already name each part's type */}
+							{/[a-z]$/i.test(atk.damageDice) ? "" : ` ${atk.damageType}`}
 						</span>
 					))}
 				</div>
@@ -120,11 +432,23 @@ function StatBlockCard({ stat }: { stat: StatBlock }) {
 	);
 }
 
+function formatBreakdown(terms: DiceTerm[]): string {
+	return terms
+		.map((term, i) => {
+			const op = term.sign < 0 ? (i === 0 ? "-" : " - ") : i === 0 ? "" : " + ";
+			const detail = term.kind === "constant" ? "" : ` [${term.kept.join(", ")}]`;
+			return `${op}${term.notation}${detail}`;
+		})
+		.join("");
+}
+
 function DiceRollInline({ result }: { result: DiceResult }) {
 	return (
 		<div className="my-1 inline-flex items-center gap-1.5 rounded bg-muted px-2 py-0.5 text-xs font-mono">
 			<span>🎲</span>
-			<span className="text-muted-foreground">{result.notation}</span>
+			<span className="text-muted-foreground">
+				{result.breakdown ? formatBreakdown(result.breakdown) : result.notation}
+			</span>
 			<span className="font-semibold">→ {result.total}</span>
 			{result.purpose && <span className="text-muted-foreground">({result.purpose})</span>}
 		</div>
@@ -134,7 +458,7 @@ function DiceRollInline({ result }: { result: DiceResult }) {
 function AttackResultCard({ result }: { result: AttackResult }) {
 	return (
 		<div
-			className={`my-1 rounded border px-3 py-1.5 text-sm ${
+			className={`my-1 whitespace-pre-line rounded border px-3 py-1.5 text-sm ${
 				result.isCritical
 					? "border-yellow-500/50 bg-yellow-500/10"
 					: result.isFumble
@@ -143,20 +467,365 @@ function AttackResultCard({ result }: { result: AttackResult }) {
 							? "border-green-500/50 bg-green-500/10"
 							: "border-muted bg-muted/50"
 			}`}
+		>
+			{result.narrative}
+			<AttackRollDetails result={result} />
+		</div>
+	);
+}
+
+/** Both d20s when there were two, with the kept die highlighted, and why each modifier applied. */
+function AttackRollDetails({ result }: { result: AttackResult }) {
+	const { d20Rolls = [], rollMode = "normal", rollModeReasons, modifiers = [] } = result;
+	const reasons = rollMode === "normal" ? [] : (rollModeReasons?.[rollMode] ?? []);
+	const notes = [...reasons, ...modifiers, ...(result.damageAdjustments ?? [])];
+	const kept = d20Rolls.indexOf(result.naturalRoll);
+	if (d20Rolls.length < 2 && notes.length === 0) return null;
+
+	return (
+		<div className="mt-1 flex flex-wrap items-center gap-1.5 text-xs text-muted-foreground">
+			{d20Rolls.length > 1 && (
+				<span className="font-mono">
+					{rollMode}:{" "}
+					<span className={kept === 0 ? "font-semibold text-foreground" : "line-through"}>
+						{d20Rolls[0]}
+					</span>{" "}
+					<span className={kept === 1 ? "font-semibold text-foreground" : "line-through"}>
+						{d20Rolls[1]}
+					</span>
+				</span>
+			)}
+			{notes.map((reason) => (
+				<Badge key={reason} variant="outline" className="text-xs font-normal">
+					{reason}
+				</Badge>
+			))}
+		</div>
+	);
+}
+
+/** One row per target: the d20s, the total against the DC, and the damage taken. */
+function SavingThrowCard({ result }: { result: SavingThrowResult }) {
+	const damageType = result.damageType ? ` ${result.damageType}` : "";
+	return (
+		<div className="my-1 rounded border border-muted bg-muted/50 px-3 py-1.5 text-sm">
+			<div className="font-medium">
+				DC {result.dc} {capitalize(result.ability)} save
+				{result.source ? ` — ${result.source}` : ""}
+				{result.damage ? ` (${result.damage.total}${damageType} damage)` : ""}
+			</div>
+			<table className="mt-1 w-full text-xs">
+				<tbody>
+					{result.results.map((target) => (
+						<tr key={target.name}>
+							<td className="pr-2">{target.name}</td>
+							<td className="pr-2 font-mono text-muted-foreground">
+								{target.total === null
+									? target.effects.autoFail
+									: `${target.d20Rolls.join(" / ")} ${target.modifier >= 0 ? "+" : "−"} ${Math.abs(target.modifier)} = ${target.total}`}
+								{target.rollMode !== "normal" && ` (${target.rollMode})`}
+							</td>
+							<td className={target.success ? "pr-2 text-green-600" : "pr-2 text-red-600"}>
+								{target.legendaryResistance
+									? "saved (Legendary Resistance)"
+									: target.success
+										? "saved"
+										: "failed"}
+							</td>
+							<td className="text-right font-mono" title={target.damageAdjustment ?? undefined}>
+								{result.damage ? `−${target.damage}` : ""}
+								{target.damageAdjustment && "*"}
+							</td>
+						</tr>
+					))}
+				</tbody>
+			</table>
+		</div>
+	);
+}
+
+function AbilityCheckCard({ result }: { result: AbilityCheckResult }) {
+	return (
+		<div
+			className={`my-1 rounded border px-3 py-1.5 text-sm ${
+				result.success === true
+					? "border-green-500/50 bg-green-500/10"
+					: result.success === false
+						? "border-red-500/50 bg-red-500/10"
+						: "border-muted bg-muted/50"
+			}`}
 		>
 			{result.narrative}
 		</div>
 	);
 }
 
+function DeathSaveCard({ result }: { result: DeathSaveResult }) {
+	return (
+		<div
+			className={`my-1 rounded border px-3 py-1.5 text-sm ${
+				result.revived || result.stable
+					? "border-green-500/50 bg-green-500/10"
+					: result.dead
+						? "border-red-500/50 bg-red-500/10"
+						: "border-muted bg-muted/50"
+			}`}
+		>
+			{result.narrative}
+		</div>
+	);
+}
+
+function BossActionCard({ result }: { result: BossActionResult }) {
+	return (
+		<div className="my-1 rounded border border-amber-500/50 bg-amber-500/10 px-3 py-1.5 text-sm">
+			👑 {result.message}
+		</div>
+	);
+}
+
+function RechargeCard({ result }: { result: RechargeResult }) {
+	return (
+		<div
+			className={`my-1 rounded border px-3 py-1.5 text-sm ${
+				result.rolls.some((roll) => roll.recharged)
+					? "border-green-500/50 bg-green-500/10"
+					: "border-muted bg-muted/50"
+			}`}
+		>
+			{result.narrative}
+		</div>
+	);
+}
+
+function ConcentrationCheckCard({ check }: { check: ConcentrationCheck }) {
+	return (
+		<div
+			className={`my-1 rounded border px-3 py-1.5 text-sm ${
+				check.maintained ? "border-muted bg-muted/50" : "border-violet-500/50 bg-violet-500/10"
+			}`}
+		>
+			<div className="font-medium">
+				🧠 {check.name} {check.maintained ? "keeps" : "loses"} concentration on {check.spell}
+				{check.dc !== null && <span className="text-muted-foreground"> · DC {check.dc}</span>}
+			</div>
+			<div className="whitespace-pre-line text-xs text-muted-foreground">{check.narrative}</div>
+		</div>
+	);
+}
+
+function describePosition({ x, y }: GridPosition): string {
+	return `(${x}, ${y})`;
+}
+
+function BattlefieldCard({ result }: { result: BattlefieldResult }) {
+	if (!result.battlefield) return null;
+	const { width, height, difficultTerrain } = result.battlefield;
+	const placed = result.combatants.filter((c) => c.position);
+	return (
+		<div className="my-1 rounded border border-muted bg-muted/50 px-3 py-1.5 text-sm">
+			<div className="font-medium">
+				🗺️ Battlefield {width}×{height} squares ({width * 5}×{height * 5} ft)
+				{difficultTerrain.length > 0 && `, ${difficultTerrain.length} of difficult terrain`}
+			</div>
+			<p className="text-xs text-muted-foreground">
+				{placed.map((c) => `${c.name} ${describePosition(c.position as GridPosition)}`).join(" · ")}
+			</p>
+		</div>
+	);
+}
+
+/** The move, then each opportunity attack it provoked. */
+function MoveCard({ result }: { result: MoveResult }) {
+	const [move] = result.narrative.split(" — ");
+	return (
+		<div
+			className={`my-1 rounded border px-3 py-1.5 text-sm ${
+				result.stopped ? "border-red-500/50 bg-red-500/10" : "border-sky-500/50 bg-sky-500/10"
+			}`}
+		>
+			<div className="font-medium">🏃 {move}</div>
+			{result.opportunityAttacks.map((attack) => (
+				<div key={attack.attacker}>
+					<p className="text-xs text-muted-foreground">
+						{attack.attacker}'s opportunity attack ({attack.attack})
+					</p>
+					<AttackResultCard result={attack.result} />
+				</div>
+			))}
+		</div>
+	);
+}
+
+/** Where the area landed and who it caught, then every target's save in one table. */
+function AreaEffectCard({ result }: { result: AreaEffectResult }) {
+	return (
+		<div className="my-1 rounded border border-orange-500/50 bg-orange-500/10 px-3 py-1.5 text-sm">
+			<div className="font-medium">
+				💥 {result.source ? `${result.source} — ` : ""}
+				{result.area}
+			</div>
+			<p className="text-xs text-muted-foreground">Caught: {result.targets.join(", ")}</p>
+			<SavingThrowCard result={result} />
+		</div>
+	);
+}
+
+/** The cast, then its attack rolls or saves, with the concentration notes and slots left. */
+function SpellCastCard({ result }: { result: SpellCastResult }) {
+	const [header, ...lines] = result.narrative.split("\n");
+	return (
+		<div className="my-1 rounded border border-violet-500/50 bg-violet-500/10 px-3 py-1.5 text-sm">
+			<div className="font-medium">{header}</div>
+			{result.attacks.map((attack, i) => (
+				// biome-ignore lint/suspicious/noArrayIndexKey: rays can share a target, so order is the identity
+				<AttackResultCard key={i} result={attack} />
+			))}
+			{result.saves && <SavingThrowCard result={result.saves} />}
+			{result.attacks.length === 0 &&
+				!result.saves &&
+				lines.map((line) => <p key={line}>{line}</p>)}
+			{result.notes.map((note) => (
+				<p key={note} className="text-xs text-amber-600">
+					{note}
+				</p>
+			))}
+			<p className="text-xs text-muted-foreground">Slots: {result.slots}</p>
+		</div>
+	);
+}
+
+function hitPointPercent(hitPoints: number, maxHitPoints: number): number {
+	return Math.max(0, Math.min(100, Math.round((hitPoints / maxHitPoints) * 100)));
+}
+
+/** One HP change: the bar starts at the old value and slides to the new one. */
+function HitPointChangeBar({ change }: { change: HitPointChange }) {
+	const [hitPoints, setHitPoints] = useState(change.previousHitPoints);
+
+	useEffect(() => {
+		const frame = requestAnimationFrame(() => setHitPoints(change.hitPoints));
+		return () => cancelAnimationFrame(frame);
+	}, [change.hitPoints]);
+
+	const percent = hitPointPercent(hitPoints, change.maxHitPoints);
+	const color = percent > 50 ? "bg-green-500" : percent > 25 ? "bg-yellow-500" : "bg-red-500";
+	const label =
+		change.kind === "damage"
+			? `−${change.amount}`
+			: change.kind === "healing"
+				? `+${change.hitPoints - change.previousHitPoints}`
+				: `+${change.temporaryHitPoints} temp`;
+
+	return (
+		<div className="my-1 flex items-center gap-2 text-xs">
+			<span className="font-medium">{change.name}</span>
+			<div className="h-1.5 w-24 overflow-hidden rounded bg-muted">
+				<div
+					className={`h-full transition-all duration-700 ${color}`}
+					style={{ width: `${percent}%` }}
+				/>
+			</div>
+			<span className="font-mono">
+				{change.hitPoints}/{change.maxHitPoints} HP
+				{change.temporaryHitPoints > 0 && ` (+${change.temporaryHitPoints})`}
+			</span>
+			<span className={change.kind === "damage" ? "text-red-500" : "text-green-600"}>{label}</span>
+			{!change.isAlive && <span>💀 down</span>}
+			{change.isAlive && change.hitPoints === 0 && <span>😵 unconscious</span>}
+		</div>
+	);
+}
+
+function TurnOrderStrip({ order }: { order: TurnOrder }) {
+	return (
+		<div className="mb-3 flex items-center gap-2 overflow-x-auto">
+			<span className="shrink-0 text-xs font-medium text-muted-foreground">
+				Round {order.round}
+			</span>
+			<ol aria-label="Turn order" className="flex gap-2">
+				{order.combatants.map((combatant, i) => (
+					<li
+						key={combatant.name}
+						aria-current={i === order.turnIndex ? "true" : undefined}
+						className={`flex shrink-0 flex-col rounded border px-2 py-1 text-xs ${
+							i === order.turnIndex ? "border-primary bg-primary/10" : "bg-muted/50"
+						} ${combatant.isAlive ? "" : "opacity-40 line-through"}`}
+					>
+						<span className="font-medium">{combatant.name}</span>
+						<span className="text-muted-foreground">
+							🎲 {combatant.initiative ?? "–"} · {combatant.hitPoints}/{combatant.maxHitPoints} HP
+						</span>
+						{combatant.position && (
+							<span className="text-muted-foreground">
+								📍 {describePosition(combatant.position)}
+							</span>
+						)}
+						{combatant.legendaryActions != null && (
+							<span className="text-amber-600">👑 {combatant.legendaryActions} legendary</span>
+						)}
+						{combatant.conditions && combatant.conditions.length > 0 && (
+							<span className="text-amber-600">{combatant.conditions.join(", ")}</span>
+						)}
+						{combatant.deathSaves && (
+							<span className="text-red-600">
+								{combatant.deathSaves.stable
+									? "stable"
+									: `death saves ${combatant.deathSaves.successes}✓ ${combatant.deathSaves.failures}✗`}
+							</span>
+						)}
+					</li>
+				))}
+			</ol>
+		</div>
+	);
+}
+
 function ToolResultDisplay({ data }: { data: ToolResult }) {
 	switch (data.toolName) {
 		case "generateStatBlock":
 			return <StatBlockCard stat={data.result as StatBlock} />;
+		case "lookupMonster": {
+			const { creature, monster } = data.result as MonsterLookupResult;
+			if (!creature || !monster) return null;
+			const subtitle = `${monster.size} ${monster.creatureType}, CR ${formatChallengeRating(monster.challengeRating)} (SRD)`;
+			return <StatBlockCard stat={creature} subtitle={subtitle} />;
+		}
+		case "loadCreature": {
+			const { creature } = data.result as SavedCreatureResult;
+			if (!creature) return null;
+			return <StatBlockCard stat={creature} subtitle="From your creature library" />;
+		}
+		case "buildCharacter": {
+			const { creature, character } = data.result as CharacterBuildResult;
+			const subclass = character.subclass ? ` (${character.subclass})` : "";
+			const subtitle = `Level ${character.level} ${character.race} ${character.className}${subclass}`;
+			return <StatBlockCard stat={creature} subtitle={subtitle} />;
+		}
 		case "rollDice":
 			return <DiceRollInline result={data.result as DiceResult} />;
 		case "resolveAttack":
 			return <AttackResultCard result={data.result as AttackResult} />;
+		case "resolveSavingThrow":
+			return <SavingThrowCard result={data.result as SavingThrowResult} />;
+		case "areaEffect":
+			return <AreaEffectCard result={data.result as AreaEffectResult} />;
+		case "abilityCheck":
+			return <AbilityCheckCard result={data.result as AbilityCheckResult} />;
+		case "castSpell":
+			return <SpellCastCard result={data.result as SpellCastResult} />;
+		case "deathSave":
+			return <DeathSaveCard result={data.result as DeathSaveResult} />;
+		case "setBattlefield":
+			return <BattlefieldCard result={data.result as BattlefieldResult} />;
+		case "moveCombatant":
+			return <MoveCard result={data.result as MoveResult} />;
+		case "useLegendaryAction":
+		case "useLairAction":
+		case "useRechargeAbility":
+			return <BossActionCard result={data.result as BossActionResult} />;
+		case "rollRecharge":
+			return <RechargeCard result={data.result as RechargeResult} />;
 		default:
 			return null;
 	}
@@ -167,6 +836,8 @@ export function ArenaPage({ arenaId }: { arenaId: string }) {
 	const [status, setStatus] = useState<CombatStatus>("setup");
 	const [error, setError] = useState<string | null>(null);
 	const [isStreaming, setIsStreaming] = useState(false);
+	const [revealedSeed, setRevealedSeed] = useState<string | null>(null);
+	const [turnOrder, setTurnOrder] = useState<TurnOrder | null>(null);
 	const hasStartedRef = useRef(false);
 	const scrollRef = useRef<HTMLDivElement>(null);
 
@@ -220,6 +891,88 @@ export function ArenaPage({ arenaId }: { arenaId: string }) {
 
 		eventSource.addEventListener("tool-result", (e) => {
 			const data = JSON.parse(e.data);
+			if (data.toolName === "nextTurn") {
+				const { round, turnIndex, combatants } = data.result as TurnOrder;
+				// Turns passing can also end conditions
+				setTurnOrder(
+					(prev) =>
+						prev && {
+							...prev,
+							round,
+							turnIndex,
+							combatants: prev.combatants.map((c) => {
+								const next = combatants?.find((n) => n.name === c.name);
+								return {
+									...c,
+									conditions: next?.conditions ?? c.conditions,
+									deathSaves: next ? next.deathSaves : c.deathSaves,
+									legendaryActions: next ? next.legendaryActions : c.legendaryActions,
+								};
+							}),
+						},
+				);
+			}
+			if (data.toolName === "deathSave") {
+				const { name, deathSaves, hitPoints, dead } = data.result as DeathSaveResult;
+				setTurnOrder(
+					(prev) =>
+						prev && {
+							...prev,
+							combatants: prev.combatants.map((c) =>
+								c.name === name ? { ...c, deathSaves, hitPoints, isAlive: !dead } : c,
+							),
+						},
+				);
+			}
+			if (data.toolName === "useLegendaryAction") {
+				const { name, remaining } = data.result as BossActionResult & { remaining: number };
+				setTurnOrder(
+					(prev) =>
+						prev && {
+							...prev,
+							combatants: prev.combatants.map((c) =>
+								c.name === name ? { ...c, legendaryActions: remaining } : c,
+							),
+						},
+				);
+			}
+			if (data.toolName === "setBattlefield") {
+				const { combatants } = data.result as BattlefieldResult;
+				setTurnOrder(
+					(prev) =>
+						prev && {
+							...prev,
+							combatants: prev.combatants.map((c) => ({
+								...c,
+								position: combatants.find((n) => n.name === c.name)?.position ?? c.position,
+							})),
+						},
+				);
+			}
+			if (data.toolName === "moveCombatant") {
+				const { name, to } = data.result as MoveResult;
+				setTurnOrder(
+					(prev) =>
+						prev && {
+							...prev,
+							combatants: prev.combatants.map((c) =>
+								c.name === name ? { ...c, position: to } : c,
+							),
+						},
+				);
+			}
+			if (data.toolName === "applyCondition" || data.toolName === "removeCondition") {
+				const { target, conditions } = data.result as ConditionChange;
+				setTurnOrder(
+					(prev) =>
+						prev && {
+							...prev,
+							combatants: prev.combatants.map((c) =>
+								c.name === target ? { ...c, conditions } : c,
+							),
+						},
+				);
+			}
 			setStreamItems((prev) => [
 				...prev,
 				{
@@ -230,9 +983,52 @@ export function ArenaPage({ arenaId }: { arenaId: string }) {
 			]);
 		});
 
+		eventSource.addEventListener("initiative", (e) => {
+			const { round, turnIndex, combatants } = JSON.parse(e.data) as TurnOrder;
+			setTurnOrder({ round, turnIndex, combatants });
+		});
+
+		eventSource.addEventListener("hp-change", (e) => {
+			const change = JSON.parse(e.data) as HitPointChange;
+			setTurnOrder(
+				(prev) =>
+					prev && {
+						...prev,
+						combatants: prev.combatants.map((c) =>
+							c.name === change.name
+								? { ...c, hitPoints: change.hitPoints, isAlive: change.isAlive }
+								: c,
+						),
+					},
+			);
+			setStreamItems((prev) => [
+				...prev,
+				{ type: "hp-change" as const, key: nextKey("hp"), change },
+			]);
+		});
+
+		eventSource.addEventListener("concentration", (e) => {
+			const check = JSON.parse(e.data) as ConcentrationCheck;
+			setTurnOrder(
+				(prev) =>
+					prev && {
+						...prev,
+						combatants: prev.combatants.map((c) => {
+							const ended = check.ended.find((change) => change.target === c.name);
+							return ended ? { ...c, conditions: ended.conditions } : c;
+						}),
+					},
+			);
+			setStreamItems((prev) => [
+				...prev,
+				{ type: "concentration" as const, key: nextKey("conc"), check },
+			]);
+		});
+
 		eventSource.addEventListener("status", (e) => {
 			const data = JSON.parse(e.data);
 			setStatus(data.status);
+			if (data.seed) setRevealedSeed(data.seed);
 			if (data.status === "completed") {
 				eventSource.close();
 				setIsStreaming(false);
@@ -299,6 +1095,10 @@ export function ArenaPage({ arenaId }: { arenaId: string }) {
 	}, [streamItems]);
 
 	const arenaData = arena && "data" in arena ? arena.data : null;
+	const seedCommitment = arenaData
+		? (arenaData as { seedCommitment?: string | null }).seedCommitment
+		: null;
+	const seed = revealedSeed ?? (arenaData ? (arenaData as { seed?: string | null }).seed : null);
 	const scenarioName = arenaData
 		? (arenaData as { name: string; description?: string }).description ||
 			(arenaData as { name: string }).name
@@ -311,6 +1111,30 @@ export function ArenaPage({ arenaId }: { arenaId: string }) {
 		error: { label: "Error", variant: "destructive" as const },
 	}[status];
 
+	// A finished fight's order comes back from the arena row; a live one from the stream
+	const savedOrder = arenaData as {
+		round?: number;
+		turnIndex?: number;
+		combatants?: StatBlock[];
+	} | null;
+	const shownOrder: TurnOrder | null =
+		turnOrder ??
+		(savedOrder?.round && savedOrder.combatants
+			? {
+					round: savedOrder.round,
+					turnIndex: savedOrder.turnIndex ?? 0,
+					combatants: savedOrder.combatants.map((c) => ({
+						name: c.name,
+						side: c.side ?? null,
+						initiative: c.initiative ?? null,
+						hitPoints: c.hitPoints,
+						maxHitPoints: c.maxHitPoints,
+						conditions: c.conditions?.map((condition) => condition.name),
+						isAlive: c.isAlive ?? true,
+					})),
+				}
+			: null);
+
 	const hasContent = streamItems.length > 0;
 
 	return (
@@ -338,9 +1162,25 @@ export function ArenaPage({ arenaId }: { arenaId: string }) {
 						<p className="text-sm text-muted-foreground">
 							<span className="font-medium text-foreground">Scenario:</span> {scenarioName}
 						</p>
+						{seedCommitment && (
+							<p className="mt-1 truncate font-mono text-xs text-muted-foreground">
+								🔒 Seed commitment {seedCommitment}
+								{status === "completed" && seed && (
+									<>
+										{" "}
+										· seed {seed} ·{" "}
+										<a className="underline" href={`/api/arenas/${arenaId}/verify`}>
+											verify rolls
+										</a>
+									</>
+								)}
+							</p>
+						)}
 					</div>
 				)}
 
+				{shownOrder && <TurnOrderStrip order={shownOrder} />}
+
 				{/* Combat log */}
 				<Card className="flex-1 overflow-hidden">
 					<ScrollArea className="h-full p-6" ref={scrollRef}>
@@ -358,6 +1198,10 @@ export function ArenaPage({ arenaId }: { arenaId: string }) {
 								<div key={item.key} className="prose prose-sm dark:prose-invert max-w-none">
 									<Markdown>{item.content}</Markdown>
 								</div>
+							) : item.type === "hp-change" ? (
+								<HitPointChangeBar key={item.key} change={item.change} />
+							) : item.type === "concentration" ? (
+								<ConcentrationCheckCard key={item.key} check={item.check} />
 							) : (
 								<ToolResultDisplay key={item.key} data={item.data} />
 							),
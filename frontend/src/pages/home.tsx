@@ -1,6 +1,6 @@
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { MessageSquare, Plus, Swords } from "lucide-react";
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { Layout } from "@/components/layout";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
@@ -8,8 +8,70 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Input } from "@/components/ui/input";
 import { api } from "@/lib/api";
 
+type EncounterDifficulty = "trivial" | "easy" | "medium" | "hard" | "deadly";
+
+const DIFFICULTY_VARIANTS: Record<
+	EncounterDifficulty,
+	"outline" | "secondary" | "default" | "destructive"
+> = {
+	trivial: "outline",
+	easy: "secondary",
+	medium: "secondary",
+	hard: "default",
+	deadly: "destructive",
+};
+
+/** The scenario text once it has stopped changing for `delay` ms */
+function useDebouncedValue(value: string, delay: number) {
+	const [debounced, setDebounced] = useState(value);
+	useEffect(() => {
+		const timer = setTimeout(() => setDebounced(value), delay);
+		return () => clearTimeout(timer);
+	}, [value, delay]);
+	return debounced;
+}
+
+/** DMG difficulty for the scenario as typed, so a fight can be tuned before it runs. */
+function EncounterRating({ scenario }: { scenario: string }) {
+	const { data } = useQuery({
+		queryKey: ["encounter-assessment", scenario],
+		queryFn: async () => {
+			const res = await api.api.encounters.assess.$post({ json: { scenario } });
+			return res.json();
+		},
+		enabled: scenario.length > 0,
+	});
+
+	if (!data) return null;
+	if (!("data" in data) || !data.data) {
+		return (
+			<p className="mt-3 text-sm text-muted-foreground">
+				Difficulty: {"error" in data ? String(data.error) : "unknown"}
+			</p>
+		);
+	}
+
+	const { difficulty, adjustedXp, thresholds, unresolved } = data.data;
+	return (
+		<div className="mt-3 space-y-1 text-sm text-muted-foreground">
+			<div className="flex items-center gap-2">
+				<span>Difficulty:</span>
+				<Badge variant={DIFFICULTY_VARIANTS[difficulty]}>{difficulty}</Badge>
+				<span>
+					{adjustedXp.toLocaleString()} adjusted XP (easy {thresholds.easy.toLocaleString()} ·
+					medium {thresholds.medium.toLocaleString()} · hard {thresholds.hard.toLocaleString()} ·
+					deadly {thresholds.deadly.toLocaleString()})
+				</span>
+			</div>
+			{unresolved.length > 0 && <p className="text-xs">Not counted: {unresolved.join(", ")}</p>}
+		</div>
+	);
+}
+
 export function HomePage() {
 	const [prompt, setPrompt] = useState("");
+	const [verifiable, setVerifiable] = useState(false);
+	const scenario = useDebouncedValue(prompt.trim(), 500);
 	const queryClient = useQueryClient();
 
 	const { data: arenas, isLoading } = useQuery({
@@ -23,7 +85,7 @@ export function HomePage() {
 	const createArena = useMutation({
 		mutationFn: async (message: string) => {
 			const res = await api.api.arenas.$post({
-				json: { message },
+				json: { message, verifiable },
 			});
 			return res.json();
 		},
@@ -85,6 +147,16 @@ export function HomePage() {
 								)}
 							</Button>
 						</form>
+						<EncounterRating scenario={scenario} />
+						<label className="mt-3 flex items-center gap-2 text-sm text-muted-foreground">
+							<input
+								type="checkbox"
+								checked={verifiable}
+								onChange={(e) => setVerifiable(e.target.checked)}
+								disabled={createArena.isPending}
+							/>
+							Verifiable dice — commit to the seed now, reveal it when the fight ends
+						</label>
 					</CardContent>
 				</Card>
 